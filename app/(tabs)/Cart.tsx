@@ -1,33 +1,55 @@
 // app/Cart.tsx
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import {
   View,
   Text,
   TouchableOpacity,
   StyleSheet,
   ScrollView,
-  ActivityIndicator,
+  TextInput,
 } from "react-native";
-import { useNavigation } from "@react-navigation/native";
+import { useNavigation, useFocusEffect } from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
 import { Button } from "@/components/ui/button";
 import NavigationBar from "@/components/NavigationBar";
+import PriceSummary from "@/components/PriceSummary";
+import StockIssues from "@/components/StockIssues";
+import PriceChanges from "@/components/PriceChanges";
+import SubstitutionPicker from "@/components/SubstitutionPicker";
+import NoteDialog from "@/components/NoteDialog";
+import LocationChangeSummary from "@/components/LocationChangeSummary";
+import OrderingRuleNotices from "@/components/OrderingRuleNotices";
 import CartItem, { CartItemType } from "@/components/CartItem";
+import {
+  useCart,
+  getCart,
+  planLocationMove,
+  moveCartToLocation,
+  LocationMove,
+} from "@/hooks/CartUtils";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { supabase } from "@/supabaseClient";
-import uuid from "react-native-uuid";
+import { readPickupSlot, formatPickupWindow } from "@/hooks/CheckoutUtils";
+import {
+  quoteCart,
+  findPriceChanges,
+  PriceBreakdown,
+  PriceChange,
+  PROMO_ERRORS,
+} from "@/hooks/PricingUtils";
+import { findStockIssues, StockIssue } from "@/hooks/InventoryUtils";
+import { quantityStep, roundQuantity, formatQuantity } from "@/hooks/QuantityUtils";
+import {
+  OrderingRules,
+  fetchOrderingRules,
+  fetchPurchaseLimits,
+  checkOrderingRules,
+  hasViolations,
+  lineLimit,
+} from "@/hooks/OrderingRulesUtils";
 import { Toast, useToast } from "@/hooks/use-toast";
 
-interface PaymentType {
-  id: string;
-  card_type: string;
-  last_four: string;
-  expiry_date: string;
-  card_holder_name: string;
-  is_default: boolean;
-}
-
 const Cart: React.FC = () => {
   const navigation = useNavigation();
   const { ToastContainer } = useToast();
@@ -35,18 +57,38 @@ const Cart: React.FC = () => {
   // Theme primary color pulled from your DB
   const [primary, setPrimary] = useState<string>("#16a34a");
 
-  // ... existing state ...
-  const [cart, setCart] = useState<CartItemType[]>([]);
+  const {
+    cart,
+    updateQuantity,
+    removeItem,
+    setSubstitution,
+    setLineNote,
+    acceptPrices,
+    clearCart,
+  } = useCart();
   const [subtotal, setSubtotal] = useState(0);
   const [pickupTime, setPickupTime] = useState<string>("");
-
-  const [payments, setPayments] = useState<PaymentType[]>([]);
-  const [selectedPaymentId, setSelectedPaymentId] = useState<string | null>(null);
-  const [loadingPayments, setLoadingPayments] = useState(true);
-
-  const tax        = +(subtotal * 0.08).toFixed(2);
-  const serviceFee = 2.0;
-  const total      = +(subtotal + tax + serviceFee).toFixed(2);
+  const [pickupMinutes, setPickupMinutes] = useState<number | undefined>(undefined);
+  const [pickupZone, setPickupZone] = useState<string | undefined>(undefined);
+  // bumped whenever the cart comes back into view so its checks rerun
+  const [focusCount, setFocusCount] = useState(0);
+
+  const [pricing, setPricing] = useState<PriceBreakdown | null>(null);
+  const [promoInput, setPromoInput] = useState("");
+  const [promoCode, setPromoCode] = useState<string | null>(null);
+  const [stockIssues, setStockIssues] = useState<StockIssue[]>([]);
+  const [priceChanges, setPriceChanges] = useState<PriceChange[]>([]);
+  const [locationId, setLocationId] = useState<string | null>(null);
+  const [editingItem, setEditingItem] = useState<CartItemType | null>(null);
+  const [noteItem, setNoteItem] = useState<CartItemType | null>(null);
+  const [orderNote, setOrderNote] = useState("");
+  const [editingOrderNote, setEditingOrderNote] = useState(false);
+  // set while the customer reviews moving the cart to a new location
+  const [locationMove, setLocationMove] = useState<LocationMove | null>(null);
+  const [locationName, setLocationName] = useState("");
+  const [previousLocation, setPreviousLocation] = useState<{ id: string; name: string } | null>(null);
+  const [orderingRules, setOrderingRules] = useState<OrderingRules | null>(null);
+  const [purchaseLimits, setPurchaseLimits] = useState<Record<string, number>>({});
 
   // Fetch your store's theme.primary once on mount
   useEffect(() => {
@@ -64,27 +106,31 @@ const Cart: React.FC = () => {
     })();
   }, []);
 
-  // 1) Clear cart if location changed
+  // 1) If the location changed, offer to carry the cart over
   useEffect(() => {
     (async () => {
       try {
         const sel = await AsyncStorage.getItem("selectedLocation");
         const currentLocObj = sel ? JSON.parse(sel) : null;
         const currentLocId = currentLocObj?.id ?? null;
+        setLocationId(currentLocId);
         const savedCartLocId = await AsyncStorage.getItem("cartLocationId");
-        const savedCartRaw = await AsyncStorage.getItem("cart");
-        const savedCartArray: CartItemType[] = savedCartRaw
-          ? JSON.parse(savedCartRaw)
-          : [];
+        const savedCartArray: CartItemType[] = await getCart();
 
         if (
           savedCartArray.length > 0 &&
           savedCartLocId &&
+          currentLocId &&
           savedCartLocId !== currentLocId
         ) {
-          setCart([]);
-          await AsyncStorage.removeItem("cart");
-          Toast.show({ type: "info", text1: "Location changed – cart was cleared." });
+          const { data: prev } = await supabase
+            .from("locations")
+            .select("id, name")
+            .eq("id", savedCartLocId)
+            .maybeSingle();
+          setPreviousLocation(prev ?? null);
+          setLocationName(currentLocObj?.name ?? "this location");
+          setLocationMove(await planLocationMove(savedCartArray, currentLocId));
         }
       } catch (err) {
         console.error("Error checking location change:", err);
@@ -92,186 +138,173 @@ const Cart: React.FC = () => {
     })();
   }, []);
 
-  // 2) Load cart from storage
-  useEffect(() => {
-    (async () => {
-      try {
-        const saved = await AsyncStorage.getItem("cart");
-        if (saved) setCart(JSON.parse(saved));
-      } catch (e) {
-        console.error("Error loading cart:", e);
-      }
-    })();
-  }, []);
-
-  // 3) Recalculate subtotal
-  useEffect(() => {
-    setSubtotal(cart.reduce((sum, i) => sum + i.price * i.quantity, 0));
-  }, [cart]);
+  const handleConfirmMove = async () => {
+    if (!locationMove) return;
+    const { carried, unavailable } = locationMove;
+    setLocationMove(null);
+    await moveCartToLocation(locationMove);
+    Toast.show({
+      type: "success",
+      text1: `Moved ${carried.length} item${carried.length === 1 ? "" : "s"} to ${locationName}`,
+      text2: unavailable.length ? `${unavailable.length} unavailable item(s) removed.` : undefined,
+    });
+  };
 
-  // 4) Load pickup time
-  useEffect(() => {
-    (async () => {
-      const t = await AsyncStorage.getItem("selectedPickupTime");
-      if (t) setPickupTime(t);
-    })();
-  }, []);
+  // switch back to the location the cart was built at, leaving it intact
+  const handleKeepPrevious = async () => {
+    setLocationMove(null);
+    if (!previousLocation) return;
+    await AsyncStorage.setItem("selectedLocation", JSON.stringify(previousLocation));
+    await AsyncStorage.setItem("location_id", previousLocation.id);
+    setLocationId(previousLocation.id);
+    Toast.show({ type: "info", text1: `Shopping at ${previousLocation.name}` });
+  };
 
-  // 5) Load payment methods
+  // 2) Recalculate subtotal, check live stock, prices and the store's
+  //    ordering rules and ask the pricing engine for taxes & fees
   useEffect(() => {
+    setSubtotal(cart.reduce((sum, i) => sum + i.price * i.quantity, 0));
+    if (cart.length === 0) {
+      setPricing(null);
+      setStockIssues([]);
+      setPriceChanges([]);
+      return;
+    }
+    // a newer cart or promo code supersedes this run; its late replies are dropped
+    let cancelled = false;
     (async () => {
-      const { data: { user }, error: authErr } = await supabase.auth.getUser();
-      if (!authErr && user) {
-        const { data, error } = await supabase
-          .from<PaymentType>("payments")
-          .select("id,card_type,last_four,expiry_date,card_holder_name,is_default")
-          .eq("user_id", user.id)
-          .order("is_default", { ascending: false });
-
-        if (!error && data) {
-          setPayments(data);
-          const def = data.find((p) => p.is_default) ?? data[0];
-          setSelectedPaymentId(def?.id ?? null);
-        }
+      const sel = await AsyncStorage.getItem("selectedLocation");
+      const locId = sel ? JSON.parse(sel)?.id : null;
+      if (!locId) return;
+      const [issues, changes, rules, limits, slot] = await Promise.all([
+        findStockIssues(cart, locId),
+        findPriceChanges(cart, locId),
+        fetchOrderingRules(locId),
+        fetchPurchaseLimits(cart, locId),
+        readPickupSlot(),
+      ]);
+      if (cancelled) return;
+      setStockIssues(issues);
+      setPriceChanges(changes);
+      setOrderingRules(rules);
+      setPurchaseLimits(limits);
+      const quote = await quoteCart(locId, cart, slot?.time, promoCode);
+      if (cancelled) return;
+      if (quote?.promo_error && promoCode) {
+        Toast.show({
+          type: "error",
+          text1: PROMO_ERRORS[quote.promo_error] ?? "That promo code can't be used.",
+        });
+        setPromoCode(null);
+        return;
       }
-      setLoadingPayments(false);
+      setPricing(quote);
     })();
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [cart, pickupTime, promoCode, focusCount]);
+
+  // 3) Load pickup time and the vehicle / parking note whenever the cart
+  //    is shown; checkout may have used or changed them
+  useFocusEffect(
+    useCallback(() => {
+      (async () => {
+        setPickupTime((await AsyncStorage.getItem("selectedPickupTime")) ?? "");
+        const slot = await readPickupSlot();
+        setPickupMinutes(slot?.minutes);
+        setPickupZone(slot?.time_zone);
+        setOrderNote((await AsyncStorage.getItem("orderNote")) ?? "");
+        setFocusCount((n) => n + 1);
+      })();
+    }, [])
+  );
 
-  // Format pickup time
-  const formattedPickupTime = (() => {
-    if (!pickupTime) return "No pickup time selected";
-    const start = new Date(pickupTime);
-    const end = new Date(start.getTime() + 60 * 60 * 1000);
-    return `${start.toLocaleString(undefined, {
-      weekday: "long",
-      month:   "long",
-      day:     "numeric",
-      hour:    "numeric",
-      minute:  "numeric",
-      hour12:  true,
-    }).replace(" at ", ", ")} - ${end.toLocaleTimeString(undefined, {
-      hour:   "numeric",
-      minute: "numeric",
-      hour12: true,
-    })}`;
-  })();
-
-  // Persist cart helper
-  const persist = async (newCart: CartItemType[]) => {
-    setCart(newCart);
-    await AsyncStorage.setItem("cart", JSON.stringify(newCart));
+  const saveOrderNote = async (note: string) => {
+    setOrderNote(note);
+    if (note) await AsyncStorage.setItem("orderNote", note);
+    else await AsyncStorage.removeItem("orderNote");
+  };
 
-    const sel = await AsyncStorage.getItem("selectedLocation");
-    const currentLocObj = sel ? JSON.parse(sel) : null;
-    const currentLocId = currentLocObj?.id ?? null;
+  const formattedPickupTime = pickupTime
+    ? formatPickupWindow(pickupTime, pickupMinutes, pickupZone)
+    : "No pickup time selected";
 
-    if (newCart.length > 0 && currentLocId) {
-      await AsyncStorage.setItem("cartLocationId", currentLocId);
-    } else {
-      await AsyncStorage.removeItem("cartLocationId");
+  // Handlers
+  const handleIncrement = (id: string) => {
+    const item = cart.find(i => i.id === id);
+    if (!item) return;
+    const next = roundQuantity(item.quantity + quantityStep(item));
+    if (item.stock_quantity != null && next > item.stock_quantity) {
+      Toast.show({
+        type: "info",
+        text1: `Only ${formatQuantity(item, item.stock_quantity)} ${item.name} available.`,
+      });
+      return;
     }
+    const limit = lineLimit(item, orderingRules, purchaseLimits);
+    if (limit != null && next > limit) {
+      Toast.show({
+        type: "info",
+        text1: `Limit ${formatQuantity(item, limit)} ${item.name} per order.`,
+      });
+      return;
+    }
+    updateQuantity(id, next);
   };
 
-  // Handlers
-  const handleIncrement = (id: string) =>
-    persist(cart.map(i => i.id === id ? { ...i, quantity: i.quantity + 1 } : i));
-
-  const handleDecrement = (id: string) =>
-    persist(cart.map(i => i.id === id && i.quantity > 1 ? { ...i, quantity: i.quantity - 1 } : i));
+  const handleDecrement = (id: string) => {
+    const item = cart.find(i => i.id === id);
+    if (!item) return;
+    const next = roundQuantity(item.quantity - quantityStep(item));
+    if (next >= quantityStep(item)) updateQuantity(id, next);
+  };
 
   const handleDelete = async (id: string) => {
-    const updated = cart.filter(i => i.id !== id);
-    await persist(updated);
+    await removeItem(id);
     Toast.show({ type: "success", text1: "Item removed from cart" });
   };
 
   const handleClearCart = async () => {
-    setCart([]);
-    await AsyncStorage.removeItem("cart");
-    await AsyncStorage.removeItem("cartLocationId");
+    await clearCart();
     Toast.show({ type: "success", text1: "Cart cleared" });
   };
 
-  // Place order logic
-  const placeOrder = async () => {
-    if (!selectedPaymentId) {
-      Toast.show({ type: "error", text1: "Please select a payment method." });
-      return;
-    }
-    const { data: { user } } = await supabase.auth.getUser();
-    const sel = await AsyncStorage.getItem("selectedLocation");
-    const locationObj = sel ? JSON.parse(sel) : null;
-    const locationId = locationObj?.id ?? null;
-
-    const subtotalCalc = cart.reduce((sum, i) => sum + i.price * i.quantity, 0);
-    const taxCalc      = +(subtotalCalc * 0.08).toFixed(2);
-    const serviceCalc  = 2.0;
-    const totalCalc    = +(subtotalCalc + taxCalc + serviceCalc).toFixed(2);
-    const barcode      = uuid.v4() as string;
-
-    const { data: od, error: oe } = await supabase
-      .from("orders")
-      .insert([{
-        user_id:      user!.id,
-        location_id:  locationId,
-        total_amount: totalCalc,
-        service_fee:  serviceCalc,
-        tax:          taxCalc,
-        status:       "Pending",
-        barcode,
-        payment_id:   selectedPaymentId,
-        created_at:   new Date().toISOString(),
-        pickup_time:  pickupTime,
-      }])
-      .select("id");
-
-    if (oe || !od?.length) {
-      console.error("Order creation error:", oe);
-      Toast.show({ type: "error", text1: "Failed to create order." });
-      return;
-    }
-    const orderId = od[0].id;
-
-    // Verify product availability
-    const cartIds = cart.map(i => i.id);
-    const { data: validProducts } = await supabase
-      .from("products")
-      .select("id")
-      .in("id", cartIds);
-
-    if ((validProducts?.length ?? 0) !== cart.length) {
-      Toast.show({ type: "error", text1: "Some items are no longer available." });
-      return;
-    }
+  const handleAcceptPrices = async () => {
+    await acceptPrices(priceChanges.map((c) => ({ id: c.id, price: c.newPrice })));
+    setPriceChanges([]);
+    Toast.show({ type: "success", text1: "Cart updated to current prices" });
+  };
 
-    // Insert order items
-    const items = cart.map(i => ({
-      order_id:   orderId,
-      product_id: i.id,
-      quantity:   i.quantity,
-      unit_price: i.price,
-    }));
-    const { error: oie } = await supabase.from("order_items").insert(items);
-    if (oie) {
-      console.error("Items insert error:", oie);
-      Toast.show({ type: "error", text1: "Failed to insert items." });
-      return;
-    }
+  const handleApplyPromo = () => {
+    const code = promoInput.trim();
+    if (!code) return;
+    setPromoCode(code.toUpperCase());
+  };
 
-    // Success: clear cart & navigate
-    setCart([]);
-    await AsyncStorage.removeItem("cart");
-    await AsyncStorage.removeItem("cartLocationId");
-    Toast.show({ type: "success", text1: "Order placed successfully!" });
-    navigation.navigate("OrderDetails", { orderId });
+  const handleRemovePromo = () => {
+    setPromoCode(null);
+    setPromoInput("");
   };
 
+  const ruleViolations = checkOrderingRules(cart, subtotal, orderingRules, purchaseLimits);
+
   const handleCheckout = async () => {
+    if (stockIssues.length > 0) {
+      Toast.show({ type: "error", text1: "Please resolve the items marked as unavailable." });
+      return;
+    }
     if (cart.length === 0) {
       Toast.show({ type: "error", text1: "Your cart is empty." });
       return;
     }
+    if (hasViolations(ruleViolations)) {
+      Toast.show({
+        type: "error",
+        text1: ruleViolations.paused ?? "Please fix the items marked in your cart.",
+      });
+      return;
+    }
     const { data: { user }, error: authErr } = await supabase.auth.getUser();
     if (authErr || !user) {
       Toast.show({ type: "error", text1: "You must be logged in to place an order." });
@@ -282,7 +315,15 @@ const Cart: React.FC = () => {
       Toast.show({ type: "error", text1: "Please select a location before placing an order." });
       return;
     }
-    await placeOrder();
+    // prices may have moved while the cart sat open
+    const changes = await findPriceChanges(cart, JSON.parse(sel)?.id);
+    if (changes.length > 0) {
+      setPriceChanges(changes);
+      Toast.show({ type: "error", text1: "Some prices changed. Please review and accept them." });
+      return;
+    }
+    // pickup, contact and payment are confirmed step by step from here
+    navigation.navigate("Checkout", { promoCode });
   };
 
   return (
@@ -310,8 +351,35 @@ const Cart: React.FC = () => {
                   Pickup: {formattedPickupTime}
                 </Text>
               </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.orderNote}
+                onPress={() => setEditingOrderNote(true)}
+              >
+                <Feather name="truck" size={14} color="#6b7280" />
+                <Text style={styles.orderNoteText} numberOfLines={2}>
+                  {orderNote || "Add vehicle & parking notes"}
+                </Text>
+              </TouchableOpacity>
             </View>
 
+            {/* Out-of-stock resolution */}
+            <StockIssues
+              issues={stockIssues}
+              onReduce={updateQuantity}
+              onRemove={removeItem}
+            />
+
+            {/* Price changes awaiting acknowledgement */}
+            <PriceChanges changes={priceChanges} onAccept={handleAcceptPrices} />
+
+            {/* Minimum order, item caps, purchase limits and busy mode */}
+            <OrderingRuleNotices
+              violations={ruleViolations}
+              rules={orderingRules}
+              cart={cart}
+              onReduce={updateQuantity}
+            />
+
             {/* Cart Items */}
             <View style={styles.cartItems}>
               {cart.map(item => (
@@ -321,69 +389,76 @@ const Cart: React.FC = () => {
                   onIncrement={handleIncrement}
                   onDecrement={handleDecrement}
                   onDelete={handleDelete}
+                  onEditSubstitution={setEditingItem}
+                  onEditNote={setNoteItem}
+                  priceChange={priceChanges.find((c) => c.id === item.id)}
                 />
               ))}
             </View>
 
-            {/* Payment Methods */}
-            <View style={styles.paymentSection}>
-              <Text style={styles.sectionTitle}>Payment Method</Text>
-              {loadingPayments ? (
-                <ActivityIndicator />
-              ) : payments.length > 0 ? (
-                payments.map(p => (
-                  <TouchableOpacity
-                    key={p.id}
-                    style={[
-                      styles.paymentOption,
-                      selectedPaymentId === p.id && {
-                        borderColor: primary,
-                        backgroundColor: `${primary}22`,
-                      },
-                    ]}
-                    onPress={() => setSelectedPaymentId(p.id)}
-                  >
-                    <Text>
-                      {p.card_type} ••••{p.last_four} (Exp {p.expiry_date})
-                      {p.is_default ? "  ·  Default" : ""}
-                    </Text>
-                  </TouchableOpacity>
-                ))
+            {/* Promo Code */}
+            <View style={styles.promoSection}>
+              <Text style={styles.sectionTitle}>Promo Code</Text>
+              {promoCode ? (
+                <View style={styles.promoApplied}>
+                  <Text style={[styles.promoAppliedText, { color: primary }]}>
+                    {promoCode} applied
+                  </Text>
+                  <Button variant="ghost" size="sm" onPress={handleRemovePromo}>
+                    Remove
+                  </Button>
+                </View>
               ) : (
-                <Button onPress={() => navigation.navigate("PaymentSettings")}>
-                  Add Payment Method
-                </Button>
+                <View style={styles.promoRow}>
+                  <TextInput
+                    style={styles.promoInput}
+                    placeholder="Enter code"
+                    value={promoInput}
+                    onChangeText={setPromoInput}
+                    autoCapitalize="characters"
+                    autoCorrect={false}
+                  />
+                  <Button
+                    style={[styles.promoButton, { backgroundColor: primary }]}
+                    onPress={handleApplyPromo}
+                  >
+                    <Text style={styles.checkoutText}>Apply</Text>
+                  </Button>
+                </View>
               )}
             </View>
 
             {/* Order Summary */}
             <View style={styles.orderSummary}>
               <Text style={styles.orderSummaryTitle}>Order Summary</Text>
-              <View style={styles.summaryRow}>
-                <Text style={styles.summaryLabel}>Subtotal</Text>
-                <Text style={styles.summaryValue}>${subtotal.toFixed(2)}</Text>
-              </View>
-              <View style={styles.summaryRow}>
-                <Text style={styles.summaryLabel}>Tax</Text>
-                <Text style={styles.summaryValue}>${tax.toFixed(2)}</Text>
-              </View>
-              <View style={styles.summaryRow}>
-                <Text style={styles.summaryLabel}>Service Fee</Text>
-                <Text style={styles.summaryValue}>${serviceFee.toFixed(2)}</Text>
-              </View>
-              <View style={styles.summaryRow}>
-                <Text style={styles.summaryLabelBold}>Total</Text>
-                <Text style={styles.summaryValueBold}>${total.toFixed(2)}</Text>
-              </View>
+              {pricing ? (
+                <PriceSummary breakdown={pricing} />
+              ) : (
+                <>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>Subtotal</Text>
+                    <Text style={styles.summaryValue}>${subtotal.toFixed(2)}</Text>
+                  </View>
+                  <Text style={styles.summaryLabel}>
+                    Taxes and fees are calculated at checkout.
+                  </Text>
+                </>
+              )}
             </View>
 
             {/* Checkout */}
             <View style={styles.footer}>
               <Button
-                style={[styles.checkoutButton, { backgroundColor: primary }]}
+                style={[
+                  styles.checkoutButton,
+                  { backgroundColor: primary },
+                  !!ruleViolations.paused && styles.checkoutButtonDisabled,
+                ]}
                 onPress={handleCheckout}
               >
-                <Text style={styles.checkoutText}>Proceed to Checkout</Text>
+                <Text style={styles.checkoutText}>
+                  {ruleViolations.paused ? "Ordering Paused" : "Proceed to Checkout"}
+                </Text>
               </Button>
             </View>
           </>
@@ -403,6 +478,40 @@ const Cart: React.FC = () => {
         )}
       </ScrollView>
 
+      <SubstitutionPicker
+        item={editingItem}
+        locationId={locationId}
+        primaryColor={primary}
+        onClose={() => setEditingItem(null)}
+        onSave={setSubstitution}
+      />
+      <NoteDialog
+        visible={!!noteItem}
+        title={`Instructions for ${noteItem?.name ?? ""}`}
+        value={noteItem?.note ?? ""}
+        placeholder='e.g. "thin sliced" or "green bananas"'
+        primaryColor={primary}
+        onClose={() => setNoteItem(null)}
+        onSave={(note) => noteItem && setLineNote(noteItem.id, note)}
+      />
+      <NoteDialog
+        visible={editingOrderNote}
+        title="Vehicle & parking notes"
+        value={orderNote}
+        placeholder="e.g. Blue Honda CR-V, parked in spot 4"
+        maxLength={500}
+        primaryColor={primary}
+        onClose={() => setEditingOrderNote(false)}
+        onSave={saveOrderNote}
+      />
+      <LocationChangeSummary
+        move={locationMove}
+        locationName={locationName}
+        previousLocationName={previousLocation?.name ?? null}
+        primaryColor={primary}
+        onConfirm={handleConfirmMove}
+        onKeepPrevious={handleKeepPrevious}
+      />
       <ToastContainer />
       <NavigationBar />
     </View>
@@ -425,16 +534,27 @@ const styles = StyleSheet.create({
   clearButton:     { color: "red" },
   pickupInfo:      { padding: 16, backgroundColor: "#f9f9f9" },
   pickupText:      { fontSize: 16 /* color now dynamic */ },
+  orderNote:       { flexDirection: "row", alignItems: "center", marginTop: 8 },
+  orderNoteText:   { fontSize: 14, color: "#6b7280", marginLeft: 6, flex: 1 },
   cartItems:       { padding: 16 },
-  paymentSection:  { padding: 16 },
   sectionTitle:    { fontSize: 16, fontWeight: "bold", marginBottom: 8 },
-  paymentOption:   {
-    padding:      12,
+  promoSection:    { padding: 16 },
+  promoRow:        { flexDirection: "row", alignItems: "center" },
+  promoInput:      {
+    flex:         1,
     borderWidth:  1,
     borderColor:  "#ddd",
     borderRadius: 6,
-    marginBottom: 8,
+    padding:      10,
+    marginRight:  8,
+  },
+  promoButton:     { paddingVertical: 10, paddingHorizontal: 16, borderRadius: 6 },
+  promoApplied:    {
+    flexDirection:  "row",
+    alignItems:     "center",
+    justifyContent: "space-between",
   },
+  promoAppliedText:{ fontSize: 14, fontWeight: "600" },
   orderSummary:    {
     padding:          16,
     backgroundColor:  "#f9f9f9",
@@ -449,8 +569,6 @@ const styles = StyleSheet.create({
   },
   summaryLabel:    { fontSize: 14, color: "#6b7280" },
   summaryValue:    { fontSize: 14, color: "#374151" },
-  summaryLabelBold:{ fontSize: 16, fontWeight: "bold" },
-  summaryValueBold:{ fontSize: 16, fontWeight: "bold" },
   footer:          {
     padding:         16,
     borderTopWidth:  1,
@@ -461,6 +579,7 @@ const styles = StyleSheet.create({
     borderRadius:   8,
     alignItems:     "center",
   },
+  checkoutButtonDisabled: { opacity: 0.6 },
   checkoutText:    { color: "#fff", fontSize: 16, fontWeight: "600" },
   emptyCart:       {
     flex:           1,
@@ -15,6 +15,7 @@ import AsyncStorage from "@react-native-async-storage/async-storage";
 import { supabase } from "@/supabaseClient";
 import { Button } from "@/components/ui/button";
 import NavigationBar from "@/components/NavigationBar";
+import NotificationNotices from "@/components/NotificationNotices";
 import useCustomerInfo, { OrderType } from "@/hooks/useCustomerInfo";
 import { Toast, useToast } from "@/hooks/use-toast";
 
@@ -191,6 +192,7 @@ const Orders: React.FC = () => {
       </View>
 
       <ScrollView contentContainerStyle={styles.content}>
+        <NotificationNotices />
         {renderOrders(filterOrders(activeTab))}
       </ScrollView>
 
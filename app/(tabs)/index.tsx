@@ -16,6 +16,7 @@ import {
 } from "react-native";
 import { useRouter } from "expo-router";
 import NavigationBar from "@/components/NavigationBar";
+import NotificationNotices from "@/components/NotificationNotices";
 import ProductCard, { Product } from "@/components/ProductCard";
 import CategoryCard from "@/components/CategoryCard";
 import Toast from "react-native-toast-message";
@@ -175,18 +176,11 @@ export default function HomeScreen() {
   // — navigation & cart
   const handleViewAll = (tagId: string) => router.push(`/feature/${tagId}`);
   const handleProductClick = (id: string) => router.push(`/ProductDetails?productId=${id}`);
-  const handleAddToCart = async (p: Product) => {
-    try {
-      const stored = await AsyncStorage.getItem("cart");
-      const cart: any[] = stored ? JSON.parse(stored) : [];
-      const idx = cart.findIndex((x) => x.id === p.id);
-      if (idx >= 0) cart[idx].quantity++;
-      else cart.push({ ...p, quantity: 1 });
-      await AsyncStorage.setItem("cart", JSON.stringify(cart));
-    } catch {
-      console.error("Add to cart failed");
-    }
-  };
+  // ProductCard writes to the cart itself; this only confirms it
+  const handleAddToCart = (p: Product, added: number) =>
+    added > 0
+      ? Toast.show({ type: "success", text1: `${p.name} added to cart!` })
+      : Toast.show({ type: "error", text1: `No more ${p.name} available.` });
 
   // — inline section renderer
   const SectionRenderer = ({ section }: { section: LayoutSection }) => {
@@ -280,6 +274,7 @@ export default function HomeScreen() {
                   originalPrice: item.original_price,
                   unit: item.unit,
                   discount: item.discount_percentage,
+                  stock_quantity: item.stock_quantity,
                   image_url: url,
                 };
                 return (
@@ -287,7 +282,7 @@ export default function HomeScreen() {
                     style={styles.productCardWrapper}
                     onPress={() => handleProductClick(item.id)}
                   >
-                    <ProductCard product={prod} onAddToCart={() => handleAddToCart(prod)} />
+                    <ProductCard product={prod} onAddToCart={handleAddToCart} />
                   </TouchableOpacity>
                 );
               }}
@@ -338,6 +333,7 @@ export default function HomeScreen() {
       {/* CONTENT */}
       <ScrollView contentContainerStyle={styles.scrollContainer}>
         <View style={styles.main}>
+          <NotificationNotices />
           {searchQuery
             ? (
                 <FlatList
@@ -353,6 +349,7 @@ export default function HomeScreen() {
                       originalPrice: item.original_price,
                       unit: item.unit,
                       discount: item.discount_percentage,
+                      stock_quantity: item.stock_quantity,
                       image_url: getPrimaryImage(item.image_data),
                     };
                     return (
@@ -360,7 +357,7 @@ export default function HomeScreen() {
                         style={styles.productCardWrapper}
                         onPress={() => handleProductClick(item.id)}
                       >
-                        <ProductCard product={prod} onAddToCart={() => handleAddToCart(prod)} />
+                        <ProductCard product={prod} onAddToCart={handleAddToCart} />
                       </TouchableOpacity>
                     );
                   }}
@@ -14,6 +14,7 @@ import { Separator } from "@/components/ui/separator";
 import NavigationBar from "@/components/NavigationBar";
 import { supabase } from "@/supabaseClient";
 import MenuItem from "@/components/MenuItem";
+import LoyaltyCard from "@/components/LoyaltyCard";
 import { Toast, useToast } from "../hooks/use-toast";  // ← import Toast here
 import { useColorScheme } from "@/hooks/useColorScheme"; // ← pull in your primary color hook
 
@@ -24,6 +25,10 @@ type RootStackParamList = {
   PaymentSettings: undefined;
   NotificationSettings: undefined;
   HelpCenter: undefined;
+  Favorites: undefined;
+  ShoppingLists: undefined;
+  RecurringOrders: undefined;
+  StoreCredit: undefined;
   OrderDetails: { orderId: string };
   "(tabs)/Orders": undefined;
 };
@@ -131,6 +136,12 @@ const Account: React.FC = () => {
       </View>
 
       <ScrollView contentContainerStyle={styles.scrollContainer}>
+        <LoyaltyCard
+          primaryColor={primary}
+          onOpenOrder={handleOrderClick}
+          style={styles.loyalty}
+        />
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Recent Orders</Text>
           <View style={styles.card}>
@@ -194,12 +205,36 @@ const Account: React.FC = () => {
               onPress={() => navigation.navigate("(tabs)/Orders")}
             />
             <Separator />
+            <MenuItem
+              icon={<Feather name="heart" size={20} color="#000" />}
+              label="Favorites"
+              onPress={() => navigation.navigate("Favorites")}
+            />
+            <Separator />
+            <MenuItem
+              icon={<Feather name="list" size={20} color="#000" />}
+              label="Shopping Lists"
+              onPress={() => navigation.navigate("ShoppingLists")}
+            />
+            <Separator />
+            <MenuItem
+              icon={<Feather name="repeat" size={20} color="#000" />}
+              label="Recurring Orders"
+              onPress={() => navigation.navigate("RecurringOrders")}
+            />
+            <Separator />
             <MenuItem
               icon={<Feather name="credit-card" size={20} color="#000" />}
               label="Payment Methods"
               onPress={() => navigation.navigate("PaymentSettings")}
             />
             <Separator />
+            <MenuItem
+              icon={<Feather name="gift" size={20} color="#000" />}
+              label="Store Credit & Gift Cards"
+              onPress={() => navigation.navigate("StoreCredit")}
+            />
+            <Separator />
             <MenuItem
               icon={<Feather name="bell" size={20} color="#000" />}
               label="Notifications"
@@ -249,6 +284,7 @@ const styles = StyleSheet.create({
   profileName: { fontSize: 20, fontWeight: "bold" },
   profileEmail: { color: "#687076", marginTop: 4 },
   section: { marginTop: 16, paddingHorizontal: 16 },
+  loyalty: { marginTop: 16, marginHorizontal: 16 },
   sectionTitle: { fontWeight: "bold", marginBottom: 12 },
   card: {
     backgroundColor: "#fff",
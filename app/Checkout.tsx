@@ -0,0 +1,771 @@
+// app/Checkout.tsx
+
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TextInput,
+  Switch,
+} from "react-native";
+import {
+  useNavigation,
+  useRoute,
+  useFocusEffect,
+  NavigationProp,
+  RouteProp,
+} from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Button } from "@/components/ui/button";
+import PriceSummary from "@/components/PriceSummary";
+import TipSelector from "@/components/TipSelector";
+import { supabase } from "@/supabaseClient";
+import { useCart } from "@/hooks/CartUtils";
+import {
+  placeOrder as submitOrder,
+  readPickupSlot,
+  checkPickupSlot,
+  clearPickupSlot,
+  formatPickupWindow,
+  CheckoutError,
+} from "@/hooks/CheckoutUtils";
+import { quoteCart, PriceBreakdown } from "@/hooks/PricingUtils";
+import { formatQuantity, priceSuffix } from "@/hooks/QuantityUtils";
+import { TipChoice, TipSettings, NO_TIP, fetchTipSettings, tipAmount } from "@/hooks/TipUtils";
+import { fetchBalance, formatBalance } from "@/hooks/BalanceUtils";
+import {
+  LoyaltyStatus,
+  fetchLoyaltyStatus,
+  formatPoints,
+  redeemablePoints,
+  rewardValue,
+} from "@/hooks/LoyaltyUtils";
+import { FALLBACK_TIME_ZONE, formatTimeInZone, zoneAbbreviation } from "@/hooks/TimeZoneUtils";
+import { Toast, useToast } from "@/hooks/use-toast";
+
+type RootStackParamList = {
+  Checkout: { promoCode?: string | null };
+  PickUpTime: undefined;
+  PaymentSettings: undefined;
+  OrderConfirmation: { orderId: string };
+};
+
+interface PaymentType {
+  id: string;
+  card_type: string;
+  last_four: string;
+  expiry_date: string;
+  card_holder_name: string;
+  is_default: boolean;
+}
+
+interface Contact {
+  firstName: string;
+  lastName: string;
+  phone: string;
+  email: string;
+}
+
+const STEPS = ["Pickup", "Contact", "Payment", "Review"];
+
+// errors that send the customer back to a step rather than to the cart
+const STEP_FOR_ERROR: Record<string, number> = {
+  invalid_pickup_time: 0,
+  slot_unavailable:    0,
+  slot_full:           0,
+  too_soon:            0,
+  invalid_payment:     2,
+  invalid_tip:         3,
+  tipping_disabled:    3,
+  loyalty_disabled:    2,
+  invalid_points:      2,
+};
+
+const formatPhoneNumber = (value: string): string => {
+  const digits = value.replace(/\D/g, "").slice(0, 10);
+  if (digits.length > 6)
+    return `${digits.slice(0, 3)}-${digits.slice(3, 6)}-${digits.slice(6)}`;
+  if (digits.length > 3) return `${digits.slice(0, 3)}-${digits.slice(3)}`;
+  return digits;
+};
+
+const formatCurrency = (amount: number) => `$${(+amount).toFixed(2)}`;
+
+/** Walks the customer through pickup, contact, payment and a final review. */
+const Checkout: React.FC = () => {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const route = useRoute<RouteProp<RootStackParamList, "Checkout">>();
+  const promoCode = route.params?.promoCode || null;
+  const { ToastContainer } = useToast();
+  const { cart, clearCart } = useCart();
+
+  const [primary, setPrimary] = useState("#16a34a");
+  const [step, setStep] = useState(0);
+  const [validating, setValidating] = useState(false);
+  const [placing, setPlacing] = useState(false);
+
+  const [locationId, setLocationId] = useState<string | null>(null);
+  const [pickupTime, setPickupTime] = useState<string | null>(null);
+  const [holdExpiresAt, setHoldExpiresAt] = useState<string | null>(null);
+  const [pickupMinutes, setPickupMinutes] = useState<number | undefined>(undefined);
+  const [pickupZone, setPickupZone] = useState<string | undefined>(undefined);
+  const [orderNote, setOrderNote] = useState("");
+
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [savedContact, setSavedContact] = useState<Contact | null>(null);
+  const [contact, setContact] = useState<Contact>({
+    firstName: "",
+    lastName: "",
+    phone: "",
+    email: "",
+  });
+
+  const [payments, setPayments] = useState<PaymentType[]>([]);
+  const [selectedPaymentId, setSelectedPaymentId] = useState<string | null>(null);
+  const [loadingPayments, setLoadingPayments] = useState(true);
+
+  const [pricing, setPricing] = useState<PriceBreakdown | null>(null);
+  const [tipSettings, setTipSettings] = useState<TipSettings | null>(null);
+  const [tipChoice, setTipChoice] = useState<TipChoice>(NO_TIP);
+  const [balance, setBalance] = useState(0);
+  const [useBalance, setUseBalance] = useState(false);
+  const [loyalty, setLoyalty] = useState<LoyaltyStatus | null>(null);
+  const [usePoints, setUsePoints] = useState(false);
+
+  // Theme, tip settings, store credit and points
+  useEffect(() => {
+    (async () => {
+      const storeId = await AsyncStorage.getItem("selected_store_id");
+      if (!storeId) return;
+      setTipSettings(await fetchTipSettings(storeId));
+      const available = await fetchBalance(storeId);
+      setBalance(available);
+      setUseBalance(available > 0);
+      setLoyalty(await fetchLoyaltyStatus(storeId));
+      const { data, error } = await supabase
+        .from("store_settings")
+        .select("theme_store")
+        .eq("store_id", storeId)
+        .single();
+      if (!error && data?.theme_store?.primary) {
+        setPrimary(data.theme_store.primary);
+      }
+    })();
+  }, []);
+
+  // Contact details from the profile
+  useEffect(() => {
+    (async () => {
+      const { data: { user }, error: authErr } = await supabase.auth.getUser();
+      if (authErr || !user) return;
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, first_name, last_name, email, phone_number")
+        .eq("id", user.id)
+        .single();
+      if (error || !data) {
+        Toast.show({ type: "error", text1: "Could not load your contact details." });
+        return;
+      }
+      const loaded = {
+        firstName: data.first_name || "",
+        lastName:  data.last_name || "",
+        phone:     formatPhoneNumber(data.phone_number || ""),
+        email:     data.email || user.email || "",
+      };
+      setProfileId(data.id);
+      setSavedContact(loaded);
+      setContact(loaded);
+    })();
+  }, []);
+
+  // Pickup slot, location, notes and cards may change on other screens
+  useFocusEffect(
+    useCallback(() => {
+      (async () => {
+        const sel = await AsyncStorage.getItem("selectedLocation");
+        setLocationId(sel ? JSON.parse(sel)?.id ?? null : null);
+        setPickupTime(await AsyncStorage.getItem("selectedPickupTime"));
+        const slot = await readPickupSlot();
+        setHoldExpiresAt(slot?.hold_expires_at ?? null);
+        setPickupMinutes(slot?.minutes);
+        setPickupZone(slot?.time_zone);
+        setOrderNote((await AsyncStorage.getItem("orderNote")) ?? "");
+
+        const { data: { user } } = await supabase.auth.getUser();
+        if (user) {
+          const { data, error } = await supabase
+            .from("payments")
+            .select("id,card_type,last_four,expiry_date,card_holder_name,is_default")
+            .eq("user_id", user.id)
+            .order("is_default", { ascending: false });
+          if (!error && data) {
+            const cards = data as PaymentType[];
+            setPayments(cards);
+            setSelectedPaymentId((prev) =>
+              prev && cards.some((p) => p.id === prev)
+                ? prev
+                : (cards.find((p) => p.is_default) ?? cards[0])?.id ?? null
+            );
+          }
+        }
+        setLoadingPayments(false);
+      })();
+    }, [])
+  );
+
+  // points only ever come off what promotions leave, so the most that
+  // can be redeemed doesn't change once the reward is in the quote
+  const maxPoints = loyalty && pricing ? redeemablePoints(loyalty, pricing) : 0;
+  const pointsToRedeem = usePoints ? maxPoints : 0;
+
+  // Quote the order for the review step
+  useEffect(() => {
+    if (!locationId || cart.length === 0) return;
+    (async () => {
+      const slot = await readPickupSlot();
+      setPricing(await quoteCart(locationId, cart, slot?.time, promoCode, pointsToRedeem));
+    })();
+  }, [locationId, cart, pickupTime, promoCode, pointsToRedeem]);
+
+  const tipBase = pricing ? pricing.subtotal - pricing.discount : 0;
+  const tip = tipSettings?.enabled ? tipAmount(tipChoice, tipBase) : 0;
+  const selectedPayment = payments.find((p) => p.id === selectedPaymentId);
+  // split tender: store credit first, the card the rest
+  const orderTotal = pricing ? pricing.total + tip : null;
+  const balanceApplied = useBalance && orderTotal != null ? Math.min(balance, orderTotal) : 0;
+  const cardCharge = orderTotal != null ? orderTotal - balanceApplied : null;
+  const needsCard = cardCharge == null || cardCharge > 0;
+
+  // Each step is checked before the customer can move past it
+  const validateStep = async (index: number): Promise<string | null> => {
+    switch (index) {
+      case 0: {
+        if (!locationId) return "Please select a location before placing an order.";
+        // renews the hold on the slot's place
+        const problem = await checkPickupSlot(locationId, cart);
+        setHoldExpiresAt((await readPickupSlot())?.hold_expires_at ?? null);
+        return problem;
+      }
+      case 1: {
+        if (!contact.firstName.trim() || !contact.lastName.trim()) {
+          return "Please enter your first and last name.";
+        }
+        if (contact.phone.replace(/\D/g, "").length !== 10) {
+          return "Please enter a 10-digit phone number so the store can reach you.";
+        }
+        return saveContact();
+      }
+      case 2:
+        return selectedPaymentId || !needsCard ? null : "Please select a payment method.";
+      default:
+        return null;
+    }
+  };
+
+  // keeps the profile in step with what the customer confirmed here
+  const saveContact = async (): Promise<string | null> => {
+    if (!profileId || !savedContact) return null;
+    const changes: Record<string, string> = {};
+    const fn = contact.firstName.trim();
+    const ln = contact.lastName.trim();
+    const ph = contact.phone.replace(/-/g, "");
+    if (fn !== savedContact.firstName) changes.first_name = fn;
+    if (ln !== savedContact.lastName) changes.last_name = ln;
+    if (ph !== savedContact.phone.replace(/-/g, "")) changes.phone_number = ph;
+    if (!Object.keys(changes).length) return null;
+
+    const { error } = await supabase.from("profiles").update(changes).eq("id", profileId);
+    if (error) {
+      console.error("Contact update error:", error);
+      return "Could not save your contact details.";
+    }
+    setSavedContact({ ...contact, firstName: fn, lastName: ln });
+    return null;
+  };
+
+  const handleContinue = async () => {
+    if (validating) return;
+    setValidating(true);
+    try {
+      const problem = await validateStep(step);
+      if (problem) {
+        Toast.show({ type: "error", text1: problem });
+        return;
+      }
+      setStep(step + 1);
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const handleBack = () => {
+    if (step > 0) setStep(step - 1);
+    else navigation.goBack();
+  };
+
+  const handlePlaceOrder = async () => {
+    if (placing || !locationId) return;
+    if (cart.length === 0) {
+      Toast.show({ type: "error", text1: "Your cart is empty." });
+      return;
+    }
+    setPlacing(true);
+    try {
+      // the slot may have filled or passed while the customer reviewed
+      for (let i = 0; i < STEPS.length - 1; i++) {
+        const problem = await validateStep(i);
+        if (problem) {
+          setStep(i);
+          Toast.show({ type: "error", text1: problem });
+          return;
+        }
+      }
+      const slot = await readPickupSlot();
+      if (!pickupTime || !slot) {
+        setStep(0);
+        Toast.show({ type: "error", text1: "Please select a pickup time." });
+        return;
+      }
+
+      const orderId = await submitOrder({
+        cart,
+        locationId,
+        paymentId: selectedPaymentId,
+        pickupTime,
+        slot,
+        promoCode,
+        orderNote,
+        tip,
+        useBalance: balanceApplied > 0,
+        redeemPoints: pointsToRedeem,
+      });
+
+      await clearCart();
+      await clearPickupSlot();
+      await AsyncStorage.removeItem("orderNote");
+      navigation.reset({
+        index: 0,
+        routes: [{ name: "OrderConfirmation", params: { orderId } }],
+      });
+    } catch (err) {
+      if (err instanceof CheckoutError && STEP_FOR_ERROR[err.code] !== undefined) {
+        if (err.code === "invalid_points" || err.code === "loyalty_disabled") {
+          setUsePoints(false);
+        }
+        setStep(STEP_FOR_ERROR[err.code]);
+        Toast.show({ type: "error", text1: err.message });
+      } else {
+        // stock, prices and ordering rules are resolved in the cart
+        Toast.show({
+          type: "error",
+          text1: err instanceof CheckoutError ? err.message : "Failed to create order.",
+        });
+        if (err instanceof CheckoutError) navigation.goBack();
+      }
+    } finally {
+      setPlacing(false);
+    }
+  };
+
+  const renderPickup = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>When will you pick up?</Text>
+      <View style={styles.card}>
+        <Feather name="clock" size={18} color={primary} />
+        <Text style={styles.cardText}>
+          {pickupTime ? formatPickupWindow(pickupTime, pickupMinutes, pickupZone) : "No pickup time selected"}
+        </Text>
+      </View>
+      {pickupTime && holdExpiresAt && new Date(holdExpiresAt).getTime() > Date.now() && (
+        <Text style={[styles.hint, styles.holdHint]}>
+          We're holding this time for you until{" "}
+          {formatTimeInZone(holdExpiresAt, pickupZone ?? FALLBACK_TIME_ZONE)}{" "}
+          {zoneAbbreviation(holdExpiresAt, pickupZone ?? FALLBACK_TIME_ZONE)}.
+        </Text>
+      )}
+      <Button variant="outline" onPress={() => navigation.navigate("PickUpTime")}>
+        {pickupTime ? "Change pickup time" : "Choose a pickup time"}
+      </Button>
+    </View>
+  );
+
+  const renderContact = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>How can the store reach you?</Text>
+      {([
+        ["firstName", "First Name"],
+        ["lastName", "Last Name"],
+        ["phone", "Phone Number"],
+      ] as [keyof Contact, string][]).map(([field, label]) => (
+        <View key={field} style={styles.field}>
+          <Text style={styles.fieldLabel}>{label}</Text>
+          <TextInput
+            style={styles.input}
+            value={contact[field]}
+            onChangeText={(value) =>
+              setContact((prev) => ({
+                ...prev,
+                [field]: field === "phone" ? formatPhoneNumber(value) : value,
+              }))
+            }
+            keyboardType={field === "phone" ? "phone-pad" : "default"}
+            autoCapitalize={field === "phone" ? "none" : "words"}
+          />
+        </View>
+      ))}
+      {!!contact.email && (
+        <Text style={styles.hint}>Order updates go to {contact.email}.</Text>
+      )}
+    </View>
+  );
+
+  const renderPayment = () => (
+    <View style={styles.section}>
+      {loyalty && maxPoints > 0 && (
+        <View style={styles.balanceRow}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.balanceLabel}>
+              Redeem {formatPoints(maxPoints)} ({formatCurrency(rewardValue(loyalty, maxPoints))} off)
+            </Text>
+            <Text style={styles.hint}>
+              You have {formatPoints(loyalty.points)}
+              {loyalty.tier ? ` · ${loyalty.tier.name} member` : ""}
+            </Text>
+          </View>
+          <Switch value={usePoints} onValueChange={setUsePoints} />
+        </View>
+      )}
+      {balance > 0 && (
+        <View style={styles.balanceRow}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.balanceLabel}>
+              Use store credit ({formatBalance(balance)} available)
+            </Text>
+            {useBalance && cardCharge != null && (
+              <Text style={styles.hint}>
+                {cardCharge > 0
+                  ? `${formatBalance(cardCharge)} will be charged to your card.`
+                  : "Covers your whole order."}
+              </Text>
+            )}
+          </View>
+          <Switch value={useBalance} onValueChange={setUseBalance} />
+        </View>
+      )}
+      <Text style={styles.sectionTitle}>Payment Method</Text>
+      {!needsCard && <Text style={styles.hint}>No card needed for this order.</Text>}
+      {loadingPayments ? (
+        <ActivityIndicator />
+      ) : payments.length > 0 ? (
+        payments.map((p) => (
+          <TouchableOpacity
+            key={p.id}
+            style={[
+              styles.paymentOption,
+              selectedPaymentId === p.id && {
+                borderColor: primary,
+                backgroundColor: `${primary}22`,
+              },
+            ]}
+            onPress={() => setSelectedPaymentId(p.id)}
+          >
+            <Text>
+              {p.card_type} ••••{p.last_four} (Exp {p.expiry_date})
+              {p.is_default ? "  ·  Default" : ""}
+            </Text>
+          </TouchableOpacity>
+        ))
+      ) : (
+        <Button onPress={() => navigation.navigate("PaymentSettings")}>
+          Add Payment Method
+        </Button>
+      )}
+    </View>
+  );
+
+  const renderReview = () => (
+    <>
+      <View style={styles.section}>
+        <View style={styles.reviewRow}>
+          <Text style={styles.reviewLabel}>Pickup</Text>
+          <TouchableOpacity onPress={() => setStep(0)}>
+            <Text style={[styles.editLink, { color: primary }]}>Edit</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.reviewValue}>
+          {pickupTime ? formatPickupWindow(pickupTime, pickupMinutes, pickupZone) : "No pickup time selected"}
+        </Text>
+        {!!orderNote && <Text style={styles.hint}>{orderNote}</Text>}
+
+        <View style={styles.reviewRow}>
+          <Text style={styles.reviewLabel}>Contact</Text>
+          <TouchableOpacity onPress={() => setStep(1)}>
+            <Text style={[styles.editLink, { color: primary }]}>Edit</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.reviewValue}>
+          {`${contact.firstName} ${contact.lastName}`.trim()} · {contact.phone}
+        </Text>
+
+        <View style={styles.reviewRow}>
+          <Text style={styles.reviewLabel}>Payment</Text>
+          <TouchableOpacity onPress={() => setStep(2)}>
+            <Text style={[styles.editLink, { color: primary }]}>Edit</Text>
+          </TouchableOpacity>
+        </View>
+        {balanceApplied > 0 && (
+          <Text style={styles.reviewValue}>Store credit · {formatBalance(balanceApplied)}</Text>
+        )}
+        {needsCard && (
+          <Text style={styles.reviewValue}>
+            {selectedPayment
+              ? `${selectedPayment.card_type} ••••${selectedPayment.last_four}`
+              : "No payment method selected"}
+            {balanceApplied > 0 && cardCharge != null ? ` · ${formatBalance(cardCharge)}` : ""}
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Items ({cart.length})</Text>
+        {cart.map((item) => (
+          <View key={item.id} style={styles.itemRow}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.itemName}>{item.name}</Text>
+              <Text style={styles.itemDetail}>
+                {formatQuantity(item, item.quantity)} × {formatCurrency(item.price)}
+                {priceSuffix(item)}
+              </Text>
+            </View>
+            <Text style={styles.itemTotal}>
+              {formatCurrency(item.price * item.quantity)}
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={[styles.section, styles.summary]}>
+        <Text style={styles.sectionTitle}>Order Summary</Text>
+        {tipSettings?.enabled && (
+          <TipSelector
+            presets={tipSettings.presets}
+            base={tipBase}
+            value={tipChoice}
+            primaryColor={primary}
+            onChange={setTipChoice}
+          />
+        )}
+        {pricing ? (
+          <PriceSummary
+            breakdown={tip ? { ...pricing, tip, total: pricing.total + tip } : pricing}
+          />
+        ) : (
+          <ActivityIndicator />
+        )}
+        {balanceApplied > 0 && cardCharge != null && (
+          <>
+            <View style={styles.tenderRow}>
+              <Text style={styles.tenderLabel}>Store credit</Text>
+              <Text style={styles.tenderCredit}>-{formatBalance(balanceApplied)}</Text>
+            </View>
+            <View style={styles.tenderRow}>
+              <Text style={styles.tenderLabel}>Charged to card</Text>
+              <Text style={styles.tenderValue}>{formatBalance(cardCharge)}</Text>
+            </View>
+          </>
+        )}
+      </View>
+    </>
+  );
+
+  const isReview = step === STEPS.length - 1;
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={handleBack} style={styles.backButton}>
+          <Feather name="arrow-left" size={24} color="#000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Checkout</Text>
+      </View>
+
+      {/* Steps */}
+      <View style={styles.steps}>
+        {STEPS.map((label, i) => (
+          <View key={label} style={styles.step}>
+            <View
+              style={[
+                styles.stepDot,
+                i <= step && { backgroundColor: primary, borderColor: primary },
+              ]}
+            >
+              {i < step ? (
+                <Feather name="check" size={12} color="#fff" />
+              ) : (
+                <Text style={[styles.stepNumber, i === step && { color: "#fff" }]}>
+                  {i + 1}
+                </Text>
+              )}
+            </View>
+            <Text style={[styles.stepLabel, i === step && { color: primary }]}>{label}</Text>
+          </View>
+        ))}
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        {step === 0 && renderPickup()}
+        {step === 1 && renderContact()}
+        {step === 2 && renderPayment()}
+        {isReview && renderReview()}
+      </ScrollView>
+
+      {/* Continue / place order */}
+      <View style={styles.footer}>
+        <Button
+          style={[
+            styles.primaryButton,
+            { backgroundColor: primary },
+            (placing || validating) && styles.primaryButtonDisabled,
+          ]}
+          onPress={isReview ? handlePlaceOrder : handleContinue}
+        >
+          {placing || validating ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.primaryButtonText}>
+              {isReview
+                ? `Place Order${cardCharge != null ? ` · ${formatCurrency(cardCharge)}` : ""}`
+                : "Continue"}
+            </Text>
+          )}
+        </Button>
+      </View>
+
+      <ToastContainer />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container:       { flex: 1, backgroundColor: "#fff" },
+  header:          {
+    flexDirection:     "row",
+    alignItems:        "center",
+    padding:           16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e5e5",
+  },
+  backButton:      { marginRight: 8 },
+  headerTitle:     { fontSize: 18, fontWeight: "bold" },
+  steps:           {
+    flexDirection:     "row",
+    justifyContent:    "space-around",
+    paddingVertical:   12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e5e5",
+  },
+  step:            { alignItems: "center" },
+  stepDot:         {
+    width:          24,
+    height:         24,
+    borderRadius:   12,
+    borderWidth:    1,
+    borderColor:    "#d1d5db",
+    alignItems:     "center",
+    justifyContent: "center",
+    marginBottom:   4,
+  },
+  stepNumber:      { fontSize: 12, color: "#6b7280", fontWeight: "600" },
+  stepLabel:       { fontSize: 12, color: "#6b7280" },
+  scrollContainer: { flexGrow: 1, paddingBottom: 24 },
+  section:         { padding: 16 },
+  sectionTitle:    { fontSize: 16, fontWeight: "bold", marginBottom: 8 },
+  card:            {
+    flexDirection:   "row",
+    alignItems:      "center",
+    padding:         12,
+    borderRadius:    8,
+    backgroundColor: "#f9f9f9",
+    marginBottom:    12,
+  },
+  cardText:        { fontSize: 15, marginLeft: 8, flex: 1 },
+  field:           { marginBottom: 12 },
+  fieldLabel:      { fontSize: 14, color: "#374151", marginBottom: 4 },
+  input:           {
+    borderWidth:  1,
+    borderColor:  "#ddd",
+    borderRadius: 6,
+    padding:      10,
+  },
+  hint:            { fontSize: 13, color: "#6b7280", marginTop: 4 },
+  holdHint:        { marginTop: 0, marginBottom: 12 },
+  balanceRow:      {
+    flexDirection: "row",
+    alignItems:    "center",
+    padding:       12,
+    borderRadius:  8,
+    borderWidth:   1,
+    borderColor:   "#ddd",
+    marginBottom:  16,
+  },
+  balanceLabel:    { fontSize: 15, fontWeight: "500" },
+  tenderRow:       {
+    flexDirection:  "row",
+    justifyContent: "space-between",
+    marginTop:      8,
+  },
+  tenderLabel:     { fontSize: 14, color: "#6b7280" },
+  tenderCredit:    { fontSize: 14, color: "#15803d" },
+  tenderValue:     { fontSize: 14, fontWeight: "600", color: "#374151" },
+  paymentOption:   {
+    padding:      12,
+    borderWidth:  1,
+    borderColor:  "#ddd",
+    borderRadius: 6,
+    marginBottom: 8,
+  },
+  reviewRow:       {
+    flexDirection:  "row",
+    justifyContent: "space-between",
+    alignItems:     "center",
+    marginTop:      8,
+  },
+  reviewLabel:     { fontSize: 14, fontWeight: "600", color: "#374151" },
+  reviewValue:     { fontSize: 14, color: "#111827", marginTop: 2 },
+  editLink:        { fontSize: 14, fontWeight: "600" },
+  itemRow:         {
+    flexDirection:     "row",
+    alignItems:        "center",
+    paddingVertical:   8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f3f4f6",
+  },
+  itemName:        { fontSize: 14, fontWeight: "500" },
+  itemDetail:      { fontSize: 12, color: "#6b7280", marginTop: 2 },
+  itemTotal:       { fontSize: 14, fontWeight: "600" },
+  summary:         {
+    backgroundColor: "#f9f9f9",
+    borderTopWidth:  1,
+    borderTopColor:  "#e5e5e5",
+  },
+  footer:          {
+    padding:        16,
+    borderTopWidth: 1,
+    borderTopColor: "#e5e5e5",
+  },
+  primaryButton:   {
+    paddingVertical: 12,
+    borderRadius:    8,
+    alignItems:      "center",
+  },
+  primaryButtonDisabled: { opacity: 0.6 },
+  primaryButtonText: { color: "#fff", fontSize: 16, fontWeight: "600" },
+});
+
+export default Checkout;
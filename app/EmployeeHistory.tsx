@@ -24,6 +24,9 @@ import {
 import EmployeeNavigationBar from "@/components/EmployeeNavigationBar";
 import { supabase } from "@/supabaseClient";
 import { Toast, useToast } from "../hooks/use-toast";
+import { EmployeeTipTotal, fetchEmployeeTipTotals } from "@/hooks/TipUtils";
+
+const TIP_WINDOW_DAYS = 30;
 
 interface OrderHistory {
   orderNumber: string;
@@ -43,6 +46,7 @@ const EmployeeHistory: React.FC = () => {
   const [orderHistory, setOrderHistory] = useState<OrderHistory[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
+  const [tipTotals, setTipTotals] = useState<EmployeeTipTotal[]>([]);
 
   useEffect(() => {
     const fetchOrderHistory = async () => {
@@ -96,6 +100,9 @@ const EmployeeHistory: React.FC = () => {
     };
 
     fetchOrderHistory();
+    fetchEmployeeTipTotals(
+      new Date(Date.now() - TIP_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+    ).then(setTipTotals);
   }, []);
 
   const getStatusColor = (status: string) => {
@@ -139,6 +146,24 @@ const EmployeeHistory: React.FC = () => {
         <Text style={styles.headerTitle}>Order History</Text>
       </View>
 
+      {/* Tips per employee */}
+      {tipTotals.length > 0 && (
+        <View style={styles.tipsCard}>
+          <Text style={styles.tipsTitle}>Tips (last {TIP_WINDOW_DAYS} days)</Text>
+          {tipTotals.map((t) => (
+            <View key={t.employee_id} style={styles.tipRow}>
+              <Text style={styles.tipName}>
+                {`${t.first_name ?? ""} ${t.last_name ?? ""}`.trim() || "Unknown"}
+              </Text>
+              <Text style={styles.tipCount}>
+                {t.order_count} order{Number(t.order_count) === 1 ? "" : "s"}
+              </Text>
+              <Text style={styles.tipTotal}>${Number(t.tip_total).toFixed(2)}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
       {/* Search Bar */}
       <View style={styles.searchContainer}>
         <TextInput
@@ -227,6 +252,19 @@ const styles = StyleSheet.create({
   backButton: { marginRight: 8 },
   headerTitle: { fontSize: 20, fontWeight: "bold" },
 
+  tipsCard: {
+    backgroundColor: "#fff",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e5e5",
+  },
+  tipsTitle: { fontSize: 14, fontWeight: "600", color: "#374151", marginBottom: 6 },
+  tipRow: { flexDirection: "row", alignItems: "center", paddingVertical: 2 },
+  tipName: { flex: 1, fontSize: 14, color: "#111827" },
+  tipCount: { fontSize: 12, color: "#6b7280", marginRight: 12 },
+  tipTotal: { fontSize: 14, fontWeight: "600", color: "#16a34a" },
+
   searchContainer: {
     backgroundColor: "#fff",
     paddingHorizontal: 16,
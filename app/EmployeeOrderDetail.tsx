@@ -1,6 +1,6 @@
 // app/screens/EmployeeOrderDetail.tsx
 
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import {
   View,
   Text,
@@ -8,31 +8,71 @@ import {
   ActivityIndicator,
   ScrollView,
   TouchableOpacity,
+  TextInput,
 } from "react-native";
 import { useRoute, RouteProp, useNavigation } from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
 import { supabase } from "@/supabaseClient";
 import { Toast, useToast } from "@/hooks/use-toast";
 import EmployeeNavigationBar from "@/components/EmployeeNavigationBar";
+import { Dialog } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { DiscountLine, PriceBreakdown } from "@/hooks/PricingUtils";
+import { formatQuantity, recordWeight } from "@/hooks/QuantityUtils";
+import { issueStoreCredit } from "@/hooks/BalanceUtils";
+import {
+  SUBSTITUTION_LABELS,
+  SubstitutionPreference,
+  SubstitutionStatus,
+  recordSubstitution,
+} from "@/hooks/SubstitutionUtils";
+import { formatPickupWindow } from "@/hooks/CheckoutUtils";
+import { FALLBACK_TIME_ZONE, formatDateTimeInZone } from "@/hooks/TimeZoneUtils";
 
 type RouteParams = {
   params: { orderNumber: string };
 };
 
+type OrderItem = {
+  id: string;
+  quantity: number;
+  unit_price: number;
+  products: { name: string; unit: string | null; sold_by_weight: boolean };
+  actual_weight: number | null;
+  note: string | null;
+  substitution_preference: SubstitutionPreference;
+  preferred: { name: string } | null;
+  substitution_status: SubstitutionStatus | null;
+  substitute_quantity: number | null;
+  substitute_unit_price: number | null;
+  substitute: { name: string } | null;
+};
+
 type OrderDetail = {
+  id: string;
   order_number: string;
+  location_id: string;
   created_at: string;
   status: string;
   total_amount: number;
+  estimated_total: number | null;
+  tip_amount: number;
+  balance_applied: number;
+  price_breakdown: Partial<PriceBreakdown> | null;
   pickup_time: string;
-  user_profiles: { first_name: string; last_name: string } | null;
+  pickup_minutes: number;
+  locations: { timezone: string } | null;
+  discount_lines: DiscountLine[] | null;
+  customer_note: string | null;
+  user_profiles: { first_name: string; last_name: string; phone_number: string | null } | null;
   payments: { card_type: string; last_four: string }[] | null;
-  order_items: {
-    id: string;
-    quantity: number;
-    unit_price: number;
-    products: { name: string };
-  }[];
+  order_items: OrderItem[];
+};
+
+const SUBSTITUTION_STATUS_LABELS: Record<SubstitutionStatus, string> = {
+  pending:  "awaiting customer",
+  approved: "approved",
+  rejected: "rejected",
 };
 
 const EmployeeOrderDetail: React.FC = () => {
@@ -43,22 +83,58 @@ const EmployeeOrderDetail: React.FC = () => {
   const [order, setOrder] = useState<OrderDetail | null>(null);
   const [loading, setLoading] = useState(true);
 
-  useEffect(() => {
-    supabase
+  // substitution being recorded by the picker
+  const [subItem, setSubItem] = useState<OrderItem | null>(null);
+  const [search, setSearch] = useState("");
+  const [results, setResults] = useState<
+    { id: string; name: string; price: number; sold_by_weight: boolean }[]
+  >([]);
+  const [subProductId, setSubProductId] = useState<string | null>(null);
+  const [subQuantity, setSubQuantity] = useState("1");
+  const [saving, setSaving] = useState(false);
+
+  // weights typed in by the picker, keyed by order item
+  const [weights, setWeights] = useState<Record<string, string>>({});
+
+  // store credit issued as a refund
+  const [creditOpen, setCreditOpen] = useState(false);
+  const [creditAmount, setCreditAmount] = useState("");
+  const [creditNote, setCreditNote] = useState("");
+
+  const loadOrder = useCallback(() => {
+    return supabase
       .from<OrderDetail>("orders")
       .select(`
+        id,
         order_number,
+        location_id,
         created_at,
         status,
         total_amount,
+        estimated_total,
+        tip_amount,
+        balance_applied,
+        price_breakdown,
         pickup_time,
-        user_profiles:profiles!orders_user_id_fkey(first_name,last_name),
+        pickup_minutes,
+        locations (timezone),
+        discount_lines,
+        customer_note,
+        user_profiles:profiles!orders_user_id_fkey(first_name,last_name,phone_number),
         payments!orders_payment_id_fkey(card_type,last_four),
         order_items (
           id,
           quantity,
           unit_price,
-          products(name)
+          products!order_items_product_id_fkey(name, unit, sold_by_weight),
+          actual_weight,
+          note,
+          substitution_preference,
+          preferred:products!order_items_preferred_substitute_id_fkey(name),
+          substitution_status,
+          substitute_quantity,
+          substitute_unit_price,
+          substitute:products!order_items_substitute_product_id_fkey(name)
         )
       `)
       .eq("order_number", route.params.orderNumber)
@@ -74,6 +150,90 @@ const EmployeeOrderDetail: React.FC = () => {
       .finally(() => setLoading(false));
   }, [route.params.orderNumber]);
 
+  useEffect(() => {
+    loadOrder();
+  }, [loadOrder]);
+
+  // search the order's location for a substitute
+  useEffect(() => {
+    if (!subItem || !order || search.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+    supabase
+      .from("products")
+      .select("id, name, price, sold_by_weight")
+      .eq("location_id", order.location_id)
+      .ilike("name", `%${search.trim()}%`)
+      .order("name")
+      .limit(20)
+      .then(({ data, error }) => {
+        if (error) console.error(error);
+        setResults(data ?? []);
+      });
+  }, [search, subItem, order]);
+
+  const saveWeight = async (item: OrderItem) => {
+    const weight = parseFloat(weights[item.id]);
+    if (!(weight > 0)) {
+      Toast.show({ type: "error", text1: "Please enter a valid weight." });
+      return;
+    }
+    try {
+      await recordWeight(item.id, weight);
+      setWeights(w => ({ ...w, [item.id]: "" }));
+      Toast.show({ type: "success", text1: `${item.products.name} weighed.` });
+      await loadOrder();
+    } catch (err: any) {
+      Toast.show({ type: "error", text1: err.message });
+    }
+  };
+
+  const openSubstitute = (item: OrderItem) => {
+    setSubItem(item);
+    setSearch(item.preferred?.name ?? "");
+    setSubProductId(null);
+    setSubQuantity(String(item.quantity));
+  };
+
+  const saveSubstitute = async () => {
+    if (!subItem || !subProductId) return;
+    // weighed substitutes may be fractional, anything else is whole
+    const byWeight = results.find(p => p.id === subProductId)?.sold_by_weight;
+    const qty = byWeight ? parseFloat(subQuantity) : parseInt(subQuantity, 10);
+    setSaving(true);
+    try {
+      await recordSubstitution(subItem.id, subProductId, qty);
+      Toast.show({ type: "success", text1: "Substitution sent to customer." });
+      setSubItem(null);
+      await loadOrder();
+    } catch (err: any) {
+      Toast.show({ type: "error", text1: err.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveCredit = async () => {
+    if (!order) return;
+    const amount = parseFloat(creditAmount);
+    setSaving(true);
+    try {
+      await issueStoreCredit(order.id, amount, creditNote);
+      Toast.show({
+        type: "success",
+        text1: `$${amount.toFixed(2)} store credit issued.`,
+      });
+      setCreditOpen(false);
+      setCreditAmount("");
+      setCreditNote("");
+    } catch (err: any) {
+      Toast.show({ type: "error", text1: err.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
   if (loading) {
     return (
       <View style={styles.center}>
@@ -119,6 +279,12 @@ const EmployeeOrderDetail: React.FC = () => {
             <Text style={styles.label}>Customer:</Text>
             <Text style={styles.value}>{customerName}</Text>
           </View>
+          {order.user_profiles?.phone_number && (
+            <View style={styles.row}>
+              <Text style={styles.label}>Phone:</Text>
+              <Text style={styles.value}>{order.user_profiles.phone_number}</Text>
+            </View>
+          )}
 
           {/* Payment Method */}
           {payment && (
@@ -137,34 +303,224 @@ const EmployeeOrderDetail: React.FC = () => {
           <View style={styles.row}>
             <Text style={styles.label}>Placed:</Text>
             <Text style={styles.value}>
-              {new Date(order.created_at).toLocaleString()}
+              {formatDateTimeInZone(order.created_at, order.locations?.timezone ?? FALLBACK_TIME_ZONE)}
             </Text>
           </View>
           <View style={styles.row}>
             <Text style={styles.label}>Pickup:</Text>
             <Text style={styles.value}>
-              {new Date(order.pickup_time).toLocaleString()}
+              {formatPickupWindow(
+                order.pickup_time,
+                order.pickup_minutes,
+                order.locations?.timezone ?? FALLBACK_TIME_ZONE
+              )}
             </Text>
           </View>
+          {(order.discount_lines ?? []).map(d => (
+            <View key={d.promotion_id ?? d.label} style={styles.row}>
+              <Text style={styles.label}>
+                {d.code ? `Promo ${d.code}:` : `${d.label}:`}
+              </Text>
+              <Text style={[styles.value, styles.discount]}>
+                -${d.amount.toFixed(2)}
+              </Text>
+            </View>
+          ))}
+          {order.tip_amount > 0 && (
+            <View style={styles.row}>
+              <Text style={styles.label}>Picker tip:</Text>
+              <Text style={[styles.value, styles.tip]}>${(+order.tip_amount).toFixed(2)}</Text>
+            </View>
+          )}
           <View style={styles.row}>
-            <Text style={styles.label}>Total:</Text>
+            <Text style={styles.label}>
+              {order.price_breakdown?.estimated ? "Estimated total:" : "Total:"}
+            </Text>
             <Text style={styles.value}>${order.total_amount.toFixed(2)}</Text>
           </View>
+          {order.balance_applied > 0 && (
+            <View style={styles.row}>
+              <Text style={styles.label}>Paid with store credit:</Text>
+              <Text style={styles.value}>${(+order.balance_applied).toFixed(2)}</Text>
+            </View>
+          )}
+          {order.estimated_total != null &&
+            !order.price_breakdown?.estimated &&
+            order.estimated_total !== order.total_amount && (
+              <View style={styles.row}>
+                <Text style={styles.label}>Quoted at checkout:</Text>
+                <Text style={styles.value}>${order.estimated_total.toFixed(2)}</Text>
+              </View>
+            )}
+          <TouchableOpacity style={styles.creditButton} onPress={() => setCreditOpen(true)}>
+            <Feather name="gift" size={14} color="#2563eb" />
+            <Text style={styles.substituteButtonText}>Issue store credit</Text>
+          </TouchableOpacity>
         </View>
 
+        {/* Vehicle & parking notes */}
+        {order.customer_note && (
+          <View style={styles.noteCard}>
+            <Feather name="truck" size={18} color="#92400e" />
+            <Text style={styles.noteCardText}>{order.customer_note}</Text>
+          </View>
+        )}
+
         {/* Items Section */}
         <Text style={styles.sectionTitle}>Items</Text>
         {order.order_items.map(item => (
           <View key={item.id} style={styles.itemCard}>
-            <Text style={styles.itemName}>{item.products.name}</Text>
-            <View style={styles.itemDetails}>
-              <Text>{item.quantity} × ${item.unit_price.toFixed(2)}</Text>
-              <Text>${(item.unit_price * item.quantity).toFixed(2)}</Text>
+            <View style={styles.itemRow}>
+              <Text style={styles.itemName}>{item.products.name}</Text>
+              <View style={styles.itemDetails}>
+                <Text>
+                  {formatQuantity(item.products, item.actual_weight ?? item.quantity)} × $
+                  {item.unit_price.toFixed(2)}
+                </Text>
+                <Text>
+                  ${(item.unit_price * (item.actual_weight ?? item.quantity)).toFixed(2)}
+                </Text>
+              </View>
             </View>
+            {item.products.sold_by_weight && order.status !== "Completed" && (
+              <View style={styles.weightRow}>
+                <Text style={styles.weightLabel}>
+                  {item.actual_weight != null
+                    ? `Weighed (ordered ${formatQuantity(item.products, item.quantity)})`
+                    : `Ordered ~${formatQuantity(item.products, item.quantity)}`}
+                </Text>
+                <TextInput
+                  style={styles.weightInput}
+                  placeholder={`Actual ${item.products.unit || "lb"}`}
+                  keyboardType="decimal-pad"
+                  value={weights[item.id] ?? ""}
+                  onChangeText={v => setWeights(w => ({ ...w, [item.id]: v }))}
+                />
+                <Button size="sm" onPress={() => saveWeight(item)}>
+                  Record
+                </Button>
+              </View>
+            )}
+            {item.note && (
+              <Text style={styles.itemNote}>“{item.note}”</Text>
+            )}
+            <Text style={styles.substitutionPref}>
+              Substitution: {SUBSTITUTION_LABELS[item.substitution_preference]}
+              {item.substitution_preference === "specific" && item.preferred
+                ? ` (${item.preferred.name})`
+                : ""}
+            </Text>
+            {item.substitution_status && item.substitute && (
+              <Text style={styles.substitutionStatus}>
+                Substituted {item.substitute_quantity} × {item.substitute.name} @ $
+                {(item.substitute_unit_price ?? 0).toFixed(2)} –{" "}
+                {SUBSTITUTION_STATUS_LABELS[item.substitution_status]}
+              </Text>
+            )}
+            {item.substitution_preference !== "none" &&
+              order.status !== "Completed" && (
+                <TouchableOpacity
+                  style={styles.substituteButton}
+                  onPress={() => openSubstitute(item)}
+                >
+                  <Feather name="refresh-cw" size={14} color="#2563eb" />
+                  <Text style={styles.substituteButtonText}>
+                    {item.substitution_status ? "Change substitute" : "Substitute"}
+                  </Text>
+                </TouchableOpacity>
+              )}
           </View>
         ))}
       </ScrollView>
 
+      <Dialog
+        visible={!!subItem}
+        onClose={() => setSubItem(null)}
+        title={`Substitute ${subItem?.products.name ?? ""}`}
+        content={
+          <View>
+            <TextInput
+              style={styles.input}
+              placeholder="Search products"
+              value={search}
+              onChangeText={setSearch}
+            />
+            <ScrollView style={styles.results}>
+              {results.map(p => (
+                <TouchableOpacity
+                  key={p.id}
+                  style={[
+                    styles.result,
+                    subProductId === p.id && styles.resultSelected,
+                  ]}
+                  onPress={() => setSubProductId(p.id)}
+                >
+                  <Text style={styles.itemName}>{p.name}</Text>
+                  <Text>${(+p.price).toFixed(2)}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            <TextInput
+              style={styles.input}
+              placeholder="Quantity"
+              keyboardType="decimal-pad"
+              value={subQuantity}
+              onChangeText={setSubQuantity}
+            />
+          </View>
+        }
+        actions={
+          <>
+            <Button
+              disabled={!subProductId || saving}
+              onPress={saveSubstitute}
+            >
+              {saving ? "Saving…" : "Send to customer"}
+            </Button>
+            <Button variant="outline" onPress={() => setSubItem(null)}>
+              Cancel
+            </Button>
+          </>
+        }
+      />
+
+      <Dialog
+        visible={creditOpen}
+        onClose={() => setCreditOpen(false)}
+        title={`Store credit for ${order.order_number}`}
+        content={
+          <View>
+            <TextInput
+              style={styles.input}
+              placeholder="Amount"
+              keyboardType="decimal-pad"
+              value={creditAmount}
+              onChangeText={setCreditAmount}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Reason (shown to the customer)"
+              value={creditNote}
+              onChangeText={setCreditNote}
+              maxLength={200}
+            />
+          </View>
+        }
+        actions={
+          <>
+            <Button
+              disabled={!(parseFloat(creditAmount) > 0) || saving}
+              onPress={saveCredit}
+            >
+              {saving ? "Saving…" : "Issue credit"}
+            </Button>
+            <Button variant="outline" onPress={() => setCreditOpen(false)}>
+              Cancel
+            </Button>
+          </>
+        }
+      />
+
       <ToastContainer />
       <EmployeeNavigationBar />
     </View>
@@ -206,6 +562,8 @@ const styles = StyleSheet.create({
   },
   label: { color: "#6b7280", fontSize: 14 },
   value: { fontSize: 14, fontWeight: "500" },
+  discount: { color: "#16a34a" },
+  tip: { color: "#2563eb", fontWeight: "600" },
 
   sectionTitle: {
     fontSize: 16,
@@ -218,19 +576,82 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     padding: 12,
     marginBottom: 12,
-    flexDirection: "row",
-    justifyContent: "space-between",
     shadowColor: "#000",
     shadowOpacity: 0.03,
     shadowRadius: 4,
     elevation: 1,
   },
+  itemRow: { flexDirection: "row", justifyContent: "space-between" },
   itemName: { fontSize: 14, fontWeight: "500" },
   itemDetails: {
     flexDirection: "row",
-    width: 100,
+    width: 160,
+    justifyContent: "space-between",
+  },
+  weightRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 8,
+  },
+  weightLabel: { flex: 1, fontSize: 12, color: "#6b7280" },
+  weightInput: {
+    width: 90,
+    borderWidth: 1,
+    borderColor: "#e5e5e5",
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginRight: 8,
+  },
+  noteCard: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    backgroundColor: "#fffbeb",
+    borderColor: "#fcd34d",
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  noteCardText: { flex: 1, marginLeft: 8, fontSize: 14, color: "#92400e" },
+  itemNote: {
+    fontSize: 13,
+    fontStyle: "italic",
+    color: "#b45309",
+    marginTop: 6,
+  },
+  substitutionPref: { fontSize: 12, color: "#6b7280", marginTop: 6 },
+  substitutionStatus: { fontSize: 12, color: "#b45309", marginTop: 4 },
+  substituteButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 8,
+  },
+  substituteButtonText: { color: "#2563eb", fontSize: 13, marginLeft: 4 },
+  creditButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 4,
+  },
+
+  input: {
+    borderWidth: 1,
+    borderColor: "#e5e5e5",
+    borderRadius: 6,
+    padding: 10,
+    marginBottom: 8,
+  },
+  results: { maxHeight: 200, marginBottom: 8 },
+  result: {
+    flexDirection: "row",
     justifyContent: "space-between",
+    padding: 10,
+    borderWidth: 1,
+    borderColor: "#e5e5e5",
+    borderRadius: 6,
+    marginBottom: 6,
   },
+  resultSelected: { borderColor: "#2563eb", backgroundColor: "#eff6ff" },
 
   center: { flex: 1, justifyContent: "center", alignItems: "center" },
   message: { fontSize: 16, color: "#6b7280" },
@@ -0,0 +1,639 @@
+// app/EmployeeSchedule.tsx
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TextInput,
+  TouchableOpacity,
+} from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import EmployeeNavigationBar from "@/components/EmployeeNavigationBar";
+import { supabase } from "@/supabaseClient";
+import { Toast, useToast } from "@/hooks/use-toast";
+import {
+  PickupDay,
+  PickupOverride,
+  ScheduleSlot,
+  clearPickupOverride,
+  closedLabel,
+  fetchPickupDays,
+  fetchPickupOverrides,
+  fetchWeeklyHours,
+  setPickupOverride,
+  setPickupTiming,
+} from "@/hooks/ScheduleUtils";
+import {
+  FALLBACK_TIME_ZONE,
+  dateKeyInZone,
+  setLocationTimeZone,
+  zoneAbbreviation,
+} from "@/hooks/TimeZoneUtils";
+
+const SCHEDULE_WINDOW_DAYS = 28;
+const SLOT_LENGTHS = [15, 30, 60, 120];
+
+type Mode = "usual" | "closed" | "special";
+
+interface LocationOption {
+  id: string;
+  name: string;
+  slot_minutes: number;
+  lead_minutes: number;
+  prep_minutes_per_item: number;
+  timezone: string;
+}
+
+/** A slot row in the special hours editor. */
+interface SlotDraft {
+  time: string;
+  capacity: string; // blank for unlimited
+  offered: boolean;
+}
+
+const formatTime = (time: string) => {
+  const [h, m] = time.split(":").map(Number);
+  return `${h % 12 || 12}:${m.toString().padStart(2, "0")} ${h >= 12 ? "PM" : "AM"}`;
+};
+
+// "2026-11-26" is a local date; parsing it as-is would read it as UTC
+const parseDateKey = (key: string) => {
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const formatDay = (key: string) =>
+  parseDateKey(key).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+
+const toDrafts = (slots: ScheduleSlot[], offered: boolean): SlotDraft[] =>
+  slots.map((s) => ({
+    time: s.time,
+    capacity: s.capacity == null ? "" : String(s.capacity),
+    offered,
+  }));
+
+/**
+ * Staff: pickup window length and lead time, and holidays, reduced hours
+ * and one-off closures. Each date follows its location's weekly schedule
+ * unless it is overridden here.
+ */
+const EmployeeSchedule: React.FC = () => {
+  const navigation = useNavigation();
+  const { ToastContainer } = useToast();
+
+  const [locations, setLocations] = useState<LocationOption[]>([]);
+  const [locationId, setLocationId] = useState<string | null>(null);
+  const [weeklyHours, setWeeklyHours] = useState<Record<number, ScheduleSlot[]>>({});
+  const [days, setDays] = useState<PickupDay[]>([]);
+  const [overrides, setOverrides] = useState<PickupOverride[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // the date being edited
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [mode, setMode] = useState<Mode>("usual");
+  const [reason, setReason] = useState("");
+  const [slots, setSlots] = useState<SlotDraft[]>([]);
+  const [newTime, setNewTime] = useState("");
+
+  // the location's window length and lead time
+  const [slotMinutes, setSlotMinutes] = useState(60);
+  const [leadMinutes, setLeadMinutes] = useState("");
+  const [prepPerItem, setPrepPerItem] = useState("");
+  const [timeZoneInput, setTimeZoneInput] = useState("");
+  const [savingTiming, setSavingTiming] = useState(false);
+
+  // dates here are the location's, whatever zone this device is in
+  const timeZone = locations.find((l) => l.id === locationId)?.timezone ?? FALLBACK_TIME_ZONE;
+  const today = useMemo(() => dateKeyInZone(new Date(), timeZone), [timeZone]);
+
+  useEffect(() => {
+    (async () => {
+      const storeId = await AsyncStorage.getItem("selected_store_id");
+      if (!storeId) {
+        setLoading(false);
+        return;
+      }
+      const { data, error } = await supabase
+        .from("locations")
+        .select("id, name, slot_minutes, lead_minutes, prep_minutes_per_item, timezone")
+        .eq("store_id", storeId)
+        .order("name");
+      if (error) {
+        console.error("Error loading locations:", error);
+        Toast.show({ type: "error", text1: "Failed to load locations." });
+        setLoading(false);
+        return;
+      }
+      const locs = (data ?? []) as LocationOption[];
+      setLocations(locs);
+      const saved = await AsyncStorage.getItem("location_id");
+      setLocationId(locs.find((l) => l.id === saved)?.id ?? locs[0]?.id ?? null);
+      if (!locs.length) setLoading(false);
+    })();
+  }, []);
+
+  const load = useCallback(async () => {
+    if (!locationId) return;
+    const [weekly, loadedDays, loadedOverrides] = await Promise.all([
+      fetchWeeklyHours(locationId),
+      fetchPickupDays(locationId, today, SCHEDULE_WINDOW_DAYS),
+      fetchPickupOverrides(locationId, today),
+    ]);
+    setWeeklyHours(weekly);
+    setDays(loadedDays);
+    setOverrides(loadedOverrides);
+    setLoading(false);
+  }, [locationId, today]);
+
+  useEffect(() => {
+    setSelectedDate(null);
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    const loc = locations.find((l) => l.id === locationId);
+    if (!loc) return;
+    setSlotMinutes(loc.slot_minutes);
+    setLeadMinutes(String(loc.lead_minutes));
+    setPrepPerItem(String(Number(loc.prep_minutes_per_item)));
+    setTimeZoneInput(loc.timezone);
+  }, [locations, locationId]);
+
+  const handleSaveTiming = async () => {
+    if (!locationId) return;
+    const lead = Number(leadMinutes);
+    const perItem = Number(prepPerItem);
+    if (!Number.isInteger(lead) || lead < 0 || lead > 1440 || !(perItem >= 0)) {
+      Toast.show({ type: "error", text1: "Enter lead times in minutes." });
+      return;
+    }
+    const zone = timeZoneInput.trim();
+    setSavingTiming(true);
+    const zoneOk = zone === timeZone || (await setLocationTimeZone(locationId, zone));
+    const ok = zoneOk && (await setPickupTiming(locationId, slotMinutes, lead, perItem));
+    setSavingTiming(false);
+    if (!ok) {
+      Toast.show({
+        type: "error",
+        text1: zoneOk
+          ? "Failed to update pickup windows."
+          : "Enter a valid time zone, like America/Chicago.",
+      });
+      return;
+    }
+    setLocations((prev) =>
+      prev.map((l) =>
+        l.id === locationId
+          ? {
+              ...l,
+              slot_minutes: slotMinutes,
+              lead_minutes: lead,
+              prep_minutes_per_item: perItem,
+              timezone: zone,
+            }
+          : l
+      )
+    );
+    Toast.show({ type: "success", text1: "Pickup windows updated." });
+  };
+
+  const selectDate = (date: string) => {
+    const existing = overrides.find((o) => o.override_date === date);
+    const template = weeklyHours[parseDateKey(date).getDay()] ?? [];
+    setSelectedDate(date);
+    setReason(existing?.reason ?? "");
+    setNewTime("");
+    if (!existing) {
+      setMode("usual");
+      setSlots(toDrafts(template, true));
+    } else if (existing.closed) {
+      setMode("closed");
+      setSlots(toDrafts(template, true));
+    } else {
+      // the override's own slots, plus the template's it left out
+      const kept = existing.available_hours ?? [];
+      const dropped = template.filter((t) => !kept.some((k) => k.time === t.time));
+      setMode("special");
+      setSlots(
+        [...toDrafts(kept, true), ...toDrafts(dropped, false)].sort((a, b) =>
+          a.time.localeCompare(b.time)
+        )
+      );
+    }
+  };
+
+  const updateSlot = (time: string, change: Partial<SlotDraft>) =>
+    setSlots((prev) => prev.map((s) => (s.time === time ? { ...s, ...change } : s)));
+
+  const addSlot = () => {
+    const match = newTime.trim().match(/^(\d{1,2}):(\d{2})$/);
+    const h = match ? Number(match[1]) : NaN;
+    const m = match ? Number(match[2]) : NaN;
+    if (!match || h > 23 || m > 59) {
+      Toast.show({ type: "error", text1: "Enter a time like 14:00." });
+      return;
+    }
+    const time = `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+    if (slots.some((s) => s.time === time)) {
+      updateSlot(time, { offered: true });
+    } else {
+      setSlots((prev) =>
+        [...prev, { time, capacity: "", offered: true }].sort((a, b) =>
+          a.time.localeCompare(b.time)
+        )
+      );
+    }
+    setNewTime("");
+  };
+
+  const handleSave = async () => {
+    if (!locationId || !selectedDate) return;
+    setSaving(true);
+    try {
+      if (mode === "usual") {
+        const ok = await clearPickupOverride(locationId, selectedDate);
+        if (!ok) throw new Error("Failed to update the schedule.");
+        Toast.show({ type: "success", text1: `${formatDay(selectedDate)} follows the usual hours.` });
+      } else {
+        const hours: ScheduleSlot[] = slots
+          .filter((s) => s.offered)
+          .map((s) => ({
+            time: s.time,
+            capacity: s.capacity.trim() === "" ? null : Number(s.capacity),
+          }));
+        if (hours.some((h) => h.capacity !== null && (!Number.isInteger(h.capacity) || h.capacity < 0))) {
+          throw new Error("Capacities must be whole numbers.");
+        }
+        const booked = await setPickupOverride(
+          locationId,
+          selectedDate,
+          mode === "closed",
+          hours,
+          reason
+        );
+        Toast.show({
+          type: "success",
+          text1: mode === "closed"
+            ? `${formatDay(selectedDate)} is now closed.`
+            : `Special hours saved for ${formatDay(selectedDate)}.`,
+          text2: booked > 0
+            ? `${booked} ${booked === 1 ? "order is" : "orders are"} already booked for this day.`
+            : undefined,
+        });
+      }
+      setSelectedDate(null);
+      await load();
+    } catch (err: any) {
+      Toast.show({ type: "error", text1: err.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (override: PickupOverride) => {
+    if (!locationId) return;
+    const ok = await clearPickupOverride(locationId, override.override_date);
+    if (!ok) {
+      Toast.show({ type: "error", text1: "Failed to update the schedule." });
+      return;
+    }
+    if (selectedDate === override.override_date) setSelectedDate(null);
+    Toast.show({
+      type: "success",
+      text1: `${formatDay(override.override_date)} follows the usual hours.`,
+    });
+    await load();
+  };
+
+  const describe = (o: PickupOverride) =>
+    o.closed
+      ? `Closed${o.reason ? ` · ${o.reason}` : ""}`
+      : `${(o.available_hours ?? []).map((h) => formatTime(h.time)).join(", ")}${
+          o.reason ? ` · ${o.reason}` : ""
+        }`;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Button
+          variant="ghost"
+          size="icon"
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Feather name="arrow-left" size={24} color="#000" />
+        </Button>
+        <Text style={styles.headerTitle}>Pickup Schedule</Text>
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#16a34a" />
+        </View>
+      ) : !locationId ? (
+        <View style={styles.centered}>
+          <Text style={styles.hint}>This store has no pickup locations.</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContainer}>
+          {locations.length > 1 && (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.pillRow}>
+              {locations.map((l) => (
+                <TouchableOpacity
+                  key={l.id}
+                  style={[styles.pill, l.id === locationId && styles.pillSelected]}
+                  onPress={() => setLocationId(l.id)}
+                >
+                  <Text style={[styles.pillText, l.id === locationId && styles.pillTextSelected]}>
+                    {l.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Pickup windows</Text>
+            <Text style={styles.hint}>Window length</Text>
+            <View style={styles.modeRow}>
+              {SLOT_LENGTHS.map((m) => (
+                <Button
+                  key={m}
+                  size="sm"
+                  variant={slotMinutes === m ? "default" : "outline"}
+                  style={styles.modeButton}
+                  onPress={() => setSlotMinutes(m)}
+                >
+                  {m < 60 ? `${m} min` : `${m / 60} hr`}
+                </Button>
+              ))}
+            </View>
+            <View style={styles.timingRow}>
+              <Text style={styles.timingLabel}>Minimum lead time (minutes)</Text>
+              <TextInput
+                style={styles.capacityInput}
+                value={leadMinutes}
+                onChangeText={setLeadMinutes}
+                keyboardType="number-pad"
+              />
+            </View>
+            <View style={styles.timingRow}>
+              <Text style={styles.timingLabel}>Extra minutes per item</Text>
+              <TextInput
+                style={styles.capacityInput}
+                value={prepPerItem}
+                onChangeText={setPrepPerItem}
+                keyboardType="decimal-pad"
+              />
+            </View>
+            <Text style={[styles.hint, { marginTop: 8 }]}>
+              Products with their own prep time use it instead of the per-item minutes.
+            </Text>
+            <View style={styles.timingRow}>
+              <Text style={styles.timingLabel}>
+                {`Time zone (now ${zoneAbbreviation(new Date(), timeZone)})`}
+              </Text>
+              <TextInput
+                style={[styles.capacityInput, styles.zoneInput]}
+                value={timeZoneInput}
+                onChangeText={setTimeZoneInput}
+                placeholder="America/Chicago"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+            <Text style={[styles.hint, { marginTop: 8 }]}>
+              Pickup times and dates are on this clock for customers and staff alike.
+            </Text>
+            <Button style={styles.saveButton} disabled={savingTiming} onPress={handleSaveTiming}>
+              {savingTiming ? "Saving…" : "Save"}
+            </Button>
+          </View>
+
+          <Text style={styles.sectionTitle}>Next {SCHEDULE_WINDOW_DAYS} days</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.pillRow}>
+            {days.map((d) => {
+              const selected = d.date === selectedDate;
+              return (
+                <TouchableOpacity
+                  key={d.date}
+                  style={[styles.dayPill, selected && styles.pillSelected]}
+                  onPress={() => selectDate(d.date)}
+                >
+                  <Text style={[styles.pillText, selected && styles.pillTextSelected]}>
+                    {formatDay(d.date)}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.dayStatus,
+                      d.closed && styles.dayClosed,
+                      selected && styles.pillTextSelected,
+                    ]}
+                  >
+                    {d.closed ? "Closed" : d.overridden ? "Special hours" : "Usual"}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          {selectedDate && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>{formatDay(selectedDate)}</Text>
+
+              <View style={styles.modeRow}>
+                {(["usual", "closed", "special"] as Mode[]).map((m) => (
+                  <Button
+                    key={m}
+                    size="sm"
+                    variant={mode === m ? "default" : "outline"}
+                    style={styles.modeButton}
+                    onPress={() => setMode(m)}
+                  >
+                    {m === "usual" ? "Usual hours" : m === "closed" ? "Closed" : "Special hours"}
+                  </Button>
+                ))}
+              </View>
+
+              {mode === "usual" && (
+                <Text style={styles.hint}>
+                  {slots.length
+                    ? `Open ${slots.map((s) => formatTime(s.time)).join(", ")}.`
+                    : "The weekly schedule has no pickup times on this day."}
+                </Text>
+              )}
+
+              {mode === "special" && (
+                <>
+                  <Text style={styles.hint}>
+                    Choose the times offered this day. Leave capacity blank for unlimited.
+                  </Text>
+                  {slots.map((s) => (
+                    <View key={s.time} style={styles.slotRow}>
+                      <Switch
+                        value={s.offered}
+                        onValueChange={(offered) => updateSlot(s.time, { offered })}
+                      />
+                      <Text style={[styles.slotTime, !s.offered && styles.slotOff]}>
+                        {formatTime(s.time)}
+                      </Text>
+                      <TextInput
+                        style={styles.capacityInput}
+                        value={s.capacity}
+                        onChangeText={(capacity) => updateSlot(s.time, { capacity })}
+                        placeholder="∞"
+                        keyboardType="number-pad"
+                        editable={s.offered}
+                      />
+                    </View>
+                  ))}
+                  <View style={styles.slotRow}>
+                    <TextInput
+                      style={[styles.input, { flex: 1 }]}
+                      value={newTime}
+                      onChangeText={setNewTime}
+                      placeholder="Add a time (HH:MM)"
+                      autoCorrect={false}
+                    />
+                    <Button variant="outline" size="sm" style={styles.addButton} onPress={addSlot}>
+                      Add
+                    </Button>
+                  </View>
+                </>
+              )}
+
+              {mode !== "usual" && (
+                <TextInput
+                  style={styles.input}
+                  value={reason}
+                  onChangeText={setReason}
+                  placeholder={mode === "closed" ? "Reason, e.g. Thanksgiving" : "Reason, e.g. Reduced hours"}
+                  maxLength={80}
+                />
+              )}
+
+              <Button style={styles.saveButton} disabled={saving} onPress={handleSave}>
+                {saving ? "Saving…" : "Save"}
+              </Button>
+            </View>
+          )}
+
+          <Text style={styles.sectionTitle}>Upcoming changes</Text>
+          {overrides.length === 0 ? (
+            <Text style={styles.hint}>Every day follows the weekly schedule.</Text>
+          ) : (
+            overrides.map((o) => (
+              <View key={o.id} style={styles.overrideRow}>
+                <TouchableOpacity style={{ flex: 1 }} onPress={() => selectDate(o.override_date)}>
+                  <Text style={styles.overrideDate}>{formatDay(o.override_date)}</Text>
+                  <Text style={[styles.hint, o.closed && styles.dayClosed]}>{describe(o)}</Text>
+                </TouchableOpacity>
+                <Button variant="ghost" size="icon" onPress={() => handleRemove(o)}>
+                  <Feather name="trash-2" size={18} color="#6b7280" />
+                </Button>
+              </View>
+            ))
+          )}
+        </ScrollView>
+      )}
+
+      <ToastContainer />
+      <EmployeeNavigationBar />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#f9f9f9" },
+  header: {
+    backgroundColor: "#fff",
+    padding: 16,
+    flexDirection: "row",
+    alignItems: "center",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e5e5",
+  },
+  backButton: { marginRight: 8 },
+  headerTitle: { fontSize: 20, fontWeight: "bold" },
+  centered: { flex: 1, justifyContent: "center", alignItems: "center" },
+  scrollContainer: { padding: 16, paddingBottom: 80 },
+  sectionTitle: { fontSize: 16, fontWeight: "600", color: "#374151", marginBottom: 8 },
+  hint: { fontSize: 13, color: "#6b7280" },
+  pillRow: { marginBottom: 16 },
+  pill: {
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    backgroundColor: "#fff",
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    marginRight: 8,
+  },
+  dayPill: {
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    backgroundColor: "#fff",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    marginRight: 8,
+    alignItems: "center",
+  },
+  pillSelected: { backgroundColor: "#16a34a", borderColor: "#16a34a" },
+  pillText: { fontWeight: "600", color: "#374151" },
+  pillTextSelected: { color: "#fff" },
+  dayStatus: { fontSize: 11, color: "#6b7280", marginTop: 2 },
+  dayClosed: { color: "#b91c1c" },
+  card: { backgroundColor: "#fff", borderRadius: 8, padding: 16, marginBottom: 24 },
+  cardTitle: { fontSize: 16, fontWeight: "bold", marginBottom: 12 },
+  modeRow: { flexDirection: "row", marginBottom: 12 },
+  modeButton: { marginRight: 8 },
+  slotRow: { flexDirection: "row", alignItems: "center", marginTop: 10 },
+  timingRow: { flexDirection: "row", alignItems: "center", marginTop: 10 },
+  timingLabel: { flex: 1, fontSize: 14, color: "#374151" },
+  zoneInput: { width: 160, textAlign: "left" },
+  slotTime: { flex: 1, marginLeft: 12, fontSize: 15, fontWeight: "500" },
+  slotOff: { color: "#9ca3af", textDecorationLine: "line-through" },
+  capacityInput: {
+    width: 64,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    textAlign: "center",
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    marginTop: 12,
+  },
+  addButton: { marginLeft: 8, marginTop: 12 },
+  saveButton: { marginTop: 16 },
+  overrideRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#fff",
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  overrideDate: { fontSize: 14, fontWeight: "600", marginBottom: 2 },
+});
+
+export default EmployeeSchedule;
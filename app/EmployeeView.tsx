@@ -5,7 +5,11 @@ import {
   StyleSheet,
   TouchableOpacity,
   ScrollView,
+  TextInput,
+  Switch,
+  Image,
 } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Feather } from "@expo/vector-icons";
 import { useNavigation } from "@react-navigation/native";
 import { supabase } from "@/supabaseClient";
@@ -27,20 +31,34 @@ import {
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Toast, useToast } from "../hooks/use-toast";
+import { setOrdersPaused } from "@/hooks/OrderingRulesUtils";
+import { formatPickupWindow } from "@/hooks/CheckoutUtils";
+import { FALLBACK_TIME_ZONE } from "@/hooks/TimeZoneUtils";
+import {
+  QueuedArrival,
+  arrivalPhotoUrl,
+  fetchArrivalQueue,
+  formatWait,
+  markOnTheWay,
+} from "@/hooks/ArrivalUtils";
 
 interface OrderItem {
   id: string;
   name: string;
   quantity: number;
   price: number;
+  note: string | null;
 }
 
 interface Order {
   id: string;
-  status: "In Progress" | "Ready for Pickup" | "Completed";
+  status: "Pending" | "In Progress" | "Ready for Pickup" | "Completed" | "Cancelled";
   orderNumber: string;
+  edited: boolean; // changed by the customer after checkout
+  pickup: string | null; // the window on the store's clock, with its zone
   total: number;
   customerName: string;
+  note: string | null;
   items: OrderItem[];
 }
 
@@ -52,6 +70,116 @@ const EmployeeView: React.FC = () => {
   const [isStatusDialogOpen, setIsStatusDialogOpen] = useState(false);
   const { ToastContainer } = useToast();
 
+  // busy mode: stops new online orders for the store
+  const [storeId, setStoreId] = useState<string | null>(null);
+  const [ordersPaused, setOrdersPausedState] = useState(false);
+  const [isPauseDialogOpen, setIsPauseDialogOpen] = useState(false);
+  const [pauseMessage, setPauseMessage] = useState("");
+
+  // curbside arrivals at one of the store's locations. Realtime is off in
+  // the client, so the queue is polled; each poll also moves wait times on
+  const [locations, setLocations] = useState<{ id: string; name: string }[]>([]);
+  const [locationId, setLocationId] = useState<string | null>(null);
+  const [arrivals, setArrivals] = useState<QueuedArrival[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [now, setNow] = useState(Date.now());
+  const [sendingOut, setSendingOut] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      const id = await AsyncStorage.getItem("selected_store_id");
+      const { data, error } = id
+        ? await supabase.from("locations").select("id, name").eq("store_id", id).order("name")
+        : { data: null, error: null };
+      if (error) console.error("Error loading locations:", error);
+      const locs = data ?? [];
+      if (!locs.length) {
+        Toast.show({
+          type: "error",
+          text1: "No store location found.",
+          text2: "Curbside arrivals can't be shown.",
+        });
+        return;
+      }
+      setLocations(locs);
+      setLocationId(locs[0].id);
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (!locationId) return;
+    let stale = false;
+    const load = async () => {
+      const queue = await fetchArrivalQueue(locationId);
+      if (stale) return;
+      setArrivals(queue);
+      setNow(Date.now());
+    };
+    load();
+    const poller = setInterval(load, 15000);
+    return () => {
+      stale = true;
+      clearInterval(poller);
+    };
+  }, [locationId]);
+
+  useEffect(() => {
+    arrivals.forEach(async (a) => {
+      if (!a.photo_path || photoUrls[a.photo_path]) return;
+      const url = await arrivalPhotoUrl(a.photo_path);
+      if (url) setPhotoUrls((prev) => ({ ...prev, [a.photo_path!]: url }));
+    });
+  }, [arrivals]);
+
+  const handleOnTheWay = async (arrival: QueuedArrival) => {
+    setSendingOut(arrival.order_id);
+    const ok = await markOnTheWay(arrival.order_id);
+    setSendingOut(null);
+    if (!ok) {
+      Toast.show({ type: "error", text1: "Failed to update the arrival." });
+      return;
+    }
+    setArrivals((prev) =>
+      prev.map((a) =>
+        a.order_id === arrival.order_id ? { ...a, on_the_way_at: new Date().toISOString() } : a
+      )
+    );
+    Toast.show({
+      type: "success",
+      text1: `Told the customer ${arrival.orders.order_number} is on the way.`,
+    });
+  };
+
+  useEffect(() => {
+    (async () => {
+      const id = await AsyncStorage.getItem("selected_store_id");
+      if (!id) return;
+      setStoreId(id);
+      const { data, error } = await supabase
+        .from("store_settings")
+        .select("orders_paused")
+        .eq("store_id", id)
+        .maybeSingle();
+      if (!error) setOrdersPausedState(!!data?.orders_paused);
+    })();
+  }, []);
+
+  const handleSetPaused = async (paused: boolean) => {
+    if (!storeId) return;
+    const ok = await setOrdersPaused(storeId, paused, pauseMessage);
+    setIsPauseDialogOpen(false);
+    if (!ok) {
+      Toast.show({ type: "error", text1: "Failed to update online ordering." });
+      return;
+    }
+    setOrdersPausedState(paused);
+    setPauseMessage("");
+    Toast.show({
+      type: "success",
+      text1: paused ? "Online orders paused." : "Online orders resumed.",
+    });
+  };
+
   useEffect(() => {
     const fetchOrders = async () => {
       try {
@@ -68,6 +196,11 @@ const EmployeeView: React.FC = () => {
             total_amount,
             order_number,
             created_at,
+            customer_note,
+            edited_at,
+            pickup_time,
+            pickup_minutes,
+            locations (timezone),
             user_id,
             profiles!orders_user_id_fkey (first_name, last_name)
           `)
@@ -83,7 +216,7 @@ const EmployeeView: React.FC = () => {
         const { data: orderItemsData, error: orderItemsError } =
           await supabase
             .from("order_items")
-            .select("id, order_id, quantity, unit_price, products (name)");
+            .select("id, order_id, quantity, unit_price, note, products!order_items_product_id_fkey (name)");
 
         if (orderItemsError) {
           console.error(
@@ -101,10 +234,19 @@ const EmployeeView: React.FC = () => {
           id: o.id,
           status: o.status,
           orderNumber: o.order_number,
+          edited: !!o.edited_at,
+          pickup: o.pickup_time
+            ? formatPickupWindow(
+                o.pickup_time,
+                o.pickup_minutes ?? 60,
+                o.locations?.timezone ?? FALLBACK_TIME_ZONE
+              )
+            : null,
           total: o.total_amount,
           customerName: o.profiles
             ? `${o.profiles.first_name} ${o.profiles.last_name}`.trim()
             : "Customer",
+          note: o.customer_note,
           items: orderItemsData
             .filter((i: any) => i.order_id === o.id)
             .map((i: any) => ({
@@ -112,6 +254,7 @@ const EmployeeView: React.FC = () => {
               name: i.products?.name || "Product",
               quantity: i.quantity,
               price: i.unit_price,
+              note: i.note,
             })),
         }));
 
@@ -160,6 +303,9 @@ const EmployeeView: React.FC = () => {
             : order
         )
       );
+      if (newStatus === "Completed") {
+        setArrivals((prev) => prev.filter((a) => a.order_id !== selectedOrder.id));
+      }
       setIsStatusDialogOpen(false);
       setIsOrderDetailsOpen(false);
       Toast.show({
@@ -185,6 +331,93 @@ const EmployeeView: React.FC = () => {
           </TouchableOpacity>
         </View>
 
+        {/* Busy mode */}
+        {storeId && (
+          <View style={[styles.pauseCard, ordersPaused && styles.pauseCardActive]}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.pauseTitle}>Online orders</Text>
+              <Text style={styles.pauseStatus}>
+                {ordersPaused ? "Paused — customers can't check out" : "Accepting orders"}
+              </Text>
+            </View>
+            <Switch
+              value={!ordersPaused}
+              onValueChange={(accepting) =>
+                accepting ? handleSetPaused(false) : setIsPauseDialogOpen(true)
+              }
+            />
+          </View>
+        )}
+
+        {/* Curbside arrivals, longest wait first */}
+        {locations.length > 1 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.pillRow}>
+            {locations.map((l) => (
+              <TouchableOpacity
+                key={l.id}
+                style={[styles.pill, l.id === locationId && styles.pillSelected]}
+                onPress={() => setLocationId(l.id)}
+              >
+                <Text style={[styles.pillText, l.id === locationId && styles.pillTextSelected]}>
+                  {l.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+        {arrivals.length > 0 && (
+          <View style={styles.main}>
+            <Text style={styles.arrivalsTitle}>Arrivals ({arrivals.length})</Text>
+            {arrivals.map((arrival) => {
+              const customer = arrival.orders.profiles;
+              const photoUrl = arrival.photo_path ? photoUrls[arrival.photo_path] : null;
+              return (
+                <View key={arrival.id} style={styles.arrivalCard}>
+                  <View style={styles.arrivalRow}>
+                    {photoUrl ? (
+                      <Image source={{ uri: photoUrl }} style={styles.arrivalPhoto} />
+                    ) : (
+                      <View style={[styles.arrivalPhoto, styles.arrivalPhotoEmpty]}>
+                        <Feather name="truck" size={20} color="#9ca3af" />
+                      </View>
+                    )}
+                    <View style={{ flex: 1 }}>
+                      <View style={styles.orderTop}>
+                        <Text style={styles.orderId}>{arrival.orders.order_number}</Text>
+                        <Text style={styles.arrivalWait}>
+                          {formatWait(arrival.arrived_at, now)}
+                        </Text>
+                      </View>
+                      <Text style={styles.arrivalText}>
+                        {customer
+                          ? `${customer.first_name ?? ""} ${customer.last_name ?? ""}`.trim()
+                          : "Customer"}
+                      </Text>
+                      <Text style={styles.arrivalSpot}>Spot {arrival.parking_spot}</Text>
+                      {arrival.vehicle && (
+                        <Text style={styles.arrivalText}>{arrival.vehicle}</Text>
+                      )}
+                    </View>
+                  </View>
+                  {arrival.on_the_way_at ? (
+                    <Text style={styles.arrivalOnTheWay}>
+                      On the way · {formatWait(arrival.on_the_way_at, now)}
+                    </Text>
+                  ) : (
+                    <Button
+                      style={styles.onTheWayButton}
+                      disabled={sendingOut === arrival.order_id}
+                      onPress={() => handleOnTheWay(arrival)}
+                    >
+                      <Text style={styles.detailsButtonText}>On the Way Out</Text>
+                    </Button>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        )}
+
         {/* Orders */}
         <View style={styles.main}>
           {orders.map((order) => (
@@ -199,15 +432,23 @@ const EmployeeView: React.FC = () => {
               <View style={styles.orderTop}>
                 <View>
                   <Text style={styles.orderId}>{order.orderNumber}</Text>
-                  <View
-                    style={[
-                      styles.statusBadge,
-                      { backgroundColor: getStatusColor(order.status) },
-                    ]}
-                  >
-                    <Text style={styles.statusBadgeText}>
-                      {order.status}
-                    </Text>
+                  <View style={styles.badgeRow}>
+                    <View
+                      style={[
+                        styles.statusBadge,
+                        { backgroundColor: getStatusColor(order.status) },
+                      ]}
+                    >
+                      <Text style={styles.statusBadgeText}>
+                        {order.status}
+                      </Text>
+                    </View>
+                    {order.edited && (
+                      <View style={styles.editedBadge}>
+                        <Feather name="edit-2" size={10} color="#7c3aed" />
+                        <Text style={styles.editedBadgeText}>Edited</Text>
+                      </View>
+                    )}
                   </View>
                 </View>
                 <Text style={styles.customerName}>
@@ -215,12 +456,25 @@ const EmployeeView: React.FC = () => {
                 </Text>
               </View>
 
+              {order.pickup && (
+                <View style={styles.orderDetails}>
+                  <Feather name="clock" size={16} style={styles.icon} />
+                  <Text style={styles.itemsText}>{order.pickup}</Text>
+                </View>
+              )}
+
               {/* summary of items */}
               <View style={styles.orderDetails}>
                 <Feather name="package" size={16} style={styles.icon} />
                 <Text style={styles.itemsText}>
                   {order.items.length} items
                 </Text>
+                {(order.note || order.items.some((i) => i.note)) && (
+                  <>
+                    <Feather name="message-square" size={16} style={[styles.icon, styles.noteIcon]} />
+                    <Text style={styles.noteFlag}>Has notes</Text>
+                  </>
+                )}
               </View>
 
               {/* View Details under summary */}
@@ -253,6 +507,20 @@ const EmployeeView: React.FC = () => {
               <Text style={styles.customerName}>
                 {selectedOrder.customerName}
               </Text>
+              {selectedOrder.pickup && (
+                <Text style={styles.itemsText}>Pickup: {selectedOrder.pickup}</Text>
+              )}
+              {selectedOrder.edited && (
+                <Text style={styles.editedNote}>
+                  The customer edited this order after checkout.
+                </Text>
+              )}
+              {selectedOrder.note && (
+                <View style={styles.orderNote}>
+                  <Feather name="truck" size={16} color="#92400e" />
+                  <Text style={styles.orderNoteText}>{selectedOrder.note}</Text>
+                </View>
+              )}
               <Table>
                 <TableHeader>
                   <TableRow>
@@ -264,7 +532,12 @@ const EmployeeView: React.FC = () => {
                 <TableBody>
                   {selectedOrder.items.map((item) => ( 
                     <TableRow key={item.id}>
-                      <TableCell>{item.name}</TableCell>
+                      <TableCell>
+                        {item.name}
+                        {item.note && (
+                          <Text style={styles.itemNote}>{`\n“${item.note}”`}</Text>
+                        )}
+                      </TableCell>
                       <TableCell>{item.quantity}</TableCell>
                       <TableCell>
                         {formatCurrency(item.price)}
@@ -280,17 +553,21 @@ const EmployeeView: React.FC = () => {
                 </Text>
               </View>
               <DrawerFooter>
-                <Button
-                  onPress={() => {
-                    setIsOrderDetailsOpen(false);
-                    setIsStatusDialogOpen(true);
-                  }}
-                  style={[styles.updateButton, { backgroundColor: "#16a34a" }]}
-                >
-                  <Text style={styles.updateButtonText}>
-                    Update Status
-                  </Text>
-                </Button>
+                {selectedOrder.status === "Cancelled" ? (
+                  <Text style={styles.editedNote}>Cancelled by the customer.</Text>
+                ) : (
+                  <Button
+                    onPress={() => {
+                      setIsOrderDetailsOpen(false);
+                      setIsStatusDialogOpen(true);
+                    }}
+                    style={[styles.updateButton, { backgroundColor: "#16a34a" }]}
+                  >
+                    <Text style={styles.updateButtonText}>
+                      Update Status
+                    </Text>
+                  </Button>
+                )}
               </DrawerFooter>
             </>
           )}
@@ -364,6 +641,40 @@ const EmployeeView: React.FC = () => {
         }
       />
 
+      {/* Pause Dialog */}
+      <Dialog
+        visible={isPauseDialogOpen}
+        onClose={() => setIsPauseDialogOpen(false)}
+        title="Pause online orders?"
+        content={
+          <View style={{ marginTop: 8 }}>
+            <Text style={styles.pauseStatus}>
+              Customers won't be able to check out until you resume.
+            </Text>
+            <TextInput
+              style={styles.pauseInput}
+              placeholder="Message for customers (optional)"
+              value={pauseMessage}
+              onChangeText={setPauseMessage}
+              maxLength={140}
+            />
+          </View>
+        }
+        actions={
+          <>
+            <Button
+              onPress={() => handleSetPaused(true)}
+              style={{ backgroundColor: "#b91c1c" }}
+            >
+              <Text style={{ color: "white", fontWeight: "600" }}>Pause</Text>
+            </Button>
+            <Button variant="outline" onPress={() => setIsPauseDialogOpen(false)}>
+              Cancel
+            </Button>
+          </>
+        }
+      />
+
       {/* Toast overlay */}
       <ToastContainer />
 
@@ -387,6 +698,69 @@ const styles = StyleSheet.create({
   },
   scanButtonText: { color: "white", fontWeight: "600" },
 
+  pauseCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#fff",
+    marginHorizontal: 16,
+    marginBottom: 16,
+    padding: 16,
+    borderRadius: 8,
+    elevation: 2,
+  },
+  pauseCardActive: { backgroundColor: "#fef2f2" },
+  pauseTitle: { fontSize: 16, fontWeight: "bold" },
+  pauseStatus: { fontSize: 14, color: "#6b7280", marginTop: 2 },
+  pauseInput: {
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: "#e5e5e5",
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+
+  pillRow: { marginHorizontal: 16, marginBottom: 16 },
+  pill: {
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    backgroundColor: "#fff",
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    marginRight: 8,
+  },
+  pillSelected: { backgroundColor: "#16a34a", borderColor: "#16a34a" },
+  pillText: { fontWeight: "600", color: "#374151" },
+  pillTextSelected: { color: "#fff" },
+  arrivalsTitle: { fontSize: 18, fontWeight: "bold", marginBottom: 8 },
+  arrivalCard: {
+    backgroundColor: "#ecfdf5",
+    borderColor: "#6ee7b7",
+    borderWidth: 1,
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  arrivalRow: { flexDirection: "row" },
+  arrivalPhoto: { width: 72, height: 72, borderRadius: 6, marginRight: 12 },
+  arrivalPhotoEmpty: {
+    backgroundColor: "#f3f4f6",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  arrivalWait: { fontSize: 14, fontWeight: "600", color: "#b45309" },
+  arrivalSpot: { fontSize: 16, fontWeight: "600", color: "#065f46", marginTop: 2 },
+  arrivalText: { fontSize: 14, color: "#374151" },
+  arrivalOnTheWay: { marginTop: 12, fontSize: 14, fontWeight: "600", color: "#047857" },
+  onTheWayButton: {
+    backgroundColor: "#047857",
+    paddingVertical: 10,
+    borderRadius: 6,
+    alignItems: "center",
+    marginTop: 12,
+  },
+
   orderCard: {
     backgroundColor: "#fff",
     padding: 16,
@@ -408,6 +782,19 @@ const styles = StyleSheet.create({
     alignSelf: "flex-start",
   },
   statusBadgeText: { color: "white", fontSize: 12, fontWeight: "600" },
+  badgeRow: { flexDirection: "row", alignItems: "center" },
+  editedBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginLeft: 6,
+    marginTop: 6,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    backgroundColor: "#ede9fe",
+  },
+  editedBadgeText: { color: "#7c3aed", fontSize: 11, fontWeight: "600", marginLeft: 3 },
+  editedNote: { fontSize: 13, color: "#6b7280", marginBottom: 8 },
   customerName: {
     fontSize: 16,
     fontWeight: "600",
@@ -466,6 +853,21 @@ const styles = StyleSheet.create({
   },
 
   drawerContent: { padding: 16 },
+
+  noteIcon: { marginLeft: 12, color: "#b45309" },
+  noteFlag: { fontSize: 14, color: "#b45309" },
+  orderNote: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    backgroundColor: "#fffbeb",
+    borderColor: "#fcd34d",
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  orderNoteText: { flex: 1, marginLeft: 8, fontSize: 14, color: "#92400e" },
+  itemNote: { fontSize: 12, fontStyle: "italic", color: "#b45309" },
 });
 
 export default EmployeeView;
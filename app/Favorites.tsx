@@ -0,0 +1,255 @@
+// app/Favorites.tsx
+
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  Image,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { useNavigation, useFocusEffect } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import { Button } from "@/components/ui/button";
+import NavigationBar from "@/components/NavigationBar";
+import { addToCart } from "@/hooks/CartUtils";
+import {
+  FavoriteProduct,
+  fetchFavoriteProducts,
+  toggleFavorite,
+} from "@/hooks/FavoritesUtils";
+import { priceSuffix } from "@/hooks/QuantityUtils";
+import { getImageUrl } from "@/hooks/ImageUtils";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { Toast, useToast } from "@/hooks/use-toast";
+
+const Favorites: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const { primary } = useColorScheme();
+  const { ToastContainer } = useToast();
+
+  const [favorites, setFavorites] = useState<FavoriteProduct[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+
+  // reload on focus so stars added elsewhere and location changes show up
+  useFocusEffect(
+    useCallback(() => {
+      setLoading(true);
+      fetchFavoriteProducts()
+        .then((rows) => {
+          setFavorites(rows);
+          setSelected(new Set(rows.filter((r) => r.available).map((r) => r.favorite_id)));
+        })
+        .finally(() => setLoading(false));
+    }, [])
+  );
+
+  const toggleSelected = (id: string) =>
+    setSelected((s) => {
+      const next = new Set(s);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const removeFavorite = async (fav: FavoriteProduct) => {
+    try {
+      await toggleFavorite(fav.favorite_id);
+      setFavorites((list) => list.filter((f) => f.favorite_id !== fav.favorite_id));
+      setSelected((s) => {
+        const next = new Set(s);
+        next.delete(fav.favorite_id);
+        return next;
+      });
+    } catch (err: any) {
+      Toast.show({ type: "error", text1: err.message });
+    }
+  };
+
+  const addSelectedToCart = async () => {
+    const picks = favorites.filter((f) => f.available && selected.has(f.favorite_id));
+    if (!picks.length) return;
+    setAdding(true);
+    try {
+      let added = 0;
+      for (const fav of picks) {
+        if ((await addToCart(fav.product)) > 0) added++;
+      }
+      const skipped = picks.length - added;
+      Toast.show({
+        type: added ? "success" : "error",
+        text1: added
+          ? `Added ${added} item${added === 1 ? "" : "s"} to cart`
+          : "Nothing more could be added.",
+        text2: added && skipped ? `${skipped} already at the stock limit.` : undefined,
+      });
+    } catch (err) {
+      console.error("Bulk add failed:", err);
+      Toast.show({ type: "error", text1: "Failed to add to cart." });
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const selectedCount = favorites.filter(
+    (f) => f.available && selected.has(f.favorite_id)
+  ).length;
+
+  const renderFavorite = ({ item }: { item: FavoriteProduct }) => {
+    const checked = item.available && selected.has(item.favorite_id);
+    return (
+      <View style={[styles.row, !item.available && styles.rowUnavailable]}>
+        <TouchableOpacity
+          style={styles.checkbox}
+          disabled={!item.available}
+          onPress={() => toggleSelected(item.favorite_id)}
+        >
+          <Feather
+            name={checked ? "check-square" : "square"}
+            size={20}
+            color={item.available ? primary : "#d1d5db"}
+          />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.product}
+          onPress={() =>
+            navigation.navigate("ProductDetails", { productId: item.product.id })
+          }
+        >
+          <Image source={{ uri: getImageUrl(item.product) }} style={styles.image} />
+          <View style={styles.details}>
+            <Text style={styles.name} numberOfLines={2}>
+              {item.product.name}
+            </Text>
+            <Text style={[styles.price, { color: primary }]}>
+              ${(+item.product.price).toFixed(2)}
+              {priceSuffix(item.product)}
+            </Text>
+            {!item.available && (
+              <Text style={styles.unavailable}>
+                {item.product.stock_quantity != null && item.product.stock_quantity <= 0
+                  ? "Out of stock"
+                  : "Not available at this location"}
+              </Text>
+            )}
+          </View>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.heart}
+          onPress={() => removeFavorite(item)}
+          accessibilityLabel="Remove from favorites"
+        >
+          <Feather name="heart" size={20} color="red" />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Feather name="arrow-left" size={24} color="#000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Favorites</Text>
+      </View>
+
+      {loading ? (
+        <View style={styles.center}>
+          <ActivityIndicator size="large" color={primary} />
+        </View>
+      ) : favorites.length === 0 ? (
+        <View style={styles.center}>
+          <Feather name="heart" size={48} color="#d1d5db" />
+          <Text style={styles.emptyTitle}>No favorites yet</Text>
+          <Text style={styles.emptySubtitle}>
+            Tap the heart on any product to save it here.
+          </Text>
+        </View>
+      ) : (
+        <>
+          <FlatList
+            data={favorites}
+            keyExtractor={(f) => f.favorite_id}
+            renderItem={renderFavorite}
+            contentContainerStyle={styles.list}
+          />
+          <View style={styles.footer}>
+            <Button
+              style={[
+                styles.addButton,
+                { backgroundColor: primary },
+                (!selectedCount || adding) && styles.addButtonDisabled,
+              ]}
+              disabled={!selectedCount || adding}
+              onPress={addSelectedToCart}
+            >
+              <Text style={styles.addButtonText}>
+                {adding
+                  ? "Adding…"
+                  : `Add ${selectedCount} item${selectedCount === 1 ? "" : "s"} to cart`}
+              </Text>
+            </Button>
+          </View>
+        </>
+      )}
+
+      <ToastContainer />
+      <NavigationBar />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#f9f9f9" },
+  header: {
+    backgroundColor: "#fff",
+    padding: 16,
+    flexDirection: "row",
+    alignItems: "center",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e5e5",
+  },
+  backButton: { marginRight: 8 },
+  headerTitle: { fontSize: 20, fontWeight: "bold" },
+  list: { padding: 16, paddingBottom: 160 },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#fff",
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  rowUnavailable: { opacity: 0.6 },
+  checkbox: { marginRight: 12 },
+  product: { flex: 1, flexDirection: "row", alignItems: "center" },
+  image: { width: 56, height: 56, borderRadius: 8 },
+  details: { flex: 1, marginLeft: 12 },
+  name: { fontSize: 14, fontWeight: "500", marginBottom: 4 },
+  price: { fontSize: 14, fontWeight: "bold" },
+  unavailable: { fontSize: 12, color: "#b91c1c", marginTop: 2 },
+  heart: { padding: 8 },
+  footer: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    bottom: 64,
+    padding: 16,
+    backgroundColor: "#fff",
+    borderTopWidth: 1,
+    borderTopColor: "#e5e5e5",
+  },
+  addButton: { paddingVertical: 12, borderRadius: 8, alignItems: "center" },
+  addButtonDisabled: { opacity: 0.6 },
+  addButtonText: { color: "#fff", fontSize: 16, fontWeight: "600" },
+  center: { flex: 1, justifyContent: "center", alignItems: "center", padding: 32 },
+  emptyTitle: { fontSize: 18, fontWeight: "bold", marginTop: 16, marginBottom: 8 },
+  emptySubtitle: { fontSize: 14, color: "#6b7280", textAlign: "center" },
+});
+
+export default Favorites;
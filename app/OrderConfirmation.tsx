@@ -0,0 +1,166 @@
+// app/OrderConfirmation.tsx
+
+import React, { useEffect, useState } from "react";
+import { View, Text, StyleSheet, ActivityIndicator } from "react-native";
+import { useNavigation, useRoute, NavigationProp } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/supabaseClient";
+import { formatPickupWindow } from "@/hooks/CheckoutUtils";
+import { Toast, useToast } from "../hooks/use-toast";
+
+type RootStackParamList = {
+  OrderDetails: { orderId: string };
+  "(tabs)/index": undefined;
+};
+
+interface ConfirmedOrder {
+  orderNumber: string;
+  pickupTime: string | null;
+  pickupMinutes: number;
+  timeZone?: string;
+  total: number;
+  estimated: boolean;
+  locationName: string;
+}
+
+/** Shown once after checkout succeeds. */
+const OrderConfirmation: React.FC = () => {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const route = useRoute();
+  const { orderId } = route.params as { orderId: string };
+  const { ToastContainer } = useToast();
+
+  const [primaryColor, setPrimaryColor] = useState("#16a34a");
+  const [order, setOrder] = useState<ConfirmedOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    (async () => {
+      const storeId = await AsyncStorage.getItem("selected_store_id");
+      if (!storeId) return;
+      const { data, error } = await supabase
+        .from("store_settings")
+        .select("theme_store")
+        .eq("store_id", storeId)
+        .single();
+      if (!error && data?.theme_store?.primary) {
+        setPrimaryColor(data.theme_store.primary);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      const { data, error } = await supabase
+        .from("orders")
+        .select("order_number, pickup_time, pickup_minutes, total_amount, price_breakdown, locations (name, timezone)")
+        .eq("id", orderId)
+        .single();
+      if (error || !data) {
+        console.error("Error loading confirmed order:", error);
+        Toast.show({ type: "error", text1: "Your order was placed, but we couldn't load it." });
+      } else {
+        // a to-one join, though the client types it as a list
+        const location = data.locations as unknown as { name: string; timezone: string } | null;
+        setOrder({
+          orderNumber:  data.order_number,
+          pickupTime:   data.pickup_time,
+          pickupMinutes: data.pickup_minutes,
+          timeZone:     location?.timezone,
+          total:        Number(data.total_amount),
+          estimated:    !!data.price_breakdown?.estimated,
+          locationName: location?.name ?? "",
+        });
+      }
+      setLoading(false);
+    })();
+  }, [orderId]);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.body}>
+        <View style={[styles.iconCircle, { backgroundColor: `${primaryColor}22` }]}>
+          <Feather name="check" size={40} color={primaryColor} />
+        </View>
+        <Text style={styles.title}>Order placed!</Text>
+
+        {loading ? (
+          <ActivityIndicator color={primaryColor} />
+        ) : order ? (
+          <>
+            <Text style={styles.orderNumber}>{order.orderNumber}</Text>
+            <View style={styles.card}>
+              {order.pickupTime && (
+                <View style={styles.row}>
+                  <Feather name="clock" size={16} color="#6b7280" />
+                  <Text style={styles.rowText}>{formatPickupWindow(order.pickupTime, order.pickupMinutes, order.timeZone)}</Text>
+                </View>
+              )}
+              {!!order.locationName && (
+                <View style={styles.row}>
+                  <Feather name="map-pin" size={16} color="#6b7280" />
+                  <Text style={styles.rowText}>{order.locationName}</Text>
+                </View>
+              )}
+              <View style={styles.row}>
+                <Feather name="credit-card" size={16} color="#6b7280" />
+                <Text style={styles.rowText}>
+                  {order.estimated ? "Estimated total" : "Total"} ${order.total.toFixed(2)}
+                </Text>
+              </View>
+            </View>
+            <Text style={styles.hint}>
+              We'll let you know when your order is ready for pickup.
+            </Text>
+          </>
+        ) : null}
+      </View>
+
+      <View style={styles.footer}>
+        <Button
+          style={[styles.primaryButton, { backgroundColor: primaryColor }]}
+          onPress={() => navigation.navigate("OrderDetails", { orderId })}
+        >
+          <Text style={styles.primaryButtonText}>View Order</Text>
+        </Button>
+        <Button variant="outline" onPress={() => navigation.navigate("(tabs)/index")}>
+          Continue Shopping
+        </Button>
+      </View>
+
+      <ToastContainer />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container:   { flex: 1, backgroundColor: "#fff" },
+  body:        { flex: 1, alignItems: "center", justifyContent: "center", padding: 24 },
+  iconCircle:  {
+    width:          80,
+    height:         80,
+    borderRadius:   40,
+    alignItems:     "center",
+    justifyContent: "center",
+    marginBottom:   16,
+  },
+  title:       { fontSize: 22, fontWeight: "bold", marginBottom: 4 },
+  orderNumber: { fontSize: 16, color: "#6b7280", marginBottom: 16 },
+  card:        {
+    alignSelf:       "stretch",
+    padding:         16,
+    borderRadius:    8,
+    backgroundColor: "#f9f9f9",
+    marginBottom:    12,
+  },
+  row:         { flexDirection: "row", alignItems: "center", marginVertical: 4 },
+  rowText:     { fontSize: 14, marginLeft: 8, flex: 1, color: "#374151" },
+  hint:        { fontSize: 13, color: "#6b7280", textAlign: "center" },
+  footer:      { padding: 16, gap: 8 },
+  primaryButton: { paddingVertical: 12, borderRadius: 8, alignItems: "center" },
+  primaryButtonText: { color: "#fff", fontSize: 16, fontWeight: "600" },
+});
+
+export default OrderConfirmation;
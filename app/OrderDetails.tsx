@@ -1,28 +1,65 @@
 // app/OrderDetails.tsx
 
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import {
   View,
   Text,
   StyleSheet,
   ScrollView,
   ActivityIndicator,
+  TouchableOpacity,
 } from "react-native";
 import { useNavigation, useRoute } from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
+import { Dialog } from "@/components/ui/dialog";
 import NavigationBar from "@/components/NavigationBar";
+import PriceSummary from "@/components/PriceSummary";
+import RecurringOrderDialog from "@/components/RecurringOrderDialog";
+import CheckInDialog from "@/components/CheckInDialog";
 import { supabase } from "@/supabaseClient";
+import { addToCart } from "@/hooks/CartUtils";
+import { orderBreakdown, PriceBreakdown } from "@/hooks/PricingUtils";
+import { formatQuantity, quantityStep, roundQuantity } from "@/hooks/QuantityUtils";
+import { cancelOrder, editOrder, isEditable } from "@/hooks/OrderChangeUtils";
+import {
+  SUBSTITUTION_LABELS,
+  SubstitutionPreference,
+  SubstitutionStatus,
+  respondToSubstitution,
+} from "@/hooks/SubstitutionUtils";
+import { formatPickupWindow } from "@/hooks/CheckoutUtils";
+import { Arrival, canCheckIn, fetchArrival } from "@/hooks/ArrivalUtils";
+import {
+  FALLBACK_TIME_ZONE,
+  dateKeyInZone,
+  formatInZone,
+  formatTimeInZone,
+  zoneAbbreviation,
+} from "@/hooks/TimeZoneUtils";
 import { Toast, useToast } from "../hooks/use-toast";
 import QRCode from "react-native-qrcode-svg";
 
 interface OrderItem {
   id: string;
+  orderItemId: string;
   name: string;
   quantity: number;
   price: number;
+  unit: string | null;
+  sold_by_weight: boolean;
+  weight_step: number | null;
+  actualWeight: number | null;
+  note: string | null;
+  substitutionPreference: SubstitutionPreference;
+  substitute: {
+    status: SubstitutionStatus;
+    name: string;
+    quantity: number;
+    price: number;
+  } | null;
 }
 
 interface OrderDetailsType {
@@ -31,14 +68,18 @@ interface OrderDetailsType {
   deliveryDate: string;
   deliveryTime: string;
   pickupTime: string;
+  isPickupDay: boolean; // on the store's clock
+  timeZone: string;
   parkingNotes: string;
   items: OrderItem[];
-  subtotal: number;
-  serviceFee: number;
-  tax: number;
-  total: number;
+  pricing: PriceBreakdown;
+  estimatedTotal: number | null;
   cardLast4: string;
+  balanceApplied: number; // paid from store credit
+  cardAmount: number;
+  cancelled: boolean;
   barcode: string | null;
+  locationId: string | null;
   locationName: string;
   locationAddress: string;
 }
@@ -70,6 +111,19 @@ const OrderDetails: React.FC = () => {
   const [primaryColor, setPrimaryColor] = useState("#16a34a");
   const [orderData, setOrderData] = useState<OrderDetailsType | null>(null);
   const [loading, setLoading] = useState(true);
+  const [responding, setResponding] = useState<string | null>(null);
+  const [showRecurring, setShowRecurring] = useState(false);
+
+  // editing while the order is still Pending: quantities by order line
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<Record<string, number>>({});
+  const [saving, setSaving] = useState(false);
+  const [cancelOpen, setCancelOpen] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+
+  // curbside check-in on pickup day
+  const [arrival, setArrival] = useState<Arrival | null>(null);
+  const [checkInOpen, setCheckInOpen] = useState(false);
 
   // fetch theme primary once
   useEffect(() => {
@@ -88,122 +142,237 @@ const OrderDetails: React.FC = () => {
   }, []);
 
   // fetch order details
-  useEffect(() => {
-    const fetchOrderDetails = async () => {
-      setLoading(true);
-      try {
-        const { data: order, error } = await supabase
-          .from("orders")
-          .select(
-            `
-            order_number,
-            status,
-            created_at,
-            pickup_time,
-            total_amount,
-            service_fee,
-            tax,
-            barcode,
-            locations (
-              name,
-              street_address,
-              city,
-              state_province,
-              postal_code
-            ),
-            order_items (
-              product_id,
-              quantity,
-              unit_price,
-              products ( name )
-            ),
-            payments ( last_four )
+  const fetchOrderDetails = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data: order, error } = await supabase
+        .from("orders")
+        .select(
           `
-          )
-          .eq("id", orderId)
-          .single();
-
-        if (error || !order) throw error || new Error("Order not found");
-
-        const { street_address, city, state_province, postal_code } =
-          order.locations || {};
-        const formattedAddress = [
-          street_address,
-          city,
-          state_province,
-          postal_code,
-        ]
-          .filter((p) => p)
-          .join(", ");
-
-        setOrderData({
-          orderNumber: order.order_number,
-          status: order.status,
-          deliveryDate: new Date(order.created_at).toLocaleDateString(),
-          deliveryTime: new Date(order.created_at).toLocaleTimeString([], {
-            hour: "2-digit",
-            minute: "2-digit",
-          }),
-          pickupTime: order.pickup_time
-            ? `${new Date(order.pickup_time).toLocaleDateString(undefined, {
-                month: "long",
-                day: "numeric",
-                year: "numeric",
-              })}, ${new Date(order.pickup_time).toLocaleTimeString(undefined, {
-                hour: "numeric",
-                minute: "numeric",
-                hour12: true,
-              })} - ${new Date(
-                new Date(order.pickup_time).getTime() + 3600000
-              ).toLocaleTimeString(undefined, {
-                hour: "numeric",
-                minute: "numeric",
-                hour12: true,
-              })}`
-            : "N/A",
-          parkingNotes: "N/A",
-          items: order.order_items.map((it: any) => ({
-            id: it.product_id,
-            name: it.products?.name || "Product",
-            quantity: it.quantity,
-            price: it.unit_price,
-          })),
-          subtotal:
-            (order.total_amount || 0) -
-            (order.service_fee || 0) -
-            (order.tax || 0),
-          serviceFee: order.service_fee || 0,
-          tax: order.tax || 0,
-          total: order.total_amount || 0,
-          cardLast4: order.payments?.last_four || "N/A",
-          barcode: order.barcode || null,
-          locationName: order.locations?.name || "Unknown Location",
-          locationAddress: formattedAddress || "No address available",
-        });
-      } catch (err) {
-        console.error("Error fetching order details:", err);
-        Toast.show({ type: "error", text1: "Failed to load order details." });
-      } finally {
-        setLoading(false);
-      }
-    };
-    fetchOrderDetails();
+          order_number,
+          status,
+          created_at,
+          pickup_time,
+          pickup_minutes,
+          total_amount,
+          service_fee,
+          tax,
+          price_breakdown,
+          estimated_total,
+          customer_note,
+          barcode,
+          location_id,
+          locations (
+            name,
+            timezone,
+            street_address,
+            city,
+            state_province,
+            postal_code
+          ),
+          order_items (
+            id,
+            product_id,
+            quantity,
+            unit_price,
+            products!order_items_product_id_fkey ( name, unit, sold_by_weight, weight_step ),
+            actual_weight,
+            note,
+            substitution_preference,
+            substitution_status,
+            substitute_quantity,
+            substitute_unit_price,
+            substitute:products!order_items_substitute_product_id_fkey ( name )
+          ),
+          balance_applied,
+          card_amount,
+          cancelled_at,
+          payments ( last_four )
+        `
+        )
+        .eq("id", orderId)
+        .single();
+
+      if (error || !order) throw error || new Error("Order not found");
+
+      // a to-one join, though the client types it as a list
+      const location = order.locations as unknown as {
+        name: string;
+        timezone: string;
+        street_address: string | null;
+        city: string | null;
+        state_province: string | null;
+        postal_code: string | null;
+      } | null;
+      const { street_address, city, state_province, postal_code } =
+        location || {};
+      const formattedAddress = [
+        street_address,
+        city,
+        state_province,
+        postal_code,
+      ]
+        .filter((p) => p)
+        .join(", ");
+
+      // times are shown on the store's clock, labelled with its zone
+      const timeZone = location?.timezone ?? FALLBACK_TIME_ZONE;
+
+      setOrderData({
+        orderNumber: order.order_number,
+        status: order.status,
+        deliveryDate: formatInZone(order.created_at, timeZone, {
+          month: "numeric",
+          day: "numeric",
+          year: "numeric",
+        }),
+        deliveryTime: `${formatTimeInZone(order.created_at, timeZone)} ${zoneAbbreviation(
+          order.created_at,
+          timeZone
+        )}`,
+        pickupTime: order.pickup_time
+          ? formatPickupWindow(order.pickup_time, order.pickup_minutes ?? 60, timeZone)
+          : "N/A",
+        isPickupDay:
+          !!order.pickup_time &&
+          dateKeyInZone(new Date(order.pickup_time), timeZone) ===
+            dateKeyInZone(new Date(), timeZone),
+        timeZone,
+        parkingNotes: order.customer_note || "N/A",
+        items: order.order_items.map((it: any) => ({
+          id: it.product_id,
+          orderItemId: it.id,
+          name: it.products?.name || "Product",
+          unit: it.products?.unit ?? null,
+          sold_by_weight: !!it.products?.sold_by_weight,
+          weight_step: it.products?.weight_step ?? null,
+          actualWeight: it.actual_weight,
+          quantity: it.quantity,
+          price: it.unit_price,
+          note: it.note,
+          substitutionPreference: it.substitution_preference ?? "store_choice",
+          substitute: it.substitution_status
+            ? {
+                status: it.substitution_status,
+                name: it.substitute?.name || "Product",
+                quantity: it.substitute_quantity,
+                price: it.substitute_unit_price,
+              }
+            : null,
+        })),
+        pricing: orderBreakdown(order),
+        estimatedTotal: order.estimated_total ?? null,
+        cardLast4: order.payments?.last_four || "N/A",
+        balanceApplied: Number(order.balance_applied) || 0,
+        cardAmount: Number(order.card_amount) || 0,
+        cancelled: !!order.cancelled_at,
+        barcode: order.barcode || null,
+        locationId: order.location_id ?? null,
+        locationName: location?.name || "Unknown Location",
+        locationAddress: formattedAddress || "No address available",
+      });
+      setArrival(await fetchArrival(orderId));
+    } catch (err) {
+      console.error("Error fetching order details:", err);
+      Toast.show({ type: "error", text1: "Failed to load order details." });
+    } finally {
+      setLoading(false);
+    }
   }, [orderId]);
 
-  const reorderItems = async () => {
+  useEffect(() => {
+    fetchOrderDetails();
+  }, [fetchOrderDetails]);
+
+  const respond = async (item: OrderItem, approve: boolean) => {
+    setResponding(item.orderItemId);
+    try {
+      await respondToSubstitution(item.orderItemId, approve);
+      Toast.show({
+        type: "success",
+        text1: approve ? "Substitution approved" : "Item removed from your order",
+      });
+      await fetchOrderDetails();
+    } catch (err: any) {
+      Toast.show({ type: "error", text1: err.message });
+    } finally {
+      setResponding(null);
+    }
+  };
+
+  const startEditing = () => {
     if (!orderData) return;
+    setDraft(
+      Object.fromEntries(orderData.items.map((i) => [i.orderItemId, +i.quantity]))
+    );
+    setEditing(true);
+  };
+
+  const changeQuantity = (item: OrderItem, direction: 1 | -1) => {
+    setDraft((prev) => ({
+      ...prev,
+      [item.orderItemId]: Math.max(
+        roundQuantity((prev[item.orderItemId] ?? 0) + direction * quantityStep(item)),
+        0
+      ),
+    }));
+  };
+
+  const saveChanges = async () => {
+    if (!orderData || saving) return;
+    const items = orderData.items
+      .filter((i) => (draft[i.orderItemId] ?? 0) > 0)
+      .map((i) => ({ product_id: i.id, quantity: draft[i.orderItemId] }));
+    if (items.length === 0) {
+      Toast.show({ type: "error", text1: "To remove everything, cancel the order instead." });
+      return;
+    }
+    setSaving(true);
     try {
-      const stored = await AsyncStorage.getItem("cart");
-      const cart: any[] = stored ? JSON.parse(stored) : [];
-      orderData.items.forEach((item) => {
-        const idx = cart.findIndex((c) => c.id === item.id);
-        if (idx >= 0) {
-          cart[idx].quantity += item.quantity;
-        } else {
-          cart.push({ ...item });
-        }
+      await editOrder(orderId, items);
+      setEditing(false);
+      Toast.show({ type: "success", text1: "Your order was updated" });
+      await fetchOrderDetails();
+    } catch (err: any) {
+      Toast.show({ type: "error", text1: err.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmCancel = async () => {
+    if (cancelling) return;
+    setCancelling(true);
+    try {
+      const { balanceReturned, pointsReturned } = await cancelOrder(orderId);
+      const returned = [
+        balanceReturned > 0 ? `$${balanceReturned.toFixed(2)} back to store credit` : null,
+        pointsReturned > 0 ? `${pointsReturned.toLocaleString()} points returned` : null,
+      ].filter(Boolean);
+      Toast.show({
+        type: "success",
+        text1: "Order cancelled",
+        text2: returned.length ? returned.join(" · ") : undefined,
       });
-      await AsyncStorage.setItem("cart", JSON.stringify(cart));
+      setCancelOpen(false);
+      setEditing(false);
+      await fetchOrderDetails();
+    } catch (err: any) {
+      Toast.show({ type: "error", text1: err.message });
+      setCancelOpen(false);
+      // most likely picking started; show the current status
+      await fetchOrderDetails();
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const reorderItems = async () => {
+    if (!orderData) return;
+    try {
+      for (const item of orderData.items) {
+        await addToCart(item, item.quantity);
+      }
       Toast.show({ type: "success", text1: "Items added to cart" });
     } catch (err) {
       console.error("Reorder failed:", err);
@@ -271,7 +440,7 @@ const OrderDetails: React.FC = () => {
             </Text>
           </View>
 
-          <Text style={styles.parkingNotesTitle}>Parking Notes</Text>
+          <Text style={styles.parkingNotesTitle}>Vehicle & Parking Notes</Text>
           <Text style={styles.parkingNotes}>{orderData.parkingNotes}</Text>
 
           {orderData.barcode ? (
@@ -286,56 +455,218 @@ const OrderDetails: React.FC = () => {
           )}
         </View>
 
+        {/* Curbside check-in */}
+        {orderData.isPickupDay && canCheckIn(orderData.status) && (
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Here for pickup?</Text>
+            {arrival ? (
+              <>
+                <Text style={styles.itemQuantity}>
+                  Checked in at {formatTimeInZone(arrival.arrived_at, orderData.timeZone)} · Spot{" "}
+                  {arrival.parking_spot}
+                  {arrival.vehicle ? ` · ${arrival.vehicle}` : ""}
+                </Text>
+                <Text style={[styles.arrivalStatus, { color: primaryColor }]}>
+                  {arrival.on_the_way_at
+                    ? "Staff are on the way out with your order."
+                    : "The store knows you're here. Someone will be out shortly."}
+                </Text>
+                <Button
+                  variant="outline"
+                  style={styles.checkInButton}
+                  onPress={() => setCheckInOpen(true)}
+                >
+                  Update Check-In
+                </Button>
+              </>
+            ) : (
+              <>
+                <Text style={[styles.itemQuantity, styles.changeHint]}>
+                  Let the store know you've arrived and we'll bring your order out.
+                </Text>
+                <Button
+                  style={[styles.checkInButton, { backgroundColor: primaryColor }]}
+                  onPress={() => setCheckInOpen(true)}
+                >
+                  I'm Here
+                </Button>
+              </>
+            )}
+          </View>
+        )}
+
         {/* Items list */}
         <View style={styles.card}>
           <Text style={styles.sectionTitle}>Order Items</Text>
           {orderData.items.map((item) => (
-            <View key={item.id} style={styles.orderItem}>
-              <View style={styles.itemDetails}>
-                <Text style={styles.itemName}>{item.name}</Text>
-                <Text style={styles.itemQuantity}>Qty: {item.quantity}</Text>
+            <View key={item.orderItemId} style={styles.orderItemBlock}>
+              <View style={styles.orderItem}>
+                <View style={styles.itemDetails}>
+                  <Text
+                    style={[
+                      styles.itemName,
+                      item.substitute && item.substitute.status !== "pending"
+                        ? styles.replacedItem
+                        : null,
+                    ]}
+                  >
+                    {item.name}
+                  </Text>
+                  {editing ? (
+                    <View style={styles.stepper}>
+                      <TouchableOpacity
+                        style={styles.stepperButton}
+                        onPress={() => changeQuantity(item, -1)}
+                      >
+                        <Feather name="minus" size={14} color="#374151" />
+                      </TouchableOpacity>
+                      <Text
+                        style={[
+                          styles.stepperValue,
+                          !draft[item.orderItemId] && styles.replacedItem,
+                        ]}
+                      >
+                        {draft[item.orderItemId]
+                          ? formatQuantity(item, draft[item.orderItemId])
+                          : "Removed"}
+                      </Text>
+                      <TouchableOpacity
+                        style={styles.stepperButton}
+                        onPress={() => changeQuantity(item, 1)}
+                      >
+                        <Feather name="plus" size={14} color="#374151" />
+                      </TouchableOpacity>
+                    </View>
+                  ) : (
+                    <Text style={styles.itemQuantity}>
+                      {item.sold_by_weight
+                        ? item.actualWeight != null
+                          ? `Weighed: ${formatQuantity(item, item.actualWeight)}`
+                          : `Est. ${formatQuantity(item, item.quantity)}`
+                        : `Qty: ${item.quantity}`}
+                    </Text>
+                  )}
+                {item.note && (
+                  <Text style={styles.itemNote}>“{item.note}”</Text>
+                )}
+                  {!item.substitute && (
+                    <Text style={styles.itemQuantity}>
+                      If unavailable: {SUBSTITUTION_LABELS[item.substitutionPreference]}
+                    </Text>
+                  )}
+                </View>
+                <Text style={styles.itemPrice}>${item.price.toFixed(2)}</Text>
               </View>
-              <Text style={styles.itemPrice}>${item.price.toFixed(2)}</Text>
+
+              {item.substitute && (
+                <View style={styles.substitution}>
+                  <Text style={styles.substitutionText}>
+                    {item.substitute.status === "rejected"
+                      ? "Substitute declined – removed from your order"
+                      : `Replaced with ${item.substitute.quantity} × ${item.substitute.name} ($${(+item.substitute.price).toFixed(2)} each)`}
+                  </Text>
+                  {item.substitute.status === "pending" &&
+                    orderData.status !== "Completed" && (
+                      <View style={styles.substitutionActions}>
+                        <Button
+                          size="sm"
+                          style={[styles.substitutionButton, { backgroundColor: primaryColor }]}
+                          disabled={responding === item.orderItemId}
+                          onPress={() => respond(item, true)}
+                        >
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          style={styles.substitutionButton}
+                          disabled={responding === item.orderItemId}
+                          onPress={() => respond(item, false)}
+                        >
+                          Reject
+                        </Button>
+                      </View>
+                    )}
+                </View>
+              )}
             </View>
           ))}
+          {editing && (
+            <View style={styles.editActions}>
+              <Button
+                style={[styles.editButton, { backgroundColor: primaryColor }]}
+                disabled={saving}
+                onPress={saveChanges}
+              >
+                {saving ? <ActivityIndicator color="#fff" /> : "Save Changes"}
+              </Button>
+              <Button
+                variant="outline"
+                style={styles.editButton}
+                disabled={saving}
+                onPress={() => setEditing(false)}
+              >
+                Discard
+              </Button>
+            </View>
+          )}
           <Separator style={styles.separator} />
           <View style={styles.summary}>
-            <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Subtotal</Text>
-              <Text style={styles.summaryValue}>
-                ${orderData.subtotal.toFixed(2)}
-              </Text>
-            </View>
-            <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Service Fee</Text>
-              <Text style={styles.summaryValue}>
-                ${orderData.serviceFee.toFixed(2)}
-              </Text>
-            </View>
-            <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Tax</Text>
-              <Text style={styles.summaryValue}>
-                ${orderData.tax.toFixed(2)}
-              </Text>
-            </View>
-            <Separator style={styles.separator} />
-            <View style={styles.summaryRow}>
-              <Text style={styles.totalLabel}>Total</Text>
-              <Text style={[styles.totalValue, { color: primaryColor }]}>
-                ${orderData.total.toFixed(2)}
-              </Text>
-            </View>
+            <PriceSummary breakdown={orderData.pricing} totalColor={primaryColor} />
+            {orderData.estimatedTotal != null &&
+              !orderData.pricing.estimated &&
+              orderData.estimatedTotal !== orderData.pricing.total && (
+                <Text style={styles.itemQuantity}>
+                  Estimated at checkout: ${orderData.estimatedTotal.toFixed(2)}
+                </Text>
+              )}
           </View>
         </View>
 
         {/* Payment method */}
         <View style={styles.card}>
           <Text style={styles.sectionTitle}>Payment Method</Text>
-          <Text style={styles.cardNumber}>
-            •••• •••• •••• {orderData.cardLast4}
-          </Text>
+          {orderData.balanceApplied > 0 && (
+            <Text style={styles.cardNumber}>
+              Store credit · ${orderData.balanceApplied.toFixed(2)}
+            </Text>
+          )}
+          {(orderData.balanceApplied === 0 || orderData.cardAmount > 0) && (
+            <Text style={styles.cardNumber}>
+              •••• •••• •••• {orderData.cardLast4}
+              {orderData.balanceApplied > 0 ? ` · $${orderData.cardAmount.toFixed(2)}` : ""}
+            </Text>
+          )}
+          {orderData.cancelled && (
+            <Text style={styles.itemQuantity}>
+              Cancelled — nothing was charged to your card
+              {orderData.balanceApplied > 0 ? " and your store credit was returned" : ""}.
+            </Text>
+          )}
         </View>
 
+        {/* Changes are possible until the store starts picking */}
+        {isEditable(orderData.status) && !editing && (
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Need to change something?</Text>
+            <Text style={[styles.itemQuantity, styles.changeHint]}>
+              You can edit or cancel this order until the store starts picking it.
+            </Text>
+            <View style={styles.editActions}>
+              <Button variant="outline" style={styles.editButton} onPress={startEditing}>
+                Edit Items
+              </Button>
+              <Button
+                variant="outline"
+                style={[styles.editButton, styles.cancelOrderButton]}
+                onPress={() => setCancelOpen(true)}
+              >
+                <Text style={styles.cancelOrderText}>Cancel Order</Text>
+              </Button>
+            </View>
+          </View>
+        )}
+
         {/* Reorder button */}
         <Button
           style={[styles.reorderButton, { backgroundColor: primaryColor }]}
@@ -343,8 +674,69 @@ const OrderDetails: React.FC = () => {
         >
           <Text style={styles.reorderButtonText}>Reorder Items</Text>
         </Button>
+        <Button
+          variant="outline"
+          style={[styles.recurringButton, { borderColor: primaryColor }]}
+          onPress={() => setShowRecurring(true)}
+        >
+          <Text style={[styles.recurringButtonText, { color: primaryColor }]}>
+            Make It Recurring
+          </Text>
+        </Button>
       </ScrollView>
 
+      <RecurringOrderDialog
+        visible={showRecurring}
+        orderId={orderId}
+        locationId={orderData.locationId}
+        primaryColor={primaryColor}
+        onClose={() => setShowRecurring(false)}
+        onCreated={() => {
+          Toast.show({ type: "success", text1: "Recurring order set up" });
+          navigation.navigate("RecurringOrders" as never);
+        }}
+      />
+
+      <CheckInDialog
+        visible={checkInOpen}
+        orderId={orderId}
+        arrival={arrival}
+        defaultVehicle={orderData.parkingNotes !== "N/A" ? orderData.parkingNotes : null}
+        primaryColor={primaryColor}
+        onClose={() => setCheckInOpen(false)}
+        onCheckedIn={async () => {
+          setCheckInOpen(false);
+          setArrival(await fetchArrival(orderId));
+          Toast.show({ type: "success", text1: "Checked in. We'll be right out." });
+        }}
+      />
+
+      <Dialog
+        visible={cancelOpen}
+        onClose={() => setCancelOpen(false)}
+        title={`Cancel ${orderData.orderNumber}?`}
+        content={
+          <Text style={styles.itemQuantity}>
+            Your pickup slot will be released and your card won't be charged. Any store
+            credit or points used on this order will be returned.
+          </Text>
+        }
+        actions={
+          <>
+            <Button
+              style={styles.cancelConfirmButton}
+              disabled={cancelling}
+              onPress={confirmCancel}
+            >
+              {cancelling ? "Cancelling…" : "Cancel Order"}
+            </Button>
+            <Button variant="outline" onPress={() => setCancelOpen(false)}>
+              Keep Order
+            </Button>
+          </>
+        }
+      />
+
       <NavigationBar />
       <ToastContainer />
     </View>
@@ -480,30 +872,47 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     marginBottom: 12,
   },
+  orderItemBlock: { marginBottom: 12 },
   orderItem: {
     flexDirection: "row",
     alignItems: "center",
-    marginBottom: 12,
   },
   itemDetails: { flex: 1 },
   itemName: { fontSize: 14, fontWeight: "500" },
   itemQuantity: { fontSize: 12, color: "#6b7280" },
+  itemNote: { fontSize: 12, color: "#374151", fontStyle: "italic" },
   itemPrice: { fontSize: 14, fontWeight: "bold" },
-  separator: { marginVertical: 12 },
-  summary: { marginTop: 12 },
-  summaryRow: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    marginBottom: 8,
+  replacedItem: { textDecorationLine: "line-through", color: "#6b7280" },
+  substitution: {
+    marginTop: 6,
+    padding: 8,
+    borderRadius: 6,
+    backgroundColor: "#fffbeb",
   },
-  summaryLabel: { fontSize: 14, color: "#6b7280" },
-  summaryValue: { fontSize: 14, fontWeight: "500" },
-  totalLabel: { fontSize: 16, fontWeight: "bold" },
-  totalValue: {
-    fontSize: 16,
-    fontWeight: "bold",
-    color: "#374151",
+  substitutionText: { fontSize: 12, color: "#92400e" },
+  substitutionActions: { flexDirection: "row", marginTop: 8 },
+  substitutionButton: { marginRight: 8 },
+  stepper: { flexDirection: "row", alignItems: "center", marginTop: 4 },
+  stepperButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    alignItems: "center",
+    justifyContent: "center",
   },
+  stepperValue: { fontSize: 13, minWidth: 64, textAlign: "center", color: "#374151" },
+  editActions: { flexDirection: "row", gap: 8, marginTop: 8 },
+  editButton: { flex: 1 },
+  changeHint: { marginBottom: 4 },
+  arrivalStatus: { fontSize: 14, fontWeight: "500", marginTop: 6 },
+  checkInButton: { marginTop: 12 },
+  cancelOrderButton: { borderColor: "#dc2626" },
+  cancelOrderText: { color: "#dc2626", fontWeight: "600" },
+  cancelConfirmButton: { backgroundColor: "#dc2626" },
+  separator: { marginVertical: 12 },
+  summary: { marginTop: 12 },
   cardNumber: {
     fontSize: 14,
     color: "#374151",
@@ -521,6 +930,18 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "bold",
   },
+  recurringButton: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: "center",
+    marginHorizontal: 16,
+    marginBottom: 16,
+  },
+  recurringButtonText: {
+    fontSize: 16,
+    fontWeight: "bold",
+  },
 });
 
 export default OrderDetails;
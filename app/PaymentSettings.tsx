@@ -9,11 +9,12 @@ import {
   ScrollView,
   ActivityIndicator,
 } from "react-native";
-import { useNavigation } from "@react-navigation/native";
+import { useNavigation, NavigationProp } from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Button } from "@/components/ui/button";
 import NavigationBar from "@/components/NavigationBar";
+import BalanceCard from "@/components/BalanceCard";
 import { supabase } from "@/supabaseClient";
 import SHA256 from "crypto-js/sha256";
 import { Toast, useToast } from "../hooks/use-toast";
@@ -29,11 +30,16 @@ const getCardType = (number: string): string => {
   return "Unknown";
 };
 
+type RootStackParamList = {
+  StoreCredit: undefined;
+};
+
 const PaymentSettings: React.FC = () => {
-  const navigation = useNavigation();
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
   const { ToastContainer } = useToast();
 
   const [primaryColor, setPrimaryColor] = useState("#16a34a");
+  const [storeId, setStoreId] = useState<string | null>(null);
   const [payments, setPayments] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [cardDetails, setCardDetails] = useState({
@@ -47,12 +53,13 @@ const PaymentSettings: React.FC = () => {
   // 1) Load primary color from theme_store
   useEffect(() => {
     (async () => {
-      const storeId = await AsyncStorage.getItem("selected_store_id");
-      if (!storeId) return;
+      const id = await AsyncStorage.getItem("selected_store_id");
+      if (!id) return;
+      setStoreId(id);
       const { data, error } = await supabase
         .from("store_settings")
         .select("theme_store")
-        .eq("store_id", storeId)
+        .eq("store_id", id)
         .single();
       if (!error && data?.theme_store?.primary) {
         setPrimaryColor(data.theme_store.primary);
@@ -219,6 +226,12 @@ const PaymentSettings: React.FC = () => {
 
       {/* Form */}
       <ScrollView contentContainerStyle={styles.scrollContainer}>
+        <BalanceCard
+          storeId={storeId}
+          primaryColor={primaryColor}
+          onViewHistory={() => navigation.navigate("StoreCredit")}
+        />
+
         <View style={styles.section}>
           <TextInput
             style={styles.input}
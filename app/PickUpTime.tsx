@@ -12,13 +12,46 @@ import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useNavigation } from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
 import { Button } from "@/components/ui/button";
+import { Dialog } from "@/components/ui/dialog";
 import Toast from "react-native-toast-message";
 import { supabase } from "@/supabaseClient";
+import {
+  SlotAvailability,
+  fetchSlotAvailability,
+  holdPickupSlot,
+} from "@/hooks/CheckoutUtils";
+import {
+  PickupDay,
+  PickupTiming,
+  closedLabel,
+  earliestPickup,
+  fetchPickupDays,
+  fetchPickupTiming,
+} from "@/hooks/ScheduleUtils";
+import {
+  addDaysToKey,
+  dateKeyInZone,
+  fetchLocationTimeZone,
+  formatDateKey,
+  formatInZone,
+  formatTimeInZone,
+  weekdayOfKey,
+  zoneAbbreviation,
+  zonedTime,
+} from "@/hooks/TimeZoneUtils";
+import { getCart } from "@/hooks/CartUtils";
+import {
+  WaitlistEntry,
+  fetchWaitlist,
+  joinWaitlist,
+  leaveWaitlist,
+} from "@/hooks/WaitlistUtils";
 
 // Types
-type Slot = { time: string; capacity: number | null };
+type Slot = SlotAvailability;
 
-type DayOption = { label: string; dateText: string; date: Date; dayOfWeek: number };
+// `key` is the date in the store's zone, "YYYY-MM-DD"
+type DayOption = { label: string; dateText: string; key: string; dayOfWeek: number };
 
 export default function PickUpTime() {
   const navigation = useNavigation();
@@ -45,73 +78,111 @@ export default function PickUpTime() {
     })();
   }, []);
 
+  // Load location and its time zone; every date and time on this
+  // screen is on the store's clock, whatever the device's zone
+  const [locationId, setLocationId] = useState<string | null>(null);
+  const [timeZone, setTimeZone] = useState<string | null>(null);
+  useEffect(() => {
+    (async () => {
+      const id = await AsyncStorage.getItem("location_id");
+      setLocationId(id);
+      if (id) setTimeZone(await fetchLocationTimeZone(id));
+    })();
+  }, []);
+
   // Restore selected time
-  const [restoreInfo, setRestoreInfo] = useState<{ day: number; time: string } | null>(null);
+  const [restoreInfo, setRestoreInfo] = useState<{ date: string; time: string } | null>(null);
   useEffect(() => {
+    if (!timeZone) return;
     AsyncStorage.getItem("selectedPickupTime").then((iso) => {
       if (!iso) return;
       const dt = new Date(iso);
       setRestoreInfo({
-        day: dt.getDay(),
-        time: `${dt.getHours().toString().padStart(2, '0')}:${dt.getMinutes().toString().padStart(2, '0')}`
+        date: dateKeyInZone(dt, timeZone),
+        time: formatInZone(dt, timeZone, { hour: "2-digit", minute: "2-digit", hourCycle: "h23" }),
       });
     });
-  }, []);
+  }, [timeZone]);
 
-  // Load location
-  const [locationId, setLocationId] = useState<string | null>(null);
-  useEffect(() => {
-    AsyncStorage.getItem("location_id").then(setLocationId);
-  }, []);
-
-  // Build next 7 days
-  const today = new Date();
-  const dayOptions: DayOption[] = useMemo(
-    () => Array.from({ length: 7 }, (_, i) => {
-      const d = new Date(today);
-      d.setDate(d.getDate() + i);
+  // Build next 7 days from the store's today
+  const dayOptions: DayOption[] = useMemo(() => {
+    if (!timeZone) return [];
+    const todayKey = dateKeyInZone(new Date(), timeZone);
+    return Array.from({ length: 7 }, (_, i) => {
+      const key = addDaysToKey(todayKey, i);
       return {
-        label: i === 0 ? "Today" : d.toLocaleDateString("en-US", { weekday: "long" }),
-        dateText: d.toLocaleDateString("en-US", { month: "short", day: "numeric" }),
-        date: d,
-        dayOfWeek: d.getDay(),
+        label: i === 0 ? "Today" : formatDateKey(key, { weekday: "long" }),
+        dateText: formatDateKey(key, { month: "short", day: "numeric" }),
+        key,
+        dayOfWeek: weekdayOfKey(key),
       };
-    }),
-    []
-  );
+    });
+  }, [timeZone]);
 
-  const [selectedDate, setSelectedDate] = useState<DayOption>(dayOptions[0]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const selectedDate = dayOptions.find((o) => o.key === selectedKey) ?? dayOptions[0];
+  const [pickupDays, setPickupDays] = useState<Record<string, PickupDay>>({});
+  const [timing, setTiming] = useState<PickupTiming | null>(null);
   const [availableSlots, setAvailableSlots] = useState<Slot[]>([]);
+  const [loading, setLoading] = useState(true);
   const [selectedSlot, setSelectedSlot] = useState<Slot | null>(null);
+  const [holding, setHolding] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // the customer's waitlist entries on the chosen date, by slot time
+  const [waitlist, setWaitlist] = useState<Record<string, WaitlistEntry>>({});
+  const [waitlistSlot, setWaitlistSlot] = useState<Slot | null>(null);
+  const [waitlistBusy, setWaitlistBusy] = useState(false);
 
-  // Fetch slots when date or location changes
+  // Which days the location is closed (holidays, one-off closures);
+  // start on the first open one
   useEffect(() => {
-    if (!locationId) return;
+    if (!locationId || !dayOptions.length) return;
     (async () => {
-      const { data: sched, error } = await supabase
-        .from("location_pickup_schedules")
-        .select("available_hours")
-        .eq("location_id", locationId)
-        .eq("day_of_week", selectedDate.dayOfWeek)
-        .maybeSingle();
-      if (error) return;
-      const raw: Slot[] = sched?.available_hours || [];
-      const sorted = raw.sort((a, b) => {
-        const toM = (t: string) => { const [h, m] = t.split(":").map(Number); return h * 60 + m; };
-        return toM(a.time) - toM(b.time);
-      });
+      setTiming(await fetchPickupTiming(locationId, await getCart()));
+      const days = await fetchPickupDays(locationId, dayOptions[0].key, dayOptions.length);
+      const byDate = Object.fromEntries(days.map((d) => [d.date, d]));
+      setPickupDays(byDate);
+      const firstOpen = dayOptions.find((opt) => !byDate[opt.key]?.closed);
+      if (firstOpen) setSelectedKey(firstOpen.key);
+    })();
+  }, [locationId, dayOptions]);
+
+  const closedDay = (opt: DayOption) => {
+    const day = pickupDays[opt.key];
+    return day?.closed ? day : null;
+  };
+
+  // Fetch slots, with the places left on the chosen date, when the date
+  // or location changes
+  useEffect(() => {
+    if (!locationId || !selectedDate) return;
+    (async () => {
+      const [sorted, entries] = await Promise.all([
+        fetchSlotAvailability(locationId, selectedDate.key),
+        fetchWaitlist(locationId, selectedDate.key),
+      ]);
       setAvailableSlots(sorted);
-      if (restoreInfo?.day === selectedDate.dayOfWeek) {
+      setWaitlist(Object.fromEntries(entries.map((e) => [e.time, e])));
+      setLoading(false);
+      if (restoreInfo?.date === selectedDate.key) {
         const match = sorted.find(s => s.time === restoreInfo.time);
         if (match) setSelectedSlot(match);
         setRestoreInfo(null);
       }
     })();
-  }, [locationId, selectedDate]);
+  }, [locationId, selectedDate?.key, refreshKey]);
+
+  const slotStart = (slot: Slot) => zonedTime(selectedDate.key, slot.time, timeZone!);
+
+  // A slot that has already started today can't be picked, nor one that
+  // starts before the store can have the cart ready
+  const hasPassed = (slot: Slot) => slotStart(slot).getTime() <= Date.now();
+  const tooSoon = (slot: Slot) => slotStart(slot) < earliestPickup(timing);
 
   // Handlers
   const onDatePress = (opt: DayOption) => {
-    setSelectedDate(opt);
+    setSelectedKey(opt.key);
     setSelectedSlot(null);
   };
 
@@ -120,52 +191,89 @@ export default function PickUpTime() {
       Toast.show({ type: 'error', text1: 'Select a time slot' });
       return;
     }
-    if (selectedSlot.capacity === 0) {
+    if (
+      selectedSlot.remaining === 0 || tooSoon(selectedSlot) || !locationId || !timeZone || holding
+    ) {
       Toast.show({ type: 'error', text1: 'That slot is not available' });
       return;
     }
-    // Fetch current schedule
-    const { data: sched, error: fetchErr } = await supabase
-      .from("location_pickup_schedules")
-      .select("available_hours")
-      .eq("location_id", locationId)
-      .eq("day_of_week", selectedDate.dayOfWeek)
-      .maybeSingle();
-    if (fetchErr || !sched) {
-      Toast.show({ type: 'error', text1: 'Could not update slot availability' });
+    // Hold a place while the customer checks out; it lapses on its own
+    // if they don't, and place_order turns it into the order's place
+    const date = selectedDate.key;
+    let holdExpiresAt: string;
+    setHolding(true);
+    try {
+      holdExpiresAt = await holdPickupSlot(locationId, date, selectedSlot.time);
+    } catch (err: any) {
+      Toast.show({ type: 'error', text1: err.message });
+      setSelectedSlot(null);
+      setRefreshKey((k) => k + 1);
       return;
+    } finally {
+      setHolding(false);
     }
-    // Update capacity
-    const updated = sched.available_hours.map(s =>
-      s.time === selectedSlot.time && s.capacity != null && s.capacity > 0
-        ? { ...s, capacity: s.capacity - 1 }
-        : s
-    );
-    const { error: updateErr } = await supabase
-      .from("location_pickup_schedules")
-      .update({ available_hours: updated })
-      .eq("location_id", locationId)
-      .eq("day_of_week", selectedDate.dayOfWeek);
-    if (updateErr) {
-      Toast.show({ type: 'error', text1: 'Failed to reserve spot.' });
-      return;
-    }
-    // Compose ISO and label
-    const full = new Date(selectedDate.date);
-    const [h, m] = selectedSlot.time.split(":").map(Number);
-    full.setHours(h, m, 0, 0);
+    // Compose ISO and label, both on the store's clock
+    const full = slotStart(selectedSlot);
+    const minutes = timing?.slot_minutes ?? 60;
     const iso = full.toISOString();
-    const start = `${((h % 12) || 12)}:${m.toString().padStart(2, '0')} ${h >= 12 ? 'PM' : 'AM'}`;
-    const end = `${(((h + 1) % 12) || 12)}:${m.toString().padStart(2, '0')} ${h + 1 >= 12 ? 'PM' : 'AM'}`;
-    const label = `${selectedDate.label}, ${start} - ${end}`;
+    const label = `${selectedDate.label}, ${formatTimeInZone(full, timeZone)} - ${formatTimeInZone(
+      new Date(full.getTime() + minutes * 60 * 1000),
+      timeZone
+    )} ${zoneAbbreviation(full, timeZone)}`;
     await AsyncStorage.setItem('selectedPickupTime', iso);
+    await AsyncStorage.setItem(
+      'selectedPickupSlot',
+      JSON.stringify({
+        day_of_week: selectedDate.dayOfWeek,
+        time: selectedSlot.time,
+        date,
+        hold_expires_at: holdExpiresAt,
+        minutes,
+        time_zone: timeZone,
+      })
+    );
     await AsyncStorage.setItem('selectedPickupLabel', label);
     Toast.show({ type: 'success', text1: `Pickup time set: ${label}` });
-    navigation.navigate('(tabs)/Cart');
+    // back to the cart or checkout step that asked for a time
+    if (navigation.canGoBack()) navigation.goBack();
+    else navigation.navigate('(tabs)/Cart');
   };
 
+  // Full slots can be waited on; a place that opens is held for the
+  // first in line, who then sees the slot as free
+  const toggleWaitlist = async () => {
+    if (!waitlistSlot || !locationId) return;
+    const date = selectedDate.key;
+    const entry = waitlist[waitlistSlot.time];
+    setWaitlistBusy(true);
+    try {
+      if (entry) {
+        if (!(await leaveWaitlist(locationId, date, waitlistSlot.time))) {
+          Toast.show({ type: 'error', text1: 'Failed to leave the waitlist' });
+          return;
+        }
+        Toast.show({ type: 'success', text1: 'You left the waitlist' });
+      } else {
+        const position = await joinWaitlist(locationId, date, waitlistSlot.time);
+        Toast.show({
+          type: 'success',
+          text1: `You're #${position} on the waitlist`,
+          text2: "We'll hold the slot for you and let you know if a place opens up.",
+        });
+      }
+    } catch (err: any) {
+      Toast.show({ type: 'error', text1: err.message });
+    } finally {
+      setWaitlistBusy(false);
+      setWaitlistSlot(null);
+      setRefreshKey((k) => k + 1);
+    }
+  };
+
+  const selectedClosed = selectedDate ? closedDay(selectedDate) : null;
+
   // Loader if data isn't ready
-  if (!availableSlots.length && !selectedSlot) {
+  if (loading || !selectedDate) {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={primaryColor} />
@@ -185,58 +293,94 @@ export default function PickUpTime() {
 
       <ScrollView contentContainerStyle={styles.scroll}>
         <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.dateScroll}>
-          {dayOptions.map(opt => (
-            <TouchableOpacity
-              key={opt.label}
-              style={[
-                styles.datePill,
-                selectedDate.label === opt.label && {
-                  backgroundColor: primaryColor,
-                  borderColor: primaryColor,
-                },
-              ]}
-              onPress={() => onDatePress(opt)}
-            >
-              <Text
-                style={[
-                  styles.datePillLabel,
-                  selectedDate.label === opt.label && { color: '#fff' },
-                ]}
-              >
-                {opt.label}
-              </Text>
-              <Text
+          {dayOptions.map(opt => {
+            const closed = closedDay(opt);
+            return (
+              <TouchableOpacity
+                key={opt.label}
+                disabled={!!closed}
                 style={[
-                  styles.datePillSub,
-                  selectedDate.label === opt.label && { color: '#fff' },
+                  styles.datePill,
+                  selectedDate.label === opt.label && {
+                    backgroundColor: primaryColor,
+                    borderColor: primaryColor,
+                  },
+                  closed && styles.datePillClosed,
                 ]}
+                onPress={() => onDatePress(opt)}
               >
-                {opt.dateText}
-              </Text>
-            </TouchableOpacity>
-          ))}
+                <Text
+                  style={[
+                    styles.datePillLabel,
+                    selectedDate.label === opt.label && { color: '#fff' },
+                  ]}
+                >
+                  {opt.label}
+                </Text>
+                <Text
+                  style={[
+                    styles.datePillSub,
+                    selectedDate.label === opt.label && { color: '#fff' },
+                  ]}
+                >
+                  {opt.dateText}
+                </Text>
+                {closed && (
+                  <Text style={styles.datePillReason} numberOfLines={1}>
+                    {closedLabel(closed)}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            );
+          })}
         </ScrollView>
 
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Hourly Slots</Text>
+          <Text style={styles.sectionTitle}>Pickup Windows</Text>
+          <Text style={styles.leadText}>
+            {`Times are in the store's time zone (${zoneAbbreviation(new Date(), timeZone!)}).`}
+          </Text>
+          {!!timing?.lead_minutes && (
+            <Text style={styles.leadText}>
+              {`Your order needs about ${timing.lead_minutes} minutes to prepare.`}
+            </Text>
+          )}
+          {selectedClosed ? (
+            <Text style={styles.emptyText}>
+              {`Closed on ${selectedDate.dateText}: ${closedLabel(selectedClosed)}`}
+            </Text>
+          ) : availableSlots.length === 0 ? (
+            <Text style={styles.emptyText}>No pickup times are offered on this day.</Text>
+          ) : null}
           <View style={styles.grid}>
             {availableSlots.map(s => {
-              const disabled = s.capacity === 0;
+              const passed = hasPassed(s);
+              const early = tooSoon(s);
+              const full = s.remaining === 0;
+              const disabled = full || early;
+              const entry = waitlist[s.time];
               const isSel = selectedSlot?.time === s.time;
-              const [h, m] = s.time.split(":").map(Number);
-              const start = `${((h % 12) || 12)}:${m.toString().padStart(2, '0')} ${h >= 12 ? 'PM' : 'AM'}`;
+              const start = formatTimeInZone(slotStart(s), timeZone!);
               const note =
-                s.capacity === null
+                passed
+                  ? 'Passed'
+                  : early
+                  ? 'Too soon'
+                  : entry?.hold_expires_at
+                  ? `Held for you until ${formatTimeInZone(entry.hold_expires_at, timeZone!)}`
+                  : entry
+                  ? `Waitlist #${entry.position}`
+                  : s.remaining === null
                   ? 'Unlimited'
-                  : disabled
-                  ? 'Not available'
-                  : `${s.capacity} left`;
+                  : full
+                  ? 'Full · Join waitlist'
+                  : `${s.remaining} left`;
 
               return (
                 <TouchableOpacity
                   key={s.time}
-                  disabled={disabled}
-                  onPress={() => setSelectedSlot(s)}
+                  disabled={early}
+                  onPress={() => (full ? setWaitlistSlot(s) : setSelectedSlot(s))}
                   style={[
                     styles.slot,
                     isSel && {
@@ -269,11 +413,47 @@ export default function PickUpTime() {
             { backgroundColor: primaryColor },
             !selectedSlot && styles.confirmButtonDisabled,
           ]}
-          disabled={!selectedSlot}
+          disabled={!selectedSlot || holding}
         >
-          <Text style={styles.confirmButtonText}>Confirm Time Slot</Text>
+          <Text style={styles.confirmButtonText}>
+            {holding ? 'Holding…' : 'Confirm Time Slot'}
+          </Text>
         </Button>
       </ScrollView>
+
+      <Dialog
+        visible={!!waitlistSlot}
+        onClose={() => setWaitlistSlot(null)}
+        title={
+          waitlistSlot && waitlist[waitlistSlot.time]
+            ? "You're on the waitlist"
+            : 'This time is full'
+        }
+        content={
+          <Text style={styles.leadText}>
+            {waitlistSlot && waitlist[waitlistSlot.time]
+              ? `You're #${waitlist[waitlistSlot.time].position} in line for ${formatTimeInZone(
+                  slotStart(waitlistSlot),
+                  timeZone!
+                )}. We'll notify you if a place opens up.`
+              : "Join the waitlist and if a place opens up we'll hold it for you for 30 minutes and let you know."}
+          </Text>
+        }
+        actions={
+          <>
+            <Button
+              style={{ backgroundColor: primaryColor }}
+              disabled={waitlistBusy}
+              onPress={toggleWaitlist}
+            >
+              {waitlistSlot && waitlist[waitlistSlot.time] ? 'Leave Waitlist' : 'Join Waitlist'}
+            </Button>
+            <Button variant="outline" onPress={() => setWaitlistSlot(null)}>
+              Close
+            </Button>
+          </>
+        }
+      />
     </View>
   );
 }
@@ -306,8 +486,12 @@ const styles = StyleSheet.create({
   },
   datePillLabel: { fontWeight: '600', color: '#374151' },
   datePillSub: { fontSize: 12, color: '#6b7280' },
+  datePillClosed: { opacity: 0.5, backgroundColor: '#f3f4f6' },
+  datePillReason: { fontSize: 11, color: '#b91c1c', maxWidth: 96 },
   section: { marginBottom: 24 },
   sectionTitle: { fontSize: 16, fontWeight: '600', color: '#374151', marginBottom: 8 },
+  emptyText: { fontSize: 14, color: '#6b7280' },
+  leadText: { fontSize: 13, color: '#6b7280', marginBottom: 8 },
   grid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
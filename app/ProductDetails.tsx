@@ -10,14 +10,20 @@ import {
   Dimensions,
   NativeSyntheticEvent,
   NativeScrollEvent,
+  TouchableOpacity,
 } from "react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useNavigation, useRoute } from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
 import { Button } from "@/components/ui/button";
 import NavigationBar from "@/components/NavigationBar";
+import NoteDialog from "@/components/NoteDialog";
 import { Toast, useToast } from "../hooks/use-toast";
 import { supabase } from "@/supabaseClient";
+import { addToCart } from "@/hooks/CartUtils";
+import { stockLabel, isOutOfStock } from "@/hooks/InventoryUtils";
+import { useFavorites } from "@/hooks/FavoritesUtils";
+import { quantityStep, roundQuantity, formatQuantity, priceSuffix } from "@/hooks/QuantityUtils";
 
 const windowWidth = Dimensions.get("window").width;
 
@@ -29,7 +35,9 @@ const ProductDetails: React.FC = () => {
 
   const [product, setProduct] = useState<any>(null);
   const [quantity, setQuantity] = useState(1);
-  const [isFavorite, setIsFavorite] = useState(false);
+  const [note, setNote] = useState("");
+  const [editingNote, setEditingNote] = useState(false);
+  const { isFavorite, toggleFavorite } = useFavorites();
   const [loadingProduct, setLoadingProduct] = useState(true);
   const [activeIndex, setActiveIndex] = useState(0);
 
@@ -76,6 +84,7 @@ const ProductDetails: React.FC = () => {
         Toast.show({ type: 'error', text1: 'Failed to load product details.' });
       } else {
         setProduct(data);
+        setQuantity(quantityStep(data));
       }
       setLoadingProduct(false);
     })();
@@ -87,18 +96,29 @@ const ProductDetails: React.FC = () => {
   };
 
   const handleQuantityChange = (action: 'increase' | 'decrease') => {
-    setQuantity(q => action === 'increase' ? q + 1 : Math.max(1, q - 1));
+    const max = product?.stock_quantity ?? Infinity;
+    const step = quantityStep(product ?? {});
+    setQuantity(q => roundQuantity(action === 'increase' ? Math.min(q + step, Math.max(max, step)) : Math.max(step, q - step)));
+  };
+
+  const handleToggleFavorite = async () => {
+    try {
+      await toggleFavorite(product.id);
+    } catch (err: any) {
+      Toast.show({ type: 'error', text1: err.message });
+    }
   };
 
   const handleAddToCart = async () => {
     try {
-      const stored = await AsyncStorage.getItem('cart');
-      const cart: any[] = stored ? JSON.parse(stored) : [];
-      const idx = cart.findIndex(it => it.id === product.id);
-      if (idx >= 0) cart[idx].quantity += quantity;
-      else cart.push({ ...product, quantity });
-      await AsyncStorage.setItem('cart', JSON.stringify(cart));
-      Toast.show({ type: 'success', text1: `${product.name} added to cart!`, text2: `Qty: ${quantity}` });
+      const added = await addToCart(product, quantity, note);
+      if (added === 0) {
+        Toast.show({ type: 'error', text1: `No more ${product.name} available.` });
+      } else if (added < quantity) {
+        Toast.show({ type: 'info', text1: `Only ${added} more could be added.`, text2: `${product.name} is limited to ${product.stock_quantity}.` });
+      } else {
+        Toast.show({ type: 'success', text1: `${product.name} added to cart!`, text2: `Qty: ${formatQuantity(product, quantity)}` });
+      }
     } catch (err) {
       console.error('Add to cart error:', err);
       Toast.show({ type: 'error', text1: 'Failed to add to cart' });
@@ -135,7 +155,7 @@ const ProductDetails: React.FC = () => {
       <View style={styles.header}>
         <Button variant="ghost" size="icon" onPress={() => navigation.goBack()}><Feather name="arrow-left" size={24} color="#000" /></Button>
         <Text style={styles.headerTitle}>Product Details</Text>
-        <Button variant="ghost" size="icon" onPress={() => setIsFavorite(f => !f)}><Feather name="heart" size={24} color={isFavorite ? '#ff0000' : '#000'} /></Button>
+        <Button variant="ghost" size="icon" onPress={handleToggleFavorite}><Feather name="heart" size={24} color={isFavorite(product.id) ? '#ff0000' : '#000'} /></Button>
       </View>
 
       <ScrollView contentContainerStyle={styles.scrollContainer}>
@@ -154,24 +174,41 @@ const ProductDetails: React.FC = () => {
 
           <View style={styles.productInfo}>
             <View><Text style={styles.productName}>{product.name}</Text><Text style={styles.productCategory}>{product.categories.name}</Text></View>
-            {product.stock_quantity>0 && (<Text style={styles.inStockBadge}>In Stock</Text>)}
+            {stockLabel(product.stock_quantity)
+              ? (<Text style={isOutOfStock(product.stock_quantity) ? styles.outOfStockBadge : styles.lowStockBadge}>{stockLabel(product.stock_quantity)}</Text>)
+              : product.stock_quantity>0 && (<Text style={styles.inStockBadge}>In Stock</Text>)}
           </View>
 
-          <Text style={[styles.productPrice, { color: primaryColor }]}>${product.price}</Text>
+          <Text style={[styles.productPrice, { color: primaryColor }]}>${product.price}{priceSuffix(product)}</Text>
+          {product.sold_by_weight && (<Text style={styles.weightHint}>Sold by weight. You'll pay for the actual weight picked.</Text>)}
 
           <View style={styles.description}><Text style={styles.descriptionTitle}>Description</Text><Text style={styles.descriptionText}>{product.description}</Text></View>
 
+          <TouchableOpacity style={styles.noteRow} onPress={() => setEditingNote(true)}>
+            <Feather name="edit-3" size={16} color="#6b7280" />
+            <Text style={[styles.noteText, !!note && styles.noteTextFilled]} numberOfLines={2}>{note || 'Add special instructions'}</Text>
+          </TouchableOpacity>
+
           <View style={styles.actions}>
             <View style={[styles.quantitySelector, { borderColor: primaryColor }]}>
-              <Button variant="ghost" size="icon" onPress={() => handleQuantityChange('decrease')} style={[styles.quantityButton, quantity<=1 && { opacity:0.5 }]}><Feather name="minus" size={18} color="#000" /></Button>
-              <Text style={styles.quantityText}>{quantity}</Text>
+              <Button variant="ghost" size="icon" onPress={() => handleQuantityChange('decrease')} style={[styles.quantityButton, quantity<=quantityStep(product) && { opacity:0.5 }]}><Feather name="minus" size={18} color="#000" /></Button>
+              <Text style={[styles.quantityText, product.sold_by_weight && styles.weightText]}>{formatQuantity(product, quantity)}</Text>
               <Button variant="ghost" size="icon" style={styles.quantityButton} onPress={() => handleQuantityChange('increase')}><Feather name="plus" size={18} color="#000" /></Button>
             </View>
-            <Button style={[styles.addToCartButton, { backgroundColor: primaryColor }]} onPress={handleAddToCart}><Text style={styles.addToCartButtonText}>Add to Cart • ${totalPrice}</Text></Button>
+            <Button style={[styles.addToCartButton, { backgroundColor: primaryColor }, isOutOfStock(product.stock_quantity) && { opacity:0.5 }]} onPress={handleAddToCart} disabled={isOutOfStock(product.stock_quantity)}><Text style={styles.addToCartButtonText}>{isOutOfStock(product.stock_quantity) ? 'Out of Stock' : `Add to Cart • ${product.sold_by_weight ? '~' : ''}$${totalPrice}`}</Text></Button>
           </View>
         </View>
       </ScrollView>
 
+      <NoteDialog
+        visible={editingNote}
+        title="Special instructions"
+        value={note}
+        placeholder='e.g. "thin sliced" or "green bananas"'
+        primaryColor={primaryColor}
+        onClose={() => setEditingNote(false)}
+        onSave={setNote}
+      />
       <NavigationBar />
       <ToastContainer />
     </View>
@@ -199,17 +236,25 @@ const styles = StyleSheet.create({
   productName:{fontSize:24,fontWeight:'bold'},
   productCategory:{fontSize:14,color:'#6b7280'},
   inStockBadge:{backgroundColor:'#D1FAE5',color:'#047857',fontSize:12,paddingHorizontal:8,paddingVertical:4,borderRadius:4},
+  lowStockBadge:{backgroundColor:'#FEF3C7',color:'#B45309',fontSize:12,paddingHorizontal:8,paddingVertical:4,borderRadius:4},
+  outOfStockBadge:{backgroundColor:'#FEE2E2',color:'#B91C1C',fontSize:12,paddingHorizontal:8,paddingVertical:4,borderRadius:4},
 
   productPrice:{fontSize:24,fontWeight:'bold',marginBottom:16},
+  weightHint:{fontSize:12,color:'#6b7280',marginTop:-12,marginBottom:16},
 
   description:{marginBottom:16},
   descriptionTitle:{fontSize:18,fontWeight:'bold',marginBottom:8},
   descriptionText:{fontSize:14,color:'#374151'},
 
+  noteRow:{flexDirection:'row',alignItems:'center',paddingVertical:8},
+  noteText:{marginLeft:8,fontSize:14,color:'#6b7280',flex:1},
+  noteTextFilled:{color:'#374151',fontStyle:'italic'},
+
   actions:{flexDirection:'row',justifyContent:'space-between',alignItems:'center',marginTop:16,borderTopWidth:1,borderTopColor:'#e5e5e5',paddingTop:16},
   quantitySelector:{flexDirection:'row',alignItems:'center',borderWidth:1,borderRadius:8},
   quantityButton:{height:32,width:32,justifyContent:'center',alignItems:'center'},
   quantityText:{width:32,textAlign:'center',fontSize:16,fontWeight:'bold'},
+  weightText:{width:64,fontSize:14},
 
   addToCartButton:{paddingVertical:12,paddingHorizontal:16,borderRadius:8,alignItems:'center',justifyContent:'center'},
   addToCartButtonText:{color:'#fff',fontWeight:'bold',fontSize:16},
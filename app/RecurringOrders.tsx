@@ -0,0 +1,340 @@
+// app/RecurringOrders.tsx
+
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { useNavigation, useFocusEffect } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import { Button } from "@/components/ui/button";
+import { Dialog } from "@/components/ui/dialog";
+import NavigationBar from "@/components/NavigationBar";
+import NotificationNotices from "@/components/NotificationNotices";
+import {
+  DAY_NAMES,
+  FREQUENCY_LABELS,
+  RecurringItem,
+  RecurringOccurrence,
+  RecurringOrder,
+  cancelRecurringOrder,
+  fetchRecurringOrders,
+  fetchRecurringProducts,
+  formatPickupDate,
+  formatSlotTime,
+  nextOccurrence,
+  setOccurrenceItems,
+  setOccurrenceSkipped,
+  setRecurringActive,
+} from "@/hooks/RecurringOrderUtils";
+import { formatQuantity, quantityStep, roundQuantity } from "@/hooks/QuantityUtils";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { Toast, useToast } from "@/hooks/use-toast";
+
+interface Editing {
+  order: RecurringOrder;
+  occurrence: RecurringOccurrence;
+  items: RecurringItem[];
+}
+
+const RecurringOrders: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const { primary } = useColorScheme();
+  const { ToastContainer } = useToast();
+
+  const [orders, setOrders] = useState<RecurringOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [products, setProducts] = useState<Record<string, any>>({});
+  const [cancelling, setCancelling] = useState<RecurringOrder | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setOrders(await fetchRecurringOrders());
+    } catch (err: any) {
+      Toast.show({ type: "error", text1: err.message });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    try {
+      await action();
+      Toast.show({ type: "success", text1: success });
+      await load();
+    } catch (err: any) {
+      Toast.show({ type: "error", text1: err.message });
+    }
+  };
+
+  const startEditing = async (order: RecurringOrder, occurrence: RecurringOccurrence) => {
+    const items = occurrence.items ?? order.items;
+    setProducts(await fetchRecurringProducts(items));
+    setEditing({ order, occurrence, items: items.map((i) => ({ ...i })) });
+  };
+
+  const changeQuantity = (index: number, delta: number) =>
+    setEditing((e) => {
+      if (!e) return e;
+      const line = e.items[index];
+      const quantity = roundQuantity(
+        line.quantity + delta * quantityStep(products[line.product_id] ?? {})
+      );
+      const items = quantity > 0
+        ? e.items.map((it, i) => (i === index ? { ...it, quantity } : it))
+        : e.items.filter((_, i) => i !== index);
+      return { ...e, items };
+    });
+
+  const saveEdit = () => {
+    if (!editing) return;
+    const { occurrence, items } = editing;
+    setEditing(null);
+    if (!items.length) {
+      run(() => setOccurrenceSkipped(occurrence, true), "Order skipped");
+      return;
+    }
+    run(() => setOccurrenceItems(occurrence, items), "Changes saved for this order");
+  };
+
+  const renderOrder = (order: RecurringOrder) => {
+    const next = nextOccurrence(order);
+    const skipped = next?.status === "skipped";
+    const last = order.recurring_order_occurrences
+      .filter((o) => o.status === "placed" || o.status === "failed")
+      .sort((a, b) => b.pickup_on.localeCompare(a.pickup_on))[0];
+
+    return (
+      <View key={order.id} style={[styles.card, !order.active && styles.cardPaused]}>
+        <View style={styles.cardHeader}>
+          <Feather name="repeat" size={18} color={primary} />
+          <Text style={styles.cardTitle}>
+            {FREQUENCY_LABELS[order.frequency]} · {DAY_NAMES[order.slot_day]}s at{" "}
+            {formatSlotTime(order.slot_time)}
+          </Text>
+        </View>
+        <Text style={styles.meta}>
+          {order.locations?.name ?? "Store"} · {order.items.length} item
+          {order.items.length === 1 ? "" : "s"}
+        </Text>
+
+        {!order.active ? (
+          <Text style={styles.status}>Paused</Text>
+        ) : next ? (
+          <View style={styles.nextRow}>
+            <Text style={styles.status}>
+              Next pickup: {formatPickupDate(next.pickup_on)}
+              {skipped ? " (skipped)" : next.items ? " (edited)" : ""}
+            </Text>
+            <View style={styles.actions}>
+              <TouchableOpacity
+                onPress={() =>
+                  run(
+                    () => setOccurrenceSkipped(next, !skipped),
+                    skipped ? "Order restored" : "Order skipped"
+                  )
+                }
+              >
+                <Text style={[styles.link, { color: primary }]}>
+                  {skipped ? "Undo skip" : "Skip"}
+                </Text>
+              </TouchableOpacity>
+              {!skipped && (
+                <TouchableOpacity onPress={() => startEditing(order, next)}>
+                  <Text style={[styles.link, { color: primary }]}>Edit</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        ) : null}
+
+        {last && (
+          <TouchableOpacity
+            disabled={!last.order_id}
+            onPress={() => navigation.navigate("OrderDetails", { orderId: last.order_id })}
+          >
+            <Text style={[styles.meta, last.status === "failed" && styles.failed]}>
+              {last.status === "placed"
+                ? `Last placed for ${formatPickupDate(last.pickup_on)} — view order`
+                : `Couldn't place the order for ${formatPickupDate(last.pickup_on)}`}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        <View style={styles.footerActions}>
+          <Button
+            variant="outline"
+            size="sm"
+            onPress={() =>
+              run(
+                () => setRecurringActive(order.id, !order.active),
+                order.active ? "Recurring order paused" : "Recurring order resumed"
+              )
+            }
+          >
+            <Text>{order.active ? "Pause" : "Resume"}</Text>
+          </Button>
+          <Button variant="outline" size="sm" onPress={() => setCancelling(order)}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </Button>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Feather name="arrow-left" size={24} color="#000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Recurring Orders</Text>
+      </View>
+
+      {loading ? (
+        <View style={styles.center}>
+          <ActivityIndicator size="large" color={primary} />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          <NotificationNotices />
+
+          {orders.length === 0 ? (
+            <View style={styles.center}>
+              <Feather name="repeat" size={48} color="#d1d5db" />
+              <Text style={styles.emptyTitle}>No recurring orders</Text>
+              <Text style={styles.emptySubtitle}>
+                Open a past order and tap “Make It Recurring” to have it placed for
+                you every week, two weeks or month.
+              </Text>
+            </View>
+          ) : (
+            orders.map(renderOrder)
+          )}
+        </ScrollView>
+      )}
+
+      <Dialog
+        visible={!!editing}
+        onClose={() => setEditing(null)}
+        title={
+          editing ? `Order for ${formatPickupDate(editing.occurrence.pickup_on)}` : ""
+        }
+        content={
+          <ScrollView style={styles.editList}>
+            {editing?.items.map((line, index) => {
+              const product = products[line.product_id];
+              return (
+                <View key={`${line.product_id}-${index}`} style={styles.editRow}>
+                  <Text style={styles.editName} numberOfLines={2}>
+                    {product?.name ?? "Product"}
+                  </Text>
+                  <TouchableOpacity onPress={() => changeQuantity(index, -1)} style={styles.qtyButton}>
+                    <Feather name="minus" size={14} color="#374151" />
+                  </TouchableOpacity>
+                  <Text style={styles.quantity}>
+                    {formatQuantity(product ?? {}, line.quantity)}
+                  </Text>
+                  <TouchableOpacity onPress={() => changeQuantity(index, 1)} style={styles.qtyButton}>
+                    <Feather name="plus" size={14} color="#374151" />
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+            <Text style={styles.editHint}>
+              Changes apply to this order only.
+            </Text>
+          </ScrollView>
+        }
+        actions={
+          <>
+            <Button style={{ backgroundColor: primary }} onPress={saveEdit}>
+              Save
+            </Button>
+            <Button variant="outline" onPress={() => setEditing(null)}>
+              Cancel
+            </Button>
+          </>
+        }
+      />
+
+      <Dialog
+        visible={!!cancelling}
+        onClose={() => setCancelling(null)}
+        title="Cancel recurring order?"
+        content={
+          <Text>Future orders won't be placed. Orders already placed are not affected.</Text>
+        }
+        actions={
+          <>
+            <Button
+              style={{ backgroundColor: "#dc2626" }}
+              onPress={() => {
+                const order = cancelling;
+                setCancelling(null);
+                if (order) run(() => cancelRecurringOrder(order.id), "Recurring order cancelled");
+              }}
+            >
+              <Text style={{ color: "#fff" }}>Cancel Order</Text>
+            </Button>
+            <Button variant="outline" onPress={() => setCancelling(null)}>
+              <Text>Keep</Text>
+            </Button>
+          </>
+        }
+      />
+
+      <ToastContainer />
+      <NavigationBar />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#f9f9f9" },
+  header: {
+    backgroundColor: "#fff",
+    padding: 16,
+    flexDirection: "row",
+    alignItems: "center",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e5e5",
+  },
+  backButton: { marginRight: 8 },
+  headerTitle: { fontSize: 20, fontWeight: "bold" },
+  content: { padding: 16, paddingBottom: 80 },
+  card: { backgroundColor: "#fff", borderRadius: 8, padding: 16, marginBottom: 12 },
+  cardPaused: { opacity: 0.7 },
+  cardHeader: { flexDirection: "row", alignItems: "center", marginBottom: 4 },
+  cardTitle: { fontSize: 16, fontWeight: "600", marginLeft: 8, flex: 1 },
+  meta: { fontSize: 13, color: "#6b7280", marginTop: 4 },
+  failed: { color: "#b91c1c" },
+  nextRow: { marginTop: 8 },
+  status: { fontSize: 14, fontWeight: "500", color: "#374151", marginTop: 8 },
+  actions: { flexDirection: "row", marginTop: 4 },
+  link: { fontSize: 14, fontWeight: "500", marginRight: 16 },
+  footerActions: { flexDirection: "row", justifyContent: "flex-end", marginTop: 12, gap: 8 },
+  cancelText: { color: "#dc2626" },
+  editList: { maxHeight: 360 },
+  editRow: { flexDirection: "row", alignItems: "center", paddingVertical: 6 },
+  editName: { flex: 1, fontSize: 14, marginRight: 8 },
+  qtyButton: { padding: 6, borderRadius: 4, backgroundColor: "#f3f4f6" },
+  quantity: { minWidth: 48, textAlign: "center", fontSize: 14 },
+  editHint: { fontSize: 12, color: "#6b7280", marginTop: 8 },
+  center: { flex: 1, justifyContent: "center", alignItems: "center", padding: 32 },
+  emptyTitle: { fontSize: 18, fontWeight: "bold", marginTop: 16, marginBottom: 8 },
+  emptySubtitle: { fontSize: 14, color: "#6b7280", textAlign: "center" },
+});
+
+export default RecurringOrders;
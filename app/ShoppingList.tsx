@@ -0,0 +1,471 @@
+// app/ShoppingList.tsx
+
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  Image,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Share,
+} from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import { useLocalSearchParams } from "expo-router";
+import { Feather } from "@expo/vector-icons";
+import { Button } from "@/components/ui/button";
+import { Dialog } from "@/components/ui/dialog";
+import NavigationBar from "@/components/NavigationBar";
+import { supabase } from "@/supabaseClient";
+import {
+  ShoppingList as List,
+  ShoppingListItem,
+  ListProduct,
+  itemLabel,
+  shareLink,
+  fetchList,
+  joinList,
+  deleteList,
+  leaveList,
+  addListItem,
+  updateListItem,
+  removeListItem,
+  searchProducts,
+  addListToCart,
+} from "@/hooks/ShoppingListUtils";
+import { formatQuantity, priceSuffix, quantityStep, roundQuantity } from "@/hooks/QuantityUtils";
+import { getImageUrl } from "@/hooks/ImageUtils";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { Toast, useToast } from "@/hooks/use-toast";
+
+const ShoppingList: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const { listId: listIdParam, token } = useLocalSearchParams<{
+    listId?: string;
+    token?: string;
+  }>();
+  const { primary } = useColorScheme();
+  const { ToastContainer } = useToast();
+
+  const [listId, setListId] = useState<string | null>(listIdParam ?? null);
+  const [list, setList] = useState<List | null>(null);
+  const [items, setItems] = useState<ShoppingListItem[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<ListProduct[]>([]);
+  // the free-text line being matched to a product, if any
+  const [matching, setMatching] = useState<ShoppingListItem | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [confirmRemove, setConfirmRemove] = useState(false);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setUserId(data.session?.user.id ?? null);
+    });
+  }, []);
+
+  // a share link carries the token; joining resolves it to the list id
+  useEffect(() => {
+    if (listIdParam || !token) return;
+    joinList(token)
+      .then(setListId)
+      .catch((err) => {
+        Toast.show({ type: "error", text1: err.message });
+        setLoading(false);
+      });
+  }, [listIdParam, token]);
+
+  const loadList = useCallback(async () => {
+    if (!listId) return;
+    try {
+      const data = await fetchList(listId);
+      setList(data.list);
+      setItems(data.items);
+    } catch (err: any) {
+      Toast.show({ type: "error", text1: err.message });
+    } finally {
+      setLoading(false);
+    }
+  }, [listId]);
+
+  useEffect(() => {
+    loadList();
+  }, [loadList]);
+
+  useEffect(() => {
+    const handle = setTimeout(() => {
+      searchProducts(query).then(setResults);
+    }, 300);
+    return () => clearTimeout(handle);
+  }, [query]);
+
+  const resetSearch = () => {
+    setQuery("");
+    setResults([]);
+    setMatching(null);
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      await loadList();
+    } catch (err: any) {
+      Toast.show({ type: "error", text1: err.message });
+    }
+  };
+
+  const handlePickProduct = (product: ListProduct) =>
+    run(async () => {
+      if (matching) {
+        await updateListItem(matching, { product_id: product.id, text: product.name });
+      } else if (listId) {
+        await addListItem(listId, product, quantityStep(product));
+      }
+      resetSearch();
+    });
+
+  const handleAddText = () => {
+    if (!listId || !query.trim()) return;
+    run(async () => {
+      await addListItem(listId, query);
+      resetSearch();
+    });
+  };
+
+  const handleQuantity = (item: ShoppingListItem, delta: number) => {
+    const step = quantityStep(item.products ?? {});
+    const quantity = roundQuantity(item.quantity + delta * step);
+    run(() =>
+      quantity > 0 ? updateListItem(item, { quantity }) : removeListItem(item)
+    );
+  };
+
+  const handleAddToCart = async () => {
+    if (!listId) return;
+    setAdding(true);
+    try {
+      const { added, unmatched } = await addListToCart(listId);
+      Toast.show({
+        type: added ? "success" : "error",
+        text1: added
+          ? `Added ${added} item${added === 1 ? "" : "s"} to cart`
+          : "Nothing could be added.",
+        text2: unmatched.length ? `Not found: ${unmatched.join(", ")}` : undefined,
+      });
+    } catch (err: any) {
+      Toast.show({ type: "error", text1: err.message });
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleShare = async () => {
+    if (!list) return;
+    try {
+      await Share.share({
+        message: `Here's my "${list.name}" shopping list: ${shareLink(list)}`,
+      });
+    } catch (err) {
+      console.error("Share failed:", err);
+    }
+  };
+
+  const isOwner = !!list && list.owner_id === userId;
+
+  const handleRemoveList = async () => {
+    if (!list) return;
+    setConfirmRemove(false);
+    try {
+      if (isOwner) await deleteList(list.id);
+      else await leaveList(list.id);
+      navigation.goBack();
+    } catch (err: any) {
+      Toast.show({ type: "error", text1: err.message });
+    }
+  };
+
+  const renderItem = (item: ShoppingListItem) => {
+    const product = item.products;
+    return (
+      <View key={item.id} style={styles.row}>
+        {product ? (
+          <Image source={{ uri: getImageUrl(product) }} style={styles.image} />
+        ) : (
+          <View style={[styles.image, styles.textIcon]}>
+            <Feather name="edit-3" size={20} color="#9ca3af" />
+          </View>
+        )}
+        <View style={styles.details}>
+          <Text style={styles.name} numberOfLines={2}>
+            {itemLabel(item)}
+          </Text>
+          {product ? (
+            <Text style={[styles.price, { color: primary }]}>
+              ${(+product.price).toFixed(2)}
+              {priceSuffix(product)}
+            </Text>
+          ) : (
+            <TouchableOpacity
+              onPress={() => {
+                setMatching(item);
+                setQuery(item.text ?? "");
+              }}
+            >
+              <Text style={[styles.matchLink, { color: primary }]}>Match a product</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        <View style={styles.quantityControls}>
+          <TouchableOpacity onPress={() => handleQuantity(item, -1)} style={styles.qtyButton}>
+            <Feather name="minus" size={16} color="#374151" />
+          </TouchableOpacity>
+          <Text style={styles.quantity}>
+            {formatQuantity(product ?? {}, item.quantity)}
+          </Text>
+          <TouchableOpacity onPress={() => handleQuantity(item, 1)} style={styles.qtyButton}>
+            <Feather name="plus" size={16} color="#374151" />
+          </TouchableOpacity>
+        </View>
+        <TouchableOpacity
+          onPress={() => run(() => removeListItem(item))}
+          style={styles.remove}
+          accessibilityLabel="Remove from list"
+        >
+          <Feather name="x" size={18} color="#9ca3af" />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Feather name="arrow-left" size={24} color="#000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          {list?.name ?? "Shopping List"}
+        </Text>
+        {list && (
+          <>
+            <TouchableOpacity onPress={handleShare} style={styles.headerAction}>
+              <Feather name="share-2" size={20} color="#000" />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setConfirmRemove(true)} style={styles.headerAction}>
+              <Feather name={isOwner ? "trash-2" : "log-out"} size={20} color="#000" />
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+
+      {loading ? (
+        <View style={styles.center}>
+          <ActivityIndicator size="large" color={primary} />
+        </View>
+      ) : !list ? (
+        <View style={styles.center}>
+          <Feather name="list" size={48} color="#d1d5db" />
+          <Text style={styles.emptyTitle}>List not available</Text>
+        </View>
+      ) : (
+        <>
+          <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+            {matching && (
+              <View style={styles.matchingBanner}>
+                <Text style={styles.matchingText}>
+                  Pick a product for “{matching.text}”
+                </Text>
+                <TouchableOpacity onPress={resetSearch}>
+                  <Feather name="x" size={16} color="#374151" />
+                </TouchableOpacity>
+              </View>
+            )}
+            <View style={styles.searchRow}>
+              <TextInput
+                style={styles.input}
+                placeholder={matching ? "Search products" : "Add an item, e.g. milk"}
+                value={query}
+                onChangeText={setQuery}
+                onSubmitEditing={matching ? undefined : handleAddText}
+                returnKeyType="done"
+              />
+              {!matching && (
+                <Button
+                  style={[styles.addTextButton, { backgroundColor: primary }]}
+                  disabled={!query.trim()}
+                  onPress={handleAddText}
+                >
+                  <Feather name="plus" size={20} color="#fff" />
+                </Button>
+              )}
+            </View>
+
+            {results.length > 0 && (
+              <View style={styles.results}>
+                {results.map((p) => (
+                  <TouchableOpacity
+                    key={p.id}
+                    style={styles.result}
+                    onPress={() => handlePickProduct(p)}
+                  >
+                    <Text style={styles.resultName} numberOfLines={1}>
+                      {p.name}
+                    </Text>
+                    <Text style={styles.resultPrice}>
+                      ${(+p.price).toFixed(2)}
+                      {priceSuffix(p)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            {items.length === 0 ? (
+              <Text style={styles.emptySubtitle}>
+                Add products or just type what you need — we'll find it when you
+                add the list to your cart.
+              </Text>
+            ) : (
+              items.map(renderItem)
+            )}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <Button
+              style={[
+                styles.cartButton,
+                { backgroundColor: primary },
+                (!items.length || adding) && styles.cartButtonDisabled,
+              ]}
+              disabled={!items.length || adding}
+              onPress={handleAddToCart}
+            >
+              <Text style={styles.cartButtonText}>
+                {adding ? "Adding…" : "Add list to cart"}
+              </Text>
+            </Button>
+          </View>
+        </>
+      )}
+
+      <Dialog
+        visible={confirmRemove}
+        onClose={() => setConfirmRemove(false)}
+        title={isOwner ? "Delete list?" : "Leave list?"}
+        content={
+          <Text>
+            {isOwner
+              ? "This deletes the list for everyone it's shared with."
+              : "You'll no longer see this list. You can rejoin from the link."}
+          </Text>
+        }
+        actions={
+          <>
+            <Button variant="outline" onPress={() => setConfirmRemove(false)}>
+              <Text>Cancel</Text>
+            </Button>
+            <Button onPress={handleRemoveList} style={{ backgroundColor: "#dc2626" }}>
+              <Text style={{ color: "#fff" }}>{isOwner ? "Delete" : "Leave"}</Text>
+            </Button>
+          </>
+        }
+      />
+
+      <ToastContainer />
+      <NavigationBar />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#f9f9f9" },
+  header: {
+    backgroundColor: "#fff",
+    padding: 16,
+    flexDirection: "row",
+    alignItems: "center",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e5e5",
+  },
+  backButton: { marginRight: 8 },
+  headerTitle: { flex: 1, fontSize: 20, fontWeight: "bold" },
+  headerAction: { padding: 6, marginLeft: 8 },
+  content: { padding: 16, paddingBottom: 160 },
+  matchingBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: "#fef3c7",
+    borderRadius: 6,
+    padding: 10,
+    marginBottom: 8,
+  },
+  matchingText: { fontSize: 13, color: "#92400e", flex: 1, marginRight: 8 },
+  searchRow: { flexDirection: "row", alignItems: "center", marginBottom: 8 },
+  input: {
+    flex: 1,
+    backgroundColor: "#fff",
+    borderWidth: 1,
+    borderColor: "#e5e5e5",
+    borderRadius: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  addTextButton: { padding: 10, borderRadius: 6, marginLeft: 8 },
+  results: {
+    backgroundColor: "#fff",
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: "#e5e5e5",
+    marginBottom: 12,
+  },
+  result: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f3f4f6",
+  },
+  resultName: { flex: 1, fontSize: 14, marginRight: 8 },
+  resultPrice: { fontSize: 14, color: "#6b7280" },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#fff",
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  image: { width: 48, height: 48, borderRadius: 8 },
+  textIcon: { backgroundColor: "#f3f4f6", justifyContent: "center", alignItems: "center" },
+  details: { flex: 1, marginLeft: 12 },
+  name: { fontSize: 14, fontWeight: "500", marginBottom: 4 },
+  price: { fontSize: 14, fontWeight: "bold" },
+  matchLink: { fontSize: 13, fontWeight: "500" },
+  quantityControls: { flexDirection: "row", alignItems: "center" },
+  qtyButton: { padding: 6, borderRadius: 4, backgroundColor: "#f3f4f6" },
+  quantity: { minWidth: 36, textAlign: "center", fontSize: 14 },
+  remove: { padding: 6, marginLeft: 4 },
+  footer: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    bottom: 64,
+    padding: 16,
+    backgroundColor: "#fff",
+    borderTopWidth: 1,
+    borderTopColor: "#e5e5e5",
+  },
+  cartButton: { paddingVertical: 12, borderRadius: 8, alignItems: "center" },
+  cartButtonDisabled: { opacity: 0.6 },
+  cartButtonText: { color: "#fff", fontSize: 16, fontWeight: "600" },
+  center: { flex: 1, justifyContent: "center", alignItems: "center", padding: 32 },
+  emptyTitle: { fontSize: 18, fontWeight: "bold", marginTop: 16, marginBottom: 8 },
+  emptySubtitle: { fontSize: 14, color: "#6b7280", textAlign: "center", marginTop: 24 },
+});
+
+export default ShoppingList;
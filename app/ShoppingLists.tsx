@@ -0,0 +1,173 @@
+// app/ShoppingLists.tsx
+
+import React, { useState, useCallback, useEffect } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { useNavigation, useFocusEffect } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import { Button } from "@/components/ui/button";
+import NavigationBar from "@/components/NavigationBar";
+import { supabase } from "@/supabaseClient";
+import { ShoppingList, fetchLists, createList } from "@/hooks/ShoppingListUtils";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { Toast, useToast } from "@/hooks/use-toast";
+
+const ShoppingLists: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const { primary } = useColorScheme();
+  const { ToastContainer } = useToast();
+
+  const [lists, setLists] = useState<ShoppingList[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [newName, setNewName] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setUserId(data.session?.user.id ?? null);
+    });
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      setLoading(true);
+      fetchLists()
+        .then(setLists)
+        .catch((err) => Toast.show({ type: "error", text1: err.message }))
+        .finally(() => setLoading(false));
+    }, [])
+  );
+
+  const handleCreate = async () => {
+    if (!newName.trim() || creating) return;
+    setCreating(true);
+    try {
+      const list = await createList(newName);
+      setNewName("");
+      navigation.navigate("ShoppingList", { listId: list.id });
+    } catch (err: any) {
+      Toast.show({ type: "error", text1: err.message });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Feather name="arrow-left" size={24} color="#000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Shopping Lists</Text>
+      </View>
+
+      <View style={styles.createRow}>
+        <TextInput
+          style={styles.input}
+          placeholder="New list, e.g. Weekly shop"
+          value={newName}
+          onChangeText={setNewName}
+          onSubmitEditing={handleCreate}
+          returnKeyType="done"
+        />
+        <Button
+          style={[styles.createButton, { backgroundColor: primary }]}
+          disabled={!newName.trim() || creating}
+          onPress={handleCreate}
+        >
+          <Feather name="plus" size={20} color="#fff" />
+        </Button>
+      </View>
+
+      {loading ? (
+        <View style={styles.center}>
+          <ActivityIndicator size="large" color={primary} />
+        </View>
+      ) : lists.length === 0 ? (
+        <View style={styles.center}>
+          <Feather name="list" size={48} color="#d1d5db" />
+          <Text style={styles.emptyTitle}>No lists yet</Text>
+          <Text style={styles.emptySubtitle}>
+            Plan your weekly shop, then add the whole list to your cart.
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={lists}
+          keyExtractor={(l) => l.id}
+          contentContainerStyle={styles.list}
+          renderItem={({ item }) => (
+            <TouchableOpacity
+              style={styles.row}
+              onPress={() => navigation.navigate("ShoppingList", { listId: item.id })}
+            >
+              <Feather name="list" size={20} color={primary} />
+              <View style={styles.rowText}>
+                <Text style={styles.name}>{item.name}</Text>
+                <Text style={styles.meta}>
+                  {item.owner_id === userId ? "" : "Shared with you · "}
+                  Updated {new Date(item.updated_at).toLocaleDateString()}
+                </Text>
+              </View>
+              <Feather name="chevron-right" size={18} color="#9ca3af" />
+            </TouchableOpacity>
+          )}
+        />
+      )}
+
+      <ToastContainer />
+      <NavigationBar />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#f9f9f9" },
+  header: {
+    backgroundColor: "#fff",
+    padding: 16,
+    flexDirection: "row",
+    alignItems: "center",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e5e5",
+  },
+  backButton: { marginRight: 8 },
+  headerTitle: { fontSize: 20, fontWeight: "bold" },
+  createRow: { flexDirection: "row", alignItems: "center", padding: 16 },
+  input: {
+    flex: 1,
+    backgroundColor: "#fff",
+    borderWidth: 1,
+    borderColor: "#e5e5e5",
+    borderRadius: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginRight: 8,
+  },
+  createButton: { padding: 10, borderRadius: 6 },
+  list: { paddingHorizontal: 16, paddingBottom: 80 },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#fff",
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+  },
+  rowText: { flex: 1, marginLeft: 12 },
+  name: { fontSize: 16, fontWeight: "500" },
+  meta: { fontSize: 12, color: "#6b7280", marginTop: 2 },
+  center: { flex: 1, justifyContent: "center", alignItems: "center", padding: 32 },
+  emptyTitle: { fontSize: 18, fontWeight: "bold", marginTop: 16, marginBottom: 8 },
+  emptySubtitle: { fontSize: 14, color: "#6b7280", textAlign: "center" },
+});
+
+export default ShoppingLists;
@@ -0,0 +1,143 @@
+// app/StoreCredit.tsx
+
+import React, { useCallback, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+} from "react-native";
+import { useNavigation, useFocusEffect, NavigationProp } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Button } from "@/components/ui/button";
+import NavigationBar from "@/components/NavigationBar";
+import BalanceCard from "@/components/BalanceCard";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { LedgerEntry, LEDGER_LABELS, fetchLedger, formatBalance } from "@/hooks/BalanceUtils";
+import { useToast } from "@/hooks/use-toast";
+
+type RootStackParamList = {
+  OrderDetails: { orderId: string };
+};
+
+/** Store credit balance, gift card redemption and every movement of the balance. */
+const StoreCredit: React.FC = () => {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const { primary } = useColorScheme();
+  const { ToastContainer } = useToast();
+
+  const [storeId, setStoreId] = useState<string | null>(null);
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    const id = await AsyncStorage.getItem("selected_store_id");
+    setStoreId(id);
+    if (id) setEntries(await fetchLedger(id));
+    setLoading(false);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Button
+          variant="ghost"
+          size="icon"
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Feather name="arrow-left" size={24} color="#000" />
+        </Button>
+        <Text style={styles.headerTitle}>Store Credit</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        <BalanceCard storeId={storeId} primaryColor={primary} onChange={load} />
+
+        <Text style={styles.sectionTitle}>History</Text>
+        {loading ? (
+          <ActivityIndicator color={primary} />
+        ) : entries.length === 0 ? (
+          <Text style={styles.empty}>
+            No activity yet. Redeemed gift cards and store credit show up here.
+          </Text>
+        ) : (
+          entries.map((entry) => (
+            <TouchableOpacity
+              key={entry.id}
+              style={styles.entry}
+              disabled={!entry.order_id}
+              onPress={() =>
+                entry.order_id && navigation.navigate("OrderDetails", { orderId: entry.order_id })
+              }
+            >
+              <View style={{ flex: 1 }}>
+                <Text style={styles.entryLabel}>
+                  {LEDGER_LABELS[entry.kind]}
+                  {entry.orders?.order_number ? ` · ${entry.orders.order_number}` : ""}
+                </Text>
+                {!!entry.note && <Text style={styles.entryNote}>{entry.note}</Text>}
+                <Text style={styles.entryDate}>
+                  {new Date(entry.created_at).toLocaleDateString(undefined, {
+                    month: "short",
+                    day: "numeric",
+                    year: "numeric",
+                  })}
+                </Text>
+              </View>
+              <Text
+                style={[styles.entryAmount, { color: entry.amount > 0 ? "#15803d" : "#374151" }]}
+              >
+                {entry.amount > 0 ? "+" : ""}
+                {formatBalance(entry.amount)}
+              </Text>
+            </TouchableOpacity>
+          ))
+        )}
+      </ScrollView>
+
+      <ToastContainer />
+      <NavigationBar />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#f9f9f9" },
+  header: {
+    backgroundColor: "#fff",
+    padding: 16,
+    flexDirection: "row",
+    alignItems: "center",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e5e5",
+  },
+  backButton: { marginRight: 8 },
+  headerTitle: { fontSize: 20, fontWeight: "bold" },
+  scrollContainer: { flexGrow: 1, padding: 16, paddingBottom: 80 },
+  sectionTitle: { fontSize: 18, fontWeight: "bold", marginBottom: 12 },
+  empty: { fontSize: 14, color: "#6b7280" },
+  entry: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#fff",
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  entryLabel: { fontSize: 14, fontWeight: "600" },
+  entryNote: { fontSize: 13, color: "#4b5563", marginTop: 2 },
+  entryDate: { fontSize: 12, color: "#6b7280", marginTop: 2 },
+  entryAmount: { fontSize: 16, fontWeight: "bold", marginLeft: 12 },
+});
+
+export default StoreCredit;
@@ -20,6 +20,9 @@ import { Button } from "@/components/ui/button";
 import NavigationBar from "@/components/NavigationBar";
 import { supabase } from "@/supabaseClient";
 import { Toast, useToast } from "@/hooks/use-toast";
+import { addToCart } from "@/hooks/CartUtils";
+import { stockLabel, isOutOfStock } from "@/hooks/InventoryUtils";
+import { useFavorites } from "@/hooks/FavoritesUtils";
 import { useColorScheme } from "@/hooks/useColorScheme";
 
 interface Product {
@@ -27,6 +30,7 @@ interface Product {
   name: string;
   price: number;
   image_data?: any;
+  stock_quantity?: number | null;
 }
 
 export default function CategoryScreen() {
@@ -43,7 +47,7 @@ export default function CategoryScreen() {
 
   const [allProducts, setAllProducts] = useState<Product[]>([]);
   const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
-  const [favorites, setFavorites] = useState<Record<string, boolean>>({});
+  const { isFavorite, toggleFavorite } = useFavorites();
   const [isSearchVisible, setIsSearchVisible] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
 
@@ -139,16 +143,20 @@ export default function CategoryScreen() {
     const prim = imgs.find((i: any) => i.is_primary);
     return prim?.url ?? imgs[0].url;
   };
-  const toggleFavorite = (id: string) =>
-    setFavorites((f) => ({ ...f, [id]: !f[id] }));
+  const handleToggleFavorite = async (id: string) => {
+    try {
+      await toggleFavorite(id);
+    } catch (err: any) {
+      Toast.show({ type: "error", text1: err.message });
+    }
+  };
   const handleAddToCart = async (p: Product) => {
     try {
-      const stored = (await AsyncStorage.getItem("cart")) || "[]";
-      const cart = JSON.parse(stored) as any[];
-      const idx = cart.findIndex((c) => c.id === p.id);
-      if (idx >= 0) cart[idx].quantity++;
-      else cart.push({ ...p, quantity: 1 });
-      await AsyncStorage.setItem("cart", JSON.stringify(cart));
+      const added = await addToCart(p);
+      if (added === 0) {
+        Toast.show({ type: "error", text1: `No more ${p.name} available.` });
+        return;
+      }
       Toast.show({ type: "success", text1: `${p.name} added to cart!` });
     } catch {
       Toast.show({ type: "error", text1: "Failed to add to cart." });
@@ -211,16 +219,24 @@ export default function CategoryScreen() {
           >
             <View style={styles.productImageContainer}>
               <Image source={{ uri: getImageUrl(item.image_data) }} style={styles.productImage} />
-              <Button variant="ghost" size="icon" style={styles.favoriteButton} onPress={() => toggleFavorite(item.id)}>
-                <Feather name="heart" size={20} color={favorites[item.id] ? "red" : "gray"} />
+              <Button variant="ghost" size="icon" style={styles.favoriteButton} onPress={() => handleToggleFavorite(item.id)}>
+                <Feather name="heart" size={20} color={isFavorite(item.id) ? "red" : "gray"} />
               </Button>
             </View>
             <View style={styles.productDetails}>
               <Text style={styles.productName}>{item.name}</Text>
               <Text style={[styles.productPrice, { color: primary }]}>${item.price.toFixed(2)}</Text>
+              {stockLabel(item.stock_quantity) && (
+                <Text style={styles.stockLabel}>{stockLabel(item.stock_quantity)}</Text>
+              )}
               <Button
-                style={[styles.addToCartButton, { backgroundColor: primary, borderColor: primary }]}
+                style={[
+                  styles.addToCartButton,
+                  { backgroundColor: primary, borderColor: primary },
+                  isOutOfStock(item.stock_quantity) && styles.addToCartDisabled,
+                ]}
                 onPress={() => handleAddToCart(item)}
+                disabled={isOutOfStock(item.stock_quantity)}
               >
                 <Feather name="plus" size={20} color="#fff" />
               </Button>
@@ -264,6 +280,8 @@ const styles = StyleSheet.create({
   productDetails: { padding: 8 },
   productName: { fontSize: 16, fontWeight: "500", marginBottom: 4 },
   productPrice: { fontSize: 14, fontWeight: "bold" },
+  stockLabel: { fontSize: 12, color: "#dc2626", marginTop: 2 },
+  addToCartDisabled: { opacity: 0.4 },
   addToCartButton: {
     marginTop: 8, borderRadius: 9999, height: 32, width: 32,
     justifyContent: "center", alignItems: "center", borderWidth: 1,
@@ -21,6 +21,9 @@ import NavigationBar from "@/components/NavigationBar";
 import { useNavigation } from "@react-navigation/native";
 import { supabase } from "@/supabaseClient";
 import { Toast, useToast } from "@/hooks/use-toast";
+import { addToCart } from "@/hooks/CartUtils";
+import { stockLabel, isOutOfStock } from "@/hooks/InventoryUtils";
+import { useFavorites } from "@/hooks/FavoritesUtils";
 import { useColorScheme } from "@/hooks/useColorScheme"; // ← custom hook for primary color
 
 interface Product {
@@ -29,6 +32,7 @@ interface Product {
   price: number;
   image_data?: any;
   featured_tag_ids?: string[];
+  stock_quantity?: number | null;
 }
 
 type LayoutSection = {
@@ -74,7 +78,7 @@ const FeatureScreen: React.FC = () => {
 
   const [allProducts, setAllProducts] = useState<Product[]>([]);
   const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
-  const [favorites, setFavorites] = useState<Record<string, boolean>>({});
+  const { isFavorite, toggleFavorite } = useFavorites();
   const [isSearchVisible, setIsSearchVisible] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
 
@@ -204,18 +208,24 @@ const FeatureScreen: React.FC = () => {
     return prim?.url ?? imgs[0].url;
   };
 
-  const toggleFavorite = (id: string) =>
-    setFavorites((prev) => ({ ...prev, [id]: !prev[id] }));
+  const handleToggleFavorite = async (id: string) => {
+    try {
+      await toggleFavorite(id);
+    } catch (err: any) {
+      Toast.show({ type: "error", text1: err.message });
+    }
+  };
 
   const handleAddToCart = async (product: Product) => {
     try {
-      const cart =
-        JSON.parse((await AsyncStorage.getItem("cart")) || "[]") ||
-        [];
-      const idx = cart.findIndex((c: any) => c.id === product.id);
-      if (idx >= 0) cart[idx].quantity++;
-      else cart.push({ ...product, quantity: 1 });
-      await AsyncStorage.setItem("cart", JSON.stringify(cart));
+      const added = await addToCart(product);
+      if (added === 0) {
+        Toast.show({
+          type: "error",
+          text1: `No more ${product.name} available.`,
+        });
+        return;
+      }
       Toast.show({
         type: "success",
         text1: `${product.name} added to cart!`,
@@ -250,12 +260,12 @@ const FeatureScreen: React.FC = () => {
           variant="ghost"
           size="icon"
           style={styles.favoriteButton}
-          onPress={() => toggleFavorite(item.id)}
+          onPress={() => handleToggleFavorite(item.id)}
         >
           <Feather
             name="heart"
             size={20}
-            color={favorites[item.id] ? "red" : "gray"}
+            color={isFavorite(item.id) ? "red" : "gray"}
           />
         </Button>
       </View>
@@ -266,6 +276,11 @@ const FeatureScreen: React.FC = () => {
         >
           ${item.price.toFixed(2)}
         </Text>
+        {stockLabel(item.stock_quantity) && (
+          <Text style={styles.stockLabel}>
+            {stockLabel(item.stock_quantity)}
+          </Text>
+        )}
         <Button
           style={[
             styles.addToCartButton,
@@ -273,8 +288,10 @@ const FeatureScreen: React.FC = () => {
               backgroundColor: primary || "#16a34a",
               borderColor: primary || "#16a34a",
             },
+            isOutOfStock(item.stock_quantity) && styles.addToCartDisabled,
           ]}
           onPress={() => handleAddToCart(item)}
+          disabled={isOutOfStock(item.stock_quantity)}
         >
           <Feather name="plus" size={20} color="#fff" />
         </Button>
@@ -438,6 +455,14 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: "bold",
   },
+  stockLabel: {
+    fontSize: 12,
+    color: "#dc2626",
+    marginTop: 2,
+  },
+  addToCartDisabled: {
+    opacity: 0.4,
+  },
   addToCartButton: {
     marginTop: 8,
     borderRadius: 9999,
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, TextInput, StyleSheet, ActivityIndicator } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { Button } from "@/components/ui/button";
+import { Toast } from "@/hooks/use-toast";
+import { fetchBalance, formatBalance, redeemGiftCard } from "@/hooks/BalanceUtils";
+
+interface BalanceCardProps {
+  storeId: string | null;
+  primaryColor?: string;
+  onChange?: (balance: number) => void; // after a gift card is redeemed
+  onViewHistory?: () => void;
+}
+
+/** The customer's store balance with a gift card redemption field. */
+const BalanceCard: React.FC<BalanceCardProps> = ({
+  storeId,
+  primaryColor = "#16a34a",
+  onChange,
+  onViewHistory,
+}) => {
+  const [balance, setBalance] = useState<number | null>(null);
+  const [code, setCode] = useState("");
+  const [redeeming, setRedeeming] = useState(false);
+
+  useEffect(() => {
+    if (!storeId) return;
+    fetchBalance(storeId).then(setBalance);
+  }, [storeId]);
+
+  const handleRedeem = async () => {
+    if (!storeId || !code.trim() || redeeming) return;
+    setRedeeming(true);
+    try {
+      const next = await redeemGiftCard(code, storeId);
+      const added = next - (balance ?? 0);
+      setBalance(next);
+      setCode("");
+      onChange?.(next);
+      Toast.show({
+        type: "success",
+        text1: `Gift card redeemed${added > 0 ? `: ${formatBalance(added)} added` : ""}`,
+      });
+    } catch (err: any) {
+      Toast.show({ type: "error", text1: err.message });
+    } finally {
+      setRedeeming(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.balanceRow}>
+        <Feather name="gift" size={20} color={primaryColor} />
+        <Text style={styles.label}>Store credit</Text>
+        {balance == null ? (
+          <ActivityIndicator />
+        ) : (
+          <Text style={[styles.balance, { color: primaryColor }]}>{formatBalance(balance)}</Text>
+        )}
+      </View>
+
+      <View style={styles.redeemRow}>
+        <TextInput
+          style={styles.input}
+          placeholder="Gift card code"
+          value={code}
+          onChangeText={setCode}
+          autoCapitalize="characters"
+          autoCorrect={false}
+        />
+        <Button
+          style={[styles.redeemButton, { backgroundColor: primaryColor }]}
+          onPress={handleRedeem}
+        >
+          {redeeming ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.redeemText}>Redeem</Text>
+          )}
+        </Button>
+      </View>
+
+      {onViewHistory && (
+        <Button variant="ghost" size="sm" style={styles.history} onPress={onViewHistory}>
+          View history
+        </Button>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#fff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#e5e5e5",
+    padding: 16,
+    marginBottom: 24,
+  },
+  balanceRow: { flexDirection: "row", alignItems: "center", marginBottom: 12 },
+  label: { flex: 1, marginLeft: 8, fontSize: 16, fontWeight: "600" },
+  balance: { fontSize: 20, fontWeight: "bold" },
+  redeemRow: { flexDirection: "row", alignItems: "center" },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#e5e5e5",
+    borderRadius: 8,
+    padding: 10,
+    marginRight: 8,
+  },
+  redeemButton: { paddingVertical: 10, paddingHorizontal: 16, borderRadius: 8 },
+  redeemText: { color: "#fff", fontWeight: "600" },
+  history: { alignSelf: "flex-start", marginTop: 8, paddingHorizontal: 0 },
+});
+
+export default BalanceCard;
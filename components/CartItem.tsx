@@ -1,7 +1,10 @@
 import React from "react";
-import { View, Text, Image, StyleSheet } from "react-native";
+import { View, Text, Image, StyleSheet, TouchableOpacity } from "react-native";
 import { Feather } from '@expo/vector-icons'; // Import Trash icon
 import { Button } from "@/components/ui/button";
+import { SubstitutionChoice, describeSubstitution } from "@/hooks/SubstitutionUtils";
+import { formatQuantity, priceSuffix } from "@/hooks/QuantityUtils";
+import { PriceChange } from "@/hooks/PricingUtils";
 
 export interface CartItemType {
   id: string;
@@ -10,6 +13,11 @@ export interface CartItemType {
   image_url: string; // Updated to match the database field
   quantity: number;
   unit: string;
+  stock_quantity?: number | null; // on hand at the location when last seen
+  substitution?: SubstitutionChoice;
+  note?: string; // special instructions for the picker
+  sold_by_weight?: boolean;
+  weight_step?: number | null; // quantity increment for weighed items
 }
 
 interface CartItemProps {
@@ -17,6 +25,9 @@ interface CartItemProps {
   onIncrement: (id: string) => void;
   onDecrement: (id: string) => void;
   onDelete: (id: string) => void; // New prop for delete functionality
+  onEditSubstitution?: (item: CartItemType) => void;
+  onEditNote?: (item: CartItemType) => void;
+  priceChange?: PriceChange | null; // highlights a price that moved since it was added
 }
 
 const CartItem: React.FC<CartItemProps> = ({
@@ -24,6 +35,9 @@ const CartItem: React.FC<CartItemProps> = ({
   onIncrement,
   onDecrement,
   onDelete,
+  onEditSubstitution,
+  onEditNote,
+  priceChange,
 }) => {
   const formattedPrice = new Intl.NumberFormat("en-US", {
     style: "currency",
@@ -39,7 +53,46 @@ const CartItem: React.FC<CartItemProps> = ({
       <View style={styles.details}>
         <Text style={styles.name}>{item.name}</Text>
         <Text style={styles.unit}>{item.unit}</Text>
-        <Text style={styles.price}>{formattedPrice}</Text>
+        <Text style={styles.price}>
+          {formattedPrice}
+          {priceSuffix(item)}
+        </Text>
+        {priceChange && (
+          <Text
+            style={[
+              styles.priceChange,
+              priceChange.newPrice > priceChange.oldPrice ? styles.priceUp : styles.priceDown,
+            ]}
+          >
+            Price went {priceChange.newPrice > priceChange.oldPrice ? "up" : "down"} to $
+            {priceChange.newPrice.toFixed(2)}
+          </Text>
+        )}
+        {onEditSubstitution && (
+          <TouchableOpacity
+            style={styles.substitution}
+            onPress={() => onEditSubstitution(item)}
+          >
+            <Feather name="refresh-cw" size={12} color="#687076" />
+            <Text style={styles.substitutionText} numberOfLines={1}>
+              {describeSubstitution(item.substitution)}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {onEditNote && (
+          <TouchableOpacity
+            style={styles.substitution}
+            onPress={() => onEditNote(item)}
+          >
+            <Feather name="edit-3" size={12} color="#687076" />
+            <Text
+              style={[styles.substitutionText, item.note ? styles.noteText : null]}
+              numberOfLines={2}
+            >
+              {item.note || "Add instructions"}
+            </Text>
+          </TouchableOpacity>
+        )}
       </View>
       <View style={styles.actions}>
         <Button
@@ -50,7 +103,7 @@ const CartItem: React.FC<CartItemProps> = ({
         >
           <Feather name="minus" size={16} color="#000" /> {/* Black Minus icon */}
         </Button>
-        <Text style={styles.quantity}>{item.quantity}</Text>
+        <Text style={styles.quantity}>{formatQuantity(item, item.quantity)}</Text>
         <Button
           variant="outline"
           size="icon"
@@ -126,6 +179,33 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     alignItems: "center",
   },
+  priceChange: {
+    fontSize: 12,
+    fontWeight: "500",
+    marginTop: 2,
+  },
+  priceUp: {
+    color: "#b91c1c",
+  },
+  priceDown: {
+    color: "#15803d",
+  },
+  substitution: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 6,
+  },
+  substitutionText: {
+    fontSize: 12,
+    color: "#687076",
+    marginLeft: 4,
+    textDecorationLine: "underline",
+  },
+  noteText: {
+    color: "#374151",
+    fontStyle: "italic",
+    textDecorationLine: "none",
+  },
   quantity: {
     marginHorizontal: 12,
     fontSize: 14,
@@ -0,0 +1,204 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  Image,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { CameraView, useCameraPermissions } from "expo-camera";
+import { Dialog } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Arrival, checkIn } from "@/hooks/ArrivalUtils";
+
+interface CheckInDialogProps {
+  visible: boolean;
+  orderId: string;
+  arrival: Arrival | null; // the existing check-in, when updating it
+  defaultVehicle?: string | null;
+  primaryColor?: string;
+  onClose: () => void;
+  onCheckedIn: () => void;
+}
+
+/** "I'm here": where the customer parked, what they drive and an optional photo. */
+const CheckInDialog: React.FC<CheckInDialogProps> = ({
+  visible,
+  orderId,
+  arrival,
+  defaultVehicle,
+  primaryColor = "#16a34a",
+  onClose,
+  onCheckedIn,
+}) => {
+  const [parkingSpot, setParkingSpot] = useState("");
+  const [vehicle, setVehicle] = useState("");
+  const [photoUri, setPhotoUri] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const [permission, requestPermission] = useCameraPermissions();
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const cameraRef = useRef<CameraView>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    setParkingSpot(arrival?.parking_spot ?? "");
+    setVehicle(arrival?.vehicle ?? defaultVehicle ?? "");
+    setPhotoUri(null);
+    setError(null);
+  }, [visible]);
+
+  const openCamera = async () => {
+    if (!permission?.granted) {
+      const result = await requestPermission();
+      if (!result.granted) {
+        setError("Camera access is needed to add a photo.");
+        return;
+      }
+    }
+    setCameraOpen(true);
+  };
+
+  const takePhoto = async () => {
+    const photo = await cameraRef.current?.takePictureAsync({ quality: 0.4 });
+    if (photo?.uri) setPhotoUri(photo.uri);
+    setCameraOpen(false);
+  };
+
+  const submit = async () => {
+    if (!parkingSpot.trim()) {
+      setError("Enter your parking spot number.");
+      return;
+    }
+    setSubmitting(true);
+    setError(null);
+    try {
+      await checkIn(orderId, { parkingSpot, vehicle, photoUri });
+      onCheckedIn();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog
+        visible={visible && !cameraOpen}
+        onClose={onClose}
+        title={arrival ? "Update your check-in" : "I'm here"}
+        content={
+          <View>
+            <Text style={styles.label}>Parking spot</Text>
+            <TextInput
+              style={styles.input}
+              value={parkingSpot}
+              onChangeText={setParkingSpot}
+              placeholder="e.g. 4"
+              maxLength={20}
+            />
+
+            <Text style={styles.label}>Vehicle</Text>
+            <TextInput
+              style={styles.input}
+              value={vehicle}
+              onChangeText={setVehicle}
+              placeholder="e.g. Blue Honda Civic"
+              maxLength={120}
+            />
+
+            <Text style={styles.label}>Photo (optional)</Text>
+            {photoUri ? (
+              <View style={styles.photoRow}>
+                <Image source={{ uri: photoUri }} style={styles.photo} />
+                <Button variant="ghost" size="sm" onPress={() => setPhotoUri(null)}>
+                  Remove
+                </Button>
+              </View>
+            ) : (
+              <TouchableOpacity style={styles.photoButton} onPress={openCamera}>
+                <Feather name="camera" size={18} color={primaryColor} />
+                <Text style={[styles.photoButtonText, { color: primaryColor }]}>
+                  {arrival?.photo_path ? "Replace photo" : "Add a photo of your car"}
+                </Text>
+              </TouchableOpacity>
+            )}
+
+            {!!error && <Text style={styles.error}>{error}</Text>}
+          </View>
+        }
+        actions={
+          <>
+            <Button
+              style={{ backgroundColor: primaryColor }}
+              disabled={submitting}
+              onPress={submit}
+            >
+              {submitting ? "Checking in…" : arrival ? "Update" : "Check In"}
+            </Button>
+            <Button variant="outline" onPress={onClose}>
+              Cancel
+            </Button>
+          </>
+        }
+      />
+
+      <Modal
+        visible={visible && cameraOpen}
+        animationType="slide"
+        onRequestClose={() => setCameraOpen(false)}
+      >
+        <View style={styles.cameraContainer}>
+          <CameraView ref={cameraRef} style={styles.camera} facing="back" />
+          <View style={styles.cameraControls}>
+            <Button variant="ghost" onPress={() => setCameraOpen(false)}>
+              <Text style={styles.cameraText}>Cancel</Text>
+            </Button>
+            <TouchableOpacity style={styles.shutter} onPress={takePhoto} />
+            <View style={{ width: 64 }} />
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  label: { fontSize: 14, fontWeight: "600", color: "#374151", marginTop: 12, marginBottom: 6 },
+  input: {
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  photoRow: { flexDirection: "row", alignItems: "center" },
+  photo: { width: 96, height: 72, borderRadius: 6, marginRight: 8 },
+  photoButton: { flexDirection: "row", alignItems: "center", paddingVertical: 6 },
+  photoButtonText: { marginLeft: 8, fontSize: 14, fontWeight: "500" },
+  error: { color: "#b91c1c", fontSize: 13, marginTop: 12 },
+  cameraContainer: { flex: 1, backgroundColor: "#000" },
+  camera: { flex: 1 },
+  cameraControls: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: 24,
+  },
+  cameraText: { color: "#fff", fontSize: 16 },
+  shutter: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: "#fff",
+    borderWidth: 4,
+    borderColor: "#d1d5db",
+  },
+});
+
+export default CheckInDialog;
@@ -43,6 +43,15 @@ const EmployeeNavigationBar: React.FC = () => {
         <Text style={styles.navText}>History</Text>
       </TouchableOpacity>
 
+      {/* Navigate to EmployeeSchedule */}
+      <TouchableOpacity
+        style={styles.navItem}
+        onPress={() => router.push("/EmployeeSchedule")}
+      >
+        <Feather name="calendar" size={24} color="#374151" />
+        <Text style={styles.navText}>Schedule</Text>
+      </TouchableOpacity>
+
       {/* Navigate to ScanBarcode */}
       <TouchableOpacity
         style={styles.navItem}
@@ -0,0 +1,99 @@
+import React from "react";
+import { View, Text, StyleSheet, ScrollView } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { Dialog } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { LocationMove } from "@/hooks/CartUtils";
+
+interface LocationChangeSummaryProps {
+  move: LocationMove | null;
+  locationName: string;
+  previousLocationName: string | null;
+  primaryColor?: string;
+  onConfirm: () => void;
+  onKeepPrevious: () => void;
+}
+
+const formatPrice = (price: number) => `$${(+price).toFixed(2)}`;
+
+/** Shows what a cart keeps, reprices and loses on moving to another location. */
+const LocationChangeSummary: React.FC<LocationChangeSummaryProps> = ({
+  move,
+  locationName,
+  previousLocationName,
+  primaryColor = "#16a34a",
+  onConfirm,
+  onKeepPrevious,
+}) => {
+  const carried = move?.carried ?? [];
+  const unavailable = move?.unavailable ?? [];
+  const repriced = carried.filter((c) => c.priceChanged);
+
+  return (
+    <Dialog
+      visible={!!move}
+      onClose={onKeepPrevious}
+      title={`Move your cart to ${locationName}?`}
+      content={
+        <ScrollView style={styles.body}>
+          <View style={styles.section}>
+            <View style={styles.sectionTitleRow}>
+              <Feather name="check-circle" size={16} color="#15803d" />
+              <Text style={styles.sectionTitle}>
+                {carried.length} item{carried.length === 1 ? "" : "s"} carried over
+              </Text>
+            </View>
+          </View>
+
+          {repriced.length > 0 && (
+            <View style={styles.section}>
+              <View style={styles.sectionTitleRow}>
+                <Feather name="tag" size={16} color="#1d4ed8" />
+                <Text style={styles.sectionTitle}>Different price here</Text>
+              </View>
+              {repriced.map(({ item, product }) => (
+                <Text key={item.id} style={styles.line}>
+                  {item.name}: {formatPrice(item.price)} → {formatPrice(product.price)}
+                </Text>
+              ))}
+            </View>
+          )}
+
+          {unavailable.length > 0 && (
+            <View style={styles.section}>
+              <View style={styles.sectionTitleRow}>
+                <Feather name="x-circle" size={16} color="#b91c1c" />
+                <Text style={styles.sectionTitle}>Not available here — will be removed</Text>
+              </View>
+              {unavailable.map((item) => (
+                <Text key={item.id} style={styles.line}>
+                  {item.name}
+                </Text>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      }
+      actions={
+        <>
+          <Button style={{ backgroundColor: primaryColor }} onPress={onConfirm}>
+            Move cart
+          </Button>
+          <Button variant="outline" onPress={onKeepPrevious}>
+            {previousLocationName ? `Stay at ${previousLocationName}` : "Go back"}
+          </Button>
+        </>
+      }
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  body: { maxHeight: 360 },
+  section: { marginBottom: 12 },
+  sectionTitleRow: { flexDirection: "row", alignItems: "center", marginBottom: 4 },
+  sectionTitle: { marginLeft: 6, fontSize: 14, fontWeight: "600", color: "#374151" },
+  line: { fontSize: 13, color: "#4b5563", marginLeft: 22, marginTop: 2 },
+});
+
+export default LocationChangeSummary;
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, StyleProp, ViewStyle } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Button } from "@/components/ui/button";
+import {
+  LoyaltyEntry,
+  LoyaltyStatus,
+  LOYALTY_LABELS,
+  fetchLoyaltyHistory,
+  fetchLoyaltyStatus,
+  formatPoints,
+} from "@/hooks/LoyaltyUtils";
+
+interface LoyaltyCardProps {
+  primaryColor?: string;
+  onOpenOrder?: (orderId: string) => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * The customer's points, tier and progress to the next tier at the
+ * selected store, with their points history. Hidden when the store
+ * doesn't run a loyalty program.
+ */
+const LoyaltyCard: React.FC<LoyaltyCardProps> = ({
+  primaryColor = "#16a34a",
+  onOpenOrder,
+  style,
+}) => {
+  const [status, setStatus] = useState<LoyaltyStatus | null>(null);
+  const [history, setHistory] = useState<LoyaltyEntry[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      const storeId = await AsyncStorage.getItem("selected_store_id");
+      if (!storeId) return;
+      const loaded = await fetchLoyaltyStatus(storeId);
+      setStatus(loaded);
+      if (loaded?.enabled) setHistory(await fetchLoyaltyHistory(storeId));
+    })();
+  }, []);
+
+  if (!status?.enabled) return null;
+
+  const next = status.next_tier;
+  const floor = status.tier?.min_points ?? 0;
+  const progress = next
+    ? Math.min((status.lifetime - floor) / Math.max(next.min_points - floor, 1), 1)
+    : 1;
+  const earnRate = status.points_per_dollar * (status.tier?.multiplier ?? 1);
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.headerRow}>
+        <Feather name="award" size={20} color={primaryColor} />
+        <Text style={styles.tier}>{status.tier?.name ?? "Member"}</Text>
+        <Text style={[styles.points, { color: primaryColor }]}>{formatPoints(status.points)}</Text>
+      </View>
+
+      <View style={styles.progressTrack}>
+        <View
+          style={[styles.progressFill, { width: `${progress * 100}%`, backgroundColor: primaryColor }]}
+        />
+      </View>
+      <Text style={styles.hint}>
+        {next
+          ? `${formatPoints(next.min_points - status.lifetime)} to ${next.name}`
+          : "You've reached the top tier."}
+      </Text>
+      <Text style={styles.hint}>
+        {`Earn ${formatPoints(+earnRate.toFixed(2))} per $1 on completed orders. ` +
+          `Every ${formatPoints(status.redeem_points)} is $${status.redeem_value.toFixed(2)} off at checkout.`}
+      </Text>
+
+      {history.length > 0 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          style={styles.historyToggle}
+          onPress={() => setShowHistory(!showHistory)}
+        >
+          {showHistory ? "Hide history" : "View history"}
+        </Button>
+      )}
+
+      {showHistory &&
+        history.map((entry) => (
+          <TouchableOpacity
+            key={entry.id}
+            style={styles.entry}
+            disabled={!entry.order_id || !onOpenOrder}
+            onPress={() => entry.order_id && onOpenOrder?.(entry.order_id)}
+          >
+            <View style={{ flex: 1 }}>
+              <Text style={styles.entryLabel}>
+                {LOYALTY_LABELS[entry.kind]}
+                {entry.orders?.order_number ? ` · ${entry.orders.order_number}` : ""}
+              </Text>
+              <Text style={styles.entryDate}>
+                {new Date(entry.created_at).toLocaleDateString(undefined, {
+                  month: "short",
+                  day: "numeric",
+                  year: "numeric",
+                })}
+              </Text>
+            </View>
+            <Text
+              style={[styles.entryPoints, { color: entry.points > 0 ? "#15803d" : "#374151" }]}
+            >
+              {entry.points > 0 ? "+" : ""}
+              {entry.points.toLocaleString()}
+            </Text>
+          </TouchableOpacity>
+        ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#fff",
+    borderRadius: 8,
+    padding: 16,
+  },
+  headerRow: { flexDirection: "row", alignItems: "center", marginBottom: 12 },
+  tier: { flex: 1, marginLeft: 8, fontSize: 16, fontWeight: "600" },
+  points: { fontSize: 18, fontWeight: "bold" },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "#e5e7eb",
+    overflow: "hidden",
+  },
+  progressFill: { height: 6, borderRadius: 3 },
+  hint: { fontSize: 13, color: "#6b7280", marginTop: 6 },
+  historyToggle: { alignSelf: "flex-start", marginTop: 8, paddingHorizontal: 0 },
+  entry: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#f3f4f6",
+  },
+  entryLabel: { fontSize: 14, fontWeight: "500" },
+  entryDate: { fontSize: 12, color: "#6b7280", marginTop: 2 },
+  entryPoints: { fontSize: 15, fontWeight: "bold", marginLeft: 12 },
+});
+
+export default LoyaltyCard;
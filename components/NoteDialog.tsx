@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from "react";
+import { TextInput, StyleSheet } from "react-native";
+import { Dialog } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+
+interface NoteDialogProps {
+  visible: boolean;
+  title: string;
+  value: string;
+  placeholder?: string;
+  maxLength?: number;
+  primaryColor?: string;
+  onClose: () => void;
+  onSave: (note: string) => void;
+}
+
+/** Free-text instructions for a cart line or the whole order. */
+const NoteDialog: React.FC<NoteDialogProps> = ({
+  visible,
+  title,
+  value,
+  placeholder,
+  maxLength = 200,
+  primaryColor = "#16a34a",
+  onClose,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    if (visible) setDraft(value);
+  }, [visible, value]);
+
+  return (
+    <Dialog
+      visible={visible}
+      onClose={onClose}
+      title={title}
+      content={
+        <TextInput
+          style={styles.input}
+          value={draft}
+          onChangeText={setDraft}
+          placeholder={placeholder}
+          maxLength={maxLength}
+          multiline
+          autoFocus
+        />
+      }
+      actions={
+        <>
+          <Button
+            style={{ backgroundColor: primaryColor }}
+            onPress={() => {
+              onSave(draft.trim());
+              onClose();
+            }}
+          >
+            Save
+          </Button>
+          <Button variant="outline" onPress={onClose}>
+            Cancel
+          </Button>
+        </>
+      }
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  input: {
+    minHeight: 80,
+    borderWidth: 1,
+    borderColor: "#e5e5e5",
+    borderRadius: 6,
+    padding: 10,
+    textAlignVertical: "top",
+  },
+});
+
+export default NoteDialog;
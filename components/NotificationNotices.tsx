@@ -0,0 +1,69 @@
+import React, { useState, useCallback } from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import {
+  UserNotification,
+  fetchUnreadNotifications,
+  markNotificationRead,
+} from "@/hooks/NotificationUtils";
+
+/**
+ * The signed-in customer's unread in-app messages, e.g. a waitlisted
+ * pickup time opening up. Reloaded whenever the screen comes into focus;
+ * dismissing one marks it read.
+ */
+const NotificationNotices: React.FC = () => {
+  const [notices, setNotices] = useState<UserNotification[]>([]);
+
+  useFocusEffect(
+    useCallback(() => {
+      let active = true;
+      fetchUnreadNotifications().then((unread) => {
+        if (active) setNotices(unread);
+      });
+      return () => {
+        active = false;
+      };
+    }, [])
+  );
+
+  const dismiss = (notice: UserNotification) => {
+    setNotices((list) => list.filter((n) => n.id !== notice.id));
+    markNotificationRead(notice.id);
+  };
+
+  if (!notices.length) return null;
+
+  return (
+    <View>
+      {notices.map((n) => (
+        <View key={n.id} style={styles.notice}>
+          <View style={styles.text}>
+            <Text style={styles.title}>{n.title}</Text>
+            <Text style={styles.body}>{n.body}</Text>
+          </View>
+          <TouchableOpacity onPress={() => dismiss(n)}>
+            <Feather name="x" size={16} color="#92400e" />
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  notice: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    backgroundColor: "#fef3c7",
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  text: { flex: 1, marginRight: 8 },
+  title: { fontSize: 14, fontWeight: "600", color: "#92400e" },
+  body: { fontSize: 13, color: "#92400e", marginTop: 2 },
+});
+
+export default NotificationNotices;
@@ -0,0 +1,109 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { Button } from "@/components/ui/button";
+import { CartItemType } from "@/components/CartItem";
+import { RuleViolations, OrderingRules } from "@/hooks/OrderingRulesUtils";
+import { formatQuantity } from "@/hooks/QuantityUtils";
+
+interface OrderingRuleNoticesProps {
+  violations: RuleViolations;
+  rules: OrderingRules | null;
+  cart: CartItemType[];
+  onReduce: (id: string, quantity: number) => void;
+}
+
+const formatPrice = (price: number) => `$${price.toFixed(2)}`;
+
+/** Explains which of the store's ordering rules the cart breaks and how to fix it. */
+const OrderingRuleNotices: React.FC<OrderingRuleNoticesProps> = ({
+  violations,
+  rules,
+  cart,
+  onReduce,
+}) => {
+  const { paused, shortBy, overItems, overLimit } = violations;
+  if (!paused && shortBy == null && overItems == null && !overLimit.length) return null;
+
+  return (
+    <View style={styles.container}>
+      {paused && (
+        <View style={styles.titleRow}>
+          <Feather name="pause-circle" size={16} color="#b91c1c" />
+          <Text style={[styles.title, styles.paused]}>{paused}</Text>
+        </View>
+      )}
+      {shortBy != null && (
+        <View style={styles.notice}>
+          <Text style={styles.name}>
+            Minimum order is {formatPrice(Number(rules?.min_subtotal ?? 0))}
+          </Text>
+          <Text style={styles.detail}>Add {formatPrice(shortBy)} more to check out.</Text>
+        </View>
+      )}
+      {overItems != null && (
+        <View style={styles.notice}>
+          <Text style={styles.name}>Up to {rules?.max_items} items per order</Text>
+          <Text style={styles.detail}>
+            Remove {overItems} item{overItems === 1 ? "" : "s"} to check out.
+          </Text>
+        </View>
+      )}
+      {overLimit.map((line) => {
+        const item = cart.find((i) => i.id === line.id);
+        const limit = item ? formatQuantity(item, line.limit) : `${line.limit}`;
+        return (
+          <View key={line.id} style={styles.notice}>
+            <Text style={styles.name}>{line.name}</Text>
+            <Text style={styles.detail}>Limit {limit} per order</Text>
+            <Button
+              variant="outline"
+              size="sm"
+              style={styles.action}
+              onPress={() => onReduce(line.id, line.limit)}
+            >
+              Reduce to {limit}
+            </Button>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    margin: 16,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#fcd34d",
+    backgroundColor: "#fffbeb",
+  },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  title: {
+    flex: 1,
+    marginLeft: 6,
+    fontSize: 14,
+    fontWeight: "bold",
+  },
+  paused: { color: "#b91c1c" },
+  notice: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#fde68a",
+  },
+  name: { fontSize: 14, fontWeight: "500" },
+  detail: { fontSize: 12, color: "#92400e", marginTop: 2 },
+  action: {
+    marginTop: 6,
+    paddingHorizontal: 12,
+    alignSelf: "flex-start",
+  },
+});
+
+export default OrderingRuleNotices;
@@ -0,0 +1,79 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { Button } from "@/components/ui/button";
+import { PriceChange } from "@/hooks/PricingUtils";
+
+interface PriceChangesProps {
+  changes: PriceChange[];
+  onAccept: () => void;
+}
+
+const formatPrice = (price: number) => `$${price.toFixed(2)}`;
+
+/** Lists cart lines whose price moved; checkout waits for the customer to accept. */
+const PriceChanges: React.FC<PriceChangesProps> = ({ changes, onAccept }) => {
+  if (!changes.length) return null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.titleRow}>
+        <Feather name="tag" size={16} color="#1d4ed8" />
+        <Text style={styles.title}>Prices changed since you added these items</Text>
+      </View>
+      {changes.map((change) => {
+        const up = change.newPrice > change.oldPrice;
+        return (
+          <View key={change.id} style={styles.change}>
+            <Text style={styles.name}>{change.name}</Text>
+            <Text style={[styles.detail, up ? styles.up : styles.down]}>
+              Price went {up ? "up" : "down"}: {formatPrice(change.oldPrice)} →{" "}
+              {formatPrice(change.newPrice)}
+            </Text>
+          </View>
+        );
+      })}
+      <Button variant="outline" size="sm" style={styles.action} onPress={onAccept}>
+        Accept new prices
+      </Button>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    margin: 16,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#93c5fd",
+    backgroundColor: "#eff6ff",
+  },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  title: {
+    marginLeft: 6,
+    fontSize: 14,
+    fontWeight: "bold",
+    color: "#1d4ed8",
+  },
+  change: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#bfdbfe",
+  },
+  name: { fontSize: 14, fontWeight: "500" },
+  detail: { fontSize: 12, marginTop: 2 },
+  up: { color: "#b91c1c" },
+  down: { color: "#15803d" },
+  action: {
+    marginTop: 6,
+    paddingHorizontal: 12,
+    alignSelf: "flex-start",
+  },
+});
+
+export default PriceChanges;
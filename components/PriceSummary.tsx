@@ -0,0 +1,82 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { PriceBreakdown, formatRate } from "@/hooks/PricingUtils";
+
+interface PriceSummaryProps {
+  breakdown: PriceBreakdown;
+  totalColor?: string;
+}
+
+const formatCurrency = (amount: number) => `$${(+amount).toFixed(2)}`;
+
+const PriceSummary: React.FC<PriceSummaryProps> = ({ breakdown, totalColor }) => {
+  return (
+    <View>
+      <View style={styles.row}>
+        <Text style={styles.label}>Subtotal</Text>
+        <Text style={styles.value}>{formatCurrency(breakdown.subtotal)}</Text>
+      </View>
+      {breakdown.discounts.map((d) => (
+        <View key={d.promotion_id ?? d.label} style={styles.row}>
+          <Text style={styles.discountLabel}>
+            {d.label}
+            {d.code ? ` (${d.code})` : ""}
+            {d.points ? ` (${d.points.toLocaleString()} pts)` : ""}
+          </Text>
+          <Text style={styles.discountValue}>-{formatCurrency(d.amount)}</Text>
+        </View>
+      ))}
+      {breakdown.taxes.map((t) => (
+        <View key={t.category} style={styles.row}>
+          <Text style={styles.label}>
+            {t.label}
+            {t.rate ? ` (${formatRate(t.rate)})` : ""}
+          </Text>
+          <Text style={styles.value}>{formatCurrency(t.amount)}</Text>
+        </View>
+      ))}
+      {breakdown.fees.map((f) => (
+        <View key={f.label} style={styles.row}>
+          <Text style={styles.label}>{f.label}</Text>
+          <Text style={styles.value}>{formatCurrency(f.amount)}</Text>
+        </View>
+      ))}
+      {!!breakdown.tip && (
+        <View style={styles.row}>
+          <Text style={styles.label}>Picker Tip</Text>
+          <Text style={styles.value}>{formatCurrency(breakdown.tip)}</Text>
+        </View>
+      )}
+      <View style={styles.row}>
+        <Text style={styles.labelBold}>
+          {breakdown.estimated ? "Estimated Total" : "Total"}
+        </Text>
+        <Text style={[styles.valueBold, totalColor ? { color: totalColor } : null]}>
+          {formatCurrency(breakdown.total)}
+        </Text>
+      </View>
+      {breakdown.estimated && (
+        <Text style={styles.footnote}>
+          Items sold by weight are charged for their actual weight at pickup.
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  label: { fontSize: 14, color: "#6b7280" },
+  value: { fontSize: 14, color: "#374151" },
+  discountLabel: { fontSize: 14, color: "#16a34a" },
+  discountValue: { fontSize: 14, color: "#16a34a" },
+  labelBold: { fontSize: 16, fontWeight: "bold" },
+  valueBold: { fontSize: 16, fontWeight: "bold" },
+  footnote: { fontSize: 12, color: "#6b7280", marginTop: 4 },
+});
+
+export default PriceSummary;
@@ -10,7 +10,11 @@ import {
   ActivityIndicator,
 } from "react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Feather } from "@expo/vector-icons";
 import { supabase } from "@/supabaseClient";
+import { addToCart } from "@/hooks/CartUtils";
+import { stockLabel, isOutOfStock } from "@/hooks/InventoryUtils";
+import { useFavorites } from "@/hooks/FavoritesUtils";
 
 export interface Product {
   image_url: string;
@@ -20,11 +24,13 @@ export interface Product {
   originalPrice?: number;
   unit: string;
   discount?: number;
+  stock_quantity?: number | null;
 }
 
 interface ProductCardProps {
   product: Product;
-  onAddToCart?: (product: Product) => void;
+  // called with how many units were actually added (0 when none are left)
+  onAddToCart?: (product: Product, added: number) => void;
 }
 
 const screenWidth = Dimensions.get("window").width;
@@ -37,6 +43,7 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onAddToCart }) => {
   const [isHovered, setIsHovered] = useState(false);
   const [primaryColor, setPrimaryColor] = useState<string>("#16a34a");
   const [loadingColor, setLoadingColor] = useState(true);
+  const { isFavorite, toggleFavorite } = useFavorites();
 
   // Load dynamic primary color from selected store
   useEffect(() => {
@@ -77,21 +84,21 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onAddToCart }) => {
 
   const handleAddToCart = async () => {
     try {
-      const storedCart = await AsyncStorage.getItem("cart");
-      const cart: any[] = storedCart ? JSON.parse(storedCart) : [];
-      const existingIndex = cart.findIndex((item) => item.id === product.id);
-      if (existingIndex !== -1) {
-        cart[existingIndex].quantity += 1;
-      } else {
-        cart.push({ ...product, quantity: 1 });
-      }
-      await AsyncStorage.setItem("cart", JSON.stringify(cart));
-      if (onAddToCart) onAddToCart(product);
+      const added = await addToCart(product);
+      if (onAddToCart) onAddToCart(product, added);
     } catch (error) {
       console.error("Failed to add to cart:", error);
     }
   };
 
+  const handleToggleFavorite = () => {
+    toggleFavorite(product.id).catch((err) =>
+      console.error("Failed to update favorite:", err)
+    );
+  };
+
+  const soldOut = isOutOfStock(product.stock_quantity);
+
   const hasValidUri =
     typeof product.image_url === "string" && product.image_url.trim().length > 0;
 
@@ -118,6 +125,17 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onAddToCart }) => {
         ) : (
           <View style={styles.placeholder} />
         )}
+        <Pressable
+          style={styles.favoriteButton}
+          onPress={handleToggleFavorite}
+          accessibilityLabel="Favorite"
+        >
+          <Feather
+            name="heart"
+            size={16}
+            color={isFavorite(product.id) ? "red" : "gray"}
+          />
+        </Pressable>
         {product.discount && (
           <View style={styles.discountBadge}>
             <Text style={styles.discountText}>-{product.discount}%</Text>
@@ -141,15 +159,20 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onAddToCart }) => {
             </Text>
           )}
         </View>
+        {stockLabel(product.stock_quantity) && (
+          <Text style={styles.stockLabel}>{stockLabel(product.stock_quantity)}</Text>
+        )}
 
         <Pressable
           onPress={handleAddToCart}
           onPressIn={() => setIsHovered(true)}
           onPressOut={() => setIsHovered(false)}
+          disabled={soldOut}
           style={[
             styles.addButton,
             { borderColor: primaryColor },
             isHovered && { backgroundColor: primaryColor },
+            soldOut && styles.addButtonDisabled,
           ]}
         >
           <Text
@@ -159,7 +182,7 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onAddToCart }) => {
               !isHovered && { color: primaryColor },
             ]}
           >
-            Add
+            {soldOut ? "Sold out" : "Add"}
           </Text>
         </Pressable>
       </View>
@@ -190,6 +213,14 @@ const styles = StyleSheet.create({
     aspectRatio: 1,
     backgroundColor: "#ccc",
   },
+  favoriteButton: {
+    position: "absolute",
+    top: 6,
+    left: 6,
+    padding: 4,
+    borderRadius: 50,
+    backgroundColor: "rgba(255,255,255,0.7)",
+  },
   discountBadge: {
     position: "absolute",
     top: 8,
@@ -244,6 +275,14 @@ const styles = StyleSheet.create({
     paddingVertical: 6,
     marginTop: 4,
   },
+  addButtonDisabled: {
+    opacity: 0.4,
+  },
+  stockLabel: {
+    fontSize: 11,
+    color: "#dc2626",
+    marginBottom: 2,
+  },
   addButtonText: {
     fontWeight: "bold",
   },
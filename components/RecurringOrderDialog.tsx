@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { Dialog } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/supabaseClient";
+import {
+  DAY_NAMES,
+  FREQUENCY_LABELS,
+  Frequency,
+  createRecurringOrder,
+  formatSlotTime,
+} from "@/hooks/RecurringOrderUtils";
+
+interface RecurringOrderDialogProps {
+  visible: boolean;
+  orderId: string;
+  locationId: string | null;
+  primaryColor?: string;
+  onClose: () => void;
+  onCreated: (recurringOrderId: string) => void;
+}
+
+const FREQUENCIES: Frequency[] = ["weekly", "biweekly", "monthly"];
+
+const toMinutes = (t: string) => {
+  const [h, m] = t.split(":").map(Number);
+  return h * 60 + m;
+};
+
+/** Repeats a past order on a schedule with a preferred pickup day and slot. */
+const RecurringOrderDialog: React.FC<RecurringOrderDialogProps> = ({
+  visible,
+  orderId,
+  locationId,
+  primaryColor = "#16a34a",
+  onClose,
+  onCreated,
+}) => {
+  const [frequency, setFrequency] = useState<Frequency>("weekly");
+  const [slotDay, setSlotDay] = useState<number | null>(null);
+  const [slotTime, setSlotTime] = useState<string | null>(null);
+  const [schedule, setSchedule] = useState<Record<number, string[]>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // every slot the location offers, by day of week
+  useEffect(() => {
+    if (!visible || !locationId) return;
+    setLoading(true);
+    supabase
+      .from("location_pickup_schedules")
+      .select("day_of_week, available_hours")
+      .eq("location_id", locationId)
+      .then(({ data, error }) => {
+        if (error) console.error("Error loading pickup schedule:", error);
+        const byDay: Record<number, string[]> = {};
+        (data ?? []).forEach((row: any) => {
+          const times: string[] = (row.available_hours ?? []).map((h: any) => h.time);
+          if (times.length) byDay[row.day_of_week] = times.sort((a, b) => toMinutes(a) - toMinutes(b));
+        });
+        setSchedule(byDay);
+        setLoading(false);
+      });
+  }, [visible, locationId]);
+
+  useEffect(() => {
+    if (visible) setError(null);
+  }, [visible]);
+
+  const save = async () => {
+    if (slotDay === null || !slotTime) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const id = await createRecurringOrder(orderId, frequency, slotDay, slotTime);
+      onCreated(id);
+      onClose();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const days = Object.keys(schedule).map(Number).sort();
+
+  return (
+    <Dialog
+      visible={visible}
+      onClose={onClose}
+      title="Make this a recurring order"
+      content={
+        <ScrollView style={styles.body}>
+          <Text style={styles.label}>How often</Text>
+          {FREQUENCIES.map((f) => {
+            const selected = frequency === f;
+            return (
+              <TouchableOpacity key={f} style={styles.option} onPress={() => setFrequency(f)}>
+                <Feather
+                  name={selected ? "check-circle" : "circle"}
+                  size={18}
+                  color={selected ? primaryColor : "#9ca3af"}
+                />
+                <Text style={styles.optionText}>{FREQUENCY_LABELS[f]}</Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          {loading ? (
+            <ActivityIndicator color={primaryColor} style={styles.loader} />
+          ) : (
+            <>
+              <Text style={styles.label}>Pickup day</Text>
+              <View style={styles.chips}>
+                {days.map((d) => (
+                  <TouchableOpacity
+                    key={d}
+                    style={[styles.chip, slotDay === d && { backgroundColor: primaryColor, borderColor: primaryColor }]}
+                    onPress={() => {
+                      setSlotDay(d);
+                      setSlotTime(null);
+                    }}
+                  >
+                    <Text style={[styles.chipText, slotDay === d && styles.chipTextSelected]}>
+                      {DAY_NAMES[d].slice(0, 3)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {slotDay !== null && (
+                <>
+                  <Text style={styles.label}>Pickup time</Text>
+                  <View style={styles.chips}>
+                    {schedule[slotDay].map((t) => (
+                      <TouchableOpacity
+                        key={t}
+                        style={[styles.chip, slotTime === t && { backgroundColor: primaryColor, borderColor: primaryColor }]}
+                        onPress={() => setSlotTime(t)}
+                      >
+                        <Text style={[styles.chipText, slotTime === t && styles.chipTextSelected]}>
+                          {formatSlotTime(t)}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </>
+              )}
+            </>
+          )}
+
+          <Text style={styles.hint}>
+            We'll remind you before each order is placed so you can skip or edit it.
+          </Text>
+          {error && <Text style={styles.error}>{error}</Text>}
+        </ScrollView>
+      }
+      actions={
+        <>
+          <Button
+            style={{ backgroundColor: primaryColor }}
+            disabled={slotDay === null || !slotTime || saving}
+            onPress={save}
+          >
+            {saving ? "Saving…" : "Save"}
+          </Button>
+          <Button variant="outline" onPress={onClose}>
+            Cancel
+          </Button>
+        </>
+      }
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  body: { maxHeight: 420 },
+  label: { fontSize: 14, fontWeight: "600", color: "#374151", marginTop: 12, marginBottom: 4 },
+  option: { flexDirection: "row", alignItems: "center", paddingVertical: 6 },
+  optionText: { marginLeft: 10, fontSize: 14, color: "#374151" },
+  loader: { marginVertical: 16 },
+  chips: { flexDirection: "row", flexWrap: "wrap" },
+  chip: {
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: { fontSize: 13, color: "#374151" },
+  chipTextSelected: { color: "#fff", fontWeight: "600" },
+  hint: { fontSize: 12, color: "#6b7280", marginTop: 12 },
+  error: { fontSize: 13, color: "#b91c1c", marginTop: 8 },
+});
+
+export default RecurringOrderDialog;
@@ -0,0 +1,94 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { Button } from "@/components/ui/button";
+import { StockIssue } from "@/hooks/InventoryUtils";
+
+interface StockIssuesProps {
+  issues: StockIssue[];
+  onReduce: (id: string, quantity: number) => void;
+  onRemove: (id: string) => void;
+}
+
+/** Per-line fixes for cart items the location can no longer fully supply. */
+const StockIssues: React.FC<StockIssuesProps> = ({ issues, onReduce, onRemove }) => {
+  if (!issues.length) return null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.titleRow}>
+        <Feather name="alert-triangle" size={16} color="#b45309" />
+        <Text style={styles.title}>Some items changed availability</Text>
+      </View>
+      {issues.map((issue) => (
+        <View key={issue.id} style={styles.issue}>
+          <Text style={styles.name}>{issue.name}</Text>
+          <Text style={styles.detail}>
+            {issue.available === 0
+              ? "Out of stock"
+              : `Only ${issue.available} left (you have ${issue.requested})`}
+          </Text>
+          <View style={styles.actions}>
+            {issue.available > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                style={styles.action}
+                onPress={() => onReduce(issue.id, issue.available)}
+              >
+                Reduce to {issue.available}
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              style={styles.action}
+              onPress={() => onRemove(issue.id)}
+            >
+              Remove
+            </Button>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    margin: 16,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#fcd34d",
+    backgroundColor: "#fffbeb",
+  },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  title: {
+    marginLeft: 6,
+    fontSize: 14,
+    fontWeight: "bold",
+    color: "#b45309",
+  },
+  issue: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#fde68a",
+  },
+  name: { fontSize: 14, fontWeight: "500" },
+  detail: { fontSize: 12, color: "#92400e", marginTop: 2 },
+  actions: {
+    flexDirection: "row",
+    marginTop: 6,
+  },
+  action: {
+    marginRight: 8,
+    paddingHorizontal: 12,
+  },
+});
+
+export default StockIssues;
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { Dialog } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { CartItemType } from "@/components/CartItem";
+import {
+  DEFAULT_SUBSTITUTION,
+  SUBSTITUTION_LABELS,
+  SubstitutionChoice,
+  SubstitutionPreference,
+  fetchAlternates,
+} from "@/hooks/SubstitutionUtils";
+
+interface SubstitutionPickerProps {
+  item: CartItemType | null;
+  locationId: string | null;
+  primaryColor?: string;
+  onClose: () => void;
+  onSave: (id: string, choice: SubstitutionChoice) => void;
+}
+
+const PREFERENCES: SubstitutionPreference[] = [
+  "store_choice",
+  "same_brand",
+  "specific",
+  "none",
+];
+
+/** Lets the customer say what the picker should do if a line is unavailable. */
+const SubstitutionPicker: React.FC<SubstitutionPickerProps> = ({
+  item,
+  locationId,
+  primaryColor = "#16a34a",
+  onClose,
+  onSave,
+}) => {
+  const [choice, setChoice] = useState<SubstitutionChoice>(DEFAULT_SUBSTITUTION);
+  const [alternates, setAlternates] = useState<any[]>([]);
+  const [loadingAlternates, setLoadingAlternates] = useState(false);
+
+  useEffect(() => {
+    if (item) setChoice(item.substitution ?? DEFAULT_SUBSTITUTION);
+  }, [item]);
+
+  // only look up alternates once the customer asks for a specific one
+  useEffect(() => {
+    if (!item || !locationId || choice.preference !== "specific") return;
+    setLoadingAlternates(true);
+    fetchAlternates(item.id, locationId)
+      .then(setAlternates)
+      .finally(() => setLoadingAlternates(false));
+  }, [item, locationId, choice.preference]);
+
+  const canSave = choice.preference !== "specific" || !!choice.product_id;
+
+  return (
+    <Dialog
+      visible={!!item}
+      onClose={onClose}
+      title="If this item is unavailable"
+      content={
+        <View>
+          {PREFERENCES.map((pref) => {
+            const selected = choice.preference === pref;
+            return (
+              <TouchableOpacity
+                key={pref}
+                style={styles.option}
+                onPress={() => setChoice({ preference: pref })}
+              >
+                <Feather
+                  name={selected ? "check-circle" : "circle"}
+                  size={18}
+                  color={selected ? primaryColor : "#9ca3af"}
+                />
+                <Text style={styles.optionText}>{SUBSTITUTION_LABELS[pref]}</Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          {choice.preference === "specific" && (
+            <View style={styles.alternates}>
+              {loadingAlternates ? (
+                <ActivityIndicator color={primaryColor} />
+              ) : alternates.length === 0 ? (
+                <Text style={styles.empty}>No alternates available.</Text>
+              ) : (
+                <ScrollView style={styles.alternateList}>
+                  {alternates.map((p) => {
+                    const selected = choice.product_id === p.id;
+                    return (
+                      <TouchableOpacity
+                        key={p.id}
+                        style={[
+                          styles.alternate,
+                          selected && { borderColor: primaryColor },
+                        ]}
+                        onPress={() =>
+                          setChoice({
+                            preference: "specific",
+                            product_id: p.id,
+                            product_name: p.name,
+                          })
+                        }
+                      >
+                        <Text style={styles.alternateName}>{p.name}</Text>
+                        <Text style={styles.alternatePrice}>
+                          ${(+p.price).toFixed(2)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              )}
+            </View>
+          )}
+        </View>
+      }
+      actions={
+        <>
+          <Button
+            style={{ backgroundColor: primaryColor }}
+            disabled={!canSave}
+            onPress={() => {
+              if (!item) return;
+              onSave(item.id, choice);
+              onClose();
+            }}
+          >
+            Save
+          </Button>
+          <Button variant="outline" onPress={onClose}>
+            Cancel
+          </Button>
+        </>
+      }
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+  },
+  optionText: { marginLeft: 10, fontSize: 14, color: "#374151" },
+  alternates: { marginTop: 8 },
+  alternateList: { maxHeight: 200 },
+  alternate: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    padding: 10,
+    borderWidth: 1,
+    borderColor: "#e5e5e5",
+    borderRadius: 6,
+    marginBottom: 6,
+  },
+  alternateName: { fontSize: 14, flex: 1, marginRight: 8 },
+  alternatePrice: { fontSize: 14, fontWeight: "500" },
+  empty: { fontSize: 13, color: "#6b7280", textAlign: "center" },
+});
+
+export default SubstitutionPicker;
@@ -0,0 +1,106 @@
+import React, { useState } from "react";
+import { View, Text, TextInput, StyleSheet, TouchableOpacity } from "react-native";
+import { TipChoice, tipAmount } from "@/hooks/TipUtils";
+
+interface TipSelectorProps {
+  presets: number[];
+  base: number; // subtotal after discounts
+  value: TipChoice;
+  primaryColor?: string;
+  onChange: (choice: TipChoice) => void;
+}
+
+/** Preset percentages, a custom amount or no tip for the picker. */
+const TipSelector: React.FC<TipSelectorProps> = ({
+  presets,
+  base,
+  value,
+  primaryColor = "#16a34a",
+  onChange,
+}) => {
+  const [custom, setCustom] = useState(
+    value.kind === "custom" ? value.amount.toFixed(2) : ""
+  );
+
+  const chip = (key: string, label: string, sub: string | null, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && { borderColor: primaryColor, backgroundColor: `${primaryColor}22` }]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipLabel, selected && { color: primaryColor }]}>{label}</Text>
+      {sub && <Text style={styles.chipSub}>{sub}</Text>}
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Tip your picker</Text>
+      <View style={styles.chips}>
+        {chip("none", "None", null, value.kind === "none", () => onChange({ kind: "none" }))}
+        {presets.map((percent) =>
+          chip(
+            `p${percent}`,
+            `${percent}%`,
+            `$${tipAmount({ kind: "percent", percent }, base).toFixed(2)}`,
+            value.kind === "percent" && value.percent === percent,
+            () => onChange({ kind: "percent", percent })
+          )
+        )}
+        {chip("custom", "Custom", null, value.kind === "custom", () =>
+          onChange({ kind: "custom", amount: parseFloat(custom) || 0 })
+        )}
+      </View>
+      {value.kind === "custom" && (
+        <View style={styles.customRow}>
+          <Text style={styles.currency}>$</Text>
+          <TextInput
+            style={styles.input}
+            value={custom}
+            onChangeText={(text) => {
+              setCustom(text);
+              const amount = parseFloat(text);
+              onChange({ kind: "custom", amount: amount > 0 ? amount : 0 });
+            }}
+            placeholder="0.00"
+            keyboardType="decimal-pad"
+            autoFocus
+          />
+        </View>
+      )}
+      <Text style={styles.hint}>100% of your tip goes to the staff who pick your order.</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { marginBottom: 12 },
+  title: { fontSize: 14, fontWeight: "600", color: "#374151", marginBottom: 8 },
+  chips: { flexDirection: "row", flexWrap: "wrap" },
+  chip: {
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+    alignItems: "center",
+    minWidth: 56,
+  },
+  chipLabel: { fontSize: 14, fontWeight: "600", color: "#374151" },
+  chipSub: { fontSize: 11, color: "#6b7280" },
+  customRow: { flexDirection: "row", alignItems: "center", marginBottom: 8 },
+  currency: { fontSize: 16, marginRight: 4, color: "#374151" },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#e5e5e5",
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  hint: { fontSize: 12, color: "#6b7280" },
+});
+
+export default TipSelector;
@@ -36,6 +36,7 @@ export interface ButtonProps {
   size?: "default" | "sm" | "lg" | "icon";
   style?: object;
   onPress?: () => void;
+  disabled?: boolean;
   children: React.ReactNode;
 }
 
@@ -0,0 +1,137 @@
+// hooks/ArrivalUtils.tsx
+
+import { supabase } from "@/supabaseClient";
+
+const PHOTO_BUCKET = "arrival-photos";
+
+/** A customer's curbside check-in for an order. */
+export interface Arrival {
+  id: string;
+  order_id: string;
+  parking_spot: string;
+  vehicle: string | null;
+  photo_path: string | null;
+  arrived_at: string;
+  on_the_way_at: string | null;
+}
+
+/** An arrival as the staff queue shows it. */
+export interface QueuedArrival extends Arrival {
+  orders: {
+    order_number: string;
+    status: string;
+    profiles: { first_name: string | null; last_name: string | null } | null;
+  };
+}
+
+export interface CheckInDetails {
+  parkingSpot: string;
+  vehicle?: string | null;
+  photoUri?: string | null; // a local image to upload
+}
+
+// user-facing text for the errors raised by check_in_order
+const ARRIVAL_ERRORS: Record<string, string> = {
+  not_authenticated: "Please log in to check in.",
+  order_not_found:   "That order could not be found.",
+  order_closed:      "This order is already closed.",
+  not_pickup_day:    "You can check in on your pickup day.",
+  spot_required:     "Enter your parking spot number.",
+  invalid_photo:     "That photo couldn't be attached.",
+};
+
+export const arrivalErrorMessage = (code?: string | null) =>
+  (code && ARRIVAL_ERRORS[code]) || "Something went wrong. Please try again.";
+
+/** Closed orders leave the queue. */
+export const canCheckIn = (status: string) => status !== "Completed" && status !== "Cancelled";
+
+/** "Just now", "12 min", "1 hr 5 min" since an instant. */
+export const formatWait = (since: string, now = Date.now()) => {
+  const minutes = Math.max(Math.floor((now - new Date(since).getTime()) / 60000), 0);
+  if (minutes < 1) return "Just now";
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} hr${minutes % 60 ? ` ${minutes % 60} min` : ""}`;
+};
+
+const uploadPhoto = async (orderId: string, uri: string): Promise<string> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error(arrivalErrorMessage("not_authenticated"));
+  const path = `${user.id}/${orderId}-${Date.now()}.jpg`;
+  const body = await (await fetch(uri)).arrayBuffer();
+  const { error } = await supabase.storage
+    .from(PHOTO_BUCKET)
+    .upload(path, body, { contentType: "image/jpeg" });
+  if (error) {
+    console.error("Arrival photo upload error:", error);
+    throw new Error("Your photo couldn't be uploaded. Try again or check in without it.");
+  }
+  return path;
+};
+
+/** The signed-in customer's check-in for an order, if they have one. */
+export const fetchArrival = async (orderId: string): Promise<Arrival | null> => {
+  const { data, error } = await supabase
+    .from("order_arrivals")
+    .select("id, order_id, parking_spot, vehicle, photo_path, arrived_at, on_the_way_at")
+    .eq("order_id", orderId)
+    .maybeSingle();
+  if (error) {
+    console.error("Error loading check-in:", error);
+    return null;
+  }
+  return data as Arrival | null;
+};
+
+/** Rejects with a user-facing message. */
+export const checkIn = async (orderId: string, details: CheckInDetails): Promise<void> => {
+  const photoPath = details.photoUri ? await uploadPhoto(orderId, details.photoUri) : null;
+  const { error } = await supabase.rpc("check_in_order", {
+    p_order_id: orderId,
+    p_parking_spot: details.parkingSpot,
+    p_vehicle: details.vehicle ?? null,
+    p_photo_path: photoPath,
+  });
+  if (error) {
+    console.error("check_in_order error:", error);
+    throw new Error(arrivalErrorMessage(error.message));
+  }
+};
+
+/** Staff: open arrivals at a location, longest wait first. */
+export const fetchArrivalQueue = async (locationId: string): Promise<QueuedArrival[]> => {
+  const { data, error } = await supabase
+    .from("order_arrivals")
+    .select(`
+      id, order_id, parking_spot, vehicle, photo_path, arrived_at, on_the_way_at,
+      orders!inner (order_number, status, profiles!orders_user_id_fkey (first_name, last_name))
+    `)
+    .eq("location_id", locationId)
+    .not("orders.status", "in", "(Completed,Cancelled)")
+    .order("arrived_at", { ascending: true });
+  if (error) {
+    console.error("Error loading arrivals:", error);
+    return [];
+  }
+  return (data ?? []) as unknown as QueuedArrival[];
+};
+
+/** Staff: tells the customer someone is bringing their order out. */
+export const markOnTheWay = async (orderId: string): Promise<boolean> => {
+  const { error } = await supabase.rpc("mark_arrival_on_the_way", { p_order_id: orderId });
+  if (error) {
+    console.error("mark_arrival_on_the_way error:", error);
+    return false;
+  }
+  return true;
+};
+
+/** A short-lived link to an arrival photo. */
+export const arrivalPhotoUrl = async (path: string): Promise<string | null> => {
+  const { data, error } = await supabase.storage.from(PHOTO_BUCKET).createSignedUrl(path, 60 * 60);
+  if (error) {
+    console.error("Error signing arrival photo:", error);
+    return null;
+  }
+  return data.signedUrl;
+};
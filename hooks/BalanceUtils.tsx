@@ -0,0 +1,102 @@
+// hooks/BalanceUtils.tsx
+
+import { supabase } from "@/supabaseClient";
+
+export type LedgerKind = "gift_card" | "refund" | "order" | "order_adjustment";
+
+/** One movement of a customer's store balance. */
+export interface LedgerEntry {
+  id: string;
+  amount: number; // credits positive, spending negative
+  kind: LedgerKind;
+  order_id: string | null;
+  note: string | null;
+  created_at: string;
+  orders?: { order_number: string } | null;
+}
+
+export const LEDGER_LABELS: Record<LedgerKind, string> = {
+  gift_card:        "Gift card redeemed",
+  refund:           "Store credit",
+  order:            "Used on order",
+  order_adjustment: "Returned from order",
+};
+
+// user-facing text for the errors raised by the balance RPCs
+const BALANCE_ERRORS: Record<string, string> = {
+  not_authenticated:     "Please log in to use store credit.",
+  not_authorized:        "Only store staff can issue store credit.",
+  gift_card_not_found:   "That gift card code wasn't found.",
+  gift_card_redeemed:    "That gift card has already been redeemed.",
+  gift_card_expired:     "That gift card has expired.",
+  gift_card_other_store: "That gift card is for a different store.",
+  invalid_amount:        "Please enter an amount greater than zero.",
+  order_not_found:       "That order could not be found.",
+  refund_exceeds_total:  "Credit for this order can't exceed its total.",
+  order_cancelled:       "This order was cancelled and has already been refunded.",
+};
+
+export const balanceErrorMessage = (code?: string | null) =>
+  (code && BALANCE_ERRORS[code]) || "Something went wrong. Please try again.";
+
+export const formatBalance = (amount: number) =>
+  `${amount < 0 ? "-" : ""}$${Math.abs(amount).toFixed(2)}`;
+
+/** The signed-in customer's balance at a store. */
+export const fetchBalance = async (storeId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc("store_balance", { p_store_id: storeId });
+  if (error) {
+    console.error("Error loading balance:", error);
+    return 0;
+  }
+  return Number(data) || 0;
+};
+
+/** Newest movements first. */
+export const fetchLedger = async (storeId: string, limit = 50): Promise<LedgerEntry[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+  const { data, error } = await supabase
+    .from("balance_ledger")
+    .select("id, amount, kind, order_id, note, created_at, orders (order_number)")
+    .eq("user_id", user.id)
+    .eq("store_id", storeId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) {
+    console.error("Error loading balance history:", error);
+    return [];
+  }
+  return (data ?? []).map((e: any) => ({ ...e, amount: Number(e.amount) }));
+};
+
+/** Resolves with the new balance; rejects with a user-facing message. */
+export const redeemGiftCard = async (code: string, storeId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc("redeem_gift_card", {
+    p_code: code,
+    p_store_id: storeId,
+  });
+  if (error) {
+    console.error("redeem_gift_card error:", error);
+    throw new Error(balanceErrorMessage(error.message));
+  }
+  return Number(data) || 0;
+};
+
+/** Staff: credits part of an order back to the customer's balance. */
+export const issueStoreCredit = async (
+  orderId: string,
+  amount: number,
+  note?: string | null
+): Promise<number> => {
+  const { data, error } = await supabase.rpc("issue_store_credit", {
+    p_order_id: orderId,
+    p_amount: amount,
+    p_note: note ?? null,
+  });
+  if (error) {
+    console.error("issue_store_credit error:", error);
+    throw new Error(balanceErrorMessage(error.message));
+  }
+  return Number(data) || 0;
+};
@@ -1,84 +1,393 @@
-import { supabase } from '@/supabaseClient';
-import Toast from 'react-native-toast-message';
-
-export const handleAddToCart = async (product: any, quantity: number, userId: string, locationId: string) => {
-  try {
-    // Step 1: Check if an active order exists for the user
-    const { data: existingOrder, error: orderError } = await supabase
-      .from('orders')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('status', 'active')
-      .single();
-
-    let orderId;
-
-    if (orderError || !existingOrder) {
-      // If no active order exists, create a new one
-      const { data: newOrder, error: newOrderError } = await supabase
-        .from('orders')
-        .insert([
-          {
-            user_id: userId,
-            status: 'active',
-            total_amount: 0,
-            location_id: locationId,
-          },
-        ])
-        .select()
-        .single();
-
-      if (newOrderError) {
-        console.error('Error creating new order:', newOrderError);
-        Toast.show({ type: "error", text1: 'Failed to create a new order.' });
-        return false;
-      }
+// hooks/CartUtils.tsx
 
-      orderId = newOrder.id;
-    } else {
-      // Use the existing active order
-      orderId = existingOrder.id;
+import { useState, useEffect, useCallback } from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { supabase } from "@/supabaseClient";
+import { CartItemType } from "@/components/CartItem";
+import { SubstitutionChoice } from "@/hooks/SubstitutionUtils";
+import { quantityStep, roundQuantity } from "@/hooks/QuantityUtils";
+import { getImageUrl } from "@/hooks/ImageUtils";
+
+/**
+ * A cart line as persisted locally and in the server-side `carts` table.
+ * `updated_at` drives the merge; `removed` is a tombstone so a removal on
+ * one device beats an older edit of the same line on another.
+ */
+export interface CartLine extends CartItemType {
+  updated_at: string;
+  removed?: boolean;
+}
+
+type CartListener = (items: CartItemType[]) => void;
+
+/** A cart line and its equivalent product at the new location. */
+export interface CarriedLine {
+  item: CartItemType;
+  product: any;
+  priceChanged: boolean;
+}
+
+/** What happens to the cart if it follows the customer to a new location. */
+export interface LocationMove {
+  locationId: string;
+  carried: CarriedLine[];
+  unavailable: CartItemType[];
+}
+
+const CART_KEY = "cart";
+const CART_LOCATION_KEY = "cartLocationId";
+const TOMBSTONE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_SYNC_ATTEMPTS = 3;
+
+// ———— Module‐level globals ————
+const listeners = new Set<CartListener>();
+// serialises read-modify-write cycles so two quick taps never race
+let queue: Promise<unknown> = Promise.resolve();
+
+const enqueue = <T,>(task: () => Promise<T>): Promise<T> => {
+  const next = queue.then(task, task);
+  queue = next.catch(() => undefined);
+  return next;
+};
+
+const visible = (lines: CartLine[]): CartItemType[] =>
+  lines
+    .filter((l) => !l.removed && l.quantity > 0)
+    .map(({ updated_at, removed, ...item }) => item);
+
+const readLines = async (): Promise<CartLine[]> => {
+  const raw = await AsyncStorage.getItem(CART_KEY);
+  const parsed: any[] = raw ? JSON.parse(raw) : [];
+  // carts written before lines were timestamped sort as oldest
+  return parsed.map((l) => ({
+    ...l,
+    updated_at: l.updated_at ?? new Date(0).toISOString(),
+  }));
+};
+
+const writeLines = async (lines: CartLine[]) => {
+  await AsyncStorage.setItem(CART_KEY, JSON.stringify(lines));
+  const items = visible(lines);
+  if (items.length > 0) {
+    const sel = await AsyncStorage.getItem("selectedLocation");
+    const locId = sel ? JSON.parse(sel)?.id : null;
+    if (locId) await AsyncStorage.setItem(CART_LOCATION_KEY, locId);
+  } else {
+    await AsyncStorage.removeItem(CART_LOCATION_KEY);
+  }
+  listeners.forEach((l) => l(items));
+};
+
+const pruneTombstones = (lines: CartLine[]) => {
+  const cutoff = Date.now() - TOMBSTONE_TTL_MS;
+  return lines.filter(
+    (l) => !l.removed || new Date(l.updated_at).getTime() > cutoff
+  );
+};
+
+/**
+ * Merges two copies of a cart line by line. The newer edit wins; on an
+ * exact timestamp tie a removal wins, then the larger quantity, so every
+ * device converges on the same result regardless of merge order.
+ */
+export const mergeCartLines = (a: CartLine[], b: CartLine[]): CartLine[] => {
+  const byId = new Map<string, CartLine>();
+  [...a, ...b].forEach((line) => {
+    const current = byId.get(line.id);
+    if (!current) {
+      byId.set(line.id, line);
+      return;
     }
+    const diff =
+      new Date(line.updated_at).getTime() -
+      new Date(current.updated_at).getTime();
+    if (
+      diff > 0 ||
+      (diff === 0 && !!line.removed && !current.removed) ||
+      (diff === 0 && !!line.removed === !!current.removed &&
+        line.quantity > current.quantity)
+    ) {
+      byId.set(line.id, line);
+    }
+  });
+  return pruneTombstones(
+    Array.from(byId.values()).sort((x, y) => x.id.localeCompare(y.id))
+  );
+};
+
+const getUserId = async (): Promise<string | null> => {
+  // getSession reads the persisted session, so this works offline
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id ?? null;
+};
+
+/**
+ * Pulls the server copy of the cart, merges it with the local one and
+ * writes the result back to both. The write is guarded by the row's
+ * `version` so a concurrent push from another device forces a re-merge
+ * instead of being overwritten.
+ */
+export const syncCart = () =>
+  enqueue(async () => {
+    const userId = await getUserId();
+    if (!userId) return;
+
+    for (let attempt = 0; attempt < MAX_SYNC_ATTEMPTS; attempt++) {
+      const { data: remote, error: fetchErr } = await supabase
+        .from("carts")
+        .select("lines, version")
+        .eq("user_id", userId)
+        .maybeSingle();
+      if (fetchErr) {
+        console.error("Cart fetch error:", fetchErr);
+        return;
+      }
 
-    // Step 2: Add the item to the order_items table
-    const { data: orderItem, error: orderItemError } = await supabase
-      .from('order_items')
-      .insert([
-        {
-          order_id: orderId,
-          product_id: product.id,
-          quantity: quantity,
-          unit_price: product.price, // updated field name
-          // variable_prep_time: ... // add if you have this info
-          created_at: new Date().toISOString(),
-        },
-      ]);
-
-    if (orderItemError) {
-      console.error('Error adding item to order_items:', orderItemError);
-      Toast.show({ type: "error", text1: 'Failed to add item to cart.' });
-      return false;
+      const local = await readLines();
+      const merged = mergeCartLines(local, (remote?.lines as CartLine[]) ?? []);
+      const sel = await AsyncStorage.getItem("selectedLocation");
+      const locationId = sel ? JSON.parse(sel)?.id ?? null : null;
+
+      if (!remote) {
+        const { error } = await supabase.from("carts").insert([{
+          user_id:     userId,
+          location_id: locationId,
+          lines:       merged,
+          version:     1,
+        }]);
+        if (!error) return writeLines(merged);
+      } else {
+        const { data: updated, error } = await supabase
+          .from("carts")
+          .update({
+            location_id: locationId,
+            lines:       merged,
+            version:     remote.version + 1,
+            updated_at:  new Date().toISOString(),
+          })
+          .eq("user_id", userId)
+          .eq("version", remote.version)
+          .select("user_id");
+        if (error) {
+          console.error("Cart push error:", error);
+          return writeLines(merged);
+        }
+        if (updated?.length) return writeLines(merged);
+      }
+      // someone else wrote first — go round again with their copy
     }
+    console.warn("Cart sync gave up after repeated conflicts");
+  });
+
+const mutate = async (change: (lines: CartLine[]) => CartLine[]) => {
+  await enqueue(async () => {
+    const lines = await readLines();
+    await writeLines(change(lines));
+  });
+  // best effort: offline edits stay local and merge on the next sync
+  syncCart().catch((err) => console.error("Cart sync error:", err));
+};
+
+const touch = (line: CartLine, patch: Partial<CartLine>): CartLine => ({
+  ...line,
+  ...patch,
+  updated_at: new Date().toISOString(),
+});
+
+// ———— Public API ————
 
-    // Step 3: Update the total amount of the order
-    const updatedTotalAmount = (existingOrder?.total_amount || 0) + product.price * quantity;
+export const getCart = async (): Promise<CartItemType[]> =>
+  visible(await readLines());
 
-    const { error: updateOrderError } = await supabase
-      .from('orders')
-      .update({ total_amount: updatedTotalAmount })
-      .eq('id', orderId);
+/**
+ * Adds `quantity` units (one weight step for weighed products by
+ * default), clamped to the product's stock when it is tracked. A
+ * non-empty `note` replaces the line's instructions. Resolves with how
+ * much was actually added.
+ */
+export const addToCart = async (
+  product: any,
+  quantity: number = quantityStep(product),
+  note?: string
+): Promise<number> => {
+  let added = 0;
+  const stock: number | null = product.stock_quantity ?? null;
+  await mutate((lines) => {
+    const idx = lines.findIndex((l) => l.id === product.id);
+    const existing = idx >= 0 && !lines[idx].removed ? lines[idx].quantity : 0;
+    const target = roundQuantity(stock == null
+      ? existing + quantity
+      : Math.min(existing + quantity, Math.max(stock, 0)));
+    added = roundQuantity(Math.max(target - existing, 0));
+    if (added === 0) return lines;
 
-    if (updateOrderError) {
-      console.error('Error updating order total amount:', updateOrderError);
-      Toast.show({ type: "error", text1: 'Failed to update order total.' });
-      return false;
+    if (existing > 0) {
+      lines[idx] = touch(lines[idx], {
+        quantity: target,
+        stock_quantity: stock,
+        ...(note ? { note } : {}),
+      });
+      return lines;
     }
+    const line: CartLine = {
+      id:             product.id,
+      name:           product.name,
+      price:          product.price,
+      image_url:      getImageUrl(product, ""),
+      unit:           product.unit ?? "",
+      stock_quantity: stock,
+      sold_by_weight: !!product.sold_by_weight,
+      weight_step:    product.weight_step ?? null,
+      quantity:       target,
+      note:           note || undefined,
+      updated_at:     new Date().toISOString(),
+    };
+    return idx >= 0
+      ? lines.map((l, i) => (i === idx ? line : l))
+      : [...lines, line];
+  });
+  return added;
+};
 
-    Toast.show({ type: "success", text1: `${quantity} ${product.name} added to cart!` });
-    return true;
-  } catch (error) {
-    console.error('Unexpected error adding to cart:', error);
-    Toast.show({ type: "error", text1: 'An unexpected error occurred.' });
-    return false;
+export const updateCartQuantity = (productId: string, quantity: number) =>
+  mutate((lines) =>
+    lines.map((l) =>
+      l.id === productId
+        ? touch(l, quantity > 0 ? { quantity: roundQuantity(quantity) } : { removed: true })
+        : l
+    )
+  );
+
+export const setSubstitution = (productId: string, substitution: SubstitutionChoice) =>
+  mutate((lines) =>
+    lines.map((l) => (l.id === productId ? touch(l, { substitution }) : l))
+  );
+
+export const setLineNote = (productId: string, note: string) =>
+  mutate((lines) =>
+    lines.map((l) =>
+      l.id === productId ? touch(l, { note: note || undefined }) : l
+    )
+  );
+
+/** Takes the current catalogue prices once the customer has seen them. */
+export const acceptPrices = (prices: { id: string; price: number }[]) =>
+  mutate((lines) =>
+    lines.map((l) => {
+      const change = prices.find((p) => p.id === l.id);
+      return change && !l.removed ? touch(l, { price: change.price }) : l;
+    })
+  );
+
+/**
+ * Finds every cart line's equivalent at `locationId` (by UPC, then SKU)
+ * without changing the cart, so the customer can review the move first.
+ */
+export const planLocationMove = async (
+  cart: CartItemType[],
+  locationId: string
+): Promise<LocationMove> => {
+  const { data, error } = await supabase.rpc("map_cart_to_location", {
+    p_product_ids: cart.map((i) => i.id),
+    p_location_id: locationId,
+  });
+  if (error) {
+    console.error("map_cart_to_location error:", error);
+    throw new Error("Couldn't check your cart against the new location.");
   }
-};
\ No newline at end of file
+  const matches = new Map<string, any>(
+    ((data ?? []) as { product_id: string; product: any }[]).map((r) => [r.product_id, r.product])
+  );
+  const carried: CarriedLine[] = [];
+  const unavailable: CartItemType[] = [];
+  cart.forEach((item) => {
+    const product = matches.get(item.id);
+    if (product) {
+      carried.push({ item, product, priceChanged: +product.price !== +item.price });
+    } else {
+      unavailable.push(item);
+    }
+  });
+  return { locationId, carried, unavailable };
+};
+
+/**
+ * Applies a reviewed move: carried lines are swapped for the new
+ * location's products at their current price, the rest are removed.
+ */
+export const moveCartToLocation = (move: LocationMove) =>
+  mutate((lines) => {
+    const byOldId = new Map(move.carried.map((c) => [c.item.id, c.product]));
+    const moved: CartLine[] = [];
+    const next = lines.map((l) => {
+      if (l.removed) return l;
+      const product = byOldId.get(l.id);
+      if (product) {
+        moved.push({
+          ...l,
+          id:             product.id,
+          name:           product.name,
+          price:          product.price,
+          image_url:      getImageUrl(product, ""),
+          unit:           product.unit ?? "",
+          stock_quantity: product.stock_quantity ?? null,
+          sold_by_weight: !!product.sold_by_weight,
+          weight_step:    product.weight_step ?? null,
+          // a specific alternate was a product at the old location
+          substitution:   l.substitution?.preference === "specific" ? undefined : l.substitution,
+          updated_at:     new Date().toISOString(),
+        });
+      }
+      return touch(l, { removed: true });
+    });
+    const movedIds = new Set(moved.map((m) => m.id));
+    return [...next.filter((l) => !movedIds.has(l.id)), ...moved];
+  });
+
+export const removeFromCart = (productId: string) =>
+  mutate((lines) =>
+    lines.map((l) => (l.id === productId ? touch(l, { removed: true }) : l))
+  );
+
+export const clearCart = () =>
+  mutate((lines) =>
+    lines.map((l) => (l.removed ? l : touch(l, { removed: true })))
+  );
+
+export const subscribeToCart = (listener: CartListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Live view of the cart for screens; syncs with the server on mount. */
+export function useCart() {
+  const [cart, setCart] = useState<CartItemType[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToCart(setCart);
+    getCart()
+      .then(setCart)
+      .catch((err) => console.error("Error loading cart:", err))
+      .finally(() => setLoading(false));
+    syncCart().catch((err) => console.error("Cart sync error:", err));
+    return unsubscribe;
+  }, []);
+
+  const refresh = useCallback(() => syncCart(), []);
+
+  return {
+    cart,
+    loading,
+    refresh,
+    addToCart,
+    updateQuantity: updateCartQuantity,
+    removeItem: removeFromCart,
+    setSubstitution,
+    setLineNote,
+    acceptPrices,
+    clearCart,
+  };
+}
\ No newline at end of file
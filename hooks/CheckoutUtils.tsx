@@ -0,0 +1,289 @@
+// hooks/CheckoutUtils.tsx
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import uuid from "react-native-uuid";
+import { supabase } from "@/supabaseClient";
+import { CartItemType } from "@/components/CartItem";
+import { PROMO_ERRORS } from "@/hooks/PricingUtils";
+import { DEFAULT_SUBSTITUTION } from "@/hooks/SubstitutionUtils";
+import { earliestPickup, fetchPickupTiming } from "@/hooks/ScheduleUtils";
+import { dateKeyInZone, zoneAbbreviation } from "@/hooks/TimeZoneUtils";
+
+export interface PickupSlot {
+  day_of_week: number;
+  time: string; // "HH:MM" as stored in location_pickup_schedules
+  date: string; // "YYYY-MM-DD", the date the slot is on in the store's zone
+  hold_expires_at?: string | null; // the place is held for us until then
+  minutes?: number; // the window's length at the location
+  time_zone?: string; // the location's IANA zone
+}
+
+/** A slot offered on a date; `remaining` is null when it's unlimited. */
+export interface SlotAvailability {
+  time: string;
+  capacity: number | null;
+  remaining: number | null;
+}
+
+export interface PlaceOrderParams {
+  cart: CartItemType[];
+  locationId: string;
+  paymentId: string | null; // may be null when the balance covers the order
+  pickupTime: string;
+  slot: PickupSlot;
+  promoCode?: string | null;
+  orderNote?: string | null;
+  tip?: number;
+  useBalance?: boolean; // pay from store credit first
+  redeemPoints?: number; // loyalty points taken off as a discount
+}
+
+const ATTEMPT_KEY = "checkoutAttempt";
+
+// user-facing text for the errors raised by the place_order RPC
+const CHECKOUT_ERRORS: Record<string, string> = {
+  not_authenticated:   "You must be logged in to place an order.",
+  cart_empty:          "Your cart is empty.",
+  invalid_quantity:    "Some quantities in your cart are invalid.",
+  invalid_pickup_time: "Please choose a pickup time in the future.",
+  invalid_payment:     "Please select a valid payment method.",
+  items_unavailable:   "Some items are no longer available.",
+  out_of_stock:        "Some items in your cart just sold out.",
+  price_changed:       "Some prices changed. Please review your cart.",
+  invalid_tip:         "Please enter a tip no larger than your subtotal.",
+  tipping_disabled:    "This store isn't accepting tips.",
+  orders_paused:       "Online ordering is paused right now. Please try again shortly.",
+  below_minimum:       "Your order is below the store's minimum.",
+  too_many_items:      "Your order has more items than the store allows.",
+  purchase_limit:      "Some items are over their purchase limit.",
+  slot_unavailable:    "That pickup slot is no longer offered.",
+  slot_full:           "That pickup slot just filled up. Please pick another.",
+  too_soon:            "Your order needs more time to prepare. Please choose a later pickup time.",
+  loyalty_disabled:    "This store isn't offering points rewards right now.",
+  invalid_points:      "Those points can't be redeemed on this order.",
+  ...PROMO_ERRORS,
+};
+
+export class CheckoutError extends Error {
+  code: string;
+  // out_of_stock: what is still on hand for each short product
+  stockLevels: { product_id: string; available: number }[];
+  // price_changed: the current price of each line that moved
+  prices: { product_id: string; price: number }[];
+  // purchase_limit: the limit of each line that is over it
+  limits: { product_id: string; limit: number }[];
+
+  constructor(code: string, details?: string | null) {
+    // a paused store may say why
+    super(
+      (code === "orders_paused" && details) ||
+        (CHECKOUT_ERRORS[code] ?? "Failed to place order.")
+    );
+    this.code = code;
+    this.stockLevels = [];
+    this.prices = [];
+    this.limits = [];
+    if (code === "out_of_stock" && details) {
+      try {
+        this.stockLevels = JSON.parse(details);
+      } catch {
+        // leave empty; the cart falls back to a fresh stock check
+      }
+    }
+    if (code === "price_changed" && details) {
+      try {
+        this.prices = JSON.parse(details);
+      } catch {
+        // leave empty; the cart falls back to a fresh price check
+      }
+    }
+    if (code === "purchase_limit" && details) {
+      try {
+        this.limits = JSON.parse(details);
+      } catch {
+        // leave empty; the cart reloads the limits
+      }
+    }
+  }
+}
+
+/**
+ * Returns the idempotency key for this exact checkout. The key survives
+ * app restarts and is only replaced once the cart, slot or card change,
+ * so retrying after a dropped response can never create a second order.
+ */
+const getIdempotencyKey = async (fingerprint: string): Promise<string> => {
+  const raw = await AsyncStorage.getItem(ATTEMPT_KEY);
+  const saved = raw ? JSON.parse(raw) : null;
+  if (saved?.fingerprint === fingerprint) return saved.key;
+
+  const key = uuid.v4() as string;
+  await AsyncStorage.setItem(ATTEMPT_KEY, JSON.stringify({ fingerprint, key }));
+  return key;
+};
+
+/** "2026-06-05" for a local date, the form slot dates are sent in. */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(
+    date.getDate()
+  ).padStart(2, "0")}`;
+
+/** Slots offered at a location on a date with the places left in each. */
+export const fetchSlotAvailability = async (
+  locationId: string,
+  date: string
+): Promise<SlotAvailability[]> => {
+  const { data, error } = await supabase.rpc("slot_availability", {
+    p_location_id: locationId,
+    p_slot_date: date,
+  });
+  if (error) {
+    console.error("Slot availability error:", error);
+    return [];
+  }
+  return (data ?? []) as SlotAvailability[];
+};
+
+/**
+ * Holds a place in a slot for a few minutes while the customer checks
+ * out, or renews the hold they have. Resolves with when the hold lapses.
+ */
+export const holdPickupSlot = async (
+  locationId: string,
+  date: string,
+  time: string
+): Promise<string> => {
+  const { data, error } = await supabase.rpc("hold_pickup_slot", {
+    p_location_id: locationId,
+    p_slot_date: date,
+    p_slot_time: time,
+  });
+  if (error || !data) {
+    console.error("hold_pickup_slot error:", error);
+    throw new CheckoutError(error?.message ?? "unknown", error?.details);
+  }
+  return data.expires_at as string;
+};
+
+export const readPickupSlot = async (): Promise<PickupSlot | null> => {
+  const raw = await AsyncStorage.getItem("selectedPickupSlot");
+  return raw ? JSON.parse(raw) : null;
+};
+
+/** Forgets the chosen slot once an order has taken it. */
+export const clearPickupSlot = () =>
+  AsyncStorage.multiRemove(["selectedPickupTime", "selectedPickupSlot", "selectedPickupLabel"]);
+
+/**
+ * "Friday, June 6, 2:00 PM - 3:00 PM CDT" for a pickup window, on the
+ * store's clock when its zone is given.
+ */
+export const formatPickupWindow = (iso: string, minutes = 60, timeZone?: string): string => {
+  const start = new Date(iso);
+  const end = new Date(start.getTime() + minutes * 60 * 1000);
+  return `${start.toLocaleString(undefined, {
+    weekday:  "long",
+    month:    "long",
+    day:      "numeric",
+    hour:     "numeric",
+    minute:   "numeric",
+    hour12:   true,
+    timeZone,
+  }).replace(" at ", ", ")} - ${end.toLocaleTimeString(undefined, {
+    hour:     "numeric",
+    minute:   "numeric",
+    hour12:   true,
+    timeZone,
+  })}${timeZone ? ` ${zoneAbbreviation(start, timeZone)}` : ""}`;
+};
+
+/**
+ * Why the saved pickup slot can't be used, or null when it can. The slot
+ * must be in the future, leave time to prepare `cart` when given, and
+ * renewing its hold checks it is still offered with room; place_order
+ * takes the held place.
+ */
+export const checkPickupSlot = async (
+  locationId: string,
+  cart?: CartItemType[]
+): Promise<string | null> => {
+  const pickupTime = await AsyncStorage.getItem("selectedPickupTime");
+  const slot = await readPickupSlot();
+  if (!pickupTime || !slot) return "Please select a pickup time.";
+
+  const start = new Date(pickupTime);
+  const startDate = slot.time_zone ? dateKeyInZone(start, slot.time_zone) : toDateKey(start);
+  if (isNaN(start.getTime()) || !slot.date || startDate !== slot.date) {
+    return "Please select a pickup time.";
+  }
+  if (start.getTime() <= Date.now()) return CHECKOUT_ERRORS.invalid_pickup_time;
+  if (cart && start < earliestPickup(await fetchPickupTiming(locationId, cart))) {
+    return CHECKOUT_ERRORS.too_soon;
+  }
+
+  try {
+    const expiresAt = await holdPickupSlot(locationId, slot.date, slot.time);
+    await AsyncStorage.setItem(
+      "selectedPickupSlot",
+      JSON.stringify({ ...slot, hold_expires_at: expiresAt })
+    );
+  } catch (err) {
+    // anything but a known refusal is left for place_order to decide
+    if (err instanceof CheckoutError && CHECKOUT_ERRORS[err.code]) return err.message;
+  }
+  return null;
+};
+
+/** Places the order in one transaction and resolves with its id. */
+export const placeOrder = async ({
+  cart,
+  locationId,
+  paymentId,
+  pickupTime,
+  slot,
+  promoCode,
+  orderNote,
+  tip = 0,
+  useBalance = false,
+  redeemPoints = 0,
+}: PlaceOrderParams): Promise<string> => {
+  const items = cart
+    .map((i) => ({
+      product_id:    i.id,
+      quantity:      i.quantity,
+      substitution:  i.substitution?.preference ?? DEFAULT_SUBSTITUTION.preference,
+      substitute_id: i.substitution?.product_id ?? null,
+      note:          i.note ?? null,
+      price:         i.price, // as last shown; the server rejects stale prices
+    }))
+    .sort((a, b) => a.product_id.localeCompare(b.product_id));
+  const fingerprint = JSON.stringify({
+    items, locationId, paymentId, pickupTime, promoCode, orderNote, tip, useBalance,
+    redeemPoints,
+  });
+  const key = await getIdempotencyKey(fingerprint);
+
+  const { data, error } = await supabase.rpc("place_order", {
+    p_idempotency_key: key,
+    p_location_id:     locationId,
+    p_payment_id:      paymentId,
+    p_pickup_time:     pickupTime,
+    p_slot_day:        slot.day_of_week,
+    p_slot_time:       slot.time,
+    p_items:           items,
+    p_promo_code:      promoCode ?? null,
+    p_order_note:      orderNote ?? null,
+    p_tip:             tip,
+    p_use_balance:     useBalance,
+    p_redeem_points:   redeemPoints,
+    p_slot_date:       slot.date,
+  });
+
+  if (error || !data) {
+    console.error("place_order error:", error);
+    throw new CheckoutError(error?.message ?? "unknown", error?.details);
+  }
+
+  await AsyncStorage.removeItem(ATTEMPT_KEY);
+  return data as string;
+};
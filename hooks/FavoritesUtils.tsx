@@ -0,0 +1,139 @@
+// hooks/FavoritesUtils.tsx
+
+import { useState, useEffect, useCallback } from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { supabase } from "@/supabaseClient";
+
+/** A starred product resolved against the selected location. */
+export interface FavoriteProduct {
+  favorite_id: string; // the product that was starred
+  product: any;        // the same item at the selected location when stocked there
+  available: boolean;
+}
+
+interface FavoritesScope {
+  userId: string;
+  storeId: string;
+  locationId: string | null;
+}
+
+// ———— Module‐level globals ————
+const listeners = new Set<() => void>();
+// product id -> starred product id. Holds both the starred ids and their
+// matches at the selected location so every card shows the right heart.
+let favoriteIds = new Map<string, string>();
+let loadedScope: string | null = null;
+let loading: Promise<unknown> | null = null;
+
+const notify = () => listeners.forEach((l) => l());
+
+const getScope = async (): Promise<FavoritesScope | null> => {
+  const { data } = await supabase.auth.getSession();
+  const userId = data.session?.user.id;
+  const storeId = await AsyncStorage.getItem("selected_store_id");
+  if (!userId || !storeId) return null;
+  const sel = await AsyncStorage.getItem("selectedLocation");
+  const locationId = sel ? JSON.parse(sel)?.id ?? null : null;
+  return { userId, storeId, locationId };
+};
+
+const scopeKey = (s: FavoritesScope | null) =>
+  s ? `${s.userId}:${s.storeId}:${s.locationId}` : "";
+
+/** Loads the customer's favorites for the selected store and location. */
+export const fetchFavoriteProducts = async (): Promise<FavoriteProduct[]> => {
+  const scope = await getScope();
+  loadedScope = scopeKey(scope);
+  if (!scope) {
+    favoriteIds = new Map();
+    notify();
+    return [];
+  }
+
+  const { data, error } = await supabase.rpc("favorite_products", {
+    p_store_id:    scope.storeId,
+    p_location_id: scope.locationId,
+  });
+  if (error) {
+    console.error("Error loading favorites:", error);
+    return [];
+  }
+
+  const rows = (data ?? []) as FavoriteProduct[];
+  favoriteIds = new Map();
+  rows.forEach((r) => {
+    favoriteIds.set(r.favorite_id, r.favorite_id);
+    if (r.product?.id) favoriteIds.set(r.product.id, r.favorite_id);
+  });
+  notify();
+  return rows;
+};
+
+// reloads only when the user, store or location changed since last time
+const ensureLoaded = async () => {
+  if (loadedScope === scopeKey(await getScope())) return;
+  if (!loading) {
+    loading = fetchFavoriteProducts().finally(() => {
+      loading = null;
+    });
+  }
+  await loading;
+};
+
+export const isFavorite = (productId: string) => favoriteIds.has(productId);
+
+/** Stars or un-stars a product. Resolves with the new state. */
+export const toggleFavorite = async (productId: string): Promise<boolean> => {
+  const scope = await getScope();
+  if (!scope) throw new Error("Please log in to save favorites.");
+
+  const starredId = favoriteIds.get(productId);
+  const previous = new Map(favoriteIds);
+
+  // optimistic: flip the heart now, roll back if the write fails
+  if (starredId) {
+    favoriteIds.forEach((v, k) => v === starredId && favoriteIds.delete(k));
+  } else {
+    favoriteIds.set(productId, productId);
+  }
+  notify();
+
+  const { error } = starredId
+    ? await supabase
+        .from("favorites")
+        .delete()
+        .eq("user_id", scope.userId)
+        .eq("store_id", scope.storeId)
+        .eq("product_id", starredId)
+    : await supabase.from("favorites").insert([{
+        user_id:    scope.userId,
+        store_id:   scope.storeId,
+        product_id: productId,
+      }]);
+
+  if (error) {
+    console.error("Error saving favorite:", error);
+    favoriteIds = previous;
+    notify();
+    throw new Error("Failed to update favorites.");
+  }
+  return !starredId;
+};
+
+/** Live favorite state for product cards and lists. */
+export function useFavorites() {
+  const [, setVersion] = useState(0);
+
+  useEffect(() => {
+    const listener = () => setVersion((v) => v + 1);
+    listeners.add(listener);
+    ensureLoaded().catch((err) => console.error("Error loading favorites:", err));
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+
+  const refresh = useCallback(() => fetchFavoriteProducts(), []);
+
+  return { isFavorite, toggleFavorite, refresh };
+}
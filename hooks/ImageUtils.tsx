@@ -0,0 +1,27 @@
+// hooks/ImageUtils.tsx
+
+export const PLACEHOLDER_IMAGE = "https://via.placeholder.com/150";
+
+/** `image_data` as stored: an array, or that array as a JSON string. */
+export const normalizeImages = (raw: any): any[] => {
+  if (!raw) return [];
+  try {
+    return Array.isArray(raw) ? raw : JSON.parse(raw);
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * A product's picture: its `image_url` when set, else the primary (or
+ * first) of its `image_data`, else `fallback`.
+ */
+export const getImageUrl = (product: any, fallback = PLACEHOLDER_IMAGE): string => {
+  if (typeof product.image_url === "string" && product.image_url) {
+    return product.image_url;
+  }
+  const images = normalizeImages(product.image_data);
+  if (!images.length) return fallback;
+  const primary = images.find((i: any) => i.is_primary);
+  return primary?.url ?? images[0].url;
+};
@@ -0,0 +1,77 @@
+// hooks/InventoryUtils.tsx
+
+import { supabase } from "@/supabaseClient";
+import { CartItemType } from "@/components/CartItem";
+
+/** Below this many units product cards switch to "Only N left". */
+export const LOW_STOCK_THRESHOLD = 5;
+
+/** A cart line that asks for more than the location has on hand. */
+export interface StockIssue {
+  id: string;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+/**
+ * Label for a product's stock level, or null when there is nothing worth
+ * calling out. A null stock_quantity means the location doesn't track it.
+ */
+export const stockLabel = (stock?: number | null): string | null => {
+  if (stock == null) return null;
+  if (stock <= 0) return "Out of stock";
+  if (stock <= LOW_STOCK_THRESHOLD) return `Only ${stock} left`;
+  return null;
+};
+
+export const isOutOfStock = (stock?: number | null) =>
+  stock != null && stock <= 0;
+
+/** Compares every cart line against the live stock at the location. */
+export const findStockIssues = async (
+  cart: CartItemType[],
+  locationId: string
+): Promise<StockIssue[]> => {
+  if (!cart.length) return [];
+  const { data, error } = await supabase
+    .from("products")
+    .select("id, stock_quantity")
+    .eq("location_id", locationId)
+    .in("id", cart.map((i) => i.id));
+  if (error) {
+    console.error("Stock check error:", error);
+    return [];
+  }
+
+  const stock = new Map<string, number | null>(
+    (data || []).map((p: any) => [p.id, p.stock_quantity])
+  );
+  return toStockIssues(
+    cart,
+    cart.map((i) => ({
+      product_id: i.id,
+      // a product missing from the location is as good as sold out
+      available: stock.has(i.id) ? stock.get(i.id) ?? null : 0,
+    }))
+  );
+};
+
+/**
+ * Turns `{ product_id, available }` pairs (from a stock lookup or the
+ * details of an out_of_stock checkout error) into per-line issues.
+ */
+export const toStockIssues = (
+  cart: CartItemType[],
+  levels: { product_id: string; available: number | null }[]
+): StockIssue[] =>
+  levels.flatMap(({ product_id, available }) => {
+    const item = cart.find((i) => i.id === product_id);
+    if (!item || available == null || item.quantity <= available) return [];
+    return [{
+      id: item.id,
+      name: item.name,
+      requested: item.quantity,
+      available: Math.max(0, available),
+    }];
+  });
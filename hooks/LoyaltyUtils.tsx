@@ -0,0 +1,107 @@
+// hooks/LoyaltyUtils.tsx
+
+import { supabase } from "@/supabaseClient";
+import { PriceBreakdown } from "@/hooks/PricingUtils";
+
+export interface LoyaltyTier {
+  name: string;
+  min_points: number; // lifetime points earned to reach the tier
+  multiplier?: number; // applied to the store's earn rate
+}
+
+/** The signed-in customer's points at a store, with the store's rules. */
+export interface LoyaltyStatus {
+  enabled: boolean;
+  points: number; // available to redeem
+  lifetime: number; // ever earned; decides the tier
+  tier: LoyaltyTier | null;
+  next_tier: LoyaltyTier | null;
+  points_per_dollar: number;
+  redeem_points: number; // points per reward step
+  redeem_value: number; // dollars per reward step
+  min_redeem: number;
+}
+
+export type LoyaltyKind = "earned" | "redeemed";
+
+/** One movement of a customer's points. */
+export interface LoyaltyEntry {
+  id: string;
+  points: number; // earned positive, spent negative
+  kind: LoyaltyKind;
+  order_id: string | null;
+  note: string | null;
+  created_at: string;
+  orders?: { order_number: string } | null;
+}
+
+export const LOYALTY_LABELS: Record<LoyaltyKind, string> = {
+  earned:   "Earned on order",
+  redeemed: "Redeemed on order",
+};
+
+export const formatPoints = (points: number) =>
+  `${points.toLocaleString()} ${Math.abs(points) === 1 ? "point" : "points"}`;
+
+export const fetchLoyaltyStatus = async (storeId: string): Promise<LoyaltyStatus | null> => {
+  const { data, error } = await supabase.rpc("loyalty_status", { p_store_id: storeId });
+  if (error) {
+    console.error("Error loading loyalty status:", error);
+    return null;
+  }
+  return {
+    ...data,
+    points:            Number(data.points) || 0,
+    lifetime:          Number(data.lifetime) || 0,
+    points_per_dollar: Number(data.points_per_dollar) || 0,
+    redeem_points:     Number(data.redeem_points) || 0,
+    redeem_value:      Number(data.redeem_value) || 0,
+    min_redeem:        Number(data.min_redeem) || 0,
+  } as LoyaltyStatus;
+};
+
+/** Newest movements first. */
+export const fetchLoyaltyHistory = async (
+  storeId: string,
+  limit = 20
+): Promise<LoyaltyEntry[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+  const { data, error } = await supabase
+    .from("loyalty_ledger")
+    .select("id, points, kind, order_id, note, created_at, orders (order_number)")
+    .eq("user_id", user.id)
+    .eq("store_id", storeId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) {
+    console.error("Error loading points history:", error);
+    return [];
+  }
+  return (data ?? []) as unknown as LoyaltyEntry[];
+};
+
+/** Dollars off for a number of points, counted in whole reward steps. */
+export const rewardValue = (status: LoyaltyStatus, points: number) =>
+  status.redeem_points > 0
+    ? Math.floor(points / status.redeem_points) * status.redeem_value
+    : 0;
+
+/**
+ * The most points worth redeeming on a quote: whole reward steps the
+ * customer holds, no more than what promotions leave of the subtotal,
+ * and nothing below the store's minimum. Mirrors place_order's checks.
+ */
+export const redeemablePoints = (status: LoyaltyStatus, pricing: PriceBreakdown): number => {
+  if (!status.enabled || status.redeem_points <= 0 || status.redeem_value <= 0) return 0;
+  const promotions = pricing.discounts
+    .filter((d) => !d.points)
+    .reduce((sum, d) => sum + +d.amount, 0);
+  const discountable = Math.max(pricing.subtotal - promotions, 0);
+  const steps = Math.min(
+    Math.floor(status.points / status.redeem_points),
+    Math.floor(discountable / status.redeem_value + 1e-9)
+  );
+  const points = steps * status.redeem_points;
+  return points >= Math.max(status.min_redeem, status.redeem_points) ? points : 0;
+};
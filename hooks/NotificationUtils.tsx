@@ -0,0 +1,35 @@
+// hooks/NotificationUtils.tsx
+
+import { supabase } from "@/supabaseClient";
+
+/** An in-app message, e.g. a recurring order reminder. */
+export interface UserNotification {
+  id: string;
+  title: string;
+  body: string;
+  order_id: string | null;
+  created_at: string;
+  read_at: string | null;
+}
+
+export const fetchUnreadNotifications = async (): Promise<UserNotification[]> => {
+  const { data, error } = await supabase
+    .from("user_notifications")
+    .select("id, title, body, order_id, created_at, read_at")
+    .is("read_at", null)
+    .order("created_at", { ascending: false })
+    .limit(20);
+  if (error) {
+    console.error("Error loading notifications:", error);
+    return [];
+  }
+  return data ?? [];
+};
+
+export const markNotificationRead = async (id: string) => {
+  const { error } = await supabase
+    .from("user_notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("id", id);
+  if (error) console.error("Error marking notification read:", error);
+};
@@ -0,0 +1,58 @@
+// hooks/OrderChangeUtils.tsx
+
+import { supabase } from "@/supabaseClient";
+
+/** Orders can be changed by the customer until picking starts. */
+export const isEditable = (status: string) => status === "Pending";
+
+// user-facing text for the errors raised by cancel_order and edit_order
+const ORDER_CHANGE_ERRORS: Record<string, string> = {
+  not_authenticated: "Please log in to change your order.",
+  order_not_found:   "That order could not be found.",
+  order_locked:      "The store has started picking this order, so it can no longer be changed.",
+  cart_empty:        "Your order needs at least one item. Cancel it instead to remove everything.",
+  invalid_quantity:  "Some quantities are invalid.",
+  items_unavailable: "Only items already on the order can be changed.",
+  out_of_stock:      "There isn't enough stock for some of your changes.",
+  purchase_limit:    "Some items are over their purchase limit.",
+  too_many_items:    "Your order has more items than the store allows.",
+  below_minimum:     "Your order would be below the store's minimum.",
+  invalid_payment:   "Your store credit doesn't cover the new total.",
+};
+
+export const orderChangeErrorMessage = (code?: string | null) =>
+  (code && ORDER_CHANGE_ERRORS[code]) || "Something went wrong. Please try again.";
+
+/** What cancelling gave back to the customer. */
+export interface CancelResult {
+  balanceReturned: number;
+  pointsReturned: number;
+}
+
+/** Rejects with a user-facing message. */
+export const cancelOrder = async (orderId: string): Promise<CancelResult> => {
+  const { data, error } = await supabase.rpc("cancel_order", { p_order_id: orderId });
+  if (error) {
+    console.error("cancel_order error:", error);
+    throw new Error(orderChangeErrorMessage(error.message));
+  }
+  return {
+    balanceReturned: Number(data?.balance_returned) || 0,
+    pointsReturned:  Number(data?.points_returned) || 0,
+  };
+};
+
+/** Replaces the order's quantities; lines left out are removed. */
+export const editOrder = async (
+  orderId: string,
+  items: { product_id: string; quantity: number }[]
+): Promise<void> => {
+  const { error } = await supabase.rpc("edit_order", {
+    p_order_id: orderId,
+    p_items: items,
+  });
+  if (error) {
+    console.error("edit_order error:", error);
+    throw new Error(orderChangeErrorMessage(error.message));
+  }
+};
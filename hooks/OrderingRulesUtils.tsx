@@ -0,0 +1,138 @@
+// hooks/OrderingRulesUtils.tsx
+
+import { supabase } from "@/supabaseClient";
+import { CartItemType } from "@/components/CartItem";
+
+/** What a location accepts online; null limits are not enforced. */
+export interface OrderingRules {
+  min_subtotal: number | null;
+  max_items: number | null;
+  max_per_product: number | null;
+  paused: boolean;
+  paused_message: string | null;
+}
+
+/** A cart line over its purchase limit. */
+export interface PurchaseLimit {
+  id: string;
+  name: string;
+  requested: number;
+  limit: number;
+}
+
+/** Everything keeping a cart from checking out under the rules. */
+export interface RuleViolations {
+  paused: string | null; // the store's message, or a default
+  shortBy: number | null; // how far the subtotal is below the minimum
+  overItems: number | null; // how many items over the cap
+  overLimit: PurchaseLimit[];
+}
+
+export const NO_VIOLATIONS: RuleViolations = {
+  paused: null,
+  shortBy: null,
+  overItems: null,
+  overLimit: [],
+};
+
+export const PAUSED_MESSAGE =
+  "Online ordering is paused right now. Please try again shortly.";
+
+/** The rules in force at a location, or null when its store sets none. */
+export const fetchOrderingRules = async (
+  locationId: string
+): Promise<OrderingRules | null> => {
+  const { data, error } = await supabase.rpc("ordering_rules", {
+    p_location_id: locationId,
+  });
+  if (error) {
+    console.error("Error loading ordering rules:", error);
+    return null;
+  }
+  return data as OrderingRules | null;
+};
+
+/** Each cart product's own purchase limit, where it has one. */
+export const fetchPurchaseLimits = async (
+  cart: CartItemType[],
+  locationId: string
+): Promise<Record<string, number>> => {
+  if (!cart.length) return {};
+  const { data, error } = await supabase
+    .from("products")
+    .select("id, max_per_order")
+    .eq("location_id", locationId)
+    .in("id", cart.map((i) => i.id))
+    .not("max_per_order", "is", null);
+  if (error) {
+    console.error("Purchase limit check error:", error);
+    return {};
+  }
+  return Object.fromEntries((data || []).map((p: any) => [p.id, Number(p.max_per_order)]));
+};
+
+/** Items as the rules count them: units, with each weighed line as one. */
+export const countItems = (cart: CartItemType[]): number =>
+  cart.reduce((sum, i) => sum + (i.sold_by_weight ? 1 : i.quantity), 0);
+
+/**
+ * The most of `item` one order may hold: the product's own limit and,
+ * for counted products, the store-wide one. Null when unlimited.
+ */
+export const lineLimit = (
+  item: CartItemType,
+  rules: OrderingRules | null,
+  limits: Record<string, number>
+): number | null => {
+  const caps = [
+    limits[item.id],
+    item.sold_by_weight ? null : rules?.max_per_product,
+  ].filter((c): c is number => c != null);
+  return caps.length ? Math.min(...caps) : null;
+};
+
+/** Checks a cart the same way checkout will. */
+export const checkOrderingRules = (
+  cart: CartItemType[],
+  subtotal: number,
+  rules: OrderingRules | null,
+  limits: Record<string, number>
+): RuleViolations => {
+  if (!rules && !Object.keys(limits).length) return NO_VIOLATIONS;
+  const items = countItems(cart);
+  const minimum = rules?.min_subtotal != null ? Number(rules.min_subtotal) : null;
+  return {
+    paused: rules?.paused ? rules.paused_message || PAUSED_MESSAGE : null,
+    shortBy: minimum != null && subtotal < minimum ? minimum - subtotal : null,
+    overItems: rules?.max_items != null && items > rules.max_items ? items - rules.max_items : null,
+    overLimit: cart.flatMap((item) => {
+      const limit = lineLimit(item, rules, limits);
+      return limit != null && item.quantity > limit
+        ? [{ id: item.id, name: item.name, requested: item.quantity, limit }]
+        : [];
+    }),
+  };
+};
+
+export const hasViolations = (v: RuleViolations) =>
+  !!v.paused || v.shortBy != null || v.overItems != null || v.overLimit.length > 0;
+
+/** Staff: pause or resume online orders for a store, or one location. */
+export const setOrdersPaused = async (
+  storeId: string,
+  paused: boolean,
+  message?: string | null,
+  locationId?: string | null
+): Promise<boolean> => {
+  const { error } = await supabase.rpc("set_orders_paused", {
+    p_store_id: storeId,
+    p_paused: paused,
+    p_message: message ?? null,
+    p_location_id: locationId ?? null,
+  });
+  if (error) {
+    console.error("set_orders_paused error:", error);
+    return false;
+  }
+  return true;
+};
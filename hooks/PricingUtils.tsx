@@ -0,0 +1,147 @@
+// hooks/PricingUtils.tsx
+
+import { supabase } from "@/supabaseClient";
+import { CartItemType } from "@/components/CartItem";
+
+export interface TaxLine {
+  category: string;
+  label: string;
+  rate: number;
+  amount: number;
+}
+
+export interface DiscountLine {
+  promotion_id: string | null; // null for a points reward
+  code: string | null;
+  label: string;
+  amount: number;
+  points?: number; // loyalty points redeemed for this line
+}
+
+export interface FeeLine {
+  label: string;
+  amount: number;
+}
+
+/** Itemised totals as produced by the `price_cart` RPC. */
+export interface PriceBreakdown {
+  subtotal: number;
+  discounts: DiscountLine[];
+  discount: number;
+  promo_error?: string | null;
+  taxes: TaxLine[];
+  tax: number;
+  fees: FeeLine[];
+  service_fee: number;
+  tip?: number; // picker tip, included in total
+  total: number;
+  estimated?: boolean; // weighed items not yet on the scale
+}
+
+// user-facing text for the promo_error values returned by price_cart
+export const PROMO_ERRORS: Record<string, string> = {
+  promo_not_found:        "That promo code doesn't exist.",
+  promo_inactive:         "That promo code is no longer active.",
+  promo_not_started:      "That promo code isn't active yet.",
+  promo_expired:          "That promo code has expired.",
+  promo_min_subtotal:     "Your cart doesn't meet the minimum for that code.",
+  promo_limit_reached:    "That promo code has already been used.",
+  promo_first_order_only: "That promo code is only valid on your first order.",
+  promo_not_applicable:   "That promo code doesn't apply to anything in your cart.",
+};
+
+/** A cart line whose catalogue price moved since it was added. */
+export interface PriceChange {
+  id: string;
+  name: string;
+  oldPrice: number;
+  newPrice: number;
+}
+
+/**
+ * Turns `{ product_id, price }` pairs (from a price lookup or the details
+ * of a price_changed checkout error) into per-line changes.
+ */
+export const toPriceChanges = (
+  cart: CartItemType[],
+  prices: { product_id: string; price: number }[]
+): PriceChange[] =>
+  prices.flatMap(({ product_id, price }) => {
+    const item = cart.find((i) => i.id === product_id);
+    if (!item || +item.price === +price) return [];
+    return [{ id: item.id, name: item.name, oldPrice: +item.price, newPrice: +price }];
+  });
+
+/** Re-reads every cart line's price from the catalogue. */
+export const findPriceChanges = async (
+  cart: CartItemType[],
+  locationId: string
+): Promise<PriceChange[]> => {
+  if (!cart.length) return [];
+  const { data, error } = await supabase
+    .from("products")
+    .select("id, price")
+    .eq("location_id", locationId)
+    .in("id", cart.map((i) => i.id));
+  if (error) {
+    console.error("Price check error:", error);
+    return [];
+  }
+  return toPriceChanges(
+    cart,
+    (data || []).map((p: any) => ({ product_id: p.id, price: p.price }))
+  );
+};
+
+/** Asks the pricing engine for the breakdown of the current cart. */
+export const quoteCart = async (
+  locationId: string,
+  cart: CartItemType[],
+  slotTime?: string | null,
+  promoCode?: string | null,
+  redeemPoints = 0
+): Promise<PriceBreakdown | null> => {
+  const { data, error } = await supabase.rpc("price_cart", {
+    p_location_id: locationId,
+    p_items: cart.map((i) => ({ product_id: i.id, quantity: i.quantity })),
+    p_slot_time: slotTime ?? null,
+    p_promo_code: promoCode ?? null,
+    p_redeem_points: redeemPoints,
+  });
+  if (error) {
+    console.error("price_cart error:", error);
+    return null;
+  }
+  return data as PriceBreakdown;
+};
+
+/**
+ * Breakdown for an order row. Orders placed before the pricing engine
+ * only carry the tax and service fee totals, so those become single lines.
+ */
+export const orderBreakdown = (order: {
+  price_breakdown?: Partial<PriceBreakdown> | null;
+  total_amount?: number | null;
+  service_fee?: number | null;
+  tax?: number | null;
+}): PriceBreakdown => {
+  if (order.price_breakdown) {
+    return { discounts: [], discount: 0, ...order.price_breakdown } as PriceBreakdown;
+  }
+  const total = order.total_amount || 0;
+  const fee = order.service_fee || 0;
+  const tax = order.tax || 0;
+  return {
+    subtotal: total - fee - tax,
+    discounts: [],
+    discount: 0,
+    taxes: tax ? [{ category: "standard", label: "Tax", rate: 0, amount: tax }] : [],
+    tax,
+    fees: fee ? [{ label: "Service Fee", amount: fee }] : [],
+    service_fee: fee,
+    total,
+  };
+};
+
+export const formatRate = (rate: number) =>
+  `${+(rate * 100).toFixed(3)}%`;
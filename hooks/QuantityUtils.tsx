@@ -0,0 +1,56 @@
+// hooks/QuantityUtils.tsx
+
+import { supabase } from "@/supabaseClient";
+import { PriceBreakdown } from "@/hooks/PricingUtils";
+
+/** The fields that decide how a product's quantity moves and reads. */
+export interface Measured {
+  unit?: string | null;
+  sold_by_weight?: boolean | null;
+  weight_step?: number | null;
+}
+
+const DEFAULT_WEIGHT_STEP = 0.25;
+
+/** How much one tap on +/- changes: the weight step, or one unit. */
+export const quantityStep = (item: Measured): number =>
+  item.sold_by_weight ? Number(item.weight_step) || DEFAULT_WEIGHT_STEP : 1;
+
+// weights are stored to the gram-ish precision of numeric(10, 3)
+export const roundQuantity = (quantity: number) =>
+  Math.round(quantity * 1000) / 1000;
+
+/** "3" for counted items, "1.25 lb" for weighed ones. */
+export const formatQuantity = (item: Measured, quantity: number): string =>
+  item.sold_by_weight
+    ? `${roundQuantity(quantity)} ${item.unit || "lb"}`
+    : `${quantity}`;
+
+/** Price suffix for weighed items, e.g. "/ lb". */
+export const priceSuffix = (item: Measured): string =>
+  item.sold_by_weight ? ` / ${item.unit || "lb"}` : "";
+
+// user-facing text for the errors raised by the record_weight RPC
+const WEIGHT_ERRORS: Record<string, string> = {
+  not_authorized:     "Only store staff can record weights.",
+  order_not_found:    "That order could not be found.",
+  order_closed:       "This order has already been completed.",
+  not_sold_by_weight: "That item isn't sold by weight.",
+  invalid_quantity:   "Please enter a valid weight.",
+};
+
+/** Staff: record the weight on the scale. Resolves with the repriced order. */
+export const recordWeight = async (
+  orderItemId: string,
+  weight: number
+): Promise<PriceBreakdown> => {
+  const { data, error } = await supabase.rpc("record_weight", {
+    p_order_item_id: orderItemId,
+    p_weight:        weight,
+  });
+  if (error) {
+    console.error("record_weight error:", error);
+    throw new Error(WEIGHT_ERRORS[error.message] ?? "Failed to record weight.");
+  }
+  return data as PriceBreakdown;
+};
@@ -0,0 +1,197 @@
+// hooks/RecurringOrderUtils.tsx
+
+import { supabase } from "@/supabaseClient";
+import { SubstitutionPreference } from "@/hooks/SubstitutionUtils";
+
+export type Frequency = "weekly" | "biweekly" | "monthly";
+
+export type OccurrenceStatus = "scheduled" | "skipped" | "placed" | "failed";
+
+/** One line of a recurring order, in place_order's item shape. */
+export interface RecurringItem {
+  product_id: string;
+  quantity: number;
+  substitution?: SubstitutionPreference;
+  substitute_id?: string | null;
+  note?: string | null;
+}
+
+export interface RecurringOccurrence {
+  id: string;
+  recurring_order_id: string;
+  pickup_on: string; // yyyy-mm-dd
+  status: OccurrenceStatus;
+  items: RecurringItem[] | null; // a one-off edit; null uses the subscription's
+  order_id: string | null;
+  failure: string | null;
+}
+
+export interface RecurringOrder {
+  id: string;
+  location_id: string;
+  frequency: Frequency;
+  slot_day: number;
+  slot_time: string;
+  items: RecurringItem[];
+  next_pickup_on: string;
+  active: boolean;
+  locations?: { name: string } | null;
+  recurring_order_occurrences: RecurringOccurrence[];
+}
+
+// a subscription as the select in fetchRecurringOrders returns it
+interface RecurringOrderRow {
+  id: string;
+  location_id: string;
+  frequency: Frequency;
+  slot_day: number;
+  slot_time: string;
+  items: RecurringItem[];
+  next_pickup_on: string;
+  active: boolean;
+  // a to-one join, though the client types it as a list
+  locations: { name: string } | { name: string }[] | null;
+  recurring_order_occurrences: RecurringOccurrence[] | null;
+}
+
+const toRecurringOrder = (row: RecurringOrderRow): RecurringOrder => ({
+  id: row.id,
+  location_id: row.location_id,
+  frequency: row.frequency,
+  slot_day: row.slot_day,
+  slot_time: row.slot_time,
+  items: row.items ?? [],
+  next_pickup_on: row.next_pickup_on,
+  active: row.active,
+  locations: Array.isArray(row.locations) ? row.locations[0] ?? null : row.locations,
+  recurring_order_occurrences: row.recurring_order_occurrences ?? [],
+});
+
+export const FREQUENCY_LABELS: Record<Frequency, string> = {
+  weekly:   "Every week",
+  biweekly: "Every 2 weeks",
+  monthly:  "Every month",
+};
+
+export const DAY_NAMES = [
+  "Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday",
+];
+
+// user-facing text for the errors raised by create_recurring_order
+const RECURRING_ERRORS: Record<string, string> = {
+  not_authenticated: "Please log in to set up recurring orders.",
+  order_not_found:   "That order could not be found.",
+  invalid_frequency: "Please choose how often to repeat the order.",
+  slot_unavailable:  "That pickup time isn't offered on that day.",
+  payment_required:  "Recurring orders are charged to a saved card. Repeat an order paid by card.",
+};
+
+/** "Fri, Oct 24" for a yyyy-mm-dd date, read in local time. */
+export const formatPickupDate = (date: string) => {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+};
+
+export const formatSlotTime = (time: string) => {
+  const [h, m] = time.split(":").map(Number);
+  return `${h % 12 || 12}:${m.toString().padStart(2, "0")} ${h >= 12 ? "PM" : "AM"}`;
+};
+
+/** The occurrence the customer can still skip or edit, if any. */
+export const nextOccurrence = (order: RecurringOrder) =>
+  order.recurring_order_occurrences.find((o) => o.pickup_on === order.next_pickup_on) ?? null;
+
+/** Turns a past order into a subscription. Resolves with its id. */
+export const createRecurringOrder = async (
+  orderId: string,
+  frequency: Frequency,
+  slotDay: number,
+  slotTime: string
+): Promise<string> => {
+  const { data, error } = await supabase.rpc("create_recurring_order", {
+    p_order_id:  orderId,
+    p_frequency: frequency,
+    p_slot_day:  slotDay,
+    p_slot_time: slotTime,
+  });
+  if (error || !data) {
+    console.error("create_recurring_order error:", error);
+    throw new Error(RECURRING_ERRORS[error?.message ?? ""] ?? "Failed to set up recurring order.");
+  }
+  return data as string;
+};
+
+export const fetchRecurringOrders = async (): Promise<RecurringOrder[]> => {
+  const { data, error } = await supabase
+    .from("recurring_orders")
+    .select(`
+      id, location_id, frequency, slot_day, slot_time, items, next_pickup_on, active,
+      locations ( name ),
+      recurring_order_occurrences ( id, recurring_order_id, pickup_on, status, items, order_id, failure )
+    `)
+    .order("created_at", { ascending: false });
+  if (error) {
+    console.error("Error loading recurring orders:", error);
+    throw new Error("Failed to load recurring orders.");
+  }
+  return ((data ?? []) as RecurringOrderRow[]).map(toRecurringOrder);
+};
+
+/** Names and prices for the products a set of recurring lines refers to. */
+export const fetchRecurringProducts = async (items: RecurringItem[]) => {
+  const ids = [...new Set(items.map((i) => i.product_id))];
+  if (!ids.length) return {};
+  const { data, error } = await supabase
+    .from("products")
+    .select("id, name, price, unit, sold_by_weight, weight_step")
+    .in("id", ids);
+  if (error) {
+    console.error("Error loading products:", error);
+    return {};
+  }
+  return Object.fromEntries((data ?? []).map((p) => [p.id, p]));
+};
+
+const updateOccurrence = async (
+  occurrence: RecurringOccurrence,
+  patch: Partial<Pick<RecurringOccurrence, "status" | "items">>
+) => {
+  const { error } = await supabase
+    .from("recurring_order_occurrences")
+    .update(patch)
+    .eq("id", occurrence.id);
+  if (error) {
+    console.error("Error updating occurrence:", error);
+    throw new Error("This order can no longer be changed.");
+  }
+};
+
+export const setOccurrenceSkipped = (occurrence: RecurringOccurrence, skipped: boolean) =>
+  updateOccurrence(occurrence, { status: skipped ? "skipped" : "scheduled" });
+
+/** Changes the items of one occurrence only; the subscription is untouched. */
+export const setOccurrenceItems = (occurrence: RecurringOccurrence, items: RecurringItem[]) =>
+  updateOccurrence(occurrence, { items });
+
+export const setRecurringActive = async (id: string, active: boolean) => {
+  const { error } = await supabase
+    .from("recurring_orders")
+    .update({ active, updated_at: new Date().toISOString() })
+    .eq("id", id);
+  if (error) {
+    console.error("Error updating recurring order:", error);
+    throw new Error("Failed to update recurring order.");
+  }
+};
+
+export const cancelRecurringOrder = async (id: string) => {
+  const { error } = await supabase.from("recurring_orders").delete().eq("id", id);
+  if (error) {
+    console.error("Error cancelling recurring order:", error);
+    throw new Error("Failed to cancel recurring order.");
+  }
+};
@@ -0,0 +1,182 @@
+// hooks/ScheduleUtils.tsx
+
+import { supabase } from "@/supabaseClient";
+
+/** One date of a location's pickup schedule. */
+export interface PickupDay {
+  date: string; // "YYYY-MM-DD"
+  closed: boolean; // no slots offered that day
+  reason: string | null; // from the day's override, if any
+  overridden: boolean; // staff changed the day from the weekly template
+}
+
+/** A slot as stored in available_hours; capacity null means unlimited. */
+export interface ScheduleSlot {
+  time: string; // "HH:MM"
+  capacity: number | null;
+}
+
+/** A staff change to one date at one location. */
+export interface PickupOverride {
+  id: string;
+  location_id: string;
+  override_date: string;
+  closed: boolean;
+  available_hours: ScheduleSlot[] | null;
+  reason: string | null;
+}
+
+// user-facing text for the errors raised by set_pickup_override
+const SCHEDULE_ERRORS: Record<string, string> = {
+  not_authorized:     "Only staff can change the pickup schedule.",
+  location_not_found: "That location could not be found.",
+  invalid_date:       "Pick today or a later date.",
+  invalid_hours:      "Choose at least one time, each with a valid capacity.",
+};
+
+export const scheduleErrorMessage = (code?: string | null) =>
+  (code && SCHEDULE_ERRORS[code]) || "Something went wrong. Please try again.";
+
+/** Shown for a closed day when staff gave no reason. */
+export const closedLabel = (day: PickupDay) => day.reason || "Closed";
+
+/** Which of the next `days` dates a location is open, and why not. */
+export const fetchPickupDays = async (
+  locationId: string,
+  from: string,
+  days = 7
+): Promise<PickupDay[]> => {
+  const { data, error } = await supabase.rpc("pickup_days", {
+    p_location_id: locationId,
+    p_from: from,
+    p_days: days,
+  });
+  if (error) {
+    console.error("pickup_days error:", error);
+    return [];
+  }
+  return (data ?? []) as PickupDay[];
+};
+
+/** The weekly template's slots for each day of the week, Sunday first. */
+export const fetchWeeklyHours = async (
+  locationId: string
+): Promise<Record<number, ScheduleSlot[]>> => {
+  const { data, error } = await supabase
+    .from("location_pickup_schedules")
+    .select("day_of_week, available_hours")
+    .eq("location_id", locationId);
+  if (error) {
+    console.error("Error loading the weekly schedule:", error);
+    return {};
+  }
+  return Object.fromEntries(
+    (data ?? []).map((row) => [row.day_of_week, (row.available_hours ?? []) as ScheduleSlot[]])
+  );
+};
+
+/** Overrides from `from` on, earliest first. */
+export const fetchPickupOverrides = async (
+  locationId: string,
+  from: string
+): Promise<PickupOverride[]> => {
+  const { data, error } = await supabase
+    .from("location_pickup_overrides")
+    .select("id, location_id, override_date, closed, available_hours, reason")
+    .eq("location_id", locationId)
+    .gte("override_date", from)
+    .order("override_date");
+  if (error) {
+    console.error("Error loading schedule overrides:", error);
+    return [];
+  }
+  return (data ?? []) as PickupOverride[];
+};
+
+/**
+ * Staff: closes a date, or replaces its slots with `hours`. Resolves
+ * with how many orders were already booked for it; rejects with a
+ * user-facing message.
+ */
+export const setPickupOverride = async (
+  locationId: string,
+  date: string,
+  closed: boolean,
+  hours: ScheduleSlot[] | null,
+  reason?: string | null
+): Promise<number> => {
+  const { data, error } = await supabase.rpc("set_pickup_override", {
+    p_location_id: locationId,
+    p_date: date,
+    p_closed: closed,
+    p_hours: closed ? null : hours,
+    p_reason: reason ?? null,
+  });
+  if (error) {
+    console.error("set_pickup_override error:", error);
+    throw new Error(scheduleErrorMessage(error.message));
+  }
+  return Number(data?.booked) || 0;
+};
+
+/** Staff: puts a date back on the weekly template. */
+export const clearPickupOverride = async (locationId: string, date: string): Promise<boolean> => {
+  const { error } = await supabase.rpc("clear_pickup_override", {
+    p_location_id: locationId,
+    p_date: date,
+  });
+  if (error) {
+    console.error("clear_pickup_override error:", error);
+    return false;
+  }
+  return true;
+};
+
+/** How long a location's pickup windows are and how soon a cart can be ready. */
+export interface PickupTiming {
+  slot_minutes: number;
+  lead_minutes: number;
+}
+
+/** Counts the cart's units against each product's prep time. */
+export const fetchPickupTiming = async (
+  locationId: string,
+  cart: { id: string; quantity: number }[] = []
+): Promise<PickupTiming | null> => {
+  const { data, error } = await supabase.rpc("pickup_timing", {
+    p_location_id: locationId,
+    p_items: cart.map((i) => ({ product_id: i.id, quantity: i.quantity })),
+  });
+  if (error || !data) {
+    console.error("pickup_timing error:", error);
+    return null;
+  }
+  return {
+    slot_minutes: Number(data.slot_minutes) || 60,
+    lead_minutes: Number(data.lead_minutes) || 0,
+  };
+};
+
+/** The earliest a window can start for a cart with this timing. */
+export const earliestPickup = (timing: PickupTiming | null) =>
+  new Date(Date.now() + (timing?.lead_minutes ?? 0) * 60 * 1000);
+
+/** Staff: a location's window length, base lead time and per-item prep time. */
+export const setPickupTiming = async (
+  locationId: string,
+  slotMinutes: number,
+  leadMinutes: number,
+  prepMinutesPerItem: number
+): Promise<boolean> => {
+  const { error } = await supabase.rpc("set_pickup_timing", {
+    p_location_id: locationId,
+    p_slot_minutes: slotMinutes,
+    p_lead_minutes: leadMinutes,
+    p_prep_minutes_per_item: prepMinutesPerItem,
+  });
+  if (error) {
+    console.error("set_pickup_timing error:", error);
+    return false;
+  }
+  return true;
+};
@@ -0,0 +1,265 @@
+// hooks/ShoppingListUtils.tsx
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { supabase } from "@/supabaseClient";
+import { Product } from "@/components/ProductCard";
+import { addToCart } from "@/hooks/CartUtils";
+
+export interface ShoppingList {
+  id: string;
+  owner_id: string;
+  store_id: string | null;
+  name: string;
+  share_token: string;
+  updated_at: string;
+}
+
+/** Catalogue fields a list shows; images come from `image_data`. */
+export type ListProduct = Omit<Product, "image_url"> & {
+  image_data?: any;
+  sold_by_weight?: boolean;
+  weight_step?: number | null;
+};
+
+/** A product, or free text ("milk") still to be matched to one. */
+export interface ShoppingListItem {
+  id: string;
+  list_id: string;
+  product_id: string | null;
+  text: string | null;
+  quantity: number;
+  products?: ListProduct | null;
+}
+
+// a list as the select in fetchList returns it
+interface ListRow extends ShoppingList {
+  shopping_list_items:
+    | (Omit<ShoppingListItem, "products"> & {
+        created_at: string;
+        // a to-one join, though the client types it as a list
+        products: ListProduct | ListProduct[] | null;
+      })[]
+    | null;
+}
+
+export interface ListToCartResult {
+  added: number;
+  unmatched: string[]; // free-text lines with no product at this location
+}
+
+// matches app.json "scheme"; expo-router maps the path to app/ShoppingList.tsx
+const SHARE_URL = "marketlift://ShoppingList";
+
+// user-facing text for the errors raised by join_shopping_list
+const LIST_ERRORS: Record<string, string> = {
+  not_authenticated: "Please log in to open shared lists.",
+  list_not_found:    "That list link is no longer valid.",
+};
+
+const getUserId = async (): Promise<string | null> => {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id ?? null;
+};
+
+const getLocationId = async (): Promise<string | null> => {
+  const sel = await AsyncStorage.getItem("selectedLocation");
+  return sel ? JSON.parse(sel)?.id ?? null : null;
+};
+
+export const itemLabel = (item: ShoppingListItem) =>
+  item.products?.name ?? item.text ?? "Item";
+
+export const shareLink = (list: ShoppingList) =>
+  `${SHARE_URL}?token=${list.share_token}`;
+
+/** Lists the user owns or has joined, most recently changed first. */
+export const fetchLists = async (): Promise<ShoppingList[]> => {
+  const { data, error } = await supabase
+    .from("shopping_lists")
+    .select("id, owner_id, store_id, name, share_token, updated_at")
+    .order("updated_at", { ascending: false });
+  if (error) {
+    console.error("Error loading lists:", error);
+    throw new Error("Failed to load your lists.");
+  }
+  return data ?? [];
+};
+
+export const createList = async (name: string): Promise<ShoppingList> => {
+  const userId = await getUserId();
+  if (!userId) throw new Error("Please log in to create lists.");
+  const storeId = await AsyncStorage.getItem("selected_store_id");
+  const { data, error } = await supabase
+    .from("shopping_lists")
+    .insert([{ owner_id: userId, store_id: storeId, name: name.trim() }])
+    .select("id, owner_id, store_id, name, share_token, updated_at")
+    .single();
+  if (error || !data) {
+    console.error("Error creating list:", error);
+    throw new Error("Failed to create list.");
+  }
+  return data;
+};
+
+export const deleteList = async (listId: string) => {
+  const { error } = await supabase.from("shopping_lists").delete().eq("id", listId);
+  if (error) {
+    console.error("Error deleting list:", error);
+    throw new Error("Failed to delete list.");
+  }
+};
+
+/** Leaves a list someone else shared. */
+export const leaveList = async (listId: string) => {
+  const userId = await getUserId();
+  const { error } = await supabase
+    .from("shopping_list_members")
+    .delete()
+    .eq("list_id", listId)
+    .eq("user_id", userId);
+  if (error) {
+    console.error("Error leaving list:", error);
+    throw new Error("Failed to leave list.");
+  }
+};
+
+/** Opens a share link: joins the list and resolves with its id. */
+export const joinList = async (shareToken: string): Promise<string> => {
+  const { data, error } = await supabase.rpc("join_shopping_list", {
+    p_share_token: shareToken,
+  });
+  if (error || !data) {
+    console.error("join_shopping_list error:", error);
+    throw new Error(LIST_ERRORS[error?.message ?? ""] ?? "Failed to open list.");
+  }
+  return data as string;
+};
+
+export const fetchList = async (
+  listId: string
+): Promise<{ list: ShoppingList; items: ShoppingListItem[] }> => {
+  const { data, error } = await supabase
+    .from("shopping_lists")
+    .select(`
+      id, owner_id, store_id, name, share_token, updated_at,
+      shopping_list_items (
+        id, list_id, product_id, text, quantity, created_at,
+        products ( id, name, price, unit, image_data, stock_quantity, sold_by_weight, weight_step )
+      )
+    `)
+    .eq("id", listId)
+    .single();
+  if (error || !data) {
+    console.error("Error loading list:", error);
+    throw new Error("Failed to load list.");
+  }
+  const { shopping_list_items, ...list } = data as ListRow;
+  const items = [...(shopping_list_items ?? [])]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map(({ created_at, products, ...item }): ShoppingListItem => ({
+      ...item,
+      products: Array.isArray(products) ? products[0] ?? null : products,
+    }));
+  return { list, items };
+};
+
+const touchList = (listId: string) =>
+  supabase
+    .from("shopping_lists")
+    .update({ updated_at: new Date().toISOString() })
+    .eq("id", listId);
+
+/** Adds a product, or a free-text line when `entry` is a string. */
+export const addListItem = async (
+  listId: string,
+  entry: ListProduct | string,
+  quantity = 1
+) => {
+  const row = typeof entry === "string"
+    ? { list_id: listId, text: entry.trim(), quantity }
+    // the name is kept so the line can still be matched if the product goes
+    : { list_id: listId, product_id: entry.id, text: entry.name, quantity };
+  const { error } = await supabase.from("shopping_list_items").insert([row]);
+  if (error) {
+    console.error("Error adding list item:", error);
+    throw new Error("Failed to add item.");
+  }
+  await touchList(listId);
+};
+
+export const updateListItem = async (
+  item: ShoppingListItem,
+  patch: Partial<Pick<ShoppingListItem, "product_id" | "text" | "quantity">>
+) => {
+  const { error } = await supabase
+    .from("shopping_list_items")
+    .update(patch)
+    .eq("id", item.id);
+  if (error) {
+    console.error("Error updating list item:", error);
+    throw new Error("Failed to update item.");
+  }
+  await touchList(item.list_id);
+};
+
+export const removeListItem = async (item: ShoppingListItem) => {
+  const { error } = await supabase
+    .from("shopping_list_items")
+    .delete()
+    .eq("id", item.id);
+  if (error) {
+    console.error("Error removing list item:", error);
+    throw new Error("Failed to remove item.");
+  }
+  await touchList(item.list_id);
+};
+
+/** Products at the selected location whose name contains `query`. */
+export const searchProducts = async (query: string): Promise<ListProduct[]> => {
+  const locationId = await getLocationId();
+  if (!locationId || query.trim().length < 2) return [];
+  const { data, error } = await supabase
+    .from("products")
+    .select("id, name, price, unit, image_data, stock_quantity, sold_by_weight, weight_step")
+    .eq("location_id", locationId)
+    .ilike("name", `%${query.trim()}%`)
+    .order("name")
+    .limit(20);
+  if (error) {
+    console.error("Product search error:", error);
+    return [];
+  }
+  return data ?? [];
+};
+
+/**
+ * Puts the whole list in the cart. Every line is matched to a product
+ * at the selected location; lines with no match are reported back.
+ */
+export const addListToCart = async (listId: string): Promise<ListToCartResult> => {
+  const locationId = await getLocationId();
+  if (!locationId) throw new Error("Please select a location first.");
+
+  const { data, error } = await supabase.rpc("resolve_shopping_list", {
+    p_list_id:     listId,
+    p_location_id: locationId,
+  });
+  if (error) {
+    console.error("resolve_shopping_list error:", error);
+    throw new Error("Failed to add list to cart.");
+  }
+
+  const { items } = await fetchList(listId);
+  const labels = new Map(items.map((i) => [i.id, itemLabel(i)]));
+
+  let added = 0;
+  const unmatched: string[] = [];
+  for (const row of (data ?? []) as { item_id: string; quantity: number; product: ListProduct | null }[]) {
+    if (!row.product) {
+      unmatched.push(labels.get(row.item_id) ?? "Item");
+      continue;
+    }
+    if ((await addToCart(row.product, row.quantity)) > 0) added++;
+  }
+  return { added, unmatched };
+};
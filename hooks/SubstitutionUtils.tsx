@@ -0,0 +1,103 @@
+// hooks/SubstitutionUtils.tsx
+
+import { supabase } from "@/supabaseClient";
+import { PriceBreakdown } from "@/hooks/PricingUtils";
+
+export type SubstitutionPreference =
+  | "none"
+  | "same_brand"
+  | "store_choice"
+  | "specific";
+
+/** What the customer wants done if a cart line is unavailable. */
+export interface SubstitutionChoice {
+  preference: SubstitutionPreference;
+  product_id?: string | null;   // "specific" only: the chosen alternate
+  product_name?: string | null;
+}
+
+export type SubstitutionStatus = "pending" | "approved" | "rejected";
+
+export const DEFAULT_SUBSTITUTION: SubstitutionChoice = { preference: "store_choice" };
+
+export const SUBSTITUTION_LABELS: Record<SubstitutionPreference, string> = {
+  none:         "Don't substitute",
+  same_brand:   "Same brand, different size",
+  store_choice: "Store's choice",
+  specific:     "Specific alternate",
+};
+
+// user-facing text for the errors raised by the substitution RPCs
+const SUBSTITUTION_ERRORS: Record<string, string> = {
+  not_authorized:           "Only store staff can record substitutions.",
+  order_not_found:          "That order could not be found.",
+  order_closed:             "This order has already been completed.",
+  substitution_not_allowed: "The customer asked for no substitutions.",
+  substitution_not_pending: "This substitution has already been answered.",
+  invalid_quantity:         "Please enter a valid quantity.",
+  items_unavailable:        "That product isn't sold at this location.",
+  out_of_stock:             "There isn't enough of that product in stock.",
+};
+
+export const describeSubstitution = (choice?: SubstitutionChoice | null) => {
+  const c = choice ?? DEFAULT_SUBSTITUTION;
+  if (c.preference === "specific" && c.product_name) {
+    return `Substitute with ${c.product_name}`;
+  }
+  return SUBSTITUTION_LABELS[c.preference];
+};
+
+/** Other in-stock products from the same category at the location. */
+export const fetchAlternates = async (productId: string, locationId: string) => {
+  const { data: product } = await supabase
+    .from("products")
+    .select("category_id")
+    .eq("id", productId)
+    .single();
+  if (!product?.category_id) return [];
+
+  const { data, error } = await supabase
+    .from("products")
+    .select("id, name, price, unit, stock_quantity")
+    .eq("location_id", locationId)
+    .eq("category_id", product.category_id)
+    .neq("id", productId)
+    .or("stock_quantity.is.null,stock_quantity.gt.0")
+    .order("name");
+  if (error) {
+    console.error("Error loading alternates:", error);
+    return [];
+  }
+  return data ?? [];
+};
+
+const rpc = async (fn: string, args: Record<string, unknown>) => {
+  const { data, error } = await supabase.rpc(fn, args);
+  if (error) {
+    console.error(`${fn} error:`, error);
+    throw new Error(SUBSTITUTION_ERRORS[error.message] ?? "Something went wrong.");
+  }
+  return data;
+};
+
+/** Staff: swap an order line for another product, pending customer approval. */
+export const recordSubstitution = (
+  orderItemId: string,
+  productId: string,
+  quantity: number
+) =>
+  rpc("record_substitution", {
+    p_order_item_id: orderItemId,
+    p_product_id:    productId,
+    p_quantity:      quantity,
+  }).then(() => undefined);
+
+/** Customer: accept or refuse a substitute. Resolves with the repriced order. */
+export const respondToSubstitution = async (
+  orderItemId: string,
+  approve: boolean
+): Promise<PriceBreakdown> =>
+  (await rpc("respond_to_substitution", {
+    p_order_item_id: orderItemId,
+    p_approve:       approve,
+  })) as PriceBreakdown;
@@ -0,0 +1,145 @@
+// hooks/TimeZoneUtils.tsx
+
+import { supabase } from "@/supabaseClient";
+
+/**
+ * Pickup times belong to the store, not the device: a slot's "HH:MM"
+ * and date are wall-clock values in its location's IANA zone. These
+ * helpers turn them into instants and back without going through the
+ * device's own zone.
+ */
+
+// used when a location's zone can't be loaded
+export const FALLBACK_TIME_ZONE = "UTC";
+
+const zoneCache = new Map<string, string>();
+
+/** A location's IANA zone, e.g. "America/Chicago". */
+export const fetchLocationTimeZone = async (locationId: string): Promise<string> => {
+  const cached = zoneCache.get(locationId);
+  if (cached) return cached;
+  const { data, error } = await supabase
+    .from("locations")
+    .select("timezone")
+    .eq("id", locationId)
+    .maybeSingle();
+  if (error || !data?.timezone) {
+    console.error("Error loading location time zone:", error);
+    return FALLBACK_TIME_ZONE;
+  }
+  zoneCache.set(locationId, data.timezone);
+  return data.timezone;
+};
+
+// wall-clock parts of an instant in a zone
+const partsInZone = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+};
+
+// how far the zone's wall clock is ahead of UTC at an instant
+const offsetMs = (date: Date, timeZone: string) => {
+  const p = partsInZone(date, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - date.getTime();
+};
+
+/** "2026-06-05": the date an instant falls on in a zone. */
+export const dateKeyInZone = (date: Date, timeZone: string): string => {
+  const p = partsInZone(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+};
+
+/** The instant a zone's clock reads `time` ("HH:MM") on `dateKey`. */
+export const zonedTime = (dateKey: string, time: string, timeZone: string): Date => {
+  const [y, mo, d] = dateKey.split("-").map(Number);
+  const [h, mi] = time.split(":").map(Number);
+  const wall = Date.UTC(y, mo - 1, d, h, mi);
+  // the offset can differ either side of a DST change, so settle it twice
+  const first = wall - offsetMs(new Date(wall), timeZone);
+  return new Date(wall - offsetMs(new Date(first), timeZone));
+};
+
+/** The date key `days` after `dateKey`; calendar arithmetic, no zone. */
+export const addDaysToKey = (dateKey: string, days: number): string => {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  const next = new Date(Date.UTC(y, m - 1, d + days));
+  return next.toISOString().slice(0, 10);
+};
+
+/** 0 for Sunday, as in `location_pickup_schedules.day_of_week`. */
+export const weekdayOfKey = (dateKey: string): number => {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+};
+
+/** Formats a calendar date ("Monday", "Jun 5") with no zone shift. */
+export const formatDateKey = (dateKey: string, options: Intl.DateTimeFormatOptions) => {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d, 12)).toLocaleDateString("en-US", {
+    ...options,
+    timeZone: "UTC",
+  });
+};
+
+/** An instant as the store's clock shows it. */
+export const formatInZone = (
+  date: Date | string,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions
+) => new Date(date).toLocaleString("en-US", { ...options, timeZone });
+
+/** "2:00 PM" on the store's clock. */
+export const formatTimeInZone = (date: Date | string, timeZone: string) =>
+  formatInZone(date, timeZone, { hour: "numeric", minute: "2-digit" });
+
+/** The zone's short name at an instant, e.g. "CST", so times are never ambiguous. */
+export const zoneAbbreviation = (date: Date | string, timeZone: string): string => {
+  const part = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" })
+    .formatToParts(new Date(date))
+    .find((p) => p.type === "timeZoneName");
+  return part?.value ?? timeZone;
+};
+
+/** "Oct 18, 2026, 2:00 PM CDT" on the store's clock. */
+export const formatDateTimeInZone = (date: Date | string, timeZone: string) =>
+  `${formatInZone(date, timeZone, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  })} ${zoneAbbreviation(date, timeZone)}`;
+
+/** Staff: sets a location's zone; false when the server refuses it. */
+export const setLocationTimeZone = async (
+  locationId: string,
+  timeZone: string
+): Promise<boolean> => {
+  const { error } = await supabase.rpc("set_location_time_zone", {
+    p_location_id: locationId,
+    p_time_zone: timeZone,
+  });
+  if (error) {
+    console.error("set_location_time_zone error:", error);
+    return false;
+  }
+  zoneCache.set(locationId, timeZone);
+  return true;
+};
@@ -0,0 +1,61 @@
+// hooks/TipUtils.tsx
+
+import { supabase } from "@/supabaseClient";
+
+/** Whether a store takes tips and which percentages it suggests. */
+export interface TipSettings {
+  enabled: boolean;
+  presets: number[];
+}
+
+export type TipChoice =
+  | { kind: "none" }
+  | { kind: "percent"; percent: number }
+  | { kind: "custom"; amount: number };
+
+export const NO_TIP: TipChoice = { kind: "none" };
+
+const DEFAULT_PRESETS = [10, 15, 20];
+
+export const fetchTipSettings = async (storeId: string): Promise<TipSettings> => {
+  const { data, error } = await supabase
+    .from("store_settings")
+    .select("tipping_enabled, tip_presets")
+    .eq("store_id", storeId)
+    .maybeSingle();
+  if (error) {
+    console.error("Error loading tip settings:", error);
+    return { enabled: false, presets: DEFAULT_PRESETS };
+  }
+  return {
+    enabled: !!data?.tipping_enabled,
+    presets: (data?.tip_presets ?? DEFAULT_PRESETS).map(Number),
+  };
+};
+
+/** The tip in dollars; percentages apply to the subtotal after discounts. */
+export const tipAmount = (choice: TipChoice, base: number): number => {
+  if (choice.kind === "percent") return Math.round(base * choice.percent) / 100;
+  if (choice.kind === "custom") return Math.round(choice.amount * 100) / 100;
+  return 0;
+};
+
+export interface EmployeeTipTotal {
+  employee_id: string;
+  first_name: string | null;
+  last_name: string | null;
+  order_count: number;
+  tip_total: number;
+}
+
+/** Staff: tips per completing employee since `from`. */
+export const fetchEmployeeTipTotals = async (from: Date): Promise<EmployeeTipTotal[]> => {
+  const { data, error } = await supabase.rpc("employee_tip_totals", {
+    p_from: from.toISOString(),
+  });
+  if (error) {
+    console.error("Error loading tip totals:", error);
+    return [];
+  }
+  return (data ?? []) as EmployeeTipTotal[];
+};
@@ -0,0 +1,77 @@
+// hooks/WaitlistUtils.tsx
+
+import { supabase } from "@/supabaseClient";
+
+/**
+ * The signed-in customer's place on a slot's waitlist. While waiting
+ * `position` is their place in line; once a place opens they are given
+ * a hold on it until `hold_expires_at`.
+ */
+export interface WaitlistEntry {
+  time: string; // "HH:MM" as in available_hours
+  position: number | null;
+  hold_expires_at: string | null;
+}
+
+// user-facing text for the errors raised by join_pickup_waitlist
+const WAITLIST_ERRORS: Record<string, string> = {
+  not_authenticated:   "Please log in to join the waitlist.",
+  invalid_pickup_time: "That pickup time has already passed.",
+  slot_unavailable:    "That pickup slot is no longer offered.",
+  slot_not_full:       "A place just opened up in that slot. You can choose it now.",
+};
+
+export const waitlistErrorMessage = (code?: string | null) =>
+  (code && WAITLIST_ERRORS[code]) || "Something went wrong. Please try again.";
+
+/** The customer's waitlist entries at a location on a date. */
+export const fetchWaitlist = async (
+  locationId: string,
+  date: string
+): Promise<WaitlistEntry[]> => {
+  const { data, error } = await supabase.rpc("pickup_waitlist", {
+    p_location_id: locationId,
+    p_slot_date: date,
+  });
+  if (error) {
+    console.error("Error loading waitlist:", error);
+    return [];
+  }
+  return (data ?? []) as WaitlistEntry[];
+};
+
+/** Resolves with the customer's place in line; rejects with a user-facing message. */
+export const joinWaitlist = async (
+  locationId: string,
+  date: string,
+  time: string
+): Promise<number> => {
+  const { data, error } = await supabase.rpc("join_pickup_waitlist", {
+    p_location_id: locationId,
+    p_slot_date: date,
+    p_slot_time: time,
+  });
+  if (error || !data) {
+    console.error("join_pickup_waitlist error:", error);
+    throw new Error(waitlistErrorMessage(error?.message));
+  }
+  return data.position as number;
+};
+
+/** Leaves a slot's waitlist, letting go of any hold it was offered. */
+export const leaveWaitlist = async (
+  locationId: string,
+  date: string,
+  time: string
+): Promise<boolean> => {
+  const { error } = await supabase.rpc("leave_pickup_waitlist", {
+    p_location_id: locationId,
+    p_slot_date: date,
+    p_slot_time: time,
+  });
+  if (error) {
+    console.error("leave_pickup_waitlist error:", error);
+    return false;
+  }
+  return true;
+};
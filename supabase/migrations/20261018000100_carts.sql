@@ -0,0 +1,25 @@
+-- Server-side copy of each customer's cart so it follows them across
+-- devices and reinstalls. The app merges lines client-side (see
+-- hooks/CartUtils.tsx) and writes back guarded by `version`.
+
+create table if not exists public.carts (
+  user_id     uuid primary key references auth.users (id) on delete cascade,
+  location_id uuid references public.locations (id) on delete set null,
+  lines       jsonb not null default '[]'::jsonb,
+  version     integer not null default 1,
+  updated_at  timestamptz not null default now()
+);
+
+alter table public.carts enable row level security;
+
+create policy "carts_owner_select" on public.carts
+  for select using (auth.uid() = user_id);
+
+create policy "carts_owner_insert" on public.carts
+  for insert with check (auth.uid() = user_id);
+
+create policy "carts_owner_update" on public.carts
+  for update using (auth.uid() = user_id);
+
+create policy "carts_owner_delete" on public.carts
+  for delete using (auth.uid() = user_id);
@@ -0,0 +1,128 @@
+-- Checkout as a single transaction. `place_order` validates the cart,
+-- reserves the pickup slot and writes the order with its items, or does
+-- nothing at all. A client-supplied idempotency key makes retries and
+-- double taps return the order created by the first call.
+
+alter table public.orders
+  add column if not exists idempotency_key uuid;
+
+create unique index if not exists orders_user_idempotency_key
+  on public.orders (user_id, idempotency_key);
+
+create or replace function public.place_order(
+  p_idempotency_key uuid,
+  p_location_id     uuid,
+  p_payment_id      uuid,
+  p_pickup_time     timestamptz,
+  p_slot_day        integer,
+  p_slot_time       text,
+  p_items           jsonb -- [{ "product_id": uuid, "quantity": int }]
+) returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user        uuid := auth.uid();
+  v_order_id    uuid;
+  v_line_count  integer;
+  v_valid_count integer;
+  v_subtotal    numeric(10, 2);
+  v_tax         numeric(10, 2);
+  v_fee         numeric(10, 2) := 2.00;
+  v_hours       jsonb;
+  v_slot        jsonb;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  -- serialise calls sharing a key so the second one sees the first's order
+  perform pg_advisory_xact_lock(hashtext(v_user::text || p_idempotency_key::text));
+
+  select id into v_order_id
+    from orders
+   where user_id = v_user and idempotency_key = p_idempotency_key;
+  if found then
+    return v_order_id;
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'cart_empty';
+  end if;
+  if p_pickup_time is null or p_pickup_time <= now() then
+    raise exception 'invalid_pickup_time';
+  end if;
+  if not exists (select 1 from payments where id = p_payment_id and user_id = v_user) then
+    raise exception 'invalid_payment';
+  end if;
+
+  -- 1) validate items against the location's catalogue
+  select count(*), count(p.id), coalesce(sum(p.price * r.quantity), 0)
+    into v_line_count, v_valid_count, v_subtotal
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity integer)
+    left join products p
+      on p.id = r.product_id and p.location_id = p_location_id
+   where r.quantity > 0;
+
+  if v_line_count <> jsonb_array_length(p_items) then
+    raise exception 'invalid_quantity';
+  end if;
+  if v_valid_count <> v_line_count then
+    raise exception 'items_unavailable';
+  end if;
+
+  -- 2) reserve the pickup slot; the row lock stops two checkouts
+  --    taking the last place at once
+  select available_hours into v_hours
+    from location_pickup_schedules
+   where location_id = p_location_id and day_of_week = p_slot_day
+     for update;
+
+  select h into v_slot
+    from jsonb_array_elements(coalesce(v_hours, '[]'::jsonb)) h
+   where h ->> 'time' = p_slot_time;
+  if v_slot is null then
+    raise exception 'slot_unavailable';
+  end if;
+
+  if v_slot ->> 'capacity' is not null then
+    if (v_slot ->> 'capacity')::integer <= 0 then
+      raise exception 'slot_full';
+    end if;
+
+    update location_pickup_schedules
+       set available_hours = (
+         select jsonb_agg(
+                  case when h ->> 'time' = p_slot_time
+                       then jsonb_set(h, '{capacity}', to_jsonb((h ->> 'capacity')::integer - 1))
+                       else h end
+                  order by ord)
+           from jsonb_array_elements(v_hours) with ordinality as t(h, ord)
+       )
+     where location_id = p_location_id and day_of_week = p_slot_day;
+  end if;
+
+  -- 3) create the order and its items
+  v_tax := round(v_subtotal * 0.08, 2);
+
+  insert into orders (
+    user_id, location_id, total_amount, service_fee, tax, status,
+    barcode, payment_id, pickup_time, idempotency_key, created_at
+  ) values (
+    v_user, p_location_id, v_subtotal + v_tax + v_fee, v_fee, v_tax, 'Pending',
+    gen_random_uuid()::text, p_payment_id, p_pickup_time, p_idempotency_key, now()
+  )
+  returning id into v_order_id;
+
+  insert into order_items (order_id, product_id, quantity, unit_price)
+  select v_order_id, p.id, r.quantity, p.price
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity integer)
+    join products p on p.id = r.product_id;
+
+  return v_order_id;
+end;
+$$;
+
+grant execute on function public.place_order(uuid, uuid, uuid, timestamptz, integer, text, jsonb)
+  to authenticated;
@@ -0,0 +1,236 @@
+-- Pricing engine: per-location tax rates by product tax category and
+-- store-configured fee rules. `price_cart` is the single source of the
+-- itemised breakdown shown in the cart, stored on the order and shown
+-- again in OrderDetails.
+
+alter table public.products
+  add column if not exists tax_category text not null default 'standard';
+
+create table if not exists public.location_tax_rates (
+  location_id  uuid not null references public.locations (id) on delete cascade,
+  tax_category text not null,
+  label        text not null default 'Tax',
+  rate         numeric(6, 5) not null check (rate >= 0),
+  primary key (location_id, tax_category)
+);
+
+create table if not exists public.store_fee_rules (
+  id                   uuid primary key default gen_random_uuid(),
+  store_id             uuid not null references public.stores (id) on delete cascade,
+  location_id          uuid references public.locations (id) on delete cascade, -- null: every location
+  label                text not null,
+  amount               numeric(10, 2) not null check (amount >= 0),
+  waive_above_subtotal numeric(10, 2), -- free once the subtotal reaches this
+  slot_time            text,           -- "HH:MM": only charged for that pickup slot
+  active               boolean not null default true
+);
+
+alter table public.location_tax_rates enable row level security;
+alter table public.store_fee_rules enable row level security;
+
+create policy "location_tax_rates_read" on public.location_tax_rates
+  for select using (true);
+create policy "store_fee_rules_read" on public.store_fee_rules
+  for select using (true);
+
+-- keep today's behaviour (8% on everything, $2 service fee) until
+-- managers configure their own rules
+insert into public.location_tax_rates (location_id, tax_category, label, rate)
+select id, 'standard', 'Sales Tax', 0.08 from public.locations
+on conflict do nothing;
+
+insert into public.store_fee_rules (store_id, label, amount)
+select id, 'Service Fee', 2.00 from public.stores;
+
+alter table public.orders
+  add column if not exists price_breakdown jsonb;
+
+create or replace function public.price_cart(
+  p_location_id uuid,
+  p_items       jsonb, -- [{ "product_id": uuid, "quantity": int }]
+  p_slot_time   text default null
+) returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_store_id uuid;
+  v_subtotal numeric(10, 2);
+  v_taxes    jsonb;
+  v_tax      numeric(10, 2);
+  v_fees     jsonb;
+  v_fee      numeric(10, 2);
+begin
+  select store_id into v_store_id from locations where id = p_location_id;
+
+  select coalesce(sum(p.price * r.quantity), 0)
+    into v_subtotal
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity integer)
+    join products p on p.id = r.product_id and p.location_id = p_location_id;
+
+  -- one tax line per category so exempt groceries and e.g. alcohol
+  -- show separately
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'category', t.tax_category,
+           'label',    t.label,
+           'rate',     t.rate,
+           'amount',   t.amount
+         ) order by t.tax_category), '[]'::jsonb),
+         coalesce(sum(t.amount), 0)
+    into v_taxes, v_tax
+    from (
+      select p.tax_category, tr.label, tr.rate,
+             round(sum(p.price * r.quantity) * tr.rate, 2) as amount
+        from jsonb_to_recordset(p_items) as r(product_id uuid, quantity integer)
+        join products p on p.id = r.product_id and p.location_id = p_location_id
+        join location_tax_rates tr
+          on tr.location_id = p_location_id and tr.tax_category = p.tax_category
+       where tr.rate > 0
+       group by p.tax_category, tr.label, tr.rate
+    ) t;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'label',  f.label,
+           'amount', f.amount
+         ) order by f.label), '[]'::jsonb),
+         coalesce(sum(f.amount), 0)
+    into v_fees, v_fee
+    from store_fee_rules f
+   where f.store_id = v_store_id
+     and f.active
+     and (f.location_id is null or f.location_id = p_location_id)
+     and (f.slot_time is null or f.slot_time = p_slot_time)
+     and (f.waive_above_subtotal is null or v_subtotal < f.waive_above_subtotal);
+
+  return jsonb_build_object(
+    'subtotal',    v_subtotal,
+    'taxes',       v_taxes,
+    'tax',         v_tax,
+    'fees',        v_fees,
+    'service_fee', v_fee,
+    'total',       v_subtotal + v_tax + v_fee
+  );
+end;
+$$;
+
+grant execute on function public.price_cart(uuid, jsonb, text) to authenticated;
+
+create or replace function public.place_order(
+  p_idempotency_key uuid,
+  p_location_id     uuid,
+  p_payment_id      uuid,
+  p_pickup_time     timestamptz,
+  p_slot_day        integer,
+  p_slot_time       text,
+  p_items           jsonb -- [{ "product_id": uuid, "quantity": int }]
+) returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user        uuid := auth.uid();
+  v_order_id    uuid;
+  v_line_count  integer;
+  v_valid_count integer;
+  v_pricing     jsonb;
+  v_hours       jsonb;
+  v_slot        jsonb;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  -- serialise calls sharing a key so the second one sees the first's order
+  perform pg_advisory_xact_lock(hashtext(v_user::text || p_idempotency_key::text));
+
+  select id into v_order_id
+    from orders
+   where user_id = v_user and idempotency_key = p_idempotency_key;
+  if found then
+    return v_order_id;
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'cart_empty';
+  end if;
+  if p_pickup_time is null or p_pickup_time <= now() then
+    raise exception 'invalid_pickup_time';
+  end if;
+  if not exists (select 1 from payments where id = p_payment_id and user_id = v_user) then
+    raise exception 'invalid_payment';
+  end if;
+
+  -- 1) validate items against the location's catalogue
+  select count(*), count(p.id)
+    into v_line_count, v_valid_count
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity integer)
+    left join products p
+      on p.id = r.product_id and p.location_id = p_location_id
+   where r.quantity > 0;
+
+  if v_line_count <> jsonb_array_length(p_items) then
+    raise exception 'invalid_quantity';
+  end if;
+  if v_valid_count <> v_line_count then
+    raise exception 'items_unavailable';
+  end if;
+
+  -- 2) reserve the pickup slot; the row lock stops two checkouts
+  --    taking the last place at once
+  select available_hours into v_hours
+    from location_pickup_schedules
+   where location_id = p_location_id and day_of_week = p_slot_day
+     for update;
+
+  select h into v_slot
+    from jsonb_array_elements(coalesce(v_hours, '[]'::jsonb)) h
+   where h ->> 'time' = p_slot_time;
+  if v_slot is null then
+    raise exception 'slot_unavailable';
+  end if;
+
+  if v_slot ->> 'capacity' is not null then
+    if (v_slot ->> 'capacity')::integer <= 0 then
+      raise exception 'slot_full';
+    end if;
+
+    update location_pickup_schedules
+       set available_hours = (
+         select jsonb_agg(
+                  case when h ->> 'time' = p_slot_time
+                       then jsonb_set(h, '{capacity}', to_jsonb((h ->> 'capacity')::integer - 1))
+                       else h end
+                  order by ord)
+           from jsonb_array_elements(v_hours) with ordinality as t(h, ord)
+       )
+     where location_id = p_location_id and day_of_week = p_slot_day;
+  end if;
+
+  -- 3) create the order and its items, priced by the same engine the
+  --    cart used for its quote
+  v_pricing := price_cart(p_location_id, p_items, p_slot_time);
+
+  insert into orders (
+    user_id, location_id, total_amount, service_fee, tax, price_breakdown,
+    status, barcode, payment_id, pickup_time, idempotency_key, created_at
+  ) values (
+    v_user, p_location_id, (v_pricing ->> 'total')::numeric,
+    (v_pricing ->> 'service_fee')::numeric, (v_pricing ->> 'tax')::numeric, v_pricing,
+    'Pending', gen_random_uuid()::text, p_payment_id, p_pickup_time, p_idempotency_key, now()
+  )
+  returning id into v_order_id;
+
+  insert into order_items (order_id, product_id, quantity, unit_price)
+  select v_order_id, p.id, r.quantity, p.price
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity integer)
+    join products p on p.id = r.product_id;
+
+  return v_order_id;
+end;
+$$;
+
+grant execute on function public.place_order(uuid, uuid, uuid, timestamptz, integer, text, jsonb)
+  to authenticated;
@@ -0,0 +1,416 @@
+-- Promotions: discount codes entered in the cart and automatic
+-- promotions. `price_cart` now returns the discount lines, which
+-- `place_order` stores on the order and records as redemptions so
+-- per-user and overall usage limits can be enforced.
+
+create table if not exists public.promotions (
+  id                 uuid primary key default gen_random_uuid(),
+  store_id           uuid not null references public.stores (id) on delete cascade,
+  code               text,  -- null: applied automatically
+  label              text not null,
+  -- percent_off / first_order: value is a percentage of the subtotal
+  -- fixed_off: value is an amount off the subtotal
+  -- category: value is a percentage off items in category_id
+  -- bogo: every second unit of product_id (or of category_id) is free
+  kind               text not null check (kind in ('percent_off', 'fixed_off', 'bogo', 'category', 'first_order')),
+  value              numeric(10, 2) not null default 0,
+  category_id        uuid references public.categories (id) on delete cascade,
+  product_id         uuid references public.products (id) on delete cascade,
+  min_subtotal       numeric(10, 2),
+  starts_at          timestamptz,
+  expires_at         timestamptz,
+  max_uses_per_user  integer,
+  max_uses_total     integer,
+  active             boolean not null default true
+);
+
+create unique index if not exists promotions_store_code
+  on public.promotions (store_id, upper(code)) where code is not null;
+
+create table if not exists public.promotion_redemptions (
+  id           uuid primary key default gen_random_uuid(),
+  promotion_id uuid not null references public.promotions (id) on delete cascade,
+  user_id      uuid not null references auth.users (id) on delete cascade,
+  order_id     uuid not null references public.orders (id) on delete cascade,
+  amount       numeric(10, 2) not null,
+  created_at   timestamptz not null default now()
+);
+
+create index if not exists promotion_redemptions_promo_user
+  on public.promotion_redemptions (promotion_id, user_id);
+
+alter table public.promotions enable row level security;
+alter table public.promotion_redemptions enable row level security;
+
+-- codes are only ever looked up through price_cart, never listed
+create policy "promotion_redemptions_owner_select" on public.promotion_redemptions
+  for select using (auth.uid() = user_id);
+
+alter table public.orders
+  add column if not exists discount_amount numeric(10, 2) not null default 0,
+  add column if not exists discount_lines jsonb not null default '[]'::jsonb;
+
+-- Why a promotion cannot be used right now, or null if it can.
+create or replace function public.promotion_error(
+  p_promo    promotions,
+  p_user     uuid,
+  p_subtotal numeric
+) returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not p_promo.active then
+    return 'promo_inactive';
+  end if;
+  if p_promo.starts_at is not null and p_promo.starts_at > now() then
+    return 'promo_not_started';
+  end if;
+  if p_promo.expires_at is not null and p_promo.expires_at <= now() then
+    return 'promo_expired';
+  end if;
+  if p_promo.min_subtotal is not null and p_subtotal < p_promo.min_subtotal then
+    return 'promo_min_subtotal';
+  end if;
+  if p_promo.max_uses_per_user is not null and (
+       select count(*) from promotion_redemptions
+        where promotion_id = p_promo.id and user_id = p_user
+     ) >= p_promo.max_uses_per_user then
+    return 'promo_limit_reached';
+  end if;
+  if p_promo.max_uses_total is not null and (
+       select count(*) from promotion_redemptions where promotion_id = p_promo.id
+     ) >= p_promo.max_uses_total then
+    return 'promo_limit_reached';
+  end if;
+  if p_promo.kind = 'first_order' and exists (
+       select 1 from orders
+        where user_id = p_user and status not in ('Cancelled', 'active')
+     ) then
+    return 'promo_first_order_only';
+  end if;
+  return null;
+end;
+$$;
+
+-- Amount a promotion takes off this cart.
+create or replace function public.promotion_discount(
+  p_promo       promotions,
+  p_location_id uuid,
+  p_items       jsonb,
+  p_subtotal    numeric
+) returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case p_promo.kind
+    when 'percent_off' then round(p_subtotal * p_promo.value / 100, 2)
+    when 'first_order' then round(p_subtotal * p_promo.value / 100, 2)
+    when 'fixed_off'   then least(p_promo.value, p_subtotal)
+    when 'category' then (
+      select coalesce(round(sum(p.price * r.quantity) * p_promo.value / 100, 2), 0)
+        from jsonb_to_recordset(p_items) as r(product_id uuid, quantity integer)
+        join products p on p.id = r.product_id and p.location_id = p_location_id
+       where p.category_id = p_promo.category_id
+    )
+    when 'bogo' then (
+      select coalesce(sum(floor(r.quantity / 2) * p.price), 0)
+        from jsonb_to_recordset(p_items) as r(product_id uuid, quantity integer)
+        join products p on p.id = r.product_id and p.location_id = p_location_id
+       where p.id = p_promo.product_id or p.category_id = p_promo.category_id
+    )
+    else 0
+  end;
+$$;
+
+drop function if exists public.price_cart(uuid, jsonb, text);
+drop function if exists public.place_order(uuid, uuid, uuid, timestamptz, integer, text, jsonb);
+
+create or replace function public.price_cart(
+  p_location_id uuid,
+  p_items       jsonb, -- [{ "product_id": uuid, "quantity": int }]
+  p_slot_time   text default null,
+  p_promo_code  text default null
+) returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_user     uuid := auth.uid();
+  v_store_id uuid;
+  v_subtotal numeric(10, 2);
+  v_promo    promotions;
+  v_best     promotions;
+  v_amount   numeric(10, 2);
+  v_best_amt numeric(10, 2) := 0;
+  v_discounts   jsonb := '[]'::jsonb;
+  v_discount    numeric(10, 2);
+  v_promo_error text;
+  v_ratio    numeric;
+  v_taxes    jsonb;
+  v_tax      numeric(10, 2);
+  v_fees     jsonb;
+  v_fee      numeric(10, 2);
+begin
+  select store_id into v_store_id from locations where id = p_location_id;
+
+  select coalesce(sum(p.price * r.quantity), 0)
+    into v_subtotal
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity integer)
+    join products p on p.id = r.product_id and p.location_id = p_location_id;
+
+  -- 1) the code the customer entered, if any
+  if nullif(trim(p_promo_code), '') is not null then
+    select * into v_promo
+      from promotions
+     where store_id = v_store_id and upper(code) = upper(trim(p_promo_code));
+    if not found then
+      v_promo_error := 'promo_not_found';
+    else
+      v_promo_error := promotion_error(v_promo, v_user, v_subtotal);
+      if v_promo_error is null then
+        v_amount := promotion_discount(v_promo, p_location_id, p_items, v_subtotal);
+        if v_amount > 0 then
+          v_discounts := v_discounts || jsonb_build_object(
+            'promotion_id', v_promo.id,
+            'code',         v_promo.code,
+            'label',        v_promo.label,
+            'amount',       v_amount
+          );
+        else
+          v_promo_error := 'promo_not_applicable';
+        end if;
+      end if;
+    end if;
+  end if;
+
+  -- 2) plus the single best automatic promotion the cart qualifies for
+  for v_promo in
+    select * from promotions
+     where store_id = v_store_id and code is null
+     order by id
+  loop
+    if promotion_error(v_promo, v_user, v_subtotal) is null then
+      v_amount := promotion_discount(v_promo, p_location_id, p_items, v_subtotal);
+      if v_amount > v_best_amt then
+        v_best := v_promo;
+        v_best_amt := v_amount;
+      end if;
+    end if;
+  end loop;
+
+  if v_best_amt > 0 then
+    v_discounts := v_discounts || jsonb_build_object(
+      'promotion_id', v_best.id,
+      'code',         null,
+      'label',        v_best.label,
+      'amount',       v_best_amt
+    );
+  end if;
+
+  select least(coalesce(sum((d ->> 'amount')::numeric), 0), v_subtotal)
+    into v_discount
+    from jsonb_array_elements(v_discounts) d;
+
+  -- discounts lower the taxable amount of every line proportionally
+  v_ratio := case when v_subtotal > 0 then (v_subtotal - v_discount) / v_subtotal else 0 end;
+
+  -- one tax line per category so exempt groceries and e.g. alcohol
+  -- show separately
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'category', t.tax_category,
+           'label',    t.label,
+           'rate',     t.rate,
+           'amount',   t.amount
+         ) order by t.tax_category), '[]'::jsonb),
+         coalesce(sum(t.amount), 0)
+    into v_taxes, v_tax
+    from (
+      select p.tax_category, tr.label, tr.rate,
+             round(sum(p.price * r.quantity) * tr.rate * v_ratio, 2) as amount
+        from jsonb_to_recordset(p_items) as r(product_id uuid, quantity integer)
+        join products p on p.id = r.product_id and p.location_id = p_location_id
+        join location_tax_rates tr
+          on tr.location_id = p_location_id and tr.tax_category = p.tax_category
+       where tr.rate > 0
+       group by p.tax_category, tr.label, tr.rate
+    ) t;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'label',  f.label,
+           'amount', f.amount
+         ) order by f.label), '[]'::jsonb),
+         coalesce(sum(f.amount), 0)
+    into v_fees, v_fee
+    from store_fee_rules f
+   where f.store_id = v_store_id
+     and f.active
+     and (f.location_id is null or f.location_id = p_location_id)
+     and (f.slot_time is null or f.slot_time = p_slot_time)
+     and (f.waive_above_subtotal is null or v_subtotal - v_discount < f.waive_above_subtotal);
+
+  return jsonb_build_object(
+    'subtotal',    v_subtotal,
+    'discounts',   v_discounts,
+    'discount',    v_discount,
+    'promo_error', v_promo_error,
+    'taxes',       v_taxes,
+    'tax',         v_tax,
+    'fees',        v_fees,
+    'service_fee', v_fee,
+    'total',       v_subtotal - v_discount + v_tax + v_fee
+  );
+end;
+$$;
+
+grant execute on function public.price_cart(uuid, jsonb, text, text) to authenticated;
+
+create or replace function public.place_order(
+  p_idempotency_key uuid,
+  p_location_id     uuid,
+  p_payment_id      uuid,
+  p_pickup_time     timestamptz,
+  p_slot_day        integer,
+  p_slot_time       text,
+  p_items           jsonb, -- [{ "product_id": uuid, "quantity": int }]
+  p_promo_code      text default null
+) returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user        uuid := auth.uid();
+  v_order_id    uuid;
+  v_line_count  integer;
+  v_valid_count integer;
+  v_pricing     jsonb;
+  v_discount    jsonb;
+  v_promo       promotions;
+  v_promo_error text;
+  v_hours       jsonb;
+  v_slot        jsonb;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  -- serialise calls sharing a key so the second one sees the first's order
+  perform pg_advisory_xact_lock(hashtext(v_user::text || p_idempotency_key::text));
+
+  select id into v_order_id
+    from orders
+   where user_id = v_user and idempotency_key = p_idempotency_key;
+  if found then
+    return v_order_id;
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'cart_empty';
+  end if;
+  if p_pickup_time is null or p_pickup_time <= now() then
+    raise exception 'invalid_pickup_time';
+  end if;
+  if not exists (select 1 from payments where id = p_payment_id and user_id = v_user) then
+    raise exception 'invalid_payment';
+  end if;
+
+  -- 1) validate items against the location's catalogue
+  select count(*), count(p.id)
+    into v_line_count, v_valid_count
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity integer)
+    left join products p
+      on p.id = r.product_id and p.location_id = p_location_id
+   where r.quantity > 0;
+
+  if v_line_count <> jsonb_array_length(p_items) then
+    raise exception 'invalid_quantity';
+  end if;
+  if v_valid_count <> v_line_count then
+    raise exception 'items_unavailable';
+  end if;
+
+  -- 2) reserve the pickup slot; the row lock stops two checkouts
+  --    taking the last place at once
+  select available_hours into v_hours
+    from location_pickup_schedules
+   where location_id = p_location_id and day_of_week = p_slot_day
+     for update;
+
+  select h into v_slot
+    from jsonb_array_elements(coalesce(v_hours, '[]'::jsonb)) h
+   where h ->> 'time' = p_slot_time;
+  if v_slot is null then
+    raise exception 'slot_unavailable';
+  end if;
+
+  if v_slot ->> 'capacity' is not null then
+    if (v_slot ->> 'capacity')::integer <= 0 then
+      raise exception 'slot_full';
+    end if;
+
+    update location_pickup_schedules
+       set available_hours = (
+         select jsonb_agg(
+                  case when h ->> 'time' = p_slot_time
+                       then jsonb_set(h, '{capacity}', to_jsonb((h ->> 'capacity')::integer - 1))
+                       else h end
+                  order by ord)
+           from jsonb_array_elements(v_hours) with ordinality as t(h, ord)
+       )
+     where location_id = p_location_id and day_of_week = p_slot_day;
+  end if;
+
+  -- 3) create the order and its items, priced by the same engine the
+  --    cart used for its quote
+  v_pricing := price_cart(p_location_id, p_items, p_slot_time, p_promo_code);
+  if v_pricing ->> 'promo_error' is not null then
+    raise exception '%', v_pricing ->> 'promo_error';
+  end if;
+
+  -- re-check usage limits under a row lock so two orders cannot both
+  -- take a promotion's last use
+  for v_discount in select * from jsonb_array_elements(v_pricing -> 'discounts') loop
+    select * into v_promo
+      from promotions
+     where id = (v_discount ->> 'promotion_id')::uuid
+       for update;
+    v_promo_error := promotion_error(v_promo, v_user, (v_pricing ->> 'subtotal')::numeric);
+    if v_promo_error is not null then
+      raise exception '%', v_promo_error;
+    end if;
+  end loop;
+
+  insert into orders (
+    user_id, location_id, total_amount, service_fee, tax, price_breakdown,
+    discount_amount, discount_lines,
+    status, barcode, payment_id, pickup_time, idempotency_key, created_at
+  ) values (
+    v_user, p_location_id, (v_pricing ->> 'total')::numeric,
+    (v_pricing ->> 'service_fee')::numeric, (v_pricing ->> 'tax')::numeric, v_pricing,
+    (v_pricing ->> 'discount')::numeric, v_pricing -> 'discounts',
+    'Pending', gen_random_uuid()::text, p_payment_id, p_pickup_time, p_idempotency_key, now()
+  )
+  returning id into v_order_id;
+
+  insert into order_items (order_id, product_id, quantity, unit_price)
+  select v_order_id, p.id, r.quantity, p.price
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity integer)
+    join products p on p.id = r.product_id;
+
+  insert into promotion_redemptions (promotion_id, user_id, order_id, amount)
+  select (d ->> 'promotion_id')::uuid, v_user, v_order_id, (d ->> 'amount')::numeric
+    from jsonb_array_elements(v_pricing -> 'discounts') d;
+
+  return v_order_id;
+end;
+$$;
+
+grant execute on function public.place_order(uuid, uuid, uuid, timestamptz, integer, text, jsonb, text)
+  to authenticated;
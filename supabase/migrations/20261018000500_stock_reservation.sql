@@ -0,0 +1,176 @@
+-- Live inventory: `place_order` now reserves stock for every tracked
+-- product in the same transaction as the order. When a line asks for
+-- more than is on hand it fails with `out_of_stock` and lists what is
+-- available per product in the error detail, so the cart can offer a
+-- per-line fix.
+
+create or replace function public.place_order(
+  p_idempotency_key uuid,
+  p_location_id     uuid,
+  p_payment_id      uuid,
+  p_pickup_time     timestamptz,
+  p_slot_day        integer,
+  p_slot_time       text,
+  p_items           jsonb, -- [{ "product_id": uuid, "quantity": int }]
+  p_promo_code      text default null
+) returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user        uuid := auth.uid();
+  v_order_id    uuid;
+  v_line_count  integer;
+  v_valid_count integer;
+  v_pricing     jsonb;
+  v_discount    jsonb;
+  v_promo       promotions;
+  v_promo_error text;
+  v_short       jsonb;
+  v_hours       jsonb;
+  v_slot        jsonb;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  -- serialise calls sharing a key so the second one sees the first's order
+  perform pg_advisory_xact_lock(hashtext(v_user::text || p_idempotency_key::text));
+
+  select id into v_order_id
+    from orders
+   where user_id = v_user and idempotency_key = p_idempotency_key;
+  if found then
+    return v_order_id;
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'cart_empty';
+  end if;
+  if p_pickup_time is null or p_pickup_time <= now() then
+    raise exception 'invalid_pickup_time';
+  end if;
+  if not exists (select 1 from payments where id = p_payment_id and user_id = v_user) then
+    raise exception 'invalid_payment';
+  end if;
+
+  -- 1) validate items against the location's catalogue
+  select count(*), count(p.id)
+    into v_line_count, v_valid_count
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity integer)
+    left join products p
+      on p.id = r.product_id and p.location_id = p_location_id
+   where r.quantity > 0;
+
+  if v_line_count <> jsonb_array_length(p_items) then
+    raise exception 'invalid_quantity';
+  end if;
+  if v_valid_count <> v_line_count then
+    raise exception 'items_unavailable';
+  end if;
+
+  -- 2) reserve stock. Rows are locked in id order so concurrent
+  --    checkouts can't deadlock; a null stock_quantity is untracked.
+  perform 1
+     from products
+    where id in (select (e ->> 'product_id')::uuid from jsonb_array_elements(p_items) e)
+    order by id
+      for update;
+
+  select jsonb_agg(jsonb_build_object(
+           'product_id', p.id,
+           'available',  greatest(p.stock_quantity, 0)
+         ))
+    into v_short
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity integer)
+    join products p on p.id = r.product_id
+   where p.stock_quantity is not null and p.stock_quantity < r.quantity;
+
+  if v_short is not null then
+    raise exception 'out_of_stock' using detail = v_short::text;
+  end if;
+
+  update products p
+     set stock_quantity = p.stock_quantity - r.quantity
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity integer)
+   where p.id = r.product_id and p.stock_quantity is not null;
+
+  -- 3) reserve the pickup slot; the row lock stops two checkouts
+  --    taking the last place at once
+  select available_hours into v_hours
+    from location_pickup_schedules
+   where location_id = p_location_id and day_of_week = p_slot_day
+     for update;
+
+  select h into v_slot
+    from jsonb_array_elements(coalesce(v_hours, '[]'::jsonb)) h
+   where h ->> 'time' = p_slot_time;
+  if v_slot is null then
+    raise exception 'slot_unavailable';
+  end if;
+
+  if v_slot ->> 'capacity' is not null then
+    if (v_slot ->> 'capacity')::integer <= 0 then
+      raise exception 'slot_full';
+    end if;
+
+    update location_pickup_schedules
+       set available_hours = (
+         select jsonb_agg(
+                  case when h ->> 'time' = p_slot_time
+                       then jsonb_set(h, '{capacity}', to_jsonb((h ->> 'capacity')::integer - 1))
+                       else h end
+                  order by ord)
+           from jsonb_array_elements(v_hours) with ordinality as t(h, ord)
+       )
+     where location_id = p_location_id and day_of_week = p_slot_day;
+  end if;
+
+  -- 4) create the order and its items, priced by the same engine the
+  --    cart used for its quote
+  v_pricing := price_cart(p_location_id, p_items, p_slot_time, p_promo_code);
+  if v_pricing ->> 'promo_error' is not null then
+    raise exception '%', v_pricing ->> 'promo_error';
+  end if;
+
+  -- re-check usage limits under a row lock so two orders cannot both
+  -- take a promotion's last use
+  for v_discount in select * from jsonb_array_elements(v_pricing -> 'discounts') loop
+    select * into v_promo
+      from promotions
+     where id = (v_discount ->> 'promotion_id')::uuid
+       for update;
+    v_promo_error := promotion_error(v_promo, v_user, (v_pricing ->> 'subtotal')::numeric);
+    if v_promo_error is not null then
+      raise exception '%', v_promo_error;
+    end if;
+  end loop;
+
+  insert into orders (
+    user_id, location_id, total_amount, service_fee, tax, price_breakdown,
+    discount_amount, discount_lines,
+    status, barcode, payment_id, pickup_time, idempotency_key, created_at
+  ) values (
+    v_user, p_location_id, (v_pricing ->> 'total')::numeric,
+    (v_pricing ->> 'service_fee')::numeric, (v_pricing ->> 'tax')::numeric, v_pricing,
+    (v_pricing ->> 'discount')::numeric, v_pricing -> 'discounts',
+    'Pending', gen_random_uuid()::text, p_payment_id, p_pickup_time, p_idempotency_key, now()
+  )
+  returning id into v_order_id;
+
+  insert into order_items (order_id, product_id, quantity, unit_price)
+  select v_order_id, p.id, r.quantity, p.price
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity integer)
+    join products p on p.id = r.product_id;
+
+  insert into promotion_redemptions (promotion_id, user_id, order_id, amount)
+  select (d ->> 'promotion_id')::uuid, v_user, v_order_id, (d ->> 'amount')::numeric
+    from jsonb_array_elements(v_pricing -> 'discounts') d;
+
+  return v_order_id;
+end;
+$$;
+
+grant execute on function public.place_order(uuid, uuid, uuid, timestamptz, integer, text, jsonb, text)
+  to authenticated;
@@ -0,0 +1,621 @@
+-- Sold-by-weight products. Meat, cheese and produce are ordered in
+-- steps of their unit (e.g. 0.25 lb), so quantities become numeric.
+-- The cart and the order carry an estimated total until the picker
+-- records the actual weight with `record_weight`; the order is then
+-- repriced and the final total is what the customer is charged.
+-- `estimated_total` keeps what was quoted at checkout.
+
+alter table public.products
+  add column if not exists sold_by_weight boolean not null default false,
+  add column if not exists weight_step numeric(10, 3) not null default 0.25
+    check (weight_step > 0);
+
+alter table public.products
+  alter column stock_quantity type numeric(10, 3);
+
+alter table public.order_items
+  alter column quantity type numeric(10, 3),
+  alter column substitute_quantity type numeric(10, 3),
+  add column if not exists actual_weight numeric(10, 3) check (actual_weight > 0),
+  add column if not exists weighed_at timestamptz;
+
+alter table public.orders
+  add column if not exists estimated_total numeric(10, 2);
+
+-- Amount a promotion takes off this cart. Weighed items are left out
+-- of buy-one-get-one deals.
+create or replace function public.promotion_discount(
+  p_promo       promotions,
+  p_location_id uuid,
+  p_items       jsonb,
+  p_subtotal    numeric
+) returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case p_promo.kind
+    when 'percent_off' then round(p_subtotal * p_promo.value / 100, 2)
+    when 'first_order' then round(p_subtotal * p_promo.value / 100, 2)
+    when 'fixed_off'   then least(p_promo.value, p_subtotal)
+    when 'category' then (
+      select coalesce(round(sum(p.price * r.quantity) * p_promo.value / 100, 2), 0)
+        from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+        join products p on p.id = r.product_id and p.location_id = p_location_id
+       where p.category_id = p_promo.category_id
+    )
+    when 'bogo' then (
+      select coalesce(sum(floor(r.quantity / 2) * p.price), 0)
+        from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+        join products p on p.id = r.product_id and p.location_id = p_location_id
+       where (p.id = p_promo.product_id or p.category_id = p_promo.category_id)
+         and not p.sold_by_weight
+    )
+    else 0
+  end;
+$$;
+
+create or replace function public.price_cart(
+  p_location_id uuid,
+  p_items       jsonb, -- [{ "product_id": uuid, "quantity": number }]
+  p_slot_time   text default null,
+  p_promo_code  text default null
+) returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_user     uuid := auth.uid();
+  v_store_id uuid;
+  v_subtotal numeric(10, 2);
+  v_promo    promotions;
+  v_best     promotions;
+  v_amount   numeric(10, 2);
+  v_best_amt numeric(10, 2) := 0;
+  v_discounts   jsonb := '[]'::jsonb;
+  v_discount    numeric(10, 2);
+  v_promo_error text;
+  v_ratio    numeric;
+  v_taxes    jsonb;
+  v_tax      numeric(10, 2);
+  v_fees     jsonb;
+  v_fee      numeric(10, 2);
+  v_estimated boolean;
+begin
+  select store_id into v_store_id from locations where id = p_location_id;
+
+  select coalesce(sum(p.price * r.quantity), 0), coalesce(bool_or(p.sold_by_weight), false)
+    into v_subtotal, v_estimated
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id and p.location_id = p_location_id;
+
+  -- 1) the code the customer entered, if any
+  if nullif(trim(p_promo_code), '') is not null then
+    select * into v_promo
+      from promotions
+     where store_id = v_store_id and upper(code) = upper(trim(p_promo_code));
+    if not found then
+      v_promo_error := 'promo_not_found';
+    else
+      v_promo_error := promotion_error(v_promo, v_user, v_subtotal);
+      if v_promo_error is null then
+        v_amount := promotion_discount(v_promo, p_location_id, p_items, v_subtotal);
+        if v_amount > 0 then
+          v_discounts := v_discounts || jsonb_build_object(
+            'promotion_id', v_promo.id,
+            'code',         v_promo.code,
+            'label',        v_promo.label,
+            'amount',       v_amount
+          );
+        else
+          v_promo_error := 'promo_not_applicable';
+        end if;
+      end if;
+    end if;
+  end if;
+
+  -- 2) plus the single best automatic promotion the cart qualifies for
+  for v_promo in
+    select * from promotions
+     where store_id = v_store_id and code is null
+     order by id
+  loop
+    if promotion_error(v_promo, v_user, v_subtotal) is null then
+      v_amount := promotion_discount(v_promo, p_location_id, p_items, v_subtotal);
+      if v_amount > v_best_amt then
+        v_best := v_promo;
+        v_best_amt := v_amount;
+      end if;
+    end if;
+  end loop;
+
+  if v_best_amt > 0 then
+    v_discounts := v_discounts || jsonb_build_object(
+      'promotion_id', v_best.id,
+      'code',         null,
+      'label',        v_best.label,
+      'amount',       v_best_amt
+    );
+  end if;
+
+  select least(coalesce(sum((d ->> 'amount')::numeric), 0), v_subtotal)
+    into v_discount
+    from jsonb_array_elements(v_discounts) d;
+
+  -- discounts lower the taxable amount of every line proportionally
+  v_ratio := case when v_subtotal > 0 then (v_subtotal - v_discount) / v_subtotal else 0 end;
+
+  -- one tax line per category so exempt groceries and e.g. alcohol
+  -- show separately
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'category', t.tax_category,
+           'label',    t.label,
+           'rate',     t.rate,
+           'amount',   t.amount
+         ) order by t.tax_category), '[]'::jsonb),
+         coalesce(sum(t.amount), 0)
+    into v_taxes, v_tax
+    from (
+      select p.tax_category, tr.label, tr.rate,
+             round(sum(p.price * r.quantity) * tr.rate * v_ratio, 2) as amount
+        from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+        join products p on p.id = r.product_id and p.location_id = p_location_id
+        join location_tax_rates tr
+          on tr.location_id = p_location_id and tr.tax_category = p.tax_category
+       where tr.rate > 0
+       group by p.tax_category, tr.label, tr.rate
+    ) t;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'label',  f.label,
+           'amount', f.amount
+         ) order by f.label), '[]'::jsonb),
+         coalesce(sum(f.amount), 0)
+    into v_fees, v_fee
+    from store_fee_rules f
+   where f.store_id = v_store_id
+     and f.active
+     and (f.location_id is null or f.location_id = p_location_id)
+     and (f.slot_time is null or f.slot_time = p_slot_time)
+     and (f.waive_above_subtotal is null or v_subtotal - v_discount < f.waive_above_subtotal);
+
+  return jsonb_build_object(
+    'subtotal',    v_subtotal,
+    'discounts',   v_discounts,
+    'discount',    v_discount,
+    'promo_error', v_promo_error,
+    'taxes',       v_taxes,
+    'tax',         v_tax,
+    'fees',        v_fees,
+    'service_fee', v_fee,
+    'total',       v_subtotal - v_discount + v_tax + v_fee,
+    'estimated',   v_estimated
+  );
+end;
+$$;
+
+-- What each line of an order is charged as: the substitute once the
+-- customer has approved it, nothing once they have rejected it, and
+-- the weight on the scale once a weighed item has been picked.
+drop function if exists public.order_charge_lines(uuid);
+create function public.order_charge_lines(p_order_id uuid)
+returns table (product_id uuid, quantity numeric, unit_price numeric)
+language sql
+stable
+set search_path = public
+as $$
+  select case when oi.substitution_status = 'approved' then oi.substitute_product_id else oi.product_id end,
+         case when oi.substitution_status = 'approved' then oi.substitute_quantity
+              else coalesce(oi.actual_weight, oi.quantity) end,
+         case when oi.substitution_status = 'approved' then oi.substitute_unit_price else oi.unit_price end
+    from order_items oi
+   where oi.order_id = p_order_id
+     and oi.substitution_status is distinct from 'rejected';
+$$;
+
+-- Recomputes an order's subtotal and taxes from its charge lines. The
+-- discounts and fees agreed at checkout are kept; discounts are capped
+-- at the new subtotal. The total stays an estimate until every weighed
+-- line has been put on the scale.
+create or replace function public.reprice_order(p_order_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order     orders;
+  v_subtotal  numeric(10, 2);
+  v_discount  numeric(10, 2);
+  v_ratio     numeric;
+  v_taxes     jsonb;
+  v_tax       numeric(10, 2);
+  v_fee       numeric(10, 2);
+  v_breakdown jsonb;
+  v_estimated boolean;
+begin
+  select * into v_order from orders where id = p_order_id for update;
+  if not found then
+    raise exception 'order_not_found';
+  end if;
+
+  select coalesce(sum(l.unit_price * l.quantity), 0)
+    into v_subtotal
+    from order_charge_lines(p_order_id) l;
+
+  select exists (
+           select 1
+             from order_items oi
+             join products p on p.id = oi.product_id
+            where oi.order_id = p_order_id
+              and p.sold_by_weight
+              and oi.actual_weight is null
+              and oi.substitution_status is null
+         )
+    into v_estimated;
+
+  v_discount := least(coalesce(v_order.discount_amount, 0), v_subtotal);
+  v_fee := coalesce(v_order.service_fee, 0);
+  v_ratio := case when v_subtotal > 0 then (v_subtotal - v_discount) / v_subtotal else 0 end;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'category', t.tax_category,
+           'label',    t.label,
+           'rate',     t.rate,
+           'amount',   t.amount
+         ) order by t.tax_category), '[]'::jsonb),
+         coalesce(sum(t.amount), 0)
+    into v_taxes, v_tax
+    from (
+      select p.tax_category, tr.label, tr.rate,
+             round(sum(l.unit_price * l.quantity) * tr.rate * v_ratio, 2) as amount
+        from order_charge_lines(p_order_id) l
+        join products p on p.id = l.product_id
+        join location_tax_rates tr
+          on tr.location_id = v_order.location_id and tr.tax_category = p.tax_category
+       where tr.rate > 0
+       group by p.tax_category, tr.label, tr.rate
+    ) t;
+
+  -- orders placed before the pricing engine have no stored breakdown
+  v_breakdown := coalesce(v_order.price_breakdown, jsonb_build_object(
+    'discounts',   '[]'::jsonb,
+    'fees',        case when v_fee > 0
+                        then jsonb_build_array(jsonb_build_object('label', 'Service Fee', 'amount', v_fee))
+                        else '[]'::jsonb end,
+    'service_fee', v_fee
+  )) || jsonb_build_object(
+    'subtotal', v_subtotal,
+    'discount', v_discount,
+    'taxes',    v_taxes,
+    'tax',      v_tax,
+    'total',    v_subtotal - v_discount + v_tax + v_fee,
+    'estimated', v_estimated
+  );
+
+  update orders
+     set total_amount    = v_subtotal - v_discount + v_tax + v_fee,
+         tax             = v_tax,
+         discount_amount = v_discount,
+         price_breakdown = v_breakdown
+   where id = p_order_id;
+
+  return v_breakdown;
+end;
+$$;
+
+revoke execute on function public.reprice_order(uuid) from public, anon, authenticated;
+
+-- Called by the picker with the weight on the scale. Stock moves by
+-- the difference from what was reserved at checkout.
+create or replace function public.record_weight(
+  p_order_item_id uuid,
+  p_weight        numeric
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item    order_items;
+  v_order   orders;
+  v_product products;
+begin
+  if not exists (select 1 from profiles where id = auth.uid() and role = 'employee') then
+    raise exception 'not_authorized';
+  end if;
+
+  select * into v_item from order_items where id = p_order_item_id for update;
+  if not found then
+    raise exception 'order_not_found';
+  end if;
+  select * into v_order from orders where id = v_item.order_id for update;
+  if v_order.status in ('Completed', 'Cancelled') then
+    raise exception 'order_closed';
+  end if;
+  select * into v_product from products where id = v_item.product_id for update;
+  if not coalesce(v_product.sold_by_weight, false) then
+    raise exception 'not_sold_by_weight';
+  end if;
+  if p_weight is null or p_weight <= 0 then
+    raise exception 'invalid_quantity';
+  end if;
+
+  update products
+     set stock_quantity = stock_quantity - (p_weight - coalesce(v_item.actual_weight, v_item.quantity))
+   where id = v_item.product_id and stock_quantity is not null;
+
+  update order_items
+     set actual_weight = round(p_weight, 3),
+         weighed_at    = now()
+   where id = p_order_item_id;
+
+  return reprice_order(v_order.id);
+end;
+$$;
+
+grant execute on function public.record_weight(uuid, numeric) to authenticated;
+
+create or replace function public.place_order(
+  p_idempotency_key uuid,
+  p_location_id     uuid,
+  p_payment_id      uuid,
+  p_pickup_time     timestamptz,
+  p_slot_day        integer,
+  p_slot_time       text,
+  p_items           jsonb, -- [{ "product_id": uuid, "quantity": number, "substitution": text, "substitute_id": uuid, "note": text }]
+  p_promo_code      text default null,
+  p_order_note      text default null
+) returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user        uuid := auth.uid();
+  v_order_id    uuid;
+  v_line_count  integer;
+  v_valid_count integer;
+  v_pricing     jsonb;
+  v_discount    jsonb;
+  v_promo       promotions;
+  v_promo_error text;
+  v_short       jsonb;
+  v_hours       jsonb;
+  v_slot        jsonb;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  -- serialise calls sharing a key so the second one sees the first's order
+  perform pg_advisory_xact_lock(hashtext(v_user::text || p_idempotency_key::text));
+
+  select id into v_order_id
+    from orders
+   where user_id = v_user and idempotency_key = p_idempotency_key;
+  if found then
+    return v_order_id;
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'cart_empty';
+  end if;
+  if p_pickup_time is null or p_pickup_time <= now() then
+    raise exception 'invalid_pickup_time';
+  end if;
+  if not exists (select 1 from payments where id = p_payment_id and user_id = v_user) then
+    raise exception 'invalid_payment';
+  end if;
+
+  -- 1) validate items against the location's catalogue
+  select count(*), count(p.id)
+    into v_line_count, v_valid_count
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    left join products p
+      on p.id = r.product_id and p.location_id = p_location_id
+   where r.quantity > 0
+     -- only weighed products may be ordered in fractions
+     and (coalesce(p.sold_by_weight, false) or r.quantity = trunc(r.quantity));
+
+  if v_line_count <> jsonb_array_length(p_items) then
+    raise exception 'invalid_quantity';
+  end if;
+  if v_valid_count <> v_line_count then
+    raise exception 'items_unavailable';
+  end if;
+
+  -- 2) reserve stock. Rows are locked in id order so concurrent
+  --    checkouts can't deadlock; a null stock_quantity is untracked.
+  perform 1
+     from products
+    where id in (select (e ->> 'product_id')::uuid from jsonb_array_elements(p_items) e)
+    order by id
+      for update;
+
+  select jsonb_agg(jsonb_build_object(
+           'product_id', p.id,
+           'available',  greatest(p.stock_quantity, 0)
+         ))
+    into v_short
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id
+   where p.stock_quantity is not null and p.stock_quantity < r.quantity;
+
+  if v_short is not null then
+    raise exception 'out_of_stock' using detail = v_short::text;
+  end if;
+
+  update products p
+     set stock_quantity = p.stock_quantity - r.quantity
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+   where p.id = r.product_id and p.stock_quantity is not null;
+
+  -- 3) reserve the pickup slot; the row lock stops two checkouts
+  --    taking the last place at once
+  select available_hours into v_hours
+    from location_pickup_schedules
+   where location_id = p_location_id and day_of_week = p_slot_day
+     for update;
+
+  select h into v_slot
+    from jsonb_array_elements(coalesce(v_hours, '[]'::jsonb)) h
+   where h ->> 'time' = p_slot_time;
+  if v_slot is null then
+    raise exception 'slot_unavailable';
+  end if;
+
+  if v_slot ->> 'capacity' is not null then
+    if (v_slot ->> 'capacity')::integer <= 0 then
+      raise exception 'slot_full';
+    end if;
+
+    update location_pickup_schedules
+       set available_hours = (
+         select jsonb_agg(
+                  case when h ->> 'time' = p_slot_time
+                       then jsonb_set(h, '{capacity}', to_jsonb((h ->> 'capacity')::integer - 1))
+                       else h end
+                  order by ord)
+           from jsonb_array_elements(v_hours) with ordinality as t(h, ord)
+       )
+     where location_id = p_location_id and day_of_week = p_slot_day;
+  end if;
+
+  -- 4) create the order and its items, priced by the same engine the
+  --    cart used for its quote
+  v_pricing := price_cart(p_location_id, p_items, p_slot_time, p_promo_code);
+  if v_pricing ->> 'promo_error' is not null then
+    raise exception '%', v_pricing ->> 'promo_error';
+  end if;
+
+  -- re-check usage limits under a row lock so two orders cannot both
+  -- take a promotion's last use
+  for v_discount in select * from jsonb_array_elements(v_pricing -> 'discounts') loop
+    select * into v_promo
+      from promotions
+     where id = (v_discount ->> 'promotion_id')::uuid
+       for update;
+    v_promo_error := promotion_error(v_promo, v_user, (v_pricing ->> 'subtotal')::numeric);
+    if v_promo_error is not null then
+      raise exception '%', v_promo_error;
+    end if;
+  end loop;
+
+  insert into orders (
+    user_id, location_id, total_amount, service_fee, tax, price_breakdown,
+    discount_amount, discount_lines, customer_note, estimated_total,
+    status, barcode, payment_id, pickup_time, idempotency_key, created_at
+  ) values (
+    v_user, p_location_id, (v_pricing ->> 'total')::numeric,
+    (v_pricing ->> 'service_fee')::numeric, (v_pricing ->> 'tax')::numeric, v_pricing,
+    (v_pricing ->> 'discount')::numeric, v_pricing -> 'discounts',
+    left(nullif(trim(p_order_note), ''), 500), (v_pricing ->> 'total')::numeric,
+    'Pending', gen_random_uuid()::text, p_payment_id, p_pickup_time, p_idempotency_key, now()
+  )
+  returning id into v_order_id;
+
+  insert into order_items (
+    order_id, product_id, quantity, unit_price,
+    substitution_preference, preferred_substitute_id, note
+  )
+  select v_order_id, p.id, r.quantity, p.price,
+         coalesce(r.substitution, 'store_choice'),
+         case when r.substitution = 'specific' then alt.id end,
+         left(nullif(trim(r.note), ''), 200)
+    from jsonb_to_recordset(p_items)
+           as r(product_id uuid, quantity numeric, substitution text, substitute_id uuid, note text)
+    join products p on p.id = r.product_id
+    left join products alt
+      on alt.id = r.substitute_id and alt.location_id = p_location_id;
+
+  insert into promotion_redemptions (promotion_id, user_id, order_id, amount)
+  select (d ->> 'promotion_id')::uuid, v_user, v_order_id, (d ->> 'amount')::numeric
+    from jsonb_array_elements(v_pricing -> 'discounts') d;
+
+  return v_order_id;
+end;
+$$;
+
+grant execute on function public.place_order(uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text)
+  to authenticated;
+
+-- A weighed line can be substituted by weight too: quantities are
+-- numeric, and whole for anything not sold by weight.
+drop function if exists public.record_substitution(uuid, uuid, integer);
+create or replace function public.record_substitution(
+  p_order_item_id uuid,
+  p_product_id    uuid,
+  p_quantity      numeric
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item    order_items;
+  v_order   orders;
+  v_product products;
+begin
+  if not exists (select 1 from profiles where id = auth.uid() and role = 'employee') then
+    raise exception 'not_authorized';
+  end if;
+
+  select * into v_item from order_items where id = p_order_item_id for update;
+  if not found then
+    raise exception 'order_not_found';
+  end if;
+  select * into v_order from orders where id = v_item.order_id for update;
+  if v_order.status in ('Completed', 'Cancelled') then
+    raise exception 'order_closed';
+  end if;
+  if v_item.substitution_preference = 'none' then
+    raise exception 'substitution_not_allowed';
+  end if;
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'invalid_quantity';
+  end if;
+
+  -- put back whatever was picked as a substitute before
+  if v_item.substitution_status in ('pending', 'approved') then
+    update products
+       set stock_quantity = stock_quantity + v_item.substitute_quantity
+     where id = v_item.substitute_product_id and stock_quantity is not null;
+  end if;
+
+  select * into v_product
+    from products
+   where id = p_product_id and location_id = v_order.location_id
+     for update;
+  if not found or p_product_id = v_item.product_id then
+    raise exception 'items_unavailable';
+  end if;
+  if not coalesce(v_product.sold_by_weight, false) and p_quantity <> trunc(p_quantity) then
+    raise exception 'invalid_quantity';
+  end if;
+  if v_product.stock_quantity is not null and v_product.stock_quantity < p_quantity then
+    raise exception 'out_of_stock';
+  end if;
+
+  update products
+     set stock_quantity = stock_quantity - round(p_quantity, 3)
+   where id = p_product_id and stock_quantity is not null;
+
+  update order_items
+     set substitute_product_id     = p_product_id,
+         substitute_quantity       = round(p_quantity, 3),
+         substitute_unit_price     = v_product.price,
+         substitution_status       = 'pending',
+         substituted_at            = now(),
+         substitution_responded_at = null
+   where id = p_order_item_id;
+
+  -- a previously approved substitute may have been replaced
+  perform reprice_order(v_order.id);
+end;
+$$;
+
+grant execute on function public.record_substitution(uuid, uuid, numeric) to authenticated;
@@ -0,0 +1,52 @@
+-- Favorites: products a customer has starred, kept per user and store so
+-- they follow the customer across devices. Products are stocked per
+-- location, so `favorite_products` resolves each favorite to the same
+-- item at the location being shopped and says whether it can be bought
+-- there right now.
+
+create table if not exists public.favorites (
+  user_id    uuid not null references auth.users (id) on delete cascade,
+  store_id   uuid not null references public.stores (id) on delete cascade,
+  product_id uuid not null references public.products (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (user_id, store_id, product_id)
+);
+
+alter table public.favorites enable row level security;
+
+create policy "favorites_owner_select" on public.favorites
+  for select using (auth.uid() = user_id);
+
+create policy "favorites_owner_insert" on public.favorites
+  for insert with check (auth.uid() = user_id);
+
+create policy "favorites_owner_delete" on public.favorites
+  for delete using (auth.uid() = user_id);
+
+create or replace function public.favorite_products(
+  p_store_id    uuid,
+  p_location_id uuid
+) returns table (favorite_id uuid, product jsonb, available boolean)
+language sql
+stable
+set search_path = public
+as $$
+  select f.product_id,
+         case when lp.id is not null then to_jsonb(lp) else to_jsonb(fp) end,
+         lp.id is not null and (lp.stock_quantity is null or lp.stock_quantity > 0)
+    from favorites f
+    join products fp on fp.id = f.product_id
+    -- the starred product itself, or the same item stocked at this location
+    left join lateral (
+      select p.*
+        from products p
+       where p.location_id = p_location_id
+         and (p.id = fp.id or lower(p.name) = lower(fp.name))
+       order by (p.id = fp.id) desc
+       limit 1
+    ) lp on true
+   where f.user_id = auth.uid() and f.store_id = p_store_id
+   order by f.created_at desc;
+$$;
+
+grant execute on function public.favorite_products(uuid, uuid) to authenticated;
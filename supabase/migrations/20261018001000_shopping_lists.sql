@@ -0,0 +1,139 @@
+-- Shopping lists: named lists per user holding products or free-text
+-- lines ("milk") that are matched to a product when the list goes into
+-- the cart. A list is shared by handing out its `share_token`; whoever
+-- opens the link joins the list and can edit its items.
+
+create table if not exists public.shopping_lists (
+  id          uuid primary key default gen_random_uuid(),
+  owner_id    uuid not null references auth.users (id) on delete cascade,
+  store_id    uuid references public.stores (id) on delete set null,
+  name        text not null check (length(trim(name)) > 0),
+  share_token uuid not null unique default gen_random_uuid(),
+  created_at  timestamptz not null default now(),
+  updated_at  timestamptz not null default now()
+);
+
+create table if not exists public.shopping_list_members (
+  list_id   uuid not null references public.shopping_lists (id) on delete cascade,
+  user_id   uuid not null references auth.users (id) on delete cascade,
+  joined_at timestamptz not null default now(),
+  primary key (list_id, user_id)
+);
+
+create table if not exists public.shopping_list_items (
+  id         uuid primary key default gen_random_uuid(),
+  list_id    uuid not null references public.shopping_lists (id) on delete cascade,
+  product_id uuid references public.products (id) on delete set null,
+  text       text, -- free-text line, or the product's name as a fallback match
+  quantity   numeric(10, 3) not null default 1 check (quantity > 0),
+  created_at timestamptz not null default now(),
+  check (product_id is not null or length(trim(text)) > 0)
+);
+
+create index if not exists shopping_list_items_list on public.shopping_list_items (list_id);
+
+-- Owner or member. Security definer so the policies below don't recurse
+-- through each other's RLS.
+create or replace function public.can_access_list(p_list_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from shopping_lists where id = p_list_id and owner_id = auth.uid())
+      or exists (select 1 from shopping_list_members where list_id = p_list_id and user_id = auth.uid());
+$$;
+
+alter table public.shopping_lists enable row level security;
+alter table public.shopping_list_members enable row level security;
+alter table public.shopping_list_items enable row level security;
+
+create policy "shopping_lists_select" on public.shopping_lists
+  for select using (public.can_access_list(id));
+create policy "shopping_lists_owner_insert" on public.shopping_lists
+  for insert with check (auth.uid() = owner_id);
+create policy "shopping_lists_owner_update" on public.shopping_lists
+  for update using (auth.uid() = owner_id);
+create policy "shopping_lists_owner_delete" on public.shopping_lists
+  for delete using (auth.uid() = owner_id);
+
+create policy "shopping_list_members_select" on public.shopping_list_members
+  for select using (public.can_access_list(list_id));
+-- members may leave; the owner may remove anyone
+create policy "shopping_list_members_delete" on public.shopping_list_members
+  for delete using (
+    auth.uid() = user_id
+    or exists (select 1 from public.shopping_lists l where l.id = list_id and l.owner_id = auth.uid())
+  );
+
+create policy "shopping_list_items_select" on public.shopping_list_items
+  for select using (public.can_access_list(list_id));
+create policy "shopping_list_items_insert" on public.shopping_list_items
+  for insert with check (public.can_access_list(list_id));
+create policy "shopping_list_items_update" on public.shopping_list_items
+  for update using (public.can_access_list(list_id));
+create policy "shopping_list_items_delete" on public.shopping_list_items
+  for delete using (public.can_access_list(list_id));
+
+-- Joins the list behind a share link and returns its id.
+create or replace function public.join_shopping_list(p_share_token uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_list shopping_lists;
+begin
+  if auth.uid() is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select * into v_list from shopping_lists where share_token = p_share_token;
+  if not found then
+    raise exception 'list_not_found';
+  end if;
+
+  if v_list.owner_id <> auth.uid() then
+    insert into shopping_list_members (list_id, user_id)
+    values (v_list.id, auth.uid())
+    on conflict do nothing;
+  end if;
+
+  return v_list.id;
+end;
+$$;
+
+-- Matches every line of a list to a product sold at the location: the
+-- listed product or the same item stocked there, and for free-text
+-- lines the closest in-stock name match. `product` is null when
+-- nothing matches.
+create or replace function public.resolve_shopping_list(
+  p_list_id     uuid,
+  p_location_id uuid
+) returns table (item_id uuid, quantity numeric, product jsonb)
+language sql
+stable
+set search_path = public
+as $$
+  select i.id, i.quantity, to_jsonb(m)
+    from shopping_list_items i
+    left join products lp on lp.id = i.product_id
+    left join lateral (
+      select p.*
+        from products p
+       where p.location_id = p_location_id
+         and (p.stock_quantity is null or p.stock_quantity > 0)
+         and case when i.product_id is not null
+                  then p.id = i.product_id or lower(p.name) = lower(lp.name)
+                  else p.name ilike '%' || trim(i.text) || '%' end
+       order by (p.id = i.product_id) desc, length(p.name), p.name
+       limit 1
+    ) m on true
+   where i.list_id = p_list_id
+   order by i.created_at;
+$$;
+
+grant execute on function public.join_shopping_list(uuid) to authenticated;
+grant execute on function public.resolve_shopping_list(uuid, uuid) to authenticated;
@@ -0,0 +1,660 @@
+-- Recurring orders: a customer turns a past order into a weekly,
+-- biweekly or monthly subscription with a preferred pickup day and
+-- slot. `run_recurring_orders` (every 15 minutes via pg_cron) keeps one
+-- upcoming occurrence per subscription, reminds the customer before it
+-- is placed, then places it like a normal checkout, which reserves the
+-- slot and stock. Until then the customer may skip the occurrence or
+-- edit its items without touching the subscription.
+
+create table if not exists public.recurring_orders (
+  id              uuid primary key default gen_random_uuid(),
+  user_id         uuid not null references auth.users (id) on delete cascade,
+  location_id     uuid not null references public.locations (id) on delete cascade,
+  payment_id      uuid not null references public.payments (id) on delete cascade,
+  source_order_id uuid references public.orders (id) on delete set null,
+  frequency       text not null check (frequency in ('weekly', 'biweekly', 'monthly')),
+  slot_day        integer not null check (slot_day between 0 and 6),
+  slot_time       text not null,
+  items           jsonb not null, -- same shape as place_order's p_items
+  order_note      text,
+  starts_on       date not null, -- the first pickup; monthly ones keep its week of the month
+  next_pickup_on  date not null,
+  active          boolean not null default true,
+  created_at      timestamptz not null default now(),
+  updated_at      timestamptz not null default now()
+);
+
+create table if not exists public.recurring_order_occurrences (
+  id                 uuid primary key default gen_random_uuid(),
+  recurring_order_id uuid not null references public.recurring_orders (id) on delete cascade,
+  pickup_on          date not null,
+  status             text not null default 'scheduled'
+    check (status in ('scheduled', 'skipped', 'placed', 'failed')),
+  items              jsonb, -- a one-off edit; null uses the subscription's items
+  order_id           uuid references public.orders (id) on delete set null,
+  adjustments        jsonb not null default '[]'::jsonb, -- lines substituted or dropped at placement
+  failure            text,
+  notified_at        timestamptz,
+  created_at         timestamptz not null default now(),
+  unique (recurring_order_id, pickup_on)
+);
+
+-- In-app messages; `order_updates` in notifications opts a customer out.
+create table if not exists public.user_notifications (
+  id         uuid primary key default gen_random_uuid(),
+  user_id    uuid not null references auth.users (id) on delete cascade,
+  title      text not null,
+  body       text not null,
+  order_id   uuid references public.orders (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  read_at    timestamptz
+);
+
+create index if not exists user_notifications_user on public.user_notifications (user_id, created_at desc);
+
+alter table public.recurring_orders enable row level security;
+alter table public.recurring_order_occurrences enable row level security;
+alter table public.user_notifications enable row level security;
+
+-- subscriptions are created by `create_recurring_order`; customers may
+-- pause, reschedule or cancel them
+create policy "recurring_orders_owner_select" on public.recurring_orders
+  for select using (auth.uid() = user_id);
+create policy "recurring_orders_owner_update" on public.recurring_orders
+  for update using (auth.uid() = user_id);
+create policy "recurring_orders_owner_delete" on public.recurring_orders
+  for delete using (auth.uid() = user_id);
+
+create policy "recurring_occurrences_owner_select" on public.recurring_order_occurrences
+  for select using (exists (
+    select 1 from recurring_orders r where r.id = recurring_order_id and r.user_id = auth.uid()
+  ));
+-- skip/edit: only while the occurrence has not been placed yet
+create policy "recurring_occurrences_owner_update" on public.recurring_order_occurrences
+  for update using (
+    status in ('scheduled', 'skipped') and exists (
+      select 1 from recurring_orders r where r.id = recurring_order_id and r.user_id = auth.uid()
+    )
+  ) with check (status in ('scheduled', 'skipped'));
+
+create policy "user_notifications_owner_select" on public.user_notifications
+  for select using (auth.uid() = user_id);
+create policy "user_notifications_owner_update" on public.user_notifications
+  for update using (auth.uid() = user_id);
+
+-- Checkout for a given customer. `place_order` calls it for the signed
+-- in user; `run_recurring_orders` for each subscription's owner.
+create or replace function public.place_order_for(
+  p_user            uuid,
+  p_idempotency_key uuid,
+  p_location_id     uuid,
+  p_payment_id      uuid,
+  p_pickup_time     timestamptz,
+  p_slot_day        integer,
+  p_slot_time       text,
+  p_items           jsonb, -- [{ "product_id": uuid, "quantity": number, "substitution": text, "substitute_id": uuid, "note": text }]
+  p_promo_code      text default null,
+  p_order_note      text default null
+) returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user        uuid := p_user;
+  v_order_id    uuid;
+  v_line_count  integer;
+  v_valid_count integer;
+  v_pricing     jsonb;
+  v_discount    jsonb;
+  v_promo       promotions;
+  v_promo_error text;
+  v_short       jsonb;
+  v_hours       jsonb;
+  v_slot        jsonb;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  -- serialise calls sharing a key so the second one sees the first's order
+  perform pg_advisory_xact_lock(hashtext(v_user::text || p_idempotency_key::text));
+
+  select id into v_order_id
+    from orders
+   where user_id = v_user and idempotency_key = p_idempotency_key;
+  if found then
+    return v_order_id;
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'cart_empty';
+  end if;
+  if p_pickup_time is null or p_pickup_time <= now() then
+    raise exception 'invalid_pickup_time';
+  end if;
+  if not exists (select 1 from payments where id = p_payment_id and user_id = v_user) then
+    raise exception 'invalid_payment';
+  end if;
+
+  -- 1) validate items against the location's catalogue
+  select count(*), count(p.id)
+    into v_line_count, v_valid_count
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    left join products p
+      on p.id = r.product_id and p.location_id = p_location_id
+   where r.quantity > 0
+     -- only weighed products may be ordered in fractions
+     and (coalesce(p.sold_by_weight, false) or r.quantity = trunc(r.quantity));
+
+  if v_line_count <> jsonb_array_length(p_items) then
+    raise exception 'invalid_quantity';
+  end if;
+  if v_valid_count <> v_line_count then
+    raise exception 'items_unavailable';
+  end if;
+
+  -- 2) reserve stock. Rows are locked in id order so concurrent
+  --    checkouts can't deadlock; a null stock_quantity is untracked.
+  perform 1
+     from products
+    where id in (select (e ->> 'product_id')::uuid from jsonb_array_elements(p_items) e)
+    order by id
+      for update;
+
+  select jsonb_agg(jsonb_build_object(
+           'product_id', p.id,
+           'available',  greatest(p.stock_quantity, 0)
+         ))
+    into v_short
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id
+   where p.stock_quantity is not null and p.stock_quantity < r.quantity;
+
+  if v_short is not null then
+    raise exception 'out_of_stock' using detail = v_short::text;
+  end if;
+
+  update products p
+     set stock_quantity = p.stock_quantity - r.quantity
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+   where p.id = r.product_id and p.stock_quantity is not null;
+
+  -- 3) reserve the pickup slot; the row lock stops two checkouts
+  --    taking the last place at once
+  select available_hours into v_hours
+    from location_pickup_schedules
+   where location_id = p_location_id and day_of_week = p_slot_day
+     for update;
+
+  select h into v_slot
+    from jsonb_array_elements(coalesce(v_hours, '[]'::jsonb)) h
+   where h ->> 'time' = p_slot_time;
+  if v_slot is null then
+    raise exception 'slot_unavailable';
+  end if;
+
+  if v_slot ->> 'capacity' is not null then
+    if (v_slot ->> 'capacity')::integer <= 0 then
+      raise exception 'slot_full';
+    end if;
+
+    update location_pickup_schedules
+       set available_hours = (
+         select jsonb_agg(
+                  case when h ->> 'time' = p_slot_time
+                       then jsonb_set(h, '{capacity}', to_jsonb((h ->> 'capacity')::integer - 1))
+                       else h end
+                  order by ord)
+           from jsonb_array_elements(v_hours) with ordinality as t(h, ord)
+       )
+     where location_id = p_location_id and day_of_week = p_slot_day;
+  end if;
+
+  -- 4) create the order and its items, priced by the same engine the
+  --    cart used for its quote
+  v_pricing := price_cart(p_location_id, p_items, p_slot_time, p_promo_code);
+  if v_pricing ->> 'promo_error' is not null then
+    raise exception '%', v_pricing ->> 'promo_error';
+  end if;
+
+  -- re-check usage limits under a row lock so two orders cannot both
+  -- take a promotion's last use
+  for v_discount in select * from jsonb_array_elements(v_pricing -> 'discounts') loop
+    select * into v_promo
+      from promotions
+     where id = (v_discount ->> 'promotion_id')::uuid
+       for update;
+    v_promo_error := promotion_error(v_promo, v_user, (v_pricing ->> 'subtotal')::numeric);
+    if v_promo_error is not null then
+      raise exception '%', v_promo_error;
+    end if;
+  end loop;
+
+  insert into orders (
+    user_id, location_id, total_amount, service_fee, tax, price_breakdown,
+    discount_amount, discount_lines, customer_note, estimated_total,
+    status, barcode, payment_id, pickup_time, idempotency_key, created_at
+  ) values (
+    v_user, p_location_id, (v_pricing ->> 'total')::numeric,
+    (v_pricing ->> 'service_fee')::numeric, (v_pricing ->> 'tax')::numeric, v_pricing,
+    (v_pricing ->> 'discount')::numeric, v_pricing -> 'discounts',
+    left(nullif(trim(p_order_note), ''), 500), (v_pricing ->> 'total')::numeric,
+    'Pending', gen_random_uuid()::text, p_payment_id, p_pickup_time, p_idempotency_key, now()
+  )
+  returning id into v_order_id;
+
+  insert into order_items (
+    order_id, product_id, quantity, unit_price,
+    substitution_preference, preferred_substitute_id, note
+  )
+  select v_order_id, p.id, r.quantity, p.price,
+         coalesce(r.substitution, 'store_choice'),
+         case when r.substitution = 'specific' then alt.id end,
+         left(nullif(trim(r.note), ''), 200)
+    from jsonb_to_recordset(p_items)
+           as r(product_id uuid, quantity numeric, substitution text, substitute_id uuid, note text)
+    join products p on p.id = r.product_id
+    left join products alt
+      on alt.id = r.substitute_id and alt.location_id = p_location_id;
+
+  insert into promotion_redemptions (promotion_id, user_id, order_id, amount)
+  select (d ->> 'promotion_id')::uuid, v_user, v_order_id, (d ->> 'amount')::numeric
+    from jsonb_array_elements(v_pricing -> 'discounts') d;
+
+  return v_order_id;
+end;
+$$;
+
+revoke execute on function public.place_order_for(uuid, uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text)
+  from public, anon, authenticated;
+
+create or replace function public.place_order(
+  p_idempotency_key uuid,
+  p_location_id     uuid,
+  p_payment_id      uuid,
+  p_pickup_time     timestamptz,
+  p_slot_day        integer,
+  p_slot_time       text,
+  p_items           jsonb,
+  p_promo_code      text default null,
+  p_order_note      text default null
+) returns uuid
+language sql
+security definer
+set search_path = public
+as $$
+  select place_order_for(
+    auth.uid(), p_idempotency_key, p_location_id, p_payment_id, p_pickup_time,
+    p_slot_day, p_slot_time, p_items, p_promo_code, p_order_note
+  );
+$$;
+
+grant execute on function public.place_order(uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text)
+  to authenticated;
+
+-- The pickup after `p_after`: 1 or 2 weeks on, or in the next month
+-- the same Nth `p_slot_day` as `p_starts_on` (the last one when that
+-- month has no fifth). Monthly dates come from the start, not the last
+-- pickup, so they never drift into the following month.
+create or replace function public.next_recurring_pickup(
+  p_frequency text,
+  p_slot_day  integer,
+  p_after     date,
+  p_starts_on date
+) returns date
+language plpgsql
+immutable
+as $$
+declare
+  v_month date;
+  v_next  date;
+begin
+  if p_frequency = 'weekly' then
+    return p_after + 7;
+  elsif p_frequency = 'biweekly' then
+    return p_after + 14;
+  end if;
+  v_month := (date_trunc('month', p_after) + interval '1 month')::date;
+  v_next := v_month + ((p_slot_day - extract(dow from v_month)::integer + 7) % 7)
+          + 7 * ((extract(day from p_starts_on)::integer - 1) / 7);
+  if date_trunc('month', v_next) <> v_month then
+    v_next := v_next - 7;
+  end if;
+  return v_next;
+end;
+$$;
+
+-- Customers get a reminder this many days before the pickup, and the
+-- order is placed this many days before it.
+create or replace function public.recurring_notice_days() returns integer
+language sql immutable as $$ select 3 $$;
+create or replace function public.recurring_place_days() returns integer
+language sql immutable as $$ select 2 $$;
+
+-- Starts a subscription repeating `p_order_id`. The first pickup is
+-- the first `p_slot_day` far enough out to send the reminder.
+create or replace function public.create_recurring_order(
+  p_order_id  uuid,
+  p_frequency text,
+  p_slot_day  integer,
+  p_slot_time text
+) returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user  uuid := auth.uid();
+  v_order orders;
+  v_first date;
+  v_items jsonb;
+  v_id    uuid;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select * into v_order from orders where id = p_order_id and user_id = v_user;
+  if not found then
+    raise exception 'order_not_found';
+  end if;
+  -- each occurrence is charged to the order's saved card
+  if v_order.payment_id is null then
+    raise exception 'payment_required';
+  end if;
+  if p_frequency not in ('weekly', 'biweekly', 'monthly') then
+    raise exception 'invalid_frequency';
+  end if;
+
+  if not exists (
+    select 1
+      from location_pickup_schedules s,
+           jsonb_array_elements(s.available_hours) h
+     where s.location_id = v_order.location_id
+       and s.day_of_week = p_slot_day
+       and h ->> 'time' = p_slot_time
+  ) then
+    raise exception 'slot_unavailable';
+  end if;
+
+  select jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+           'product_id',    oi.product_id,
+           'quantity',      oi.quantity,
+           'substitution',  oi.substitution_preference,
+           'substitute_id', oi.preferred_substitute_id,
+           'note',          oi.note
+         )))
+    into v_items
+    from order_items oi
+   where oi.order_id = p_order_id;
+
+  v_first := current_date + recurring_notice_days();
+  v_first := v_first + ((p_slot_day - extract(dow from v_first)::integer + 7) % 7);
+
+  insert into recurring_orders (
+    user_id, location_id, payment_id, source_order_id, frequency,
+    slot_day, slot_time, items, order_note, starts_on, next_pickup_on
+  ) values (
+    v_user, v_order.location_id, v_order.payment_id, p_order_id, p_frequency,
+    p_slot_day, p_slot_time, v_items, v_order.customer_note, v_first, v_first
+  )
+  returning id into v_id;
+
+  insert into recurring_order_occurrences (recurring_order_id, pickup_on)
+  values (v_id, v_first);
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.create_recurring_order(uuid, text, integer, text) to authenticated;
+
+create or replace function public.notify_user(
+  p_user     uuid,
+  p_title    text,
+  p_body     text,
+  p_order_id uuid default null
+) returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into user_notifications (user_id, title, body, order_id)
+  select p_user, p_title, p_body, p_order_id
+   where coalesce((select order_updates from notifications where user_id = p_user), true);
+$$;
+
+revoke execute on function public.notify_user(uuid, text, text, uuid) from public, anon, authenticated;
+
+-- Applies each line's substitution preference against what the
+-- location has now. Lines in stock are kept; otherwise "specific" uses
+-- the chosen alternate, "store_choice" the closest-priced product in
+-- the same category and "same_brand" the same but sharing the first
+-- word of the name (the brand, by catalogue convention). "none" drops
+-- the line. Returns the lines to order and what was changed.
+create or replace function public.resolve_recurring_items(
+  p_location_id uuid,
+  p_items       jsonb,
+  out items       jsonb,
+  out adjustments jsonb
+)
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_line     record;
+  v_product  products;
+  v_alt      products;
+  v_quantity numeric;
+begin
+  items := '[]'::jsonb;
+  adjustments := '[]'::jsonb;
+
+  for v_line in
+    select r.*, e
+      from jsonb_array_elements(p_items) e,
+           jsonb_to_record(e) as r(product_id uuid, quantity numeric, substitution text, substitute_id uuid)
+  loop
+    select * into v_product from products where id = v_line.product_id;
+
+    if v_product.location_id = p_location_id
+       and (v_product.stock_quantity is null or v_product.stock_quantity >= v_line.quantity) then
+      items := items || jsonb_build_array(v_line.e);
+      continue;
+    end if;
+
+    v_alt := null;
+    if v_line.substitution = 'specific' then
+      select * into v_alt
+        from products
+       where id = v_line.substitute_id and location_id = p_location_id;
+    elsif coalesce(v_line.substitution, 'store_choice') <> 'none' and v_product.id is not null then
+      select * into v_alt
+        from products a
+       where a.location_id = p_location_id
+         and a.category_id = v_product.category_id
+         and a.id <> v_product.id
+         and a.sold_by_weight = v_product.sold_by_weight
+         and (a.stock_quantity is null or a.stock_quantity >= v_line.quantity)
+         and (v_line.substitution <> 'same_brand'
+              or split_part(lower(a.name), ' ', 1) = split_part(lower(v_product.name), ' ', 1))
+       order by abs(a.price - v_product.price), a.name
+       limit 1;
+    end if;
+
+    -- counted alternates for a weighed line are rounded up
+    v_quantity := case when coalesce(v_alt.sold_by_weight, false)
+                       then v_line.quantity else ceil(v_line.quantity) end;
+
+    if v_alt.id is not null
+       and (v_alt.stock_quantity is null or v_alt.stock_quantity >= v_quantity) then
+      items := items || jsonb_build_array(
+        v_line.e || jsonb_build_object(
+          'product_id',   v_alt.id,
+          'quantity',     v_quantity,
+          'substitution', 'none'
+        ) - 'substitute_id'
+      );
+      adjustments := adjustments || jsonb_build_object(
+        'product_id',      v_line.product_id,
+        'name',            v_product.name,
+        'substitute_id',   v_alt.id,
+        'substitute_name', v_alt.name
+      );
+    else
+      adjustments := adjustments || jsonb_build_object(
+        'product_id',      v_line.product_id,
+        'name',            v_product.name,
+        'substitute_id',   null,
+        'substitute_name', null
+      );
+    end if;
+  end loop;
+end;
+$$;
+
+-- Error codes from place_order_for as the customer reads them.
+create or replace function public.recurring_failure_text(p_code text) returns text
+language sql immutable as $$
+  select case p_code
+    when 'slot_full'         then 'the pickup slot was full'
+    when 'slot_unavailable'  then 'the pickup slot is no longer offered'
+    when 'invalid_payment'   then 'the saved payment method is no longer available'
+    when 'items_unavailable' then 'none of the items were available'
+    when 'cart_empty'        then 'none of the items were available'
+    when 'out_of_stock'      then 'items sold out while ordering'
+    else 'something went wrong'
+  end;
+$$;
+
+create or replace function public.run_recurring_orders()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sub      recurring_orders;
+  v_occ      recurring_order_occurrences;
+  v_resolved record;
+  v_order_id uuid;
+  v_label    text;
+  v_next     date;
+begin
+  -- 0) subscriptions that missed their window while paused move on to
+  --    the first pickup that can still be placed in time
+  for v_sub in
+    select * from recurring_orders
+     where active and next_pickup_on - recurring_place_days() < current_date
+  loop
+    v_next := v_sub.next_pickup_on;
+    while v_next - recurring_place_days() < current_date loop
+      v_next := next_recurring_pickup(v_sub.frequency, v_sub.slot_day, v_next, v_sub.starts_on);
+    end loop;
+
+    update recurring_order_occurrences
+       set status = 'skipped'
+     where recurring_order_id = v_sub.id and status = 'scheduled' and pickup_on < v_next;
+    update recurring_orders
+       set next_pickup_on = v_next, updated_at = now()
+     where id = v_sub.id;
+  end loop;
+
+  -- 1) one upcoming occurrence per active subscription
+  insert into recurring_order_occurrences (recurring_order_id, pickup_on)
+  select id, next_pickup_on from recurring_orders where active
+  on conflict (recurring_order_id, pickup_on) do nothing;
+
+  -- 2) remind the customer while they can still skip or edit
+  for v_occ in
+    select o.*
+      from recurring_order_occurrences o
+      join recurring_orders r on r.id = o.recurring_order_id
+     where r.active
+       and o.status = 'scheduled'
+       and o.notified_at is null
+       and o.pickup_on - recurring_notice_days() <= current_date
+  loop
+    select * into v_sub from recurring_orders where id = v_occ.recurring_order_id;
+    perform notify_user(
+      v_sub.user_id,
+      'Upcoming recurring order',
+      format('Your order for pickup on %s at %s will be placed on %s. Skip or edit it in Recurring Orders.',
+             to_char(v_occ.pickup_on, 'Dy Mon DD'), v_sub.slot_time,
+             to_char(v_occ.pickup_on - recurring_place_days(), 'Dy Mon DD'))
+    );
+    update recurring_order_occurrences set notified_at = now() where id = v_occ.id;
+  end loop;
+
+  -- 3) place what is due, then move the subscription on
+  for v_occ in
+    select o.*
+      from recurring_order_occurrences o
+      join recurring_orders r on r.id = o.recurring_order_id
+     where r.active
+       and o.pickup_on = r.next_pickup_on
+       and o.status in ('scheduled', 'skipped')
+       and o.pickup_on - recurring_place_days() <= current_date
+       for update of o
+  loop
+    select * into v_sub from recurring_orders where id = v_occ.recurring_order_id;
+    v_label := to_char(v_occ.pickup_on, 'Dy Mon DD');
+
+    if v_occ.status = 'scheduled' then
+      select * into v_resolved
+        from resolve_recurring_items(v_sub.location_id, coalesce(v_occ.items, v_sub.items));
+      begin
+        -- the occurrence id doubles as the idempotency key
+        v_order_id := place_order_for(
+          v_sub.user_id, v_occ.id, v_sub.location_id, v_sub.payment_id,
+          v_occ.pickup_on + v_sub.slot_time::time, v_sub.slot_day, v_sub.slot_time,
+          v_resolved.items, null, v_sub.order_note
+        );
+
+        update recurring_order_occurrences
+           set status = 'placed', order_id = v_order_id, adjustments = v_resolved.adjustments
+         where id = v_occ.id;
+
+        perform notify_user(
+          v_sub.user_id,
+          'Recurring order placed',
+          format('Your order for %s at %s has been placed.', v_label, v_sub.slot_time)
+            || case when jsonb_array_length(v_resolved.adjustments) > 0
+                    then format(' %s item(s) were substituted or unavailable.',
+                                jsonb_array_length(v_resolved.adjustments))
+                    else '' end,
+          v_order_id
+        );
+      exception when others then
+        update recurring_order_occurrences
+           set status = 'failed', failure = sqlerrm, adjustments = v_resolved.adjustments
+         where id = v_occ.id;
+
+        perform notify_user(
+          v_sub.user_id,
+          'Recurring order not placed',
+          format('We couldn''t place your order for %s: %s. Your next one is still scheduled.',
+                 v_label, recurring_failure_text(sqlerrm))
+        );
+      end;
+    end if;
+
+    update recurring_orders
+       set next_pickup_on = next_recurring_pickup(frequency, slot_day, v_occ.pickup_on, starts_on),
+           updated_at = now()
+     where id = v_sub.id;
+
+    insert into recurring_order_occurrences (recurring_order_id, pickup_on)
+    values (v_sub.id, next_recurring_pickup(v_sub.frequency, v_sub.slot_day, v_occ.pickup_on, v_sub.starts_on))
+    on conflict (recurring_order_id, pickup_on) do nothing;
+  end loop;
+end;
+$$;
+
+revoke execute on function public.run_recurring_orders() from public, anon, authenticated;
+
+create extension if not exists pg_cron;
+
+select cron.schedule('run-recurring-orders', '*/15 * * * *', 'select public.run_recurring_orders()');
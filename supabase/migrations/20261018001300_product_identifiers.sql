@@ -0,0 +1,38 @@
+-- Products are rows per location, so the same item at two locations has
+-- two ids. `sku` (the store's own code) and `upc` (the printed barcode)
+-- identify it across locations; `map_cart_to_location` uses them to move
+-- a cart when the customer switches location.
+
+alter table public.products
+  add column if not exists sku text,
+  add column if not exists upc text;
+
+create index if not exists products_location_upc on public.products (location_id, upc) where upc is not null;
+create index if not exists products_location_sku on public.products (location_id, sku) where sku is not null;
+
+-- The equivalent of each product at `p_location_id`, matched by UPC
+-- first and SKU second; `product` is null when there is none.
+create or replace function public.map_cart_to_location(
+  p_product_ids uuid[],
+  p_location_id uuid
+) returns table (product_id uuid, product jsonb)
+language sql
+stable
+set search_path = public
+as $$
+  select src.id,
+         (select to_jsonb(m) from (
+            select p.id, p.name, p.price, p.unit, p.image_data, p.stock_quantity,
+                   p.sold_by_weight, p.weight_step
+              from products p
+             where p.location_id = p_location_id
+               and ((src.upc is not null and p.upc = src.upc)
+                 or (src.sku is not null and p.sku = src.sku))
+             order by (src.upc is not null and p.upc = src.upc) desc, p.id
+             limit 1
+          ) m)
+    from products src
+   where src.id = any(p_product_ids);
+$$;
+
+grant execute on function public.map_cart_to_location(uuid[], uuid) to anon, authenticated;
@@ -0,0 +1,389 @@
+-- Picker tips: stores opt in through `store_settings.tipping_enabled`
+-- and choose the percentages offered at checkout. The tip is stored on
+-- the order in `tip_amount`, is part of `total_amount`, and is credited
+-- to the employee who completes the order (`orders.employee_id`).
+
+alter table public.store_settings
+  add column if not exists tipping_enabled boolean not null default false,
+  add column if not exists tip_presets     numeric[] not null default '{10, 15, 20}';
+
+alter table public.orders
+  add column if not exists tip_amount numeric(10, 2) not null default 0 check (tip_amount >= 0);
+
+-- Recomputes an order's subtotal and taxes from its charge lines. The
+-- discounts and fees agreed at checkout are kept; discounts are capped
+-- at the new subtotal. The total stays an estimate until every weighed
+-- line has been put on the scale; the tip is added as given.
+create or replace function public.reprice_order(p_order_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order     orders;
+  v_subtotal  numeric(10, 2);
+  v_discount  numeric(10, 2);
+  v_ratio     numeric;
+  v_taxes     jsonb;
+  v_tax       numeric(10, 2);
+  v_fee       numeric(10, 2);
+  v_breakdown jsonb;
+  v_estimated boolean;
+  v_tip       numeric(10, 2);
+begin
+  select * into v_order from orders where id = p_order_id for update;
+  if not found then
+    raise exception 'order_not_found';
+  end if;
+
+  select coalesce(sum(l.unit_price * l.quantity), 0)
+    into v_subtotal
+    from order_charge_lines(p_order_id) l;
+
+  select exists (
+           select 1
+             from order_items oi
+             join products p on p.id = oi.product_id
+            where oi.order_id = p_order_id
+              and p.sold_by_weight
+              and oi.actual_weight is null
+              and oi.substitution_status is null
+         )
+    into v_estimated;
+
+  v_discount := least(coalesce(v_order.discount_amount, 0), v_subtotal);
+  v_fee := coalesce(v_order.service_fee, 0);
+  v_tip := coalesce(v_order.tip_amount, 0);
+  v_ratio := case when v_subtotal > 0 then (v_subtotal - v_discount) / v_subtotal else 0 end;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'category', t.tax_category,
+           'label',    t.label,
+           'rate',     t.rate,
+           'amount',   t.amount
+         ) order by t.tax_category), '[]'::jsonb),
+         coalesce(sum(t.amount), 0)
+    into v_taxes, v_tax
+    from (
+      select p.tax_category, tr.label, tr.rate,
+             round(sum(l.unit_price * l.quantity) * tr.rate * v_ratio, 2) as amount
+        from order_charge_lines(p_order_id) l
+        join products p on p.id = l.product_id
+        join location_tax_rates tr
+          on tr.location_id = v_order.location_id and tr.tax_category = p.tax_category
+       where tr.rate > 0
+       group by p.tax_category, tr.label, tr.rate
+    ) t;
+
+  -- orders placed before the pricing engine have no stored breakdown
+  v_breakdown := coalesce(v_order.price_breakdown, jsonb_build_object(
+    'discounts',   '[]'::jsonb,
+    'fees',        case when v_fee > 0
+                        then jsonb_build_array(jsonb_build_object('label', 'Service Fee', 'amount', v_fee))
+                        else '[]'::jsonb end,
+    'service_fee', v_fee
+  )) || jsonb_build_object(
+    'subtotal', v_subtotal,
+    'discount', v_discount,
+    'taxes',    v_taxes,
+    'tax',      v_tax,
+    'tip',      v_tip,
+    'total',    v_subtotal - v_discount + v_tax + v_fee + v_tip,
+    'estimated', v_estimated
+  );
+
+  update orders
+     set total_amount    = v_subtotal - v_discount + v_tax + v_fee + v_tip,
+         tax             = v_tax,
+         discount_amount = v_discount,
+         price_breakdown = v_breakdown
+   where id = p_order_id;
+
+  return v_breakdown;
+end;
+$$;
+
+drop function if exists public.place_order(uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text);
+drop function if exists public.place_order_for(uuid, uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text);
+
+-- Checkout now takes the tip the customer chose.
+create or replace function public.place_order_for(
+  p_user            uuid,
+  p_idempotency_key uuid,
+  p_location_id     uuid,
+  p_payment_id      uuid,
+  p_pickup_time     timestamptz,
+  p_slot_day        integer,
+  p_slot_time       text,
+  p_items           jsonb, -- [{ "product_id": uuid, "quantity": number, "substitution": text, "substitute_id": uuid, "note": text, "price": number }]
+  p_promo_code      text default null,
+  p_order_note      text default null,
+  p_tip             numeric default 0
+) returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user        uuid := p_user;
+  v_order_id    uuid;
+  v_line_count  integer;
+  v_valid_count integer;
+  v_pricing     jsonb;
+  v_discount    jsonb;
+  v_promo       promotions;
+  v_promo_error text;
+  v_short       jsonb;
+  v_hours       jsonb;
+  v_slot        jsonb;
+  v_changed     jsonb;
+  v_tip         numeric(10, 2);
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  -- serialise calls sharing a key so the second one sees the first's order
+  perform pg_advisory_xact_lock(hashtext(v_user::text || p_idempotency_key::text));
+
+  select id into v_order_id
+    from orders
+   where user_id = v_user and idempotency_key = p_idempotency_key;
+  if found then
+    return v_order_id;
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'cart_empty';
+  end if;
+  if p_pickup_time is null or p_pickup_time <= now() then
+    raise exception 'invalid_pickup_time';
+  end if;
+  if not exists (select 1 from payments where id = p_payment_id and user_id = v_user) then
+    raise exception 'invalid_payment';
+  end if;
+
+  -- 1) validate items against the location's catalogue
+  select count(*), count(p.id)
+    into v_line_count, v_valid_count
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    left join products p
+      on p.id = r.product_id and p.location_id = p_location_id
+   where r.quantity > 0
+     -- only weighed products may be ordered in fractions
+     and (coalesce(p.sold_by_weight, false) or r.quantity = trunc(r.quantity));
+
+  if v_line_count <> jsonb_array_length(p_items) then
+    raise exception 'invalid_quantity';
+  end if;
+  if v_valid_count <> v_line_count then
+    raise exception 'items_unavailable';
+  end if;
+
+  -- the customer must have seen each line's current price; lines sent
+  -- without one (recurring orders) take the price as it stands
+  select jsonb_agg(jsonb_build_object('product_id', p.id, 'price', p.price))
+    into v_changed
+    from jsonb_to_recordset(p_items) as r(product_id uuid, price numeric)
+    join products p on p.id = r.product_id
+   where r.price is not null and r.price <> p.price;
+
+  if v_changed is not null then
+    raise exception 'price_changed' using detail = v_changed::text;
+  end if;
+
+  -- 2) reserve stock. Rows are locked in id order so concurrent
+  --    checkouts can't deadlock; a null stock_quantity is untracked.
+  perform 1
+     from products
+    where id in (select (e ->> 'product_id')::uuid from jsonb_array_elements(p_items) e)
+    order by id
+      for update;
+
+  select jsonb_agg(jsonb_build_object(
+           'product_id', p.id,
+           'available',  greatest(p.stock_quantity, 0)
+         ))
+    into v_short
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id
+   where p.stock_quantity is not null and p.stock_quantity < r.quantity;
+
+  if v_short is not null then
+    raise exception 'out_of_stock' using detail = v_short::text;
+  end if;
+
+  update products p
+     set stock_quantity = p.stock_quantity - r.quantity
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+   where p.id = r.product_id and p.stock_quantity is not null;
+
+  -- 3) reserve the pickup slot; the row lock stops two checkouts
+  --    taking the last place at once
+  select available_hours into v_hours
+    from location_pickup_schedules
+   where location_id = p_location_id and day_of_week = p_slot_day
+     for update;
+
+  select h into v_slot
+    from jsonb_array_elements(coalesce(v_hours, '[]'::jsonb)) h
+   where h ->> 'time' = p_slot_time;
+  if v_slot is null then
+    raise exception 'slot_unavailable';
+  end if;
+
+  if v_slot ->> 'capacity' is not null then
+    if (v_slot ->> 'capacity')::integer <= 0 then
+      raise exception 'slot_full';
+    end if;
+
+    update location_pickup_schedules
+       set available_hours = (
+         select jsonb_agg(
+                  case when h ->> 'time' = p_slot_time
+                       then jsonb_set(h, '{capacity}', to_jsonb((h ->> 'capacity')::integer - 1))
+                       else h end
+                  order by ord)
+           from jsonb_array_elements(v_hours) with ordinality as t(h, ord)
+       )
+     where location_id = p_location_id and day_of_week = p_slot_day;
+  end if;
+
+  -- 4) create the order and its items, priced by the same engine the
+  --    cart used for its quote
+  v_pricing := price_cart(p_location_id, p_items, p_slot_time, p_promo_code);
+  if v_pricing ->> 'promo_error' is not null then
+    raise exception '%', v_pricing ->> 'promo_error';
+  end if;
+
+  -- re-check usage limits under a row lock so two orders cannot both
+  -- take a promotion's last use
+  for v_discount in select * from jsonb_array_elements(v_pricing -> 'discounts') loop
+    select * into v_promo
+      from promotions
+     where id = (v_discount ->> 'promotion_id')::uuid
+       for update;
+    v_promo_error := promotion_error(v_promo, v_user, (v_pricing ->> 'subtotal')::numeric);
+    if v_promo_error is not null then
+      raise exception '%', v_promo_error;
+    end if;
+  end loop;
+
+  -- the picker tip sits on top of the priced total. Anything above the
+  -- subtotal is taken to be a mistyped custom amount.
+  v_tip := round(coalesce(p_tip, 0), 2);
+  if v_tip < 0 or v_tip > (v_pricing ->> 'subtotal')::numeric then
+    raise exception 'invalid_tip';
+  end if;
+  if v_tip > 0 and not coalesce((
+    select s.tipping_enabled
+      from locations l
+      join store_settings s on s.store_id = l.store_id
+     where l.id = p_location_id
+  ), false) then
+    raise exception 'tipping_disabled';
+  end if;
+  v_pricing := v_pricing || jsonb_build_object(
+    'tip',   v_tip,
+    'total', (v_pricing ->> 'total')::numeric + v_tip
+  );
+
+  insert into orders (
+    user_id, location_id, total_amount, service_fee, tax, price_breakdown,
+    discount_amount, discount_lines, customer_note, estimated_total, tip_amount,
+    status, barcode, payment_id, pickup_time, idempotency_key, created_at
+  ) values (
+    v_user, p_location_id, (v_pricing ->> 'total')::numeric,
+    (v_pricing ->> 'service_fee')::numeric, (v_pricing ->> 'tax')::numeric, v_pricing,
+    (v_pricing ->> 'discount')::numeric, v_pricing -> 'discounts',
+    left(nullif(trim(p_order_note), ''), 500), (v_pricing ->> 'total')::numeric, v_tip,
+    'Pending', gen_random_uuid()::text, p_payment_id, p_pickup_time, p_idempotency_key, now()
+  )
+  returning id into v_order_id;
+
+  insert into order_items (
+    order_id, product_id, quantity, unit_price,
+    substitution_preference, preferred_substitute_id, note
+  )
+  select v_order_id, p.id, r.quantity, p.price,
+         coalesce(r.substitution, 'store_choice'),
+         case when r.substitution = 'specific' then alt.id end,
+         left(nullif(trim(r.note), ''), 200)
+    from jsonb_to_recordset(p_items)
+           as r(product_id uuid, quantity numeric, substitution text, substitute_id uuid, note text)
+    join products p on p.id = r.product_id
+    left join products alt
+      on alt.id = r.substitute_id and alt.location_id = p_location_id;
+
+  insert into promotion_redemptions (promotion_id, user_id, order_id, amount)
+  select (d ->> 'promotion_id')::uuid, v_user, v_order_id, (d ->> 'amount')::numeric
+    from jsonb_array_elements(v_pricing -> 'discounts') d;
+
+  return v_order_id;
+end;
+$$;
+
+revoke execute on function public.place_order_for(uuid, uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text, numeric)
+  from public, anon, authenticated;
+
+create or replace function public.place_order(
+  p_idempotency_key uuid,
+  p_location_id     uuid,
+  p_payment_id      uuid,
+  p_pickup_time     timestamptz,
+  p_slot_day        integer,
+  p_slot_time       text,
+  p_items           jsonb,
+  p_promo_code      text default null,
+  p_order_note      text default null,
+  p_tip             numeric default 0
+) returns uuid
+language sql
+security definer
+set search_path = public
+as $$
+  select place_order_for(
+    auth.uid(), p_idempotency_key, p_location_id, p_payment_id, p_pickup_time,
+    p_slot_day, p_slot_time, p_items, p_promo_code, p_order_note, p_tip
+  );
+$$;
+
+grant execute on function public.place_order(uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text, numeric)
+  to authenticated;
+
+-- Tips per completing employee over a period, for staff.
+create or replace function public.employee_tip_totals(
+  p_from timestamptz,
+  p_to   timestamptz default now()
+) returns table (
+  employee_id uuid,
+  first_name  text,
+  last_name   text,
+  order_count bigint,
+  tip_total   numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from profiles where id = auth.uid() and role = 'employee') then
+    raise exception 'not_authorized';
+  end if;
+
+  return query
+    select o.employee_id, pr.first_name, pr.last_name, count(*), sum(o.tip_amount)
+      from orders o
+      join profiles pr on pr.id = o.employee_id
+     where o.status = 'Completed'
+       and o.tip_amount > 0
+       and o.created_at >= p_from
+       and o.created_at < p_to
+     group by o.employee_id, pr.first_name, pr.last_name
+     order by sum(o.tip_amount) desc;
+end;
+$$;
+
+grant execute on function public.employee_tip_totals(timestamptz, timestamptz) to authenticated;
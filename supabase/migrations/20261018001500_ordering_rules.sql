@@ -0,0 +1,373 @@
+-- Ordering rules. Each store sets them in `store_settings`:
+--   min_order_subtotal  the smallest subtotal (before discounts) accepted
+--   max_order_items     the most items per order; weighed lines count once
+--   max_per_product     the most units of any one counted product
+--   orders_paused       stops new online orders, e.g. during a rush
+-- `location_rules` overrides any of these per location, keyed by location
+-- id: { "<location id>": { "min_subtotal": 25, "max_items": 40,
+-- "max_per_product": 6, "paused": true, "paused_message": "..." } }.
+-- A product's own `max_per_order` limits it further. The cart checks the
+-- rules as the customer shops; checkout enforces them.
+
+alter table public.store_settings
+  add column if not exists min_order_subtotal    numeric(10, 2) check (min_order_subtotal >= 0),
+  add column if not exists max_order_items       integer check (max_order_items > 0),
+  add column if not exists max_per_product       integer check (max_per_product > 0),
+  add column if not exists orders_paused         boolean not null default false,
+  add column if not exists orders_paused_message text,
+  add column if not exists location_rules        jsonb not null default '{}'::jsonb;
+
+alter table public.products
+  add column if not exists max_per_order numeric(10, 3) check (max_per_order > 0);
+
+-- The rules in force at a location, or null when its store has no
+-- settings. A location can pause on its own but can't resume a store
+-- that is paused.
+create or replace function public.ordering_rules(p_location_id uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+           'min_subtotal',    coalesce((o ->> 'min_subtotal')::numeric, s.min_order_subtotal),
+           'max_items',       coalesce((o ->> 'max_items')::integer, s.max_order_items),
+           'max_per_product', coalesce((o ->> 'max_per_product')::integer, s.max_per_product),
+           'paused',          s.orders_paused or coalesce((o ->> 'paused')::boolean, false),
+           'paused_message',  coalesce(o ->> 'paused_message', s.orders_paused_message)
+         )
+    from locations l
+    join store_settings s on s.store_id = l.store_id
+    cross join lateral (
+      select coalesce(s.location_rules -> p_location_id::text, '{}'::jsonb) as o
+    ) x
+   where l.id = p_location_id;
+$$;
+
+grant execute on function public.ordering_rules(uuid) to anon, authenticated;
+
+-- Staff: pause or resume online orders for a whole store, or for one of
+-- its locations when `p_location_id` is given.
+create or replace function public.set_orders_paused(
+  p_store_id    uuid,
+  p_paused      boolean,
+  p_message     text default null,
+  p_location_id uuid default null
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from profiles where id = auth.uid() and role = 'employee') then
+    raise exception 'not_authorized';
+  end if;
+
+  if p_location_id is null then
+    update store_settings
+       set orders_paused = p_paused,
+           orders_paused_message = case when p_paused then nullif(trim(p_message), '') end
+     where store_id = p_store_id;
+  else
+    if not exists (select 1 from locations where id = p_location_id and store_id = p_store_id) then
+      raise exception 'location_not_found';
+    end if;
+    update store_settings
+       set location_rules = jsonb_set(
+             location_rules,
+             array[p_location_id::text],
+             coalesce(location_rules -> p_location_id::text, '{}'::jsonb)
+               || jsonb_build_object(
+                    'paused', p_paused,
+                    'paused_message', case when p_paused then nullif(trim(p_message), '') end
+                  )
+           )
+     where store_id = p_store_id;
+  end if;
+
+  if not found then
+    raise exception 'store_not_found';
+  end if;
+end;
+$$;
+
+grant execute on function public.set_orders_paused(uuid, boolean, text, uuid) to authenticated;
+
+-- Checkout enforces the ordering rules before anything is reserved.
+create or replace function public.place_order_for(
+  p_user            uuid,
+  p_idempotency_key uuid,
+  p_location_id     uuid,
+  p_payment_id      uuid,
+  p_pickup_time     timestamptz,
+  p_slot_day        integer,
+  p_slot_time       text,
+  p_items           jsonb, -- [{ "product_id": uuid, "quantity": number, "substitution": text, "substitute_id": uuid, "note": text, "price": number }]
+  p_promo_code      text default null,
+  p_order_note      text default null,
+  p_tip             numeric default 0
+) returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user        uuid := p_user;
+  v_order_id    uuid;
+  v_line_count  integer;
+  v_valid_count integer;
+  v_pricing     jsonb;
+  v_discount    jsonb;
+  v_promo       promotions;
+  v_promo_error text;
+  v_short       jsonb;
+  v_hours       jsonb;
+  v_slot        jsonb;
+  v_changed     jsonb;
+  v_tip         numeric(10, 2);
+  v_rules       jsonb;
+  v_over        jsonb;
+  v_item_count  numeric;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  -- serialise calls sharing a key so the second one sees the first's order
+  perform pg_advisory_xact_lock(hashtext(v_user::text || p_idempotency_key::text));
+
+  select id into v_order_id
+    from orders
+   where user_id = v_user and idempotency_key = p_idempotency_key;
+  if found then
+    return v_order_id;
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'cart_empty';
+  end if;
+  if p_pickup_time is null or p_pickup_time <= now() then
+    raise exception 'invalid_pickup_time';
+  end if;
+  if not exists (select 1 from payments where id = p_payment_id and user_id = v_user) then
+    raise exception 'invalid_payment';
+  end if;
+
+  v_rules := coalesce(ordering_rules(p_location_id), '{}'::jsonb);
+  if coalesce((v_rules ->> 'paused')::boolean, false) then
+    raise exception 'orders_paused' using detail = coalesce(v_rules ->> 'paused_message', '');
+  end if;
+
+  -- 1) validate items against the location's catalogue
+  select count(*), count(p.id)
+    into v_line_count, v_valid_count
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    left join products p
+      on p.id = r.product_id and p.location_id = p_location_id
+   where r.quantity > 0
+     -- only weighed products may be ordered in fractions
+     and (coalesce(p.sold_by_weight, false) or r.quantity = trunc(r.quantity));
+
+  if v_line_count <> jsonb_array_length(p_items) then
+    raise exception 'invalid_quantity';
+  end if;
+  if v_valid_count <> v_line_count then
+    raise exception 'items_unavailable';
+  end if;
+
+  -- the customer must have seen each line's current price; lines sent
+  -- without one (recurring orders) take the price as it stands
+  select jsonb_agg(jsonb_build_object('product_id', p.id, 'price', p.price))
+    into v_changed
+    from jsonb_to_recordset(p_items) as r(product_id uuid, price numeric)
+    join products p on p.id = r.product_id
+   where r.price is not null and r.price <> p.price;
+
+  if v_changed is not null then
+    raise exception 'price_changed' using detail = v_changed::text;
+  end if;
+
+  -- per-product purchase limits, then the cap on items per order. The
+  -- store-wide per-product limit only counts units, not weight.
+  select jsonb_agg(jsonb_build_object('product_id', p.id, 'limit', l.max_qty))
+    into v_over
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id
+    cross join lateral (
+      select least(p.max_per_order,
+                   case when not p.sold_by_weight then (v_rules ->> 'max_per_product')::integer end) as max_qty
+    ) l
+   where r.quantity > l.max_qty;
+
+  if v_over is not null then
+    raise exception 'purchase_limit' using detail = v_over::text;
+  end if;
+
+  select sum(case when p.sold_by_weight then 1 else r.quantity end)
+    into v_item_count
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id;
+
+  if v_item_count > (v_rules ->> 'max_items')::integer then
+    raise exception 'too_many_items'
+      using detail = jsonb_build_object('max_items', (v_rules ->> 'max_items')::integer)::text;
+  end if;
+
+  -- 2) reserve stock. Rows are locked in id order so concurrent
+  --    checkouts can't deadlock; a null stock_quantity is untracked.
+  perform 1
+     from products
+    where id in (select (e ->> 'product_id')::uuid from jsonb_array_elements(p_items) e)
+    order by id
+      for update;
+
+  select jsonb_agg(jsonb_build_object(
+           'product_id', p.id,
+           'available',  greatest(p.stock_quantity, 0)
+         ))
+    into v_short
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id
+   where p.stock_quantity is not null and p.stock_quantity < r.quantity;
+
+  if v_short is not null then
+    raise exception 'out_of_stock' using detail = v_short::text;
+  end if;
+
+  update products p
+     set stock_quantity = p.stock_quantity - r.quantity
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+   where p.id = r.product_id and p.stock_quantity is not null;
+
+  -- 3) reserve the pickup slot; the row lock stops two checkouts
+  --    taking the last place at once
+  select available_hours into v_hours
+    from location_pickup_schedules
+   where location_id = p_location_id and day_of_week = p_slot_day
+     for update;
+
+  select h into v_slot
+    from jsonb_array_elements(coalesce(v_hours, '[]'::jsonb)) h
+   where h ->> 'time' = p_slot_time;
+  if v_slot is null then
+    raise exception 'slot_unavailable';
+  end if;
+
+  if v_slot ->> 'capacity' is not null then
+    if (v_slot ->> 'capacity')::integer <= 0 then
+      raise exception 'slot_full';
+    end if;
+
+    update location_pickup_schedules
+       set available_hours = (
+         select jsonb_agg(
+                  case when h ->> 'time' = p_slot_time
+                       then jsonb_set(h, '{capacity}', to_jsonb((h ->> 'capacity')::integer - 1))
+                       else h end
+                  order by ord)
+           from jsonb_array_elements(v_hours) with ordinality as t(h, ord)
+       )
+     where location_id = p_location_id and day_of_week = p_slot_day;
+  end if;
+
+  -- 4) create the order and its items, priced by the same engine the
+  --    cart used for its quote
+  v_pricing := price_cart(p_location_id, p_items, p_slot_time, p_promo_code);
+  if v_pricing ->> 'promo_error' is not null then
+    raise exception '%', v_pricing ->> 'promo_error';
+  end if;
+
+  -- the minimum applies to the goods before discounts
+  if (v_pricing ->> 'subtotal')::numeric < (v_rules ->> 'min_subtotal')::numeric then
+    raise exception 'below_minimum'
+      using detail = jsonb_build_object('min_subtotal', (v_rules ->> 'min_subtotal')::numeric)::text;
+  end if;
+
+  -- re-check usage limits under a row lock so two orders cannot both
+  -- take a promotion's last use
+  for v_discount in select * from jsonb_array_elements(v_pricing -> 'discounts') loop
+    select * into v_promo
+      from promotions
+     where id = (v_discount ->> 'promotion_id')::uuid
+       for update;
+    v_promo_error := promotion_error(v_promo, v_user, (v_pricing ->> 'subtotal')::numeric);
+    if v_promo_error is not null then
+      raise exception '%', v_promo_error;
+    end if;
+  end loop;
+
+  -- the picker tip sits on top of the priced total. Anything above the
+  -- subtotal is taken to be a mistyped custom amount.
+  v_tip := round(coalesce(p_tip, 0), 2);
+  if v_tip < 0 or v_tip > (v_pricing ->> 'subtotal')::numeric then
+    raise exception 'invalid_tip';
+  end if;
+  if v_tip > 0 and not coalesce((
+    select s.tipping_enabled
+      from locations l
+      join store_settings s on s.store_id = l.store_id
+     where l.id = p_location_id
+  ), false) then
+    raise exception 'tipping_disabled';
+  end if;
+  v_pricing := v_pricing || jsonb_build_object(
+    'tip',   v_tip,
+    'total', (v_pricing ->> 'total')::numeric + v_tip
+  );
+
+  insert into orders (
+    user_id, location_id, total_amount, service_fee, tax, price_breakdown,
+    discount_amount, discount_lines, customer_note, estimated_total, tip_amount,
+    status, barcode, payment_id, pickup_time, idempotency_key, created_at
+  ) values (
+    v_user, p_location_id, (v_pricing ->> 'total')::numeric,
+    (v_pricing ->> 'service_fee')::numeric, (v_pricing ->> 'tax')::numeric, v_pricing,
+    (v_pricing ->> 'discount')::numeric, v_pricing -> 'discounts',
+    left(nullif(trim(p_order_note), ''), 500), (v_pricing ->> 'total')::numeric, v_tip,
+    'Pending', gen_random_uuid()::text, p_payment_id, p_pickup_time, p_idempotency_key, now()
+  )
+  returning id into v_order_id;
+
+  insert into order_items (
+    order_id, product_id, quantity, unit_price,
+    substitution_preference, preferred_substitute_id, note
+  )
+  select v_order_id, p.id, r.quantity, p.price,
+         coalesce(r.substitution, 'store_choice'),
+         case when r.substitution = 'specific' then alt.id end,
+         left(nullif(trim(r.note), ''), 200)
+    from jsonb_to_recordset(p_items)
+           as r(product_id uuid, quantity numeric, substitution text, substitute_id uuid, note text)
+    join products p on p.id = r.product_id
+    left join products alt
+      on alt.id = r.substitute_id and alt.location_id = p_location_id;
+
+  insert into promotion_redemptions (promotion_id, user_id, order_id, amount)
+  select (d ->> 'promotion_id')::uuid, v_user, v_order_id, (d ->> 'amount')::numeric
+    from jsonb_array_elements(v_pricing -> 'discounts') d;
+
+  return v_order_id;
+end;
+$$;
+
+revoke execute on function public.place_order_for(uuid, uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text, numeric)
+  from public, anon, authenticated;
+
+-- recurring orders report rule failures like any other
+create or replace function public.recurring_failure_text(p_code text) returns text
+language sql immutable as $$
+  select case p_code
+    when 'slot_full'         then 'the pickup slot was full'
+    when 'slot_unavailable'  then 'the pickup slot is no longer offered'
+    when 'invalid_payment'   then 'the saved payment method is no longer available'
+    when 'items_unavailable' then 'none of the items were available'
+    when 'cart_empty'        then 'none of the items were available'
+    when 'out_of_stock'      then 'items sold out while ordering'
+    when 'orders_paused'     then 'the store had paused online orders'
+    when 'below_minimum'     then 'the order was below the store''s minimum'
+    when 'too_many_items'    then 'the order was over the store''s item limit'
+    when 'purchase_limit'    then 'an item was over its purchase limit'
+    else 'something went wrong'
+  end;
+$$;
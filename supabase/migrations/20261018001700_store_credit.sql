@@ -0,0 +1,520 @@
+-- Store balance: each customer has a balance per store, kept as the sum
+-- of an append-only ledger. Gift cards are redeemed into it by code,
+-- staff issue store credit against an order as a refund, and checkout
+-- can spend it before charging the remainder to a saved card
+-- (`orders.balance_applied` / `orders.card_amount`). Clients can read
+-- their own ledger but never write to it; every movement goes through
+-- the functions below.
+
+create table if not exists public.gift_cards (
+  id          uuid primary key default gen_random_uuid(),
+  store_id    uuid not null references public.stores (id) on delete cascade,
+  code        text not null unique, -- stored upper-case
+  amount      numeric(10, 2) not null check (amount > 0),
+  expires_at  timestamptz,
+  redeemed_by uuid references auth.users (id) on delete set null,
+  redeemed_at timestamptz,
+  created_at  timestamptz not null default now()
+);
+
+create table if not exists public.balance_ledger (
+  id           uuid primary key default gen_random_uuid(),
+  user_id      uuid not null references auth.users (id) on delete cascade,
+  store_id     uuid not null references public.stores (id) on delete cascade,
+  amount       numeric(10, 2) not null check (amount <> 0), -- credits positive, spending negative
+  kind         text not null
+    check (kind in ('gift_card', 'refund', 'order', 'order_adjustment')),
+  order_id     uuid references public.orders (id) on delete set null,
+  gift_card_id uuid references public.gift_cards (id) on delete set null,
+  note         text,
+  created_by   uuid references auth.users (id) on delete set null, -- staff who issued a refund
+  created_at   timestamptz not null default now()
+);
+
+create index if not exists balance_ledger_user_store on public.balance_ledger (user_id, store_id, created_at desc);
+create index if not exists balance_ledger_order on public.balance_ledger (order_id);
+
+alter table public.gift_cards enable row level security;
+alter table public.balance_ledger enable row level security;
+
+-- no policies on gift_cards: codes are only checked by redeem_gift_card
+create policy "balance_ledger_owner_select" on public.balance_ledger
+  for select using (auth.uid() = user_id);
+create policy "balance_ledger_employee_select" on public.balance_ledger
+  for select using (exists (select 1 from profiles where id = auth.uid() and role = 'employee'));
+
+alter table public.orders
+  add column if not exists balance_applied numeric(10, 2) not null default 0 check (balance_applied >= 0),
+  add column if not exists card_amount numeric(10, 2)
+    generated always as (greatest(total_amount - balance_applied, 0)) stored;
+
+-- an order paid entirely from the balance has no card
+alter table public.orders alter column payment_id drop not null;
+
+create or replace function public.user_balance(p_user uuid, p_store_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(amount), 0)
+    from balance_ledger
+   where user_id = p_user and store_id = p_store_id;
+$$;
+
+revoke execute on function public.user_balance(uuid, uuid) from public, anon, authenticated;
+
+create or replace function public.store_balance(p_store_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select user_balance(auth.uid(), p_store_id);
+$$;
+
+grant execute on function public.store_balance(uuid) to authenticated;
+
+-- Redeems a gift card for the store the customer is shopping at and
+-- returns the new balance.
+create or replace function public.redeem_gift_card(p_code text, p_store_id uuid)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_card gift_cards;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select * into v_card
+    from gift_cards
+   where code = upper(trim(p_code))
+     for update;
+  if not found then
+    raise exception 'gift_card_not_found';
+  end if;
+  if v_card.redeemed_at is not null then
+    raise exception 'gift_card_redeemed';
+  end if;
+  if v_card.expires_at is not null and v_card.expires_at <= now() then
+    raise exception 'gift_card_expired';
+  end if;
+  if v_card.store_id <> p_store_id then
+    raise exception 'gift_card_other_store';
+  end if;
+
+  update gift_cards
+     set redeemed_by = v_user, redeemed_at = now()
+   where id = v_card.id;
+
+  insert into balance_ledger (user_id, store_id, amount, kind, gift_card_id)
+  values (v_user, v_card.store_id, v_card.amount, 'gift_card', v_card.id);
+
+  return user_balance(v_user, v_card.store_id);
+end;
+$$;
+
+grant execute on function public.redeem_gift_card(text, uuid) to authenticated;
+
+-- Staff: refunds part or all of an order as store credit. Credit issued
+-- against one order can't add up to more than its total, and none goes
+-- to a cancelled order: cancelling already returned what it took.
+create or replace function public.issue_store_credit(
+  p_order_id uuid,
+  p_amount   numeric,
+  p_note     text default null
+) returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order    orders;
+  v_store_id uuid;
+  v_issued   numeric;
+  v_amount   numeric(10, 2) := round(p_amount, 2);
+begin
+  if not exists (select 1 from profiles where id = auth.uid() and role = 'employee') then
+    raise exception 'not_authorized';
+  end if;
+  if v_amount is null or v_amount <= 0 then
+    raise exception 'invalid_amount';
+  end if;
+
+  select * into v_order from orders where id = p_order_id for update;
+  if not found then
+    raise exception 'order_not_found';
+  end if;
+  if v_order.status = 'Cancelled' then
+    raise exception 'order_cancelled';
+  end if;
+  select store_id into v_store_id from locations where id = v_order.location_id;
+
+  select coalesce(sum(amount), 0) into v_issued
+    from balance_ledger
+   where order_id = p_order_id and kind = 'refund';
+  if v_issued + v_amount > v_order.total_amount then
+    raise exception 'refund_exceeds_total';
+  end if;
+
+  insert into balance_ledger (user_id, store_id, amount, kind, order_id, note, created_by)
+  values (v_order.user_id, v_store_id, v_amount, 'refund', p_order_id,
+          left(nullif(trim(p_note), ''), 200), auth.uid());
+
+  perform notify_user(
+    v_order.user_id,
+    'Store credit added',
+    format('$%s was added to your store credit for order %s.',
+           to_char(v_amount, 'FM999990.00'), v_order.order_number),
+    p_order_id
+  );
+
+  return user_balance(v_order.user_id, v_store_id);
+end;
+$$;
+
+grant execute on function public.issue_store_credit(uuid, numeric, text) to authenticated;
+
+-- When weighing or substitutions bring a total below what the balance
+-- paid, the difference goes back to the balance.
+create or replace function public.return_unused_balance()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_excess numeric(10, 2) := new.balance_applied - greatest(new.total_amount, 0);
+begin
+  if v_excess > 0 then
+    insert into balance_ledger (user_id, store_id, amount, kind, order_id, note)
+    select new.user_id, l.store_id, v_excess, 'order_adjustment', new.id, 'Order total went down'
+      from locations l
+     where l.id = new.location_id;
+    new.balance_applied := new.balance_applied - v_excess;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_return_unused_balance on public.orders;
+create trigger orders_return_unused_balance
+  before update of total_amount on public.orders
+  for each row execute function public.return_unused_balance();
+
+drop function if exists public.place_order(uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text, numeric);
+drop function if exists public.place_order_for(uuid, uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text, numeric);
+
+-- Checkout can pay from the store balance first. The card is only
+-- required for what the balance doesn't cover.
+create or replace function public.place_order_for(
+  p_user            uuid,
+  p_idempotency_key uuid,
+  p_location_id     uuid,
+  p_payment_id      uuid,
+  p_pickup_time     timestamptz,
+  p_slot_day        integer,
+  p_slot_time       text,
+  p_items           jsonb, -- [{ "product_id": uuid, "quantity": number, "substitution": text, "substitute_id": uuid, "note": text, "price": number }]
+  p_promo_code      text default null,
+  p_order_note      text default null,
+  p_tip             numeric default 0,
+  p_use_balance     boolean default false
+) returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user        uuid := p_user;
+  v_order_id    uuid;
+  v_line_count  integer;
+  v_valid_count integer;
+  v_pricing     jsonb;
+  v_discount    jsonb;
+  v_promo       promotions;
+  v_promo_error text;
+  v_short       jsonb;
+  v_hours       jsonb;
+  v_slot        jsonb;
+  v_changed     jsonb;
+  v_tip         numeric(10, 2);
+  v_rules       jsonb;
+  v_over        jsonb;
+  v_item_count  numeric;
+  v_store_id    uuid;
+  v_applied     numeric(10, 2) := 0;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  -- serialise calls sharing a key so the second one sees the first's order
+  perform pg_advisory_xact_lock(hashtext(v_user::text || p_idempotency_key::text));
+
+  select id into v_order_id
+    from orders
+   where user_id = v_user and idempotency_key = p_idempotency_key;
+  if found then
+    return v_order_id;
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'cart_empty';
+  end if;
+  if p_pickup_time is null or p_pickup_time <= now() then
+    raise exception 'invalid_pickup_time';
+  end if;
+  if p_payment_id is not null
+     and not exists (select 1 from payments where id = p_payment_id and user_id = v_user) then
+    raise exception 'invalid_payment';
+  end if;
+
+  v_rules := coalesce(ordering_rules(p_location_id), '{}'::jsonb);
+  if coalesce((v_rules ->> 'paused')::boolean, false) then
+    raise exception 'orders_paused' using detail = coalesce(v_rules ->> 'paused_message', '');
+  end if;
+
+  -- 1) validate items against the location's catalogue
+  select count(*), count(p.id)
+    into v_line_count, v_valid_count
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    left join products p
+      on p.id = r.product_id and p.location_id = p_location_id
+   where r.quantity > 0
+     -- only weighed products may be ordered in fractions
+     and (coalesce(p.sold_by_weight, false) or r.quantity = trunc(r.quantity));
+
+  if v_line_count <> jsonb_array_length(p_items) then
+    raise exception 'invalid_quantity';
+  end if;
+  if v_valid_count <> v_line_count then
+    raise exception 'items_unavailable';
+  end if;
+
+  -- the customer must have seen each line's current price; lines sent
+  -- without one (recurring orders) take the price as it stands
+  select jsonb_agg(jsonb_build_object('product_id', p.id, 'price', p.price))
+    into v_changed
+    from jsonb_to_recordset(p_items) as r(product_id uuid, price numeric)
+    join products p on p.id = r.product_id
+   where r.price is not null and r.price <> p.price;
+
+  if v_changed is not null then
+    raise exception 'price_changed' using detail = v_changed::text;
+  end if;
+
+  -- per-product purchase limits, then the cap on items per order. The
+  -- store-wide per-product limit only counts units, not weight.
+  select jsonb_agg(jsonb_build_object('product_id', p.id, 'limit', l.max_qty))
+    into v_over
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id
+    cross join lateral (
+      select least(p.max_per_order,
+                   case when not p.sold_by_weight then (v_rules ->> 'max_per_product')::integer end) as max_qty
+    ) l
+   where r.quantity > l.max_qty;
+
+  if v_over is not null then
+    raise exception 'purchase_limit' using detail = v_over::text;
+  end if;
+
+  select sum(case when p.sold_by_weight then 1 else r.quantity end)
+    into v_item_count
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id;
+
+  if v_item_count > (v_rules ->> 'max_items')::integer then
+    raise exception 'too_many_items'
+      using detail = jsonb_build_object('max_items', (v_rules ->> 'max_items')::integer)::text;
+  end if;
+
+  -- 2) reserve stock. Rows are locked in id order so concurrent
+  --    checkouts can't deadlock; a null stock_quantity is untracked.
+  perform 1
+     from products
+    where id in (select (e ->> 'product_id')::uuid from jsonb_array_elements(p_items) e)
+    order by id
+      for update;
+
+  select jsonb_agg(jsonb_build_object(
+           'product_id', p.id,
+           'available',  greatest(p.stock_quantity, 0)
+         ))
+    into v_short
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id
+   where p.stock_quantity is not null and p.stock_quantity < r.quantity;
+
+  if v_short is not null then
+    raise exception 'out_of_stock' using detail = v_short::text;
+  end if;
+
+  update products p
+     set stock_quantity = p.stock_quantity - r.quantity
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+   where p.id = r.product_id and p.stock_quantity is not null;
+
+  -- 3) reserve the pickup slot; the row lock stops two checkouts
+  --    taking the last place at once
+  select available_hours into v_hours
+    from location_pickup_schedules
+   where location_id = p_location_id and day_of_week = p_slot_day
+     for update;
+
+  select h into v_slot
+    from jsonb_array_elements(coalesce(v_hours, '[]'::jsonb)) h
+   where h ->> 'time' = p_slot_time;
+  if v_slot is null then
+    raise exception 'slot_unavailable';
+  end if;
+
+  if v_slot ->> 'capacity' is not null then
+    if (v_slot ->> 'capacity')::integer <= 0 then
+      raise exception 'slot_full';
+    end if;
+
+    update location_pickup_schedules
+       set available_hours = (
+         select jsonb_agg(
+                  case when h ->> 'time' = p_slot_time
+                       then jsonb_set(h, '{capacity}', to_jsonb((h ->> 'capacity')::integer - 1))
+                       else h end
+                  order by ord)
+           from jsonb_array_elements(v_hours) with ordinality as t(h, ord)
+       )
+     where location_id = p_location_id and day_of_week = p_slot_day;
+  end if;
+
+  -- 4) create the order and its items, priced by the same engine the
+  --    cart used for its quote
+  v_pricing := price_cart(p_location_id, p_items, p_slot_time, p_promo_code);
+  if v_pricing ->> 'promo_error' is not null then
+    raise exception '%', v_pricing ->> 'promo_error';
+  end if;
+
+  -- the minimum applies to the goods before discounts
+  if (v_pricing ->> 'subtotal')::numeric < (v_rules ->> 'min_subtotal')::numeric then
+    raise exception 'below_minimum'
+      using detail = jsonb_build_object('min_subtotal', (v_rules ->> 'min_subtotal')::numeric)::text;
+  end if;
+
+  -- re-check usage limits under a row lock so two orders cannot both
+  -- take a promotion's last use
+  for v_discount in select * from jsonb_array_elements(v_pricing -> 'discounts') loop
+    select * into v_promo
+      from promotions
+     where id = (v_discount ->> 'promotion_id')::uuid
+       for update;
+    v_promo_error := promotion_error(v_promo, v_user, (v_pricing ->> 'subtotal')::numeric);
+    if v_promo_error is not null then
+      raise exception '%', v_promo_error;
+    end if;
+  end loop;
+
+  -- the picker tip sits on top of the priced total. Anything above the
+  -- subtotal is taken to be a mistyped custom amount.
+  v_tip := round(coalesce(p_tip, 0), 2);
+  if v_tip < 0 or v_tip > (v_pricing ->> 'subtotal')::numeric then
+    raise exception 'invalid_tip';
+  end if;
+  if v_tip > 0 and not coalesce((
+    select s.tipping_enabled
+      from locations l
+      join store_settings s on s.store_id = l.store_id
+     where l.id = p_location_id
+  ), false) then
+    raise exception 'tipping_disabled';
+  end if;
+  v_pricing := v_pricing || jsonb_build_object(
+    'tip',   v_tip,
+    'total', (v_pricing ->> 'total')::numeric + v_tip
+  );
+
+  -- split tender: the balance pays first, the card the remainder. The
+  -- per-user lock keeps two checkouts from spending the same balance.
+  if p_use_balance then
+    select store_id into v_store_id from locations where id = p_location_id;
+    perform pg_advisory_xact_lock(hashtext('balance:' || v_user::text || v_store_id::text));
+    v_applied := greatest(least(user_balance(v_user, v_store_id), (v_pricing ->> 'total')::numeric), 0);
+  end if;
+  if (v_pricing ->> 'total')::numeric > v_applied and p_payment_id is null then
+    raise exception 'invalid_payment';
+  end if;
+
+  insert into orders (
+    user_id, location_id, total_amount, service_fee, tax, price_breakdown,
+    discount_amount, discount_lines, customer_note, estimated_total, tip_amount,
+    balance_applied, status, barcode, payment_id, pickup_time, idempotency_key, created_at
+  ) values (
+    v_user, p_location_id, (v_pricing ->> 'total')::numeric,
+    (v_pricing ->> 'service_fee')::numeric, (v_pricing ->> 'tax')::numeric, v_pricing,
+    (v_pricing ->> 'discount')::numeric, v_pricing -> 'discounts',
+    left(nullif(trim(p_order_note), ''), 500), (v_pricing ->> 'total')::numeric, v_tip,
+    v_applied, 'Pending', gen_random_uuid()::text, p_payment_id, p_pickup_time, p_idempotency_key, now()
+  )
+  returning id into v_order_id;
+
+  if v_applied > 0 then
+    insert into balance_ledger (user_id, store_id, amount, kind, order_id)
+    values (v_user, v_store_id, -v_applied, 'order', v_order_id);
+  end if;
+
+  insert into order_items (
+    order_id, product_id, quantity, unit_price,
+    substitution_preference, preferred_substitute_id, note
+  )
+  select v_order_id, p.id, r.quantity, p.price,
+         coalesce(r.substitution, 'store_choice'),
+         case when r.substitution = 'specific' then alt.id end,
+         left(nullif(trim(r.note), ''), 200)
+    from jsonb_to_recordset(p_items)
+           as r(product_id uuid, quantity numeric, substitution text, substitute_id uuid, note text)
+    join products p on p.id = r.product_id
+    left join products alt
+      on alt.id = r.substitute_id and alt.location_id = p_location_id;
+
+  insert into promotion_redemptions (promotion_id, user_id, order_id, amount)
+  select (d ->> 'promotion_id')::uuid, v_user, v_order_id, (d ->> 'amount')::numeric
+    from jsonb_array_elements(v_pricing -> 'discounts') d;
+
+  return v_order_id;
+end;
+$$;
+
+revoke execute on function public.place_order_for(uuid, uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text, numeric, boolean)
+  from public, anon, authenticated;
+
+create or replace function public.place_order(
+  p_idempotency_key uuid,
+  p_location_id     uuid,
+  p_payment_id      uuid,
+  p_pickup_time     timestamptz,
+  p_slot_day        integer,
+  p_slot_time       text,
+  p_items           jsonb,
+  p_promo_code      text default null,
+  p_order_note      text default null,
+  p_tip             numeric default 0,
+  p_use_balance     boolean default false
+) returns uuid
+language sql
+security definer
+set search_path = public
+as $$
+  select place_order_for(
+    auth.uid(), p_idempotency_key, p_location_id, p_payment_id, p_pickup_time,
+    p_slot_day, p_slot_time, p_items, p_promo_code, p_order_note, p_tip, p_use_balance
+  );
+$$;
+
+grant execute on function public.place_order(uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text, numeric, boolean)
+  to authenticated;
@@ -0,0 +1,712 @@
+-- Loyalty points: customers earn points per dollar when an order is
+-- completed and spend them at checkout as a "Points reward" discount
+-- line. Each store sets its earn rate, how many points make a reward
+-- and what it's worth, the smallest redemption, and its tiers (ranked
+-- by lifetime points earned, each with an earn multiplier). Like the
+-- store balance, points are the sum of an append-only ledger that
+-- clients can read but never write.
+
+alter table public.store_settings
+  add column if not exists loyalty_enabled           boolean not null default false,
+  add column if not exists loyalty_points_per_dollar numeric(6, 2) not null default 1
+    check (loyalty_points_per_dollar >= 0),
+  add column if not exists loyalty_redeem_points     integer not null default 100
+    check (loyalty_redeem_points > 0),
+  add column if not exists loyalty_redeem_value      numeric(10, 2) not null default 1
+    check (loyalty_redeem_value > 0),
+  add column if not exists loyalty_min_redeem        integer not null default 100
+    check (loyalty_min_redeem >= 0),
+  add column if not exists loyalty_tiers             jsonb not null default
+    '[{"name": "Member", "min_points": 0,    "multiplier": 1},
+      {"name": "Silver", "min_points": 1000, "multiplier": 1.25},
+      {"name": "Gold",   "min_points": 5000, "multiplier": 1.5}]';
+
+create table if not exists public.loyalty_ledger (
+  id         uuid primary key default gen_random_uuid(),
+  user_id    uuid not null references auth.users (id) on delete cascade,
+  store_id   uuid not null references public.stores (id) on delete cascade,
+  points     integer not null check (points <> 0), -- earned positive, spent negative
+  kind       text not null check (kind in ('earned', 'redeemed')),
+  order_id   uuid references public.orders (id) on delete set null,
+  note       text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists loyalty_ledger_user_store on public.loyalty_ledger (user_id, store_id, created_at desc);
+-- an order earns points once, however often it is marked completed
+create unique index if not exists loyalty_ledger_earned_once
+  on public.loyalty_ledger (order_id) where kind = 'earned';
+
+alter table public.loyalty_ledger enable row level security;
+
+create policy "loyalty_ledger_owner_select" on public.loyalty_ledger
+  for select using (auth.uid() = user_id);
+create policy "loyalty_ledger_employee_select" on public.loyalty_ledger
+  for select using (exists (select 1 from profiles where id = auth.uid() and role = 'employee'));
+
+create or replace function public.user_points(p_user uuid, p_store_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(points), 0)::integer
+    from loyalty_ledger
+   where user_id = p_user and store_id = p_store_id;
+$$;
+
+revoke execute on function public.user_points(uuid, uuid) from public, anon, authenticated;
+
+-- tiers rank on everything ever earned, so spending points never
+-- costs a customer their tier
+create or replace function public.lifetime_points(p_user uuid, p_store_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(points), 0)::integer
+    from loyalty_ledger
+   where user_id = p_user and store_id = p_store_id and kind = 'earned';
+$$;
+
+revoke execute on function public.lifetime_points(uuid, uuid) from public, anon, authenticated;
+
+-- the highest tier whose threshold the lifetime points reach
+create or replace function public.loyalty_tier(p_tiers jsonb, p_lifetime integer)
+returns jsonb
+language sql
+immutable
+as $$
+  select t
+    from jsonb_array_elements(coalesce(p_tiers, '[]'::jsonb)) t
+   where coalesce((t ->> 'min_points')::integer, 0) <= p_lifetime
+   order by coalesce((t ->> 'min_points')::integer, 0) desc
+   limit 1;
+$$;
+
+-- Everything the account and checkout screens show about the signed-in
+-- customer's points at a store, together with the store's rules.
+create or replace function public.loyalty_status(p_store_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_user     uuid := auth.uid();
+  v_settings store_settings;
+  v_lifetime integer;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select * into v_settings from store_settings where store_id = p_store_id;
+  v_lifetime := lifetime_points(v_user, p_store_id);
+
+  return jsonb_build_object(
+    'enabled',           coalesce(v_settings.loyalty_enabled, false),
+    'points',            user_points(v_user, p_store_id),
+    'lifetime',          v_lifetime,
+    'tier',              loyalty_tier(v_settings.loyalty_tiers, v_lifetime),
+    'next_tier',         (
+      select t
+        from jsonb_array_elements(coalesce(v_settings.loyalty_tiers, '[]'::jsonb)) t
+       where coalesce((t ->> 'min_points')::integer, 0) > v_lifetime
+       order by (t ->> 'min_points')::integer
+       limit 1
+    ),
+    'points_per_dollar', v_settings.loyalty_points_per_dollar,
+    'redeem_points',     v_settings.loyalty_redeem_points,
+    'redeem_value',      v_settings.loyalty_redeem_value,
+    'min_redeem',        v_settings.loyalty_min_redeem
+  );
+end;
+$$;
+
+grant execute on function public.loyalty_status(uuid) to authenticated;
+
+-- Orders are completed by staff updating the status directly (the
+-- employee order list and the barcode scanner), so points are awarded
+-- here rather than by either screen. The tip earns nothing; the rest
+-- of the final total earns at the store's rate times the customer's
+-- tier multiplier.
+create or replace function public.award_loyalty_points()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_settings store_settings;
+  v_tier     jsonb;
+  v_points   integer;
+begin
+  select s.* into v_settings
+    from locations l
+    join store_settings s on s.store_id = l.store_id
+   where l.id = new.location_id;
+  if not coalesce(v_settings.loyalty_enabled, false) then
+    return null;
+  end if;
+
+  v_tier := loyalty_tier(v_settings.loyalty_tiers, lifetime_points(new.user_id, v_settings.store_id));
+  v_points := floor(
+    greatest(new.total_amount - coalesce(new.tip_amount, 0), 0)
+      * v_settings.loyalty_points_per_dollar
+      * coalesce((v_tier ->> 'multiplier')::numeric, 1)
+  );
+
+  if v_points > 0 then
+    insert into loyalty_ledger (user_id, store_id, points, kind, order_id)
+    values (new.user_id, v_settings.store_id, v_points, 'earned', new.id)
+    on conflict (order_id) where kind = 'earned' do nothing;
+    if found then
+      perform notify_user(
+        new.user_id,
+        'Points earned',
+        format('You earned %s points on order %s.', v_points, new.order_number),
+        new.id
+      );
+    end if;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists orders_award_loyalty_points on public.orders;
+create trigger orders_award_loyalty_points
+  after update of status on public.orders
+  for each row
+  when (new.status = 'Completed' and old.status is distinct from 'Completed')
+  execute function public.award_loyalty_points();
+
+drop function if exists public.price_cart(uuid, jsonb, text, text);
+
+-- Quotes can include points to redeem. The reward is a discount line
+-- without a promotion, so it lowers the taxable amount like any other
+-- discount and repricing after weighing keeps it.
+create or replace function public.price_cart(
+  p_location_id   uuid,
+  p_items         jsonb, -- [{ "product_id": uuid, "quantity": number }]
+  p_slot_time     text default null,
+  p_promo_code    text default null,
+  p_redeem_points integer default 0
+) returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_user     uuid := auth.uid();
+  v_store_id uuid;
+  v_subtotal numeric(10, 2);
+  v_promo    promotions;
+  v_best     promotions;
+  v_amount   numeric(10, 2);
+  v_best_amt numeric(10, 2) := 0;
+  v_discounts   jsonb := '[]'::jsonb;
+  v_discount    numeric(10, 2);
+  v_promo_error text;
+  v_ratio    numeric;
+  v_taxes    jsonb;
+  v_tax      numeric(10, 2);
+  v_fees     jsonb;
+  v_fee      numeric(10, 2);
+  v_estimated boolean;
+  v_settings store_settings;
+begin
+  select store_id into v_store_id from locations where id = p_location_id;
+
+  select coalesce(sum(p.price * r.quantity), 0), coalesce(bool_or(p.sold_by_weight), false)
+    into v_subtotal, v_estimated
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id and p.location_id = p_location_id;
+
+  -- 1) the code the customer entered, if any
+  if nullif(trim(p_promo_code), '') is not null then
+    select * into v_promo
+      from promotions
+     where store_id = v_store_id and upper(code) = upper(trim(p_promo_code));
+    if not found then
+      v_promo_error := 'promo_not_found';
+    else
+      v_promo_error := promotion_error(v_promo, v_user, v_subtotal);
+      if v_promo_error is null then
+        v_amount := promotion_discount(v_promo, p_location_id, p_items, v_subtotal);
+        if v_amount > 0 then
+          v_discounts := v_discounts || jsonb_build_object(
+            'promotion_id', v_promo.id,
+            'code',         v_promo.code,
+            'label',        v_promo.label,
+            'amount',       v_amount
+          );
+        else
+          v_promo_error := 'promo_not_applicable';
+        end if;
+      end if;
+    end if;
+  end if;
+
+  -- 2) plus the single best automatic promotion the cart qualifies for
+  for v_promo in
+    select * from promotions
+     where store_id = v_store_id and code is null
+     order by id
+  loop
+    if promotion_error(v_promo, v_user, v_subtotal) is null then
+      v_amount := promotion_discount(v_promo, p_location_id, p_items, v_subtotal);
+      if v_amount > v_best_amt then
+        v_best := v_promo;
+        v_best_amt := v_amount;
+      end if;
+    end if;
+  end loop;
+
+  if v_best_amt > 0 then
+    v_discounts := v_discounts || jsonb_build_object(
+      'promotion_id', v_best.id,
+      'code',         null,
+      'label',        v_best.label,
+      'amount',       v_best_amt
+    );
+  end if;
+
+  -- 3) loyalty points, worth redeem_value per redeem_points, applied
+  --    after promotions and never beyond what they leave of the subtotal
+  if coalesce(p_redeem_points, 0) > 0 then
+    select * into v_settings from store_settings where store_id = v_store_id;
+    if coalesce(v_settings.loyalty_enabled, false) and v_settings.loyalty_redeem_points > 0 then
+      select least(
+               floor(p_redeem_points::numeric / v_settings.loyalty_redeem_points)
+                 * v_settings.loyalty_redeem_value,
+               greatest(v_subtotal - coalesce(sum((d ->> 'amount')::numeric), 0), 0)
+             )
+        into v_amount
+        from jsonb_array_elements(v_discounts) d;
+      if v_amount > 0 then
+        v_discounts := v_discounts || jsonb_build_object(
+          'promotion_id', null,
+          'code',         null,
+          'label',        'Points reward',
+          'amount',       v_amount,
+          'points',       p_redeem_points
+        );
+      end if;
+    end if;
+  end if;
+
+  select least(coalesce(sum((d ->> 'amount')::numeric), 0), v_subtotal)
+    into v_discount
+    from jsonb_array_elements(v_discounts) d;
+
+  -- discounts lower the taxable amount of every line proportionally
+  v_ratio := case when v_subtotal > 0 then (v_subtotal - v_discount) / v_subtotal else 0 end;
+
+  -- one tax line per category so exempt groceries and e.g. alcohol
+  -- show separately
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'category', t.tax_category,
+           'label',    t.label,
+           'rate',     t.rate,
+           'amount',   t.amount
+         ) order by t.tax_category), '[]'::jsonb),
+         coalesce(sum(t.amount), 0)
+    into v_taxes, v_tax
+    from (
+      select p.tax_category, tr.label, tr.rate,
+             round(sum(p.price * r.quantity) * tr.rate * v_ratio, 2) as amount
+        from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+        join products p on p.id = r.product_id and p.location_id = p_location_id
+        join location_tax_rates tr
+          on tr.location_id = p_location_id and tr.tax_category = p.tax_category
+       where tr.rate > 0
+       group by p.tax_category, tr.label, tr.rate
+    ) t;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'label',  f.label,
+           'amount', f.amount
+         ) order by f.label), '[]'::jsonb),
+         coalesce(sum(f.amount), 0)
+    into v_fees, v_fee
+    from store_fee_rules f
+   where f.store_id = v_store_id
+     and f.active
+     and (f.location_id is null or f.location_id = p_location_id)
+     and (f.slot_time is null or f.slot_time = p_slot_time)
+     and (f.waive_above_subtotal is null or v_subtotal - v_discount < f.waive_above_subtotal);
+
+  return jsonb_build_object(
+    'subtotal',    v_subtotal,
+    'discounts',   v_discounts,
+    'discount',    v_discount,
+    'promo_error', v_promo_error,
+    'taxes',       v_taxes,
+    'tax',         v_tax,
+    'fees',        v_fees,
+    'service_fee', v_fee,
+    'total',       v_subtotal - v_discount + v_tax + v_fee,
+    'estimated',   v_estimated
+  );
+end;
+$$;
+
+grant execute on function public.price_cart(uuid, jsonb, text, text, integer) to authenticated;
+
+drop function if exists public.place_order(uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text, numeric, boolean);
+drop function if exists public.place_order_for(uuid, uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text, numeric, boolean);
+
+-- Checkout can redeem points. They are checked against the store's
+-- rules and the customer's points before pricing, and taken off the
+-- ledger with the order.
+create or replace function public.place_order_for(
+  p_user            uuid,
+  p_idempotency_key uuid,
+  p_location_id     uuid,
+  p_payment_id      uuid,
+  p_pickup_time     timestamptz,
+  p_slot_day        integer,
+  p_slot_time       text,
+  p_items           jsonb, -- [{ "product_id": uuid, "quantity": number, "substitution": text, "substitute_id": uuid, "note": text, "price": number }]
+  p_promo_code      text default null,
+  p_order_note      text default null,
+  p_tip             numeric default 0,
+  p_use_balance     boolean default false,
+  p_redeem_points   integer default 0
+) returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user        uuid := p_user;
+  v_order_id    uuid;
+  v_line_count  integer;
+  v_valid_count integer;
+  v_pricing     jsonb;
+  v_discount    jsonb;
+  v_promo       promotions;
+  v_promo_error text;
+  v_short       jsonb;
+  v_hours       jsonb;
+  v_slot        jsonb;
+  v_changed     jsonb;
+  v_tip         numeric(10, 2);
+  v_rules       jsonb;
+  v_over        jsonb;
+  v_item_count  numeric;
+  v_store_id    uuid;
+  v_applied     numeric(10, 2) := 0;
+  v_points      integer := coalesce(p_redeem_points, 0);
+  v_settings    store_settings;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  -- serialise calls sharing a key so the second one sees the first's order
+  perform pg_advisory_xact_lock(hashtext(v_user::text || p_idempotency_key::text));
+
+  select id into v_order_id
+    from orders
+   where user_id = v_user and idempotency_key = p_idempotency_key;
+  if found then
+    return v_order_id;
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'cart_empty';
+  end if;
+  if p_pickup_time is null or p_pickup_time <= now() then
+    raise exception 'invalid_pickup_time';
+  end if;
+  if p_payment_id is not null
+     and not exists (select 1 from payments where id = p_payment_id and user_id = v_user) then
+    raise exception 'invalid_payment';
+  end if;
+
+  v_rules := coalesce(ordering_rules(p_location_id), '{}'::jsonb);
+  if coalesce((v_rules ->> 'paused')::boolean, false) then
+    raise exception 'orders_paused' using detail = coalesce(v_rules ->> 'paused_message', '');
+  end if;
+
+  -- 1) validate items against the location's catalogue
+  select count(*), count(p.id)
+    into v_line_count, v_valid_count
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    left join products p
+      on p.id = r.product_id and p.location_id = p_location_id
+   where r.quantity > 0
+     -- only weighed products may be ordered in fractions
+     and (coalesce(p.sold_by_weight, false) or r.quantity = trunc(r.quantity));
+
+  if v_line_count <> jsonb_array_length(p_items) then
+    raise exception 'invalid_quantity';
+  end if;
+  if v_valid_count <> v_line_count then
+    raise exception 'items_unavailable';
+  end if;
+
+  -- the customer must have seen each line's current price; lines sent
+  -- without one (recurring orders) take the price as it stands
+  select jsonb_agg(jsonb_build_object('product_id', p.id, 'price', p.price))
+    into v_changed
+    from jsonb_to_recordset(p_items) as r(product_id uuid, price numeric)
+    join products p on p.id = r.product_id
+   where r.price is not null and r.price <> p.price;
+
+  if v_changed is not null then
+    raise exception 'price_changed' using detail = v_changed::text;
+  end if;
+
+  -- per-product purchase limits, then the cap on items per order. The
+  -- store-wide per-product limit only counts units, not weight.
+  select jsonb_agg(jsonb_build_object('product_id', p.id, 'limit', l.max_qty))
+    into v_over
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id
+    cross join lateral (
+      select least(p.max_per_order,
+                   case when not p.sold_by_weight then (v_rules ->> 'max_per_product')::integer end) as max_qty
+    ) l
+   where r.quantity > l.max_qty;
+
+  if v_over is not null then
+    raise exception 'purchase_limit' using detail = v_over::text;
+  end if;
+
+  select sum(case when p.sold_by_weight then 1 else r.quantity end)
+    into v_item_count
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id;
+
+  if v_item_count > (v_rules ->> 'max_items')::integer then
+    raise exception 'too_many_items'
+      using detail = jsonb_build_object('max_items', (v_rules ->> 'max_items')::integer)::text;
+  end if;
+
+  -- 2) reserve stock. Rows are locked in id order so concurrent
+  --    checkouts can't deadlock; a null stock_quantity is untracked.
+  perform 1
+     from products
+    where id in (select (e ->> 'product_id')::uuid from jsonb_array_elements(p_items) e)
+    order by id
+      for update;
+
+  select jsonb_agg(jsonb_build_object(
+           'product_id', p.id,
+           'available',  greatest(p.stock_quantity, 0)
+         ))
+    into v_short
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id
+   where p.stock_quantity is not null and p.stock_quantity < r.quantity;
+
+  if v_short is not null then
+    raise exception 'out_of_stock' using detail = v_short::text;
+  end if;
+
+  update products p
+     set stock_quantity = p.stock_quantity - r.quantity
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+   where p.id = r.product_id and p.stock_quantity is not null;
+
+  -- 3) reserve the pickup slot; the row lock stops two checkouts
+  --    taking the last place at once
+  select available_hours into v_hours
+    from location_pickup_schedules
+   where location_id = p_location_id and day_of_week = p_slot_day
+     for update;
+
+  select h into v_slot
+    from jsonb_array_elements(coalesce(v_hours, '[]'::jsonb)) h
+   where h ->> 'time' = p_slot_time;
+  if v_slot is null then
+    raise exception 'slot_unavailable';
+  end if;
+
+  if v_slot ->> 'capacity' is not null then
+    if (v_slot ->> 'capacity')::integer <= 0 then
+      raise exception 'slot_full';
+    end if;
+
+    update location_pickup_schedules
+       set available_hours = (
+         select jsonb_agg(
+                  case when h ->> 'time' = p_slot_time
+                       then jsonb_set(h, '{capacity}', to_jsonb((h ->> 'capacity')::integer - 1))
+                       else h end
+                  order by ord)
+           from jsonb_array_elements(v_hours) with ordinality as t(h, ord)
+       )
+     where location_id = p_location_id and day_of_week = p_slot_day;
+  end if;
+
+  -- 4) create the order and its items, priced by the same engine the
+  --    cart used for its quote
+  -- points are spent in whole reward steps out of what the customer
+  -- holds; the per-user lock keeps two checkouts from spending them twice
+  if v_points <> 0 then
+    select s.* into v_settings
+      from locations l
+      join store_settings s on s.store_id = l.store_id
+     where l.id = p_location_id;
+    if not coalesce(v_settings.loyalty_enabled, false) then
+      raise exception 'loyalty_disabled';
+    end if;
+    perform pg_advisory_xact_lock(hashtext('loyalty:' || v_user::text || v_settings.store_id::text));
+    if v_points < greatest(v_settings.loyalty_min_redeem, v_settings.loyalty_redeem_points)
+       or v_points % v_settings.loyalty_redeem_points <> 0
+       or v_points > user_points(v_user, v_settings.store_id) then
+      raise exception 'invalid_points';
+    end if;
+  end if;
+
+  v_pricing := price_cart(p_location_id, p_items, p_slot_time, p_promo_code, v_points);
+  if v_pricing ->> 'promo_error' is not null then
+    raise exception '%', v_pricing ->> 'promo_error';
+  end if;
+
+  -- the minimum applies to the goods before discounts
+  if (v_pricing ->> 'subtotal')::numeric < (v_rules ->> 'min_subtotal')::numeric then
+    raise exception 'below_minimum'
+      using detail = jsonb_build_object('min_subtotal', (v_rules ->> 'min_subtotal')::numeric)::text;
+  end if;
+
+  -- re-check usage limits under a row lock so two orders cannot both
+  -- take a promotion's last use
+  for v_discount in
+    select d from jsonb_array_elements(v_pricing -> 'discounts') d
+     where d ->> 'promotion_id' is not null
+  loop
+    select * into v_promo
+      from promotions
+     where id = (v_discount ->> 'promotion_id')::uuid
+       for update;
+    v_promo_error := promotion_error(v_promo, v_user, (v_pricing ->> 'subtotal')::numeric);
+    if v_promo_error is not null then
+      raise exception '%', v_promo_error;
+    end if;
+  end loop;
+
+  -- points that would only partly be used are refused rather than lost
+  if v_points > 0 and coalesce((
+    select (d ->> 'amount')::numeric
+      from jsonb_array_elements(v_pricing -> 'discounts') d
+     where d ? 'points'
+  ), 0) < floor(v_points::numeric / v_settings.loyalty_redeem_points) * v_settings.loyalty_redeem_value then
+    raise exception 'invalid_points';
+  end if;
+
+  -- the picker tip sits on top of the priced total. Anything above the
+  -- subtotal is taken to be a mistyped custom amount.
+  v_tip := round(coalesce(p_tip, 0), 2);
+  if v_tip < 0 or v_tip > (v_pricing ->> 'subtotal')::numeric then
+    raise exception 'invalid_tip';
+  end if;
+  if v_tip > 0 and not coalesce((
+    select s.tipping_enabled
+      from locations l
+      join store_settings s on s.store_id = l.store_id
+     where l.id = p_location_id
+  ), false) then
+    raise exception 'tipping_disabled';
+  end if;
+  v_pricing := v_pricing || jsonb_build_object(
+    'tip',   v_tip,
+    'total', (v_pricing ->> 'total')::numeric + v_tip
+  );
+
+  -- split tender: the balance pays first, the card the remainder. The
+  -- per-user lock keeps two checkouts from spending the same balance.
+  if p_use_balance then
+    select store_id into v_store_id from locations where id = p_location_id;
+    perform pg_advisory_xact_lock(hashtext('balance:' || v_user::text || v_store_id::text));
+    v_applied := greatest(least(user_balance(v_user, v_store_id), (v_pricing ->> 'total')::numeric), 0);
+  end if;
+  if (v_pricing ->> 'total')::numeric > v_applied and p_payment_id is null then
+    raise exception 'invalid_payment';
+  end if;
+
+  insert into orders (
+    user_id, location_id, total_amount, service_fee, tax, price_breakdown,
+    discount_amount, discount_lines, customer_note, estimated_total, tip_amount,
+    balance_applied, status, barcode, payment_id, pickup_time, idempotency_key, created_at
+  ) values (
+    v_user, p_location_id, (v_pricing ->> 'total')::numeric,
+    (v_pricing ->> 'service_fee')::numeric, (v_pricing ->> 'tax')::numeric, v_pricing,
+    (v_pricing ->> 'discount')::numeric, v_pricing -> 'discounts',
+    left(nullif(trim(p_order_note), ''), 500), (v_pricing ->> 'total')::numeric, v_tip,
+    v_applied, 'Pending', gen_random_uuid()::text, p_payment_id, p_pickup_time, p_idempotency_key, now()
+  )
+  returning id into v_order_id;
+
+  if v_applied > 0 then
+    insert into balance_ledger (user_id, store_id, amount, kind, order_id)
+    values (v_user, v_store_id, -v_applied, 'order', v_order_id);
+  end if;
+
+  if v_points > 0 then
+    insert into loyalty_ledger (user_id, store_id, points, kind, order_id)
+    values (v_user, v_settings.store_id, -v_points, 'redeemed', v_order_id);
+  end if;
+
+  insert into order_items (
+    order_id, product_id, quantity, unit_price,
+    substitution_preference, preferred_substitute_id, note
+  )
+  select v_order_id, p.id, r.quantity, p.price,
+         coalesce(r.substitution, 'store_choice'),
+         case when r.substitution = 'specific' then alt.id end,
+         left(nullif(trim(r.note), ''), 200)
+    from jsonb_to_recordset(p_items)
+           as r(product_id uuid, quantity numeric, substitution text, substitute_id uuid, note text)
+    join products p on p.id = r.product_id
+    left join products alt
+      on alt.id = r.substitute_id and alt.location_id = p_location_id;
+
+  insert into promotion_redemptions (promotion_id, user_id, order_id, amount)
+  select (d ->> 'promotion_id')::uuid, v_user, v_order_id, (d ->> 'amount')::numeric
+    from jsonb_array_elements(v_pricing -> 'discounts') d
+   where d ->> 'promotion_id' is not null;
+
+  return v_order_id;
+end;
+$$;
+
+revoke execute on function public.place_order_for(uuid, uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text, numeric, boolean, integer)
+  from public, anon, authenticated;
+
+create or replace function public.place_order(
+  p_idempotency_key uuid,
+  p_location_id     uuid,
+  p_payment_id      uuid,
+  p_pickup_time     timestamptz,
+  p_slot_day        integer,
+  p_slot_time       text,
+  p_items           jsonb,
+  p_promo_code      text default null,
+  p_order_note      text default null,
+  p_tip             numeric default 0,
+  p_use_balance     boolean default false,
+  p_redeem_points   integer default 0
+) returns uuid
+language sql
+security definer
+set search_path = public
+as $$
+  select place_order_for(
+    auth.uid(), p_idempotency_key, p_location_id, p_payment_id, p_pickup_time,
+    p_slot_day, p_slot_time, p_items, p_promo_code, p_order_note, p_tip, p_use_balance,
+    p_redeem_points
+  );
+$$;
+
+grant execute on function public.place_order(uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text, numeric, boolean, integer)
+  to authenticated;
@@ -0,0 +1,637 @@
+-- Customers can cancel or edit an order until staff start picking it,
+-- i.e. while it is still "Pending". Both functions hold the order's
+-- row lock, so an employee moving it to "In Progress" either waits for
+-- the change or finds it already made; once picking starts both are
+-- refused with `order_locked`.
+--
+-- Cancelling gives back everything checkout took: reserved stock, the
+-- pickup slot's place, promotion uses, store credit and points. Cards
+-- are never captured before pickup, so the card payment is simply
+-- voided with the order (`cancelled_at`). Orders now remember their
+-- slot (`slot_day`, `slot_time`) so its place can be returned.
+
+alter table public.orders
+  add column if not exists slot_day     smallint,
+  add column if not exists slot_time    text,
+  add column if not exists edited_at    timestamptz, -- last change by the customer
+  add column if not exists cancelled_at timestamptz;
+
+alter table public.loyalty_ledger drop constraint if exists loyalty_ledger_kind_check;
+alter table public.loyalty_ledger add constraint loyalty_ledger_kind_check
+  check (kind in ('earned', 'redeemed', 'returned'));
+
+-- a cancelled order stays cancelled; staff can't pick it by mistake
+create or replace function public.guard_cancelled_order()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.status = 'Cancelled' and new.status is distinct from old.status then
+    raise exception 'order_cancelled';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_guard_cancelled on public.orders;
+create trigger orders_guard_cancelled
+  before update of status on public.orders
+  for each row execute function public.guard_cancelled_order();
+
+-- Gives a place back to a pickup slot with limited capacity.
+create or replace function public.release_pickup_slot(
+  p_location_id uuid,
+  p_slot_day    integer,
+  p_slot_time   text
+) returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update location_pickup_schedules s
+     set available_hours = (
+       select jsonb_agg(
+                case when h ->> 'time' = p_slot_time and h ->> 'capacity' is not null
+                     then jsonb_set(h, '{capacity}', to_jsonb((h ->> 'capacity')::integer + 1))
+                     else h end
+                order by ord)
+         from jsonb_array_elements(s.available_hours) with ordinality as t(h, ord)
+     )
+   where s.location_id = p_location_id
+     and s.day_of_week = p_slot_day
+     and jsonb_array_length(coalesce(s.available_hours, '[]'::jsonb)) > 0;
+$$;
+
+revoke execute on function public.release_pickup_slot(uuid, integer, text) from public, anon, authenticated;
+
+create or replace function public.cancel_order(p_order_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user     uuid := auth.uid();
+  v_order    orders;
+  v_store_id uuid;
+  v_points   integer;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select * into v_order
+    from orders
+   where id = p_order_id and user_id = v_user
+     for update;
+  if not found then
+    raise exception 'order_not_found';
+  end if;
+  if v_order.status <> 'Pending' then
+    raise exception 'order_locked';
+  end if;
+
+  select store_id into v_store_id from locations where id = v_order.location_id;
+
+  -- stock goes back on the shelf, locked in id order like checkout
+  perform 1
+     from products
+    where id in (select product_id from order_items where order_id = p_order_id)
+    order by id
+      for update;
+
+  update products p
+     set stock_quantity = p.stock_quantity + oi.quantity
+    from (
+      select product_id, sum(quantity) as quantity
+        from order_items
+       where order_id = p_order_id
+       group by product_id
+    ) oi
+   where p.id = oi.product_id and p.stock_quantity is not null;
+
+  if v_order.slot_time is not null then
+    perform release_pickup_slot(v_order.location_id, v_order.slot_day, v_order.slot_time);
+  end if;
+
+  -- the promotion use no longer counts towards its limits
+  delete from promotion_redemptions where order_id = p_order_id;
+
+  if v_order.balance_applied > 0 then
+    insert into balance_ledger (user_id, store_id, amount, kind, order_id, note)
+    values (v_user, v_store_id, v_order.balance_applied, 'order_adjustment', p_order_id, 'Order cancelled');
+  end if;
+
+  select coalesce(-sum(points), 0)
+    into v_points
+    from loyalty_ledger
+   where order_id = p_order_id and kind = 'redeemed';
+  if v_points > 0 then
+    insert into loyalty_ledger (user_id, store_id, points, kind, order_id, note)
+    values (v_user, v_store_id, v_points, 'returned', p_order_id, 'Order cancelled');
+  end if;
+
+  update orders
+     set status = 'Cancelled', cancelled_at = now()
+   where id = p_order_id;
+
+  return jsonb_build_object(
+    'balance_returned', v_order.balance_applied,
+    'points_returned',  v_points
+  );
+end;
+$$;
+
+grant execute on function public.cancel_order(uuid) to authenticated;
+
+-- Changes the quantities of an order's lines or drops lines. Only
+-- products already on the order can be kept; anything new goes in a
+-- new order, and removing every line is a cancellation. The same
+-- quantity, limit and stock rules as checkout apply, lines keep the
+-- price they were ordered at, and the discounts agreed at checkout
+-- are kept (capped by reprice_order). A higher total on an order paid
+-- only from store credit draws more credit.
+create or replace function public.edit_order(
+  p_order_id uuid,
+  p_items    jsonb -- [{ "product_id": uuid, "quantity": number }]
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user        uuid := auth.uid();
+  v_order       orders;
+  v_store_id    uuid;
+  v_line_count  integer;
+  v_valid_count integer;
+  v_rules       jsonb;
+  v_over        jsonb;
+  v_item_count  numeric;
+  v_short       jsonb;
+  v_breakdown   jsonb;
+  v_owed        numeric(10, 2);
+  v_extra       numeric(10, 2);
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select * into v_order
+    from orders
+   where id = p_order_id and user_id = v_user
+     for update;
+  if not found then
+    raise exception 'order_not_found';
+  end if;
+  if v_order.status <> 'Pending' then
+    raise exception 'order_locked';
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'cart_empty';
+  end if;
+
+  select count(*), count(oi.id)
+    into v_line_count, v_valid_count
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    left join products p on p.id = r.product_id
+    left join order_items oi on oi.order_id = p_order_id and oi.product_id = r.product_id
+   where r.quantity > 0
+     and (coalesce(p.sold_by_weight, false) or r.quantity = trunc(r.quantity));
+
+  if v_line_count <> jsonb_array_length(p_items)
+     or (select count(distinct e ->> 'product_id') from jsonb_array_elements(p_items) e) <> v_line_count then
+    raise exception 'invalid_quantity';
+  end if;
+  if v_valid_count <> v_line_count then
+    raise exception 'items_unavailable';
+  end if;
+
+  v_rules := coalesce(ordering_rules(v_order.location_id), '{}'::jsonb);
+
+  select jsonb_agg(jsonb_build_object('product_id', p.id, 'limit', l.max_qty))
+    into v_over
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id
+    cross join lateral (
+      select least(p.max_per_order,
+                   case when not p.sold_by_weight then (v_rules ->> 'max_per_product')::integer end) as max_qty
+    ) l
+   where r.quantity > l.max_qty;
+
+  if v_over is not null then
+    raise exception 'purchase_limit' using detail = v_over::text;
+  end if;
+
+  select sum(case when p.sold_by_weight then 1 else r.quantity end)
+    into v_item_count
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id;
+
+  if v_item_count > (v_rules ->> 'max_items')::integer then
+    raise exception 'too_many_items'
+      using detail = jsonb_build_object('max_items', (v_rules ->> 'max_items')::integer)::text;
+  end if;
+
+  -- stock: only the difference from what the order already holds has
+  -- to be on hand
+  perform 1
+     from products
+    where id in (select product_id from order_items where order_id = p_order_id)
+    order by id
+      for update;
+
+  select jsonb_agg(jsonb_build_object(
+           'product_id', p.id,
+           'available',  greatest(p.stock_quantity + oi.quantity, 0)
+         ))
+    into v_short
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id
+    join order_items oi on oi.order_id = p_order_id and oi.product_id = r.product_id
+   where p.stock_quantity is not null and p.stock_quantity + oi.quantity < r.quantity;
+
+  if v_short is not null then
+    raise exception 'out_of_stock' using detail = v_short::text;
+  end if;
+
+  update products p
+     set stock_quantity = p.stock_quantity + oi.quantity - coalesce(r.quantity, 0)
+    from order_items oi
+    left join jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+      on r.product_id = oi.product_id
+   where oi.order_id = p_order_id
+     and p.id = oi.product_id
+     and p.stock_quantity is not null
+     and oi.quantity is distinct from r.quantity;
+
+  delete from order_items oi
+   where oi.order_id = p_order_id
+     and not exists (
+       select 1 from jsonb_array_elements(p_items) e
+        where (e ->> 'product_id')::uuid = oi.product_id
+     );
+
+  update order_items oi
+     set quantity = r.quantity
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+   where oi.order_id = p_order_id
+     and oi.product_id = r.product_id
+     and oi.quantity <> r.quantity;
+
+  v_breakdown := reprice_order(p_order_id);
+
+  -- the minimum applies to the goods before discounts, as at checkout
+  if (v_breakdown ->> 'subtotal')::numeric < (v_rules ->> 'min_subtotal')::numeric then
+    raise exception 'below_minimum'
+      using detail = jsonb_build_object('min_subtotal', (v_rules ->> 'min_subtotal')::numeric)::text;
+  end if;
+
+  -- a lower total returns credit through return_unused_balance; a
+  -- higher one with no card behind it has to come from the balance
+  select * into v_order from orders where id = p_order_id;
+  v_owed := v_order.total_amount - v_order.balance_applied;
+  if v_owed > 0 and v_order.payment_id is null then
+    select store_id into v_store_id from locations where id = v_order.location_id;
+    perform pg_advisory_xact_lock(hashtext('balance:' || v_user::text || v_store_id::text));
+    v_extra := least(user_balance(v_user, v_store_id), v_owed);
+    if v_extra < v_owed then
+      raise exception 'invalid_payment';
+    end if;
+    insert into balance_ledger (user_id, store_id, amount, kind, order_id, note)
+    values (v_user, v_store_id, -v_extra, 'order', p_order_id, 'Order edited');
+    update orders set balance_applied = balance_applied + v_extra where id = p_order_id;
+  end if;
+
+  update orders
+     set edited_at       = now(),
+         estimated_total = (v_breakdown ->> 'total')::numeric
+   where id = p_order_id;
+
+  return v_breakdown;
+end;
+$$;
+
+grant execute on function public.edit_order(uuid, jsonb) to authenticated;
+
+-- Checkout records the slot on the order. Unchanged otherwise.
+create or replace function public.place_order_for(
+  p_user            uuid,
+  p_idempotency_key uuid,
+  p_location_id     uuid,
+  p_payment_id      uuid,
+  p_pickup_time     timestamptz,
+  p_slot_day        integer,
+  p_slot_time       text,
+  p_items           jsonb, -- [{ "product_id": uuid, "quantity": number, "substitution": text, "substitute_id": uuid, "note": text, "price": number }]
+  p_promo_code      text default null,
+  p_order_note      text default null,
+  p_tip             numeric default 0,
+  p_use_balance     boolean default false,
+  p_redeem_points   integer default 0
+) returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user        uuid := p_user;
+  v_order_id    uuid;
+  v_line_count  integer;
+  v_valid_count integer;
+  v_pricing     jsonb;
+  v_discount    jsonb;
+  v_promo       promotions;
+  v_promo_error text;
+  v_short       jsonb;
+  v_hours       jsonb;
+  v_slot        jsonb;
+  v_changed     jsonb;
+  v_tip         numeric(10, 2);
+  v_rules       jsonb;
+  v_over        jsonb;
+  v_item_count  numeric;
+  v_store_id    uuid;
+  v_applied     numeric(10, 2) := 0;
+  v_points      integer := coalesce(p_redeem_points, 0);
+  v_settings    store_settings;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  -- serialise calls sharing a key so the second one sees the first's order
+  perform pg_advisory_xact_lock(hashtext(v_user::text || p_idempotency_key::text));
+
+  select id into v_order_id
+    from orders
+   where user_id = v_user and idempotency_key = p_idempotency_key;
+  if found then
+    return v_order_id;
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'cart_empty';
+  end if;
+  if p_pickup_time is null or p_pickup_time <= now() then
+    raise exception 'invalid_pickup_time';
+  end if;
+  if p_payment_id is not null
+     and not exists (select 1 from payments where id = p_payment_id and user_id = v_user) then
+    raise exception 'invalid_payment';
+  end if;
+
+  v_rules := coalesce(ordering_rules(p_location_id), '{}'::jsonb);
+  if coalesce((v_rules ->> 'paused')::boolean, false) then
+    raise exception 'orders_paused' using detail = coalesce(v_rules ->> 'paused_message', '');
+  end if;
+
+  -- 1) validate items against the location's catalogue
+  select count(*), count(p.id)
+    into v_line_count, v_valid_count
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    left join products p
+      on p.id = r.product_id and p.location_id = p_location_id
+   where r.quantity > 0
+     -- only weighed products may be ordered in fractions
+     and (coalesce(p.sold_by_weight, false) or r.quantity = trunc(r.quantity));
+
+  if v_line_count <> jsonb_array_length(p_items) then
+    raise exception 'invalid_quantity';
+  end if;
+  if v_valid_count <> v_line_count then
+    raise exception 'items_unavailable';
+  end if;
+
+  -- the customer must have seen each line's current price; lines sent
+  -- without one (recurring orders) take the price as it stands
+  select jsonb_agg(jsonb_build_object('product_id', p.id, 'price', p.price))
+    into v_changed
+    from jsonb_to_recordset(p_items) as r(product_id uuid, price numeric)
+    join products p on p.id = r.product_id
+   where r.price is not null and r.price <> p.price;
+
+  if v_changed is not null then
+    raise exception 'price_changed' using detail = v_changed::text;
+  end if;
+
+  -- per-product purchase limits, then the cap on items per order. The
+  -- store-wide per-product limit only counts units, not weight.
+  select jsonb_agg(jsonb_build_object('product_id', p.id, 'limit', l.max_qty))
+    into v_over
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id
+    cross join lateral (
+      select least(p.max_per_order,
+                   case when not p.sold_by_weight then (v_rules ->> 'max_per_product')::integer end) as max_qty
+    ) l
+   where r.quantity > l.max_qty;
+
+  if v_over is not null then
+    raise exception 'purchase_limit' using detail = v_over::text;
+  end if;
+
+  select sum(case when p.sold_by_weight then 1 else r.quantity end)
+    into v_item_count
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id;
+
+  if v_item_count > (v_rules ->> 'max_items')::integer then
+    raise exception 'too_many_items'
+      using detail = jsonb_build_object('max_items', (v_rules ->> 'max_items')::integer)::text;
+  end if;
+
+  -- 2) reserve stock. Rows are locked in id order so concurrent
+  --    checkouts can't deadlock; a null stock_quantity is untracked.
+  perform 1
+     from products
+    where id in (select (e ->> 'product_id')::uuid from jsonb_array_elements(p_items) e)
+    order by id
+      for update;
+
+  select jsonb_agg(jsonb_build_object(
+           'product_id', p.id,
+           'available',  greatest(p.stock_quantity, 0)
+         ))
+    into v_short
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id
+   where p.stock_quantity is not null and p.stock_quantity < r.quantity;
+
+  if v_short is not null then
+    raise exception 'out_of_stock' using detail = v_short::text;
+  end if;
+
+  update products p
+     set stock_quantity = p.stock_quantity - r.quantity
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+   where p.id = r.product_id and p.stock_quantity is not null;
+
+  -- 3) reserve the pickup slot; the row lock stops two checkouts
+  --    taking the last place at once
+  select available_hours into v_hours
+    from location_pickup_schedules
+   where location_id = p_location_id and day_of_week = p_slot_day
+     for update;
+
+  select h into v_slot
+    from jsonb_array_elements(coalesce(v_hours, '[]'::jsonb)) h
+   where h ->> 'time' = p_slot_time;
+  if v_slot is null then
+    raise exception 'slot_unavailable';
+  end if;
+
+  if v_slot ->> 'capacity' is not null then
+    if (v_slot ->> 'capacity')::integer <= 0 then
+      raise exception 'slot_full';
+    end if;
+
+    update location_pickup_schedules
+       set available_hours = (
+         select jsonb_agg(
+                  case when h ->> 'time' = p_slot_time
+                       then jsonb_set(h, '{capacity}', to_jsonb((h ->> 'capacity')::integer - 1))
+                       else h end
+                  order by ord)
+           from jsonb_array_elements(v_hours) with ordinality as t(h, ord)
+       )
+     where location_id = p_location_id and day_of_week = p_slot_day;
+  end if;
+
+  -- 4) create the order and its items, priced by the same engine the
+  --    cart used for its quote
+  -- points are spent in whole reward steps out of what the customer
+  -- holds; the per-user lock keeps two checkouts from spending them twice
+  if v_points <> 0 then
+    select s.* into v_settings
+      from locations l
+      join store_settings s on s.store_id = l.store_id
+     where l.id = p_location_id;
+    if not coalesce(v_settings.loyalty_enabled, false) then
+      raise exception 'loyalty_disabled';
+    end if;
+    perform pg_advisory_xact_lock(hashtext('loyalty:' || v_user::text || v_settings.store_id::text));
+    if v_points < greatest(v_settings.loyalty_min_redeem, v_settings.loyalty_redeem_points)
+       or v_points % v_settings.loyalty_redeem_points <> 0
+       or v_points > user_points(v_user, v_settings.store_id) then
+      raise exception 'invalid_points';
+    end if;
+  end if;
+
+  v_pricing := price_cart(p_location_id, p_items, p_slot_time, p_promo_code, v_points);
+  if v_pricing ->> 'promo_error' is not null then
+    raise exception '%', v_pricing ->> 'promo_error';
+  end if;
+
+  -- the minimum applies to the goods before discounts
+  if (v_pricing ->> 'subtotal')::numeric < (v_rules ->> 'min_subtotal')::numeric then
+    raise exception 'below_minimum'
+      using detail = jsonb_build_object('min_subtotal', (v_rules ->> 'min_subtotal')::numeric)::text;
+  end if;
+
+  -- re-check usage limits under a row lock so two orders cannot both
+  -- take a promotion's last use
+  for v_discount in
+    select d from jsonb_array_elements(v_pricing -> 'discounts') d
+     where d ->> 'promotion_id' is not null
+  loop
+    select * into v_promo
+      from promotions
+     where id = (v_discount ->> 'promotion_id')::uuid
+       for update;
+    v_promo_error := promotion_error(v_promo, v_user, (v_pricing ->> 'subtotal')::numeric);
+    if v_promo_error is not null then
+      raise exception '%', v_promo_error;
+    end if;
+  end loop;
+
+  -- points that would only partly be used are refused rather than lost
+  if v_points > 0 and coalesce((
+    select (d ->> 'amount')::numeric
+      from jsonb_array_elements(v_pricing -> 'discounts') d
+     where d ? 'points'
+  ), 0) < floor(v_points::numeric / v_settings.loyalty_redeem_points) * v_settings.loyalty_redeem_value then
+    raise exception 'invalid_points';
+  end if;
+
+  -- the picker tip sits on top of the priced total. Anything above the
+  -- subtotal is taken to be a mistyped custom amount.
+  v_tip := round(coalesce(p_tip, 0), 2);
+  if v_tip < 0 or v_tip > (v_pricing ->> 'subtotal')::numeric then
+    raise exception 'invalid_tip';
+  end if;
+  if v_tip > 0 and not coalesce((
+    select s.tipping_enabled
+      from locations l
+      join store_settings s on s.store_id = l.store_id
+     where l.id = p_location_id
+  ), false) then
+    raise exception 'tipping_disabled';
+  end if;
+  v_pricing := v_pricing || jsonb_build_object(
+    'tip',   v_tip,
+    'total', (v_pricing ->> 'total')::numeric + v_tip
+  );
+
+  -- split tender: the balance pays first, the card the remainder. The
+  -- per-user lock keeps two checkouts from spending the same balance.
+  if p_use_balance then
+    select store_id into v_store_id from locations where id = p_location_id;
+    perform pg_advisory_xact_lock(hashtext('balance:' || v_user::text || v_store_id::text));
+    v_applied := greatest(least(user_balance(v_user, v_store_id), (v_pricing ->> 'total')::numeric), 0);
+  end if;
+  if (v_pricing ->> 'total')::numeric > v_applied and p_payment_id is null then
+    raise exception 'invalid_payment';
+  end if;
+
+  insert into orders (
+    user_id, location_id, total_amount, service_fee, tax, price_breakdown,
+    discount_amount, discount_lines, customer_note, estimated_total, tip_amount,
+    balance_applied, status, barcode, payment_id, pickup_time, slot_day, slot_time,
+    idempotency_key, created_at
+  ) values (
+    v_user, p_location_id, (v_pricing ->> 'total')::numeric,
+    (v_pricing ->> 'service_fee')::numeric, (v_pricing ->> 'tax')::numeric, v_pricing,
+    (v_pricing ->> 'discount')::numeric, v_pricing -> 'discounts',
+    left(nullif(trim(p_order_note), ''), 500), (v_pricing ->> 'total')::numeric, v_tip,
+    v_applied, 'Pending', gen_random_uuid()::text, p_payment_id, p_pickup_time, p_slot_day, p_slot_time,
+    p_idempotency_key, now()
+  )
+  returning id into v_order_id;
+
+  if v_applied > 0 then
+    insert into balance_ledger (user_id, store_id, amount, kind, order_id)
+    values (v_user, v_store_id, -v_applied, 'order', v_order_id);
+  end if;
+
+  if v_points > 0 then
+    insert into loyalty_ledger (user_id, store_id, points, kind, order_id)
+    values (v_user, v_settings.store_id, -v_points, 'redeemed', v_order_id);
+  end if;
+
+  insert into order_items (
+    order_id, product_id, quantity, unit_price,
+    substitution_preference, preferred_substitute_id, note
+  )
+  select v_order_id, p.id, r.quantity, p.price,
+         coalesce(r.substitution, 'store_choice'),
+         case when r.substitution = 'specific' then alt.id end,
+         left(nullif(trim(r.note), ''), 200)
+    from jsonb_to_recordset(p_items)
+           as r(product_id uuid, quantity numeric, substitution text, substitute_id uuid, note text)
+    join products p on p.id = r.product_id
+    left join products alt
+      on alt.id = r.substitute_id and alt.location_id = p_location_id;
+
+  insert into promotion_redemptions (promotion_id, user_id, order_id, amount)
+  select (d ->> 'promotion_id')::uuid, v_user, v_order_id, (d ->> 'amount')::numeric
+    from jsonb_array_elements(v_pricing -> 'discounts') d
+   where d ->> 'promotion_id' is not null;
+
+  return v_order_id;
+end;
+$$;
+
+revoke execute on function public.place_order_for(uuid, uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text, numeric, boolean, integer)
+  from public, anon, authenticated;
@@ -0,0 +1,676 @@
+-- Pickup slots are reserved per date. A slot's `capacity` in
+-- `location_pickup_schedules.available_hours` is now how many orders it
+-- takes on each date it is offered, and is no longer decremented; what
+-- is taken lives in `pickup_slot_reservations`, one row per place.
+--
+-- Choosing a time holds a place for `slot_hold_interval()`. Checkout
+-- turns the customer's hold into the order's place; a hold that lapses
+-- simply stops counting, and the order then takes a place only if one
+-- is left. Cancelling an order frees its place. Every taker of a slot
+-- goes through the same advisory lock, so two customers can't both get
+-- its last place.
+--
+-- Capacities lowered under the old per-weekday model are given back
+-- below. Places taken by the old app on choosing a time, without an
+-- order, can't be traced and stay taken.
+
+create table if not exists public.pickup_slot_reservations (
+  id          uuid primary key default gen_random_uuid(),
+  location_id uuid not null references public.locations (id) on delete cascade,
+  slot_date   date not null,
+  slot_time   text not null, -- "HH:MM" as in available_hours
+  user_id     uuid not null references auth.users (id) on delete cascade,
+  order_id    uuid unique references public.orders (id) on delete cascade,
+  expires_at  timestamptz, -- null once an order holds the place
+  created_at  timestamptz not null default now(),
+  check ((order_id is null) <> (expires_at is null))
+);
+
+create index if not exists pickup_slot_reservations_slot
+  on public.pickup_slot_reservations (location_id, slot_date, slot_time);
+create index if not exists pickup_slot_reservations_user
+  on public.pickup_slot_reservations (user_id) where order_id is null;
+
+alter table public.pickup_slot_reservations enable row level security;
+
+-- no write policies: places are only taken through the functions below
+create policy "pickup_slot_reservations_owner_select" on public.pickup_slot_reservations
+  for select using (auth.uid() = user_id);
+create policy "pickup_slot_reservations_employee_select" on public.pickup_slot_reservations
+  for select using (exists (select 1 from profiles where id = auth.uid() and role = 'employee'));
+
+-- Every order took a place from its weekday's slot, and only a
+-- cancellation gave it back (once orders recorded their slot). Orders
+-- from before that are matched on their pickup time.
+with taken as (
+  select location_id,
+         coalesce(slot_day, extract(dow from pickup_time)::integer) as slot_day,
+         coalesce(slot_time, to_char(pickup_time, 'HH24:MI'))      as slot_time,
+         count(*)::integer as places
+    from public.orders
+   where pickup_time is not null
+     and (slot_time is null or status <> 'Cancelled')
+   group by 1, 2, 3
+)
+update public.location_pickup_schedules s
+   set available_hours = (
+         select jsonb_agg(
+                  case when h ->> 'capacity' is not null and t.places is not null
+                       then jsonb_set(h, '{capacity}', to_jsonb((h ->> 'capacity')::integer + t.places))
+                       else h
+                  end
+                  order by e.ord)
+           from jsonb_array_elements(s.available_hours) with ordinality e(h, ord)
+           left join taken t
+             on t.location_id = s.location_id
+            and t.slot_day = s.day_of_week
+            and t.slot_time = e.h ->> 'time'
+       )
+ where jsonb_typeof(s.available_hours) = 'array'
+   and exists (select 1 from taken t
+                where t.location_id = s.location_id and t.slot_day = s.day_of_week);
+
+create or replace function public.slot_hold_interval() returns interval
+language sql immutable as $$ select interval '10 minutes' $$;
+
+-- The slot as offered on a date, or null when it isn't.
+create or replace function public.pickup_slot(
+  p_location_id uuid,
+  p_slot_date   date,
+  p_slot_time   text
+) returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select h
+    from location_pickup_schedules s
+    cross join lateral jsonb_array_elements(coalesce(s.available_hours, '[]'::jsonb)) h
+   where s.location_id = p_location_id
+     and s.day_of_week = extract(dow from p_slot_date)
+     and h ->> 'time' = p_slot_time
+   limit 1;
+$$;
+
+-- Places taken on a date: orders, plus holds that haven't lapsed.
+-- `p_except_user`'s own hold is left out so it never blocks them.
+create or replace function public.slot_places_taken(
+  p_location_id uuid,
+  p_slot_date   date,
+  p_slot_time   text,
+  p_except_user uuid default null
+) returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select count(*)::integer
+    from pickup_slot_reservations
+   where location_id = p_location_id
+     and slot_date = p_slot_date
+     and slot_time = p_slot_time
+     and (order_id is not null or expires_at > now())
+     and not (order_id is null and user_id is not distinct from p_except_user);
+$$;
+
+revoke execute on function public.slot_places_taken(uuid, date, text, uuid) from public, anon, authenticated;
+
+create or replace function public.lock_pickup_slot(
+  p_location_id uuid,
+  p_slot_date   date,
+  p_slot_time   text
+) returns void
+language sql
+as $$
+  select pg_advisory_xact_lock(hashtext('slot:' || p_location_id::text || p_slot_date::text || p_slot_time));
+$$;
+
+-- The slots offered at a location on a date, earliest first, with how
+-- many places are left (null when the slot is unlimited).
+create or replace function public.slot_availability(
+  p_location_id uuid,
+  p_slot_date   date
+) returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'time',      h ->> 'time',
+           'capacity',  (h ->> 'capacity')::integer,
+           'remaining', case when h ->> 'capacity' is not null
+                             then greatest((h ->> 'capacity')::integer
+                                    - slot_places_taken(p_location_id, p_slot_date, h ->> 'time', auth.uid()), 0)
+                        end
+         ) order by (h ->> 'time')::time), '[]'::jsonb)
+    from location_pickup_schedules s
+    cross join lateral jsonb_array_elements(coalesce(s.available_hours, '[]'::jsonb)) h
+   where s.location_id = p_location_id
+     and s.day_of_week = extract(dow from p_slot_date);
+$$;
+
+grant execute on function public.slot_availability(uuid, date) to anon, authenticated;
+
+-- Holds a place for the signed-in customer, or renews the hold they
+-- already have on the slot. A customer holds one slot at a time, so
+-- choosing another time lets go of the last one.
+create or replace function public.hold_pickup_slot(
+  p_location_id uuid,
+  p_slot_date   date,
+  p_slot_time   text
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_slot jsonb;
+  v_hold pickup_slot_reservations;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+  if p_slot_date is null or p_slot_date < current_date then
+    raise exception 'invalid_pickup_time';
+  end if;
+
+  v_slot := pickup_slot(p_location_id, p_slot_date, p_slot_time);
+  if v_slot is null then
+    raise exception 'slot_unavailable';
+  end if;
+
+  perform lock_pickup_slot(p_location_id, p_slot_date, p_slot_time);
+
+  delete from pickup_slot_reservations
+   where user_id = v_user
+     and order_id is null
+     and (location_id, slot_date, slot_time) is distinct from (p_location_id, p_slot_date, p_slot_time);
+
+  if v_slot ->> 'capacity' is not null
+     and slot_places_taken(p_location_id, p_slot_date, p_slot_time, v_user) >= (v_slot ->> 'capacity')::integer then
+    raise exception 'slot_full';
+  end if;
+
+  update pickup_slot_reservations
+     set expires_at = now() + slot_hold_interval()
+   where user_id = v_user
+     and order_id is null
+     and location_id = p_location_id
+     and slot_date = p_slot_date
+     and slot_time = p_slot_time
+  returning * into v_hold;
+
+  if not found then
+    insert into pickup_slot_reservations (location_id, slot_date, slot_time, user_id, expires_at)
+    values (p_location_id, p_slot_date, p_slot_time, v_user, now() + slot_hold_interval())
+    returning * into v_hold;
+  end if;
+
+  return jsonb_build_object('id', v_hold.id, 'expires_at', v_hold.expires_at);
+end;
+$$;
+
+grant execute on function public.hold_pickup_slot(uuid, date, text) to authenticated;
+
+drop function if exists public.release_pickup_slot(uuid, integer, text);
+
+-- Cancelling frees the order's place in its slot.
+create or replace function public.cancel_order(p_order_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user     uuid := auth.uid();
+  v_order    orders;
+  v_store_id uuid;
+  v_points   integer;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select * into v_order
+    from orders
+   where id = p_order_id and user_id = v_user
+     for update;
+  if not found then
+    raise exception 'order_not_found';
+  end if;
+  if v_order.status <> 'Pending' then
+    raise exception 'order_locked';
+  end if;
+
+  select store_id into v_store_id from locations where id = v_order.location_id;
+
+  -- stock goes back on the shelf, locked in id order like checkout
+  perform 1
+     from products
+    where id in (select product_id from order_items where order_id = p_order_id
+                 union
+                 select substitute_product_id from order_items
+                  where order_id = p_order_id and substitution_status in ('pending', 'approved'))
+    order by id
+      for update;
+
+  update products p
+     set stock_quantity = p.stock_quantity + oi.quantity
+    from (
+      select product_id, sum(quantity) as quantity
+        from order_items
+       where order_id = p_order_id
+       group by product_id
+    ) oi
+   where p.id = oi.product_id and p.stock_quantity is not null;
+
+  -- as does a substitute the picker set aside, as when it is rejected
+  update products p
+     set stock_quantity = p.stock_quantity + oi.quantity
+    from (
+      select substitute_product_id as product_id, sum(substitute_quantity) as quantity
+        from order_items
+       where order_id = p_order_id and substitution_status in ('pending', 'approved')
+       group by substitute_product_id
+    ) oi
+   where p.id = oi.product_id and p.stock_quantity is not null;
+
+  delete from pickup_slot_reservations where order_id = p_order_id;
+
+  -- the promotion use no longer counts towards its limits
+  delete from promotion_redemptions where order_id = p_order_id;
+
+  if v_order.balance_applied > 0 then
+    insert into balance_ledger (user_id, store_id, amount, kind, order_id, note)
+    values (v_user, v_store_id, v_order.balance_applied, 'order_adjustment', p_order_id, 'Order cancelled');
+  end if;
+
+  select coalesce(-sum(points), 0)
+    into v_points
+    from loyalty_ledger
+   where order_id = p_order_id and kind = 'redeemed';
+  if v_points > 0 then
+    insert into loyalty_ledger (user_id, store_id, points, kind, order_id, note)
+    values (v_user, v_store_id, v_points, 'returned', p_order_id, 'Order cancelled');
+  end if;
+
+  update orders
+     set status = 'Cancelled', cancelled_at = now()
+   where id = p_order_id;
+
+  return jsonb_build_object(
+    'balance_returned', v_order.balance_applied,
+    'points_returned',  v_points
+  );
+end;
+$$;
+
+grant execute on function public.cancel_order(uuid) to authenticated;
+
+drop function if exists public.place_order(uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text, numeric, boolean, integer);
+drop function if exists public.place_order_for(uuid, uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text, numeric, boolean, integer);
+
+-- Checkout takes the slot for its date instead of decrementing the
+-- weekly schedule.
+create or replace function public.place_order_for(
+  p_user            uuid,
+  p_idempotency_key uuid,
+  p_location_id     uuid,
+  p_payment_id      uuid,
+  p_pickup_time     timestamptz,
+  p_slot_day        integer,
+  p_slot_time       text,
+  p_items           jsonb, -- [{ "product_id": uuid, "quantity": number, "substitution": text, "substitute_id": uuid, "note": text, "price": number }]
+  p_promo_code      text default null,
+  p_order_note      text default null,
+  p_tip             numeric default 0,
+  p_use_balance     boolean default false,
+  p_redeem_points   integer default 0,
+  p_slot_date       date default null -- defaults to the pickup time's date
+) returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user        uuid := p_user;
+  v_order_id    uuid;
+  v_line_count  integer;
+  v_valid_count integer;
+  v_pricing     jsonb;
+  v_discount    jsonb;
+  v_promo       promotions;
+  v_promo_error text;
+  v_short       jsonb;
+  v_slot        jsonb;
+  v_changed     jsonb;
+  v_tip         numeric(10, 2);
+  v_rules       jsonb;
+  v_over        jsonb;
+  v_item_count  numeric;
+  v_store_id    uuid;
+  v_applied     numeric(10, 2) := 0;
+  v_points      integer := coalesce(p_redeem_points, 0);
+  v_settings    store_settings;
+  v_slot_date   date := coalesce(p_slot_date, p_pickup_time::date);
+  v_place_id    uuid;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  -- serialise calls sharing a key so the second one sees the first's order
+  perform pg_advisory_xact_lock(hashtext(v_user::text || p_idempotency_key::text));
+
+  select id into v_order_id
+    from orders
+   where user_id = v_user and idempotency_key = p_idempotency_key;
+  if found then
+    return v_order_id;
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'cart_empty';
+  end if;
+  if p_pickup_time is null or p_pickup_time <= now() then
+    raise exception 'invalid_pickup_time';
+  end if;
+  if p_payment_id is not null
+     and not exists (select 1 from payments where id = p_payment_id and user_id = v_user) then
+    raise exception 'invalid_payment';
+  end if;
+
+  v_rules := coalesce(ordering_rules(p_location_id), '{}'::jsonb);
+  if coalesce((v_rules ->> 'paused')::boolean, false) then
+    raise exception 'orders_paused' using detail = coalesce(v_rules ->> 'paused_message', '');
+  end if;
+
+  -- 1) validate items against the location's catalogue
+  select count(*), count(p.id)
+    into v_line_count, v_valid_count
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    left join products p
+      on p.id = r.product_id and p.location_id = p_location_id
+   where r.quantity > 0
+     -- only weighed products may be ordered in fractions
+     and (coalesce(p.sold_by_weight, false) or r.quantity = trunc(r.quantity));
+
+  if v_line_count <> jsonb_array_length(p_items) then
+    raise exception 'invalid_quantity';
+  end if;
+  if v_valid_count <> v_line_count then
+    raise exception 'items_unavailable';
+  end if;
+
+  -- the customer must have seen each line's current price; lines sent
+  -- without one (recurring orders) take the price as it stands
+  select jsonb_agg(jsonb_build_object('product_id', p.id, 'price', p.price))
+    into v_changed
+    from jsonb_to_recordset(p_items) as r(product_id uuid, price numeric)
+    join products p on p.id = r.product_id
+   where r.price is not null and r.price <> p.price;
+
+  if v_changed is not null then
+    raise exception 'price_changed' using detail = v_changed::text;
+  end if;
+
+  -- per-product purchase limits, then the cap on items per order. The
+  -- store-wide per-product limit only counts units, not weight.
+  select jsonb_agg(jsonb_build_object('product_id', p.id, 'limit', l.max_qty))
+    into v_over
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id
+    cross join lateral (
+      select least(p.max_per_order,
+                   case when not p.sold_by_weight then (v_rules ->> 'max_per_product')::integer end) as max_qty
+    ) l
+   where r.quantity > l.max_qty;
+
+  if v_over is not null then
+    raise exception 'purchase_limit' using detail = v_over::text;
+  end if;
+
+  select sum(case when p.sold_by_weight then 1 else r.quantity end)
+    into v_item_count
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id;
+
+  if v_item_count > (v_rules ->> 'max_items')::integer then
+    raise exception 'too_many_items'
+      using detail = jsonb_build_object('max_items', (v_rules ->> 'max_items')::integer)::text;
+  end if;
+
+  -- 2) reserve stock. Rows are locked in id order so concurrent
+  --    checkouts can't deadlock; a null stock_quantity is untracked.
+  perform 1
+     from products
+    where id in (select (e ->> 'product_id')::uuid from jsonb_array_elements(p_items) e)
+    order by id
+      for update;
+
+  select jsonb_agg(jsonb_build_object(
+           'product_id', p.id,
+           'available',  greatest(p.stock_quantity, 0)
+         ))
+    into v_short
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id
+   where p.stock_quantity is not null and p.stock_quantity < r.quantity;
+
+  if v_short is not null then
+    raise exception 'out_of_stock' using detail = v_short::text;
+  end if;
+
+  update products p
+     set stock_quantity = p.stock_quantity - r.quantity
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+   where p.id = r.product_id and p.stock_quantity is not null;
+
+  -- 3) take the pickup slot: the customer's hold becomes the order's
+  --    place; without one (it lapsed, or a recurring order) a place is
+  --    taken now if one is left
+  v_slot := pickup_slot(p_location_id, v_slot_date, p_slot_time);
+  if v_slot is null or extract(dow from v_slot_date) <> p_slot_day then
+    raise exception 'slot_unavailable';
+  end if;
+
+  perform lock_pickup_slot(p_location_id, v_slot_date, p_slot_time);
+
+  select id into v_place_id
+    from pickup_slot_reservations
+   where user_id = v_user
+     and order_id is null
+     and expires_at > now()
+     and location_id = p_location_id
+     and slot_date = v_slot_date
+     and slot_time = p_slot_time;
+
+  if v_place_id is null then
+    if v_slot ->> 'capacity' is not null
+       and slot_places_taken(p_location_id, v_slot_date, p_slot_time, v_user) >= (v_slot ->> 'capacity')::integer then
+      raise exception 'slot_full';
+    end if;
+    insert into pickup_slot_reservations (location_id, slot_date, slot_time, user_id, expires_at)
+    values (p_location_id, v_slot_date, p_slot_time, v_user, now() + slot_hold_interval())
+    returning id into v_place_id;
+  end if;
+
+  -- 4) create the order and its items, priced by the same engine the
+  --    cart used for its quote
+  -- points are spent in whole reward steps out of what the customer
+  -- holds; the per-user lock keeps two checkouts from spending them twice
+  if v_points <> 0 then
+    select s.* into v_settings
+      from locations l
+      join store_settings s on s.store_id = l.store_id
+     where l.id = p_location_id;
+    if not coalesce(v_settings.loyalty_enabled, false) then
+      raise exception 'loyalty_disabled';
+    end if;
+    perform pg_advisory_xact_lock(hashtext('loyalty:' || v_user::text || v_settings.store_id::text));
+    if v_points < greatest(v_settings.loyalty_min_redeem, v_settings.loyalty_redeem_points)
+       or v_points % v_settings.loyalty_redeem_points <> 0
+       or v_points > user_points(v_user, v_settings.store_id) then
+      raise exception 'invalid_points';
+    end if;
+  end if;
+
+  v_pricing := price_cart(p_location_id, p_items, p_slot_time, p_promo_code, v_points);
+  if v_pricing ->> 'promo_error' is not null then
+    raise exception '%', v_pricing ->> 'promo_error';
+  end if;
+
+  -- the minimum applies to the goods before discounts
+  if (v_pricing ->> 'subtotal')::numeric < (v_rules ->> 'min_subtotal')::numeric then
+    raise exception 'below_minimum'
+      using detail = jsonb_build_object('min_subtotal', (v_rules ->> 'min_subtotal')::numeric)::text;
+  end if;
+
+  -- re-check usage limits under a row lock so two orders cannot both
+  -- take a promotion's last use
+  for v_discount in
+    select d from jsonb_array_elements(v_pricing -> 'discounts') d
+     where d ->> 'promotion_id' is not null
+  loop
+    select * into v_promo
+      from promotions
+     where id = (v_discount ->> 'promotion_id')::uuid
+       for update;
+    v_promo_error := promotion_error(v_promo, v_user, (v_pricing ->> 'subtotal')::numeric);
+    if v_promo_error is not null then
+      raise exception '%', v_promo_error;
+    end if;
+  end loop;
+
+  -- points that would only partly be used are refused rather than lost
+  if v_points > 0 and coalesce((
+    select (d ->> 'amount')::numeric
+      from jsonb_array_elements(v_pricing -> 'discounts') d
+     where d ? 'points'
+  ), 0) < floor(v_points::numeric / v_settings.loyalty_redeem_points) * v_settings.loyalty_redeem_value then
+    raise exception 'invalid_points';
+  end if;
+
+  -- the picker tip sits on top of the priced total. Anything above the
+  -- subtotal is taken to be a mistyped custom amount.
+  v_tip := round(coalesce(p_tip, 0), 2);
+  if v_tip < 0 or v_tip > (v_pricing ->> 'subtotal')::numeric then
+    raise exception 'invalid_tip';
+  end if;
+  if v_tip > 0 and not coalesce((
+    select s.tipping_enabled
+      from locations l
+      join store_settings s on s.store_id = l.store_id
+     where l.id = p_location_id
+  ), false) then
+    raise exception 'tipping_disabled';
+  end if;
+  v_pricing := v_pricing || jsonb_build_object(
+    'tip',   v_tip,
+    'total', (v_pricing ->> 'total')::numeric + v_tip
+  );
+
+  -- split tender: the balance pays first, the card the remainder. The
+  -- per-user lock keeps two checkouts from spending the same balance.
+  if p_use_balance then
+    select store_id into v_store_id from locations where id = p_location_id;
+    perform pg_advisory_xact_lock(hashtext('balance:' || v_user::text || v_store_id::text));
+    v_applied := greatest(least(user_balance(v_user, v_store_id), (v_pricing ->> 'total')::numeric), 0);
+  end if;
+  if (v_pricing ->> 'total')::numeric > v_applied and p_payment_id is null then
+    raise exception 'invalid_payment';
+  end if;
+
+  insert into orders (
+    user_id, location_id, total_amount, service_fee, tax, price_breakdown,
+    discount_amount, discount_lines, customer_note, estimated_total, tip_amount,
+    balance_applied, status, barcode, payment_id, pickup_time, slot_day, slot_time,
+    idempotency_key, created_at
+  ) values (
+    v_user, p_location_id, (v_pricing ->> 'total')::numeric,
+    (v_pricing ->> 'service_fee')::numeric, (v_pricing ->> 'tax')::numeric, v_pricing,
+    (v_pricing ->> 'discount')::numeric, v_pricing -> 'discounts',
+    left(nullif(trim(p_order_note), ''), 500), (v_pricing ->> 'total')::numeric, v_tip,
+    v_applied, 'Pending', gen_random_uuid()::text, p_payment_id, p_pickup_time, p_slot_day, p_slot_time,
+    p_idempotency_key, now()
+  )
+  returning id into v_order_id;
+
+  update pickup_slot_reservations
+     set order_id = v_order_id, expires_at = null
+   where id = v_place_id;
+
+  if v_applied > 0 then
+    insert into balance_ledger (user_id, store_id, amount, kind, order_id)
+    values (v_user, v_store_id, -v_applied, 'order', v_order_id);
+  end if;
+
+  if v_points > 0 then
+    insert into loyalty_ledger (user_id, store_id, points, kind, order_id)
+    values (v_user, v_settings.store_id, -v_points, 'redeemed', v_order_id);
+  end if;
+
+  insert into order_items (
+    order_id, product_id, quantity, unit_price,
+    substitution_preference, preferred_substitute_id, note
+  )
+  select v_order_id, p.id, r.quantity, p.price,
+         coalesce(r.substitution, 'store_choice'),
+         case when r.substitution = 'specific' then alt.id end,
+         left(nullif(trim(r.note), ''), 200)
+    from jsonb_to_recordset(p_items)
+           as r(product_id uuid, quantity numeric, substitution text, substitute_id uuid, note text)
+    join products p on p.id = r.product_id
+    left join products alt
+      on alt.id = r.substitute_id and alt.location_id = p_location_id;
+
+  insert into promotion_redemptions (promotion_id, user_id, order_id, amount)
+  select (d ->> 'promotion_id')::uuid, v_user, v_order_id, (d ->> 'amount')::numeric
+    from jsonb_array_elements(v_pricing -> 'discounts') d
+   where d ->> 'promotion_id' is not null;
+
+  return v_order_id;
+end;
+$$;
+
+revoke execute on function public.place_order_for(uuid, uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text, numeric, boolean, integer, date)
+  from public, anon, authenticated;
+
+create or replace function public.place_order(
+  p_idempotency_key uuid,
+  p_location_id     uuid,
+  p_payment_id      uuid,
+  p_pickup_time     timestamptz,
+  p_slot_day        integer,
+  p_slot_time       text,
+  p_items           jsonb,
+  p_promo_code      text default null,
+  p_order_note      text default null,
+  p_tip             numeric default 0,
+  p_use_balance     boolean default false,
+  p_redeem_points   integer default 0,
+  p_slot_date       date default null
+) returns uuid
+language sql
+security definer
+set search_path = public
+as $$
+  select place_order_for(
+    auth.uid(), p_idempotency_key, p_location_id, p_payment_id, p_pickup_time,
+    p_slot_day, p_slot_time, p_items, p_promo_code, p_order_note, p_tip, p_use_balance,
+    p_redeem_points, p_slot_date
+  );
+$$;
+
+grant execute on function public.place_order(uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text, numeric, boolean, integer, date)
+  to authenticated;
+
+-- lapsed holds no longer count; this only keeps the table small
+select cron.schedule(
+  'expire-slot-holds', '*/15 * * * *',
+  'delete from public.pickup_slot_reservations where order_id is null and expires_at < now()'
+);
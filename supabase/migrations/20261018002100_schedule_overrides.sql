@@ -0,0 +1,213 @@
+-- Date-level pickup schedules. The weekly rows in
+-- `location_pickup_schedules` stay the template; a row in
+-- `location_pickup_overrides` replaces the template for one date at one
+-- location, either closing it (holidays, one-off closures) or offering
+-- its own slots (reduced hours). Every reader of the schedule goes
+-- through `pickup_hours`, so the slot picker, holds, checkout and
+-- recurring orders all see the same day.
+--
+-- Overriding a date doesn't touch orders already placed for it; the
+-- staff functions report how many there are so they can be contacted.
+
+create table if not exists public.location_pickup_overrides (
+  id              uuid primary key default gen_random_uuid(),
+  location_id     uuid not null references public.locations (id) on delete cascade,
+  override_date   date not null,
+  closed          boolean not null default false,
+  available_hours jsonb, -- [{ "time": "HH:MM", "capacity": integer | null }], null when closed
+  reason          text,
+  created_by      uuid references auth.users (id) on delete set null,
+  created_at      timestamptz not null default now(),
+  unique (location_id, override_date),
+  check (closed = (available_hours is null))
+);
+
+alter table public.location_pickup_overrides enable row level security;
+
+-- customers see closures and their reasons in the slot picker; writes
+-- only go through the staff functions below
+create policy "location_pickup_overrides_select" on public.location_pickup_overrides
+  for select using (true);
+
+-- The slots offered at a location on a date: the date's override when
+-- there is one, otherwise the weekly template for its weekday.
+create or replace function public.pickup_hours(
+  p_location_id uuid,
+  p_slot_date   date
+) returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+           (select case when o.closed then '[]'::jsonb else o.available_hours end
+              from location_pickup_overrides o
+             where o.location_id = p_location_id
+               and o.override_date = p_slot_date),
+           (select s.available_hours
+              from location_pickup_schedules s
+             where s.location_id = p_location_id
+               and s.day_of_week = extract(dow from p_slot_date)),
+           '[]'::jsonb);
+$$;
+
+create or replace function public.pickup_slot(
+  p_location_id uuid,
+  p_slot_date   date,
+  p_slot_time   text
+) returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select h
+    from jsonb_array_elements(pickup_hours(p_location_id, p_slot_date)) h
+   where h ->> 'time' = p_slot_time
+   limit 1;
+$$;
+
+create or replace function public.slot_availability(
+  p_location_id uuid,
+  p_slot_date   date
+) returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'time',      h ->> 'time',
+           'capacity',  (h ->> 'capacity')::integer,
+           'remaining', case when h ->> 'capacity' is not null
+                             then greatest((h ->> 'capacity')::integer
+                                    - slot_places_taken(p_location_id, p_slot_date, h ->> 'time', auth.uid()), 0)
+                        end
+         ) order by (h ->> 'time')::time), '[]'::jsonb)
+    from jsonb_array_elements(pickup_hours(p_location_id, p_slot_date)) h;
+$$;
+
+-- The next `p_days` dates from `p_from`, each with whether the location
+-- is closed and why, and whether staff changed the day's hours.
+create or replace function public.pickup_days(
+  p_location_id uuid,
+  p_from        date,
+  p_days        integer default 7
+) returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'date',       d::date,
+           'closed',     jsonb_array_length(pickup_hours(p_location_id, d::date)) = 0,
+           'reason',     o.reason,
+           'overridden', o.id is not null
+         ) order by d), '[]'::jsonb)
+    from generate_series(p_from, p_from + (least(greatest(p_days, 1), 90) - 1), interval '1 day') d
+    left join location_pickup_overrides o
+      on o.location_id = p_location_id
+     and o.override_date = d::date;
+$$;
+
+grant execute on function public.pickup_days(uuid, date, integer) to anon, authenticated;
+
+-- Staff: close a date, or replace its slots, at one location. Returns
+-- how many orders are already booked for the date.
+create or replace function public.set_pickup_override(
+  p_location_id uuid,
+  p_date        date,
+  p_closed      boolean,
+  p_hours       jsonb default null,
+  p_reason      text default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_hours jsonb;
+begin
+  if not exists (select 1 from profiles where id = auth.uid() and role = 'employee') then
+    raise exception 'not_authorized';
+  end if;
+  if not exists (select 1 from locations where id = p_location_id) then
+    raise exception 'location_not_found';
+  end if;
+  if p_date is null or p_date < current_date then
+    raise exception 'invalid_date';
+  end if;
+
+  if not p_closed then
+    if p_hours is null or jsonb_typeof(p_hours) <> 'array' or jsonb_array_length(p_hours) = 0
+       or exists (
+         select 1
+           from jsonb_array_elements(p_hours) h
+          where coalesce(h ->> 'time', '') !~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'
+             or (h ? 'capacity' and jsonb_typeof(h -> 'capacity') not in ('number', 'null'))
+             or coalesce((h ->> 'capacity')::numeric, 0) < 0)
+       or (select count(distinct h ->> 'time') <> count(*) from jsonb_array_elements(p_hours) h)
+    then
+      raise exception 'invalid_hours';
+    end if;
+
+    select jsonb_agg(jsonb_build_object(
+             'time',     h ->> 'time',
+             'capacity', (h ->> 'capacity')::integer
+           ) order by (h ->> 'time')::time)
+      into v_hours
+      from jsonb_array_elements(p_hours) h;
+  end if;
+
+  insert into location_pickup_overrides (
+    location_id, override_date, closed, available_hours, reason, created_by
+  ) values (
+    p_location_id, p_date, p_closed, v_hours, nullif(trim(p_reason), ''), auth.uid()
+  )
+  on conflict (location_id, override_date) do update
+     set closed          = excluded.closed,
+         available_hours = excluded.available_hours,
+         reason          = excluded.reason,
+         created_by      = excluded.created_by,
+         created_at      = now();
+
+  return jsonb_build_object(
+    'booked', (select count(*)
+                 from pickup_slot_reservations
+                where location_id = p_location_id
+                  and slot_date = p_date
+                  and order_id is not null));
+end;
+$$;
+
+grant execute on function public.set_pickup_override(uuid, date, boolean, jsonb, text) to authenticated;
+
+-- Staff: put a date back on its weekly template.
+create or replace function public.clear_pickup_override(
+  p_location_id uuid,
+  p_date        date
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from profiles where id = auth.uid() and role = 'employee') then
+    raise exception 'not_authorized';
+  end if;
+
+  delete from location_pickup_overrides
+   where location_id = p_location_id
+     and override_date = p_date;
+end;
+$$;
+
+grant execute on function public.clear_pickup_override(uuid, date) to authenticated;
+
+-- past overrides no longer change anything
+select cron.schedule(
+  'prune-pickup-overrides', '30 3 * * *',
+  'delete from public.location_pickup_overrides where override_date < current_date - 30'
+);
@@ -0,0 +1,432 @@
+-- Pickup windows no longer have to be an hour long, and the earliest
+-- window a customer can choose reflects how long their cart takes to
+-- prepare. Each location sets its window length and a base lead time;
+-- every unit in the cart adds its product's `variable_prep_time`, or the
+-- location's per-item default when the product has none. Weighed lines
+-- count as one unit, as they do for the item cap.
+--
+-- Orders keep the window length they were placed with, so changing it
+-- later doesn't move existing pickups.
+
+alter table public.locations
+  add column if not exists slot_minutes integer not null default 60
+    check (slot_minutes between 5 and 240),
+  add column if not exists lead_minutes integer not null default 30
+    check (lead_minutes between 0 and 1440),
+  add column if not exists prep_minutes_per_item numeric(6, 2) not null default 0
+    check (prep_minutes_per_item >= 0);
+
+alter table public.products
+  add column if not exists variable_prep_time numeric(6, 2)
+    check (variable_prep_time >= 0); -- minutes per unit; null uses the location's default
+
+alter table public.orders
+  add column if not exists pickup_minutes integer not null default 60;
+
+-- Minutes the location needs before it can hand over these items.
+create or replace function public.pickup_lead_minutes(
+  p_location_id uuid,
+  p_items       jsonb -- [{ "product_id": uuid, "quantity": number }]
+) returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select l.lead_minutes + ceil(coalesce((
+           select sum(case when p.sold_by_weight then 1 else r.quantity end
+                      * coalesce(p.variable_prep_time, l.prep_minutes_per_item))
+             from jsonb_to_recordset(coalesce(p_items, '[]'::jsonb)) as r(product_id uuid, quantity numeric)
+             join products p on p.id = r.product_id and p.location_id = l.id
+         ), 0))::integer
+    from locations l
+   where l.id = p_location_id;
+$$;
+
+-- The window length at a location and the lead time for a cart there.
+create or replace function public.pickup_timing(
+  p_location_id uuid,
+  p_items       jsonb default '[]'::jsonb
+) returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+           'slot_minutes', l.slot_minutes,
+           'lead_minutes', pickup_lead_minutes(l.id, p_items))
+    from locations l
+   where l.id = p_location_id;
+$$;
+
+grant execute on function public.pickup_timing(uuid, jsonb) to anon, authenticated;
+
+-- Staff: a location's window length and lead times.
+create or replace function public.set_pickup_timing(
+  p_location_id           uuid,
+  p_slot_minutes          integer,
+  p_lead_minutes          integer,
+  p_prep_minutes_per_item numeric
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from profiles where id = auth.uid() and role = 'employee') then
+    raise exception 'not_authorized';
+  end if;
+  if p_slot_minutes is null or p_slot_minutes not between 5 and 240
+     or p_lead_minutes is null or p_lead_minutes not between 0 and 1440
+     or p_prep_minutes_per_item is null or p_prep_minutes_per_item < 0 then
+    raise exception 'invalid_timing';
+  end if;
+
+  update locations
+     set slot_minutes          = p_slot_minutes,
+         lead_minutes          = p_lead_minutes,
+         prep_minutes_per_item = p_prep_minutes_per_item
+   where id = p_location_id;
+  if not found then
+    raise exception 'location_not_found';
+  end if;
+end;
+$$;
+
+grant execute on function public.set_pickup_timing(uuid, integer, integer, numeric) to authenticated;
+
+-- Checkout refuses a slot that starts before the cart can be ready, and
+-- records the window length on the order.
+create or replace function public.place_order_for(
+  p_user            uuid,
+  p_idempotency_key uuid,
+  p_location_id     uuid,
+  p_payment_id      uuid,
+  p_pickup_time     timestamptz,
+  p_slot_day        integer,
+  p_slot_time       text,
+  p_items           jsonb, -- [{ "product_id": uuid, "quantity": number, "substitution": text, "substitute_id": uuid, "note": text, "price": number }]
+  p_promo_code      text default null,
+  p_order_note      text default null,
+  p_tip             numeric default 0,
+  p_use_balance     boolean default false,
+  p_redeem_points   integer default 0,
+  p_slot_date       date default null -- defaults to the pickup time's date
+) returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user        uuid := p_user;
+  v_order_id    uuid;
+  v_line_count  integer;
+  v_valid_count integer;
+  v_pricing     jsonb;
+  v_discount    jsonb;
+  v_promo       promotions;
+  v_promo_error text;
+  v_short       jsonb;
+  v_slot        jsonb;
+  v_changed     jsonb;
+  v_tip         numeric(10, 2);
+  v_rules       jsonb;
+  v_over        jsonb;
+  v_item_count  numeric;
+  v_store_id    uuid;
+  v_applied     numeric(10, 2) := 0;
+  v_points      integer := coalesce(p_redeem_points, 0);
+  v_settings    store_settings;
+  v_slot_date   date := coalesce(p_slot_date, p_pickup_time::date);
+  v_place_id    uuid;
+  v_lead        integer;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  -- serialise calls sharing a key so the second one sees the first's order
+  perform pg_advisory_xact_lock(hashtext(v_user::text || p_idempotency_key::text));
+
+  select id into v_order_id
+    from orders
+   where user_id = v_user and idempotency_key = p_idempotency_key;
+  if found then
+    return v_order_id;
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'cart_empty';
+  end if;
+  if p_pickup_time is null or p_pickup_time <= now() then
+    raise exception 'invalid_pickup_time';
+  end if;
+  if p_payment_id is not null
+     and not exists (select 1 from payments where id = p_payment_id and user_id = v_user) then
+    raise exception 'invalid_payment';
+  end if;
+
+  v_rules := coalesce(ordering_rules(p_location_id), '{}'::jsonb);
+  if coalesce((v_rules ->> 'paused')::boolean, false) then
+    raise exception 'orders_paused' using detail = coalesce(v_rules ->> 'paused_message', '');
+  end if;
+
+  -- 1) validate items against the location's catalogue
+  select count(*), count(p.id)
+    into v_line_count, v_valid_count
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    left join products p
+      on p.id = r.product_id and p.location_id = p_location_id
+   where r.quantity > 0
+     -- only weighed products may be ordered in fractions
+     and (coalesce(p.sold_by_weight, false) or r.quantity = trunc(r.quantity));
+
+  if v_line_count <> jsonb_array_length(p_items) then
+    raise exception 'invalid_quantity';
+  end if;
+  if v_valid_count <> v_line_count then
+    raise exception 'items_unavailable';
+  end if;
+
+  -- the customer must have seen each line's current price; lines sent
+  -- without one (recurring orders) take the price as it stands
+  select jsonb_agg(jsonb_build_object('product_id', p.id, 'price', p.price))
+    into v_changed
+    from jsonb_to_recordset(p_items) as r(product_id uuid, price numeric)
+    join products p on p.id = r.product_id
+   where r.price is not null and r.price <> p.price;
+
+  if v_changed is not null then
+    raise exception 'price_changed' using detail = v_changed::text;
+  end if;
+
+  -- per-product purchase limits, then the cap on items per order. The
+  -- store-wide per-product limit only counts units, not weight.
+  select jsonb_agg(jsonb_build_object('product_id', p.id, 'limit', l.max_qty))
+    into v_over
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id
+    cross join lateral (
+      select least(p.max_per_order,
+                   case when not p.sold_by_weight then (v_rules ->> 'max_per_product')::integer end) as max_qty
+    ) l
+   where r.quantity > l.max_qty;
+
+  if v_over is not null then
+    raise exception 'purchase_limit' using detail = v_over::text;
+  end if;
+
+  select sum(case when p.sold_by_weight then 1 else r.quantity end)
+    into v_item_count
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id;
+
+  if v_item_count > (v_rules ->> 'max_items')::integer then
+    raise exception 'too_many_items'
+      using detail = jsonb_build_object('max_items', (v_rules ->> 'max_items')::integer)::text;
+  end if;
+
+  -- the slot must leave the store time to prepare this cart
+  v_lead := pickup_lead_minutes(p_location_id, p_items);
+  if p_pickup_time < now() + make_interval(mins => v_lead) then
+    raise exception 'too_soon'
+      using detail = jsonb_build_object('lead_minutes', v_lead)::text;
+  end if;
+
+  -- 2) reserve stock. Rows are locked in id order so concurrent
+  --    checkouts can't deadlock; a null stock_quantity is untracked.
+  perform 1
+     from products
+    where id in (select (e ->> 'product_id')::uuid from jsonb_array_elements(p_items) e)
+    order by id
+      for update;
+
+  select jsonb_agg(jsonb_build_object(
+           'product_id', p.id,
+           'available',  greatest(p.stock_quantity, 0)
+         ))
+    into v_short
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+    join products p on p.id = r.product_id
+   where p.stock_quantity is not null and p.stock_quantity < r.quantity;
+
+  if v_short is not null then
+    raise exception 'out_of_stock' using detail = v_short::text;
+  end if;
+
+  update products p
+     set stock_quantity = p.stock_quantity - r.quantity
+    from jsonb_to_recordset(p_items) as r(product_id uuid, quantity numeric)
+   where p.id = r.product_id and p.stock_quantity is not null;
+
+  -- 3) take the pickup slot: the customer's hold becomes the order's
+  --    place; without one (it lapsed, or a recurring order) a place is
+  --    taken now if one is left
+  v_slot := pickup_slot(p_location_id, v_slot_date, p_slot_time);
+  if v_slot is null or extract(dow from v_slot_date) <> p_slot_day then
+    raise exception 'slot_unavailable';
+  end if;
+
+  perform lock_pickup_slot(p_location_id, v_slot_date, p_slot_time);
+
+  select id into v_place_id
+    from pickup_slot_reservations
+   where user_id = v_user
+     and order_id is null
+     and expires_at > now()
+     and location_id = p_location_id
+     and slot_date = v_slot_date
+     and slot_time = p_slot_time;
+
+  if v_place_id is null then
+    if v_slot ->> 'capacity' is not null
+       and slot_places_taken(p_location_id, v_slot_date, p_slot_time, v_user) >= (v_slot ->> 'capacity')::integer then
+      raise exception 'slot_full';
+    end if;
+    insert into pickup_slot_reservations (location_id, slot_date, slot_time, user_id, expires_at)
+    values (p_location_id, v_slot_date, p_slot_time, v_user, now() + slot_hold_interval())
+    returning id into v_place_id;
+  end if;
+
+  -- 4) create the order and its items, priced by the same engine the
+  --    cart used for its quote
+  -- points are spent in whole reward steps out of what the customer
+  -- holds; the per-user lock keeps two checkouts from spending them twice
+  if v_points <> 0 then
+    select s.* into v_settings
+      from locations l
+      join store_settings s on s.store_id = l.store_id
+     where l.id = p_location_id;
+    if not coalesce(v_settings.loyalty_enabled, false) then
+      raise exception 'loyalty_disabled';
+    end if;
+    perform pg_advisory_xact_lock(hashtext('loyalty:' || v_user::text || v_settings.store_id::text));
+    if v_points < greatest(v_settings.loyalty_min_redeem, v_settings.loyalty_redeem_points)
+       or v_points % v_settings.loyalty_redeem_points <> 0
+       or v_points > user_points(v_user, v_settings.store_id) then
+      raise exception 'invalid_points';
+    end if;
+  end if;
+
+  v_pricing := price_cart(p_location_id, p_items, p_slot_time, p_promo_code, v_points);
+  if v_pricing ->> 'promo_error' is not null then
+    raise exception '%', v_pricing ->> 'promo_error';
+  end if;
+
+  -- the minimum applies to the goods before discounts
+  if (v_pricing ->> 'subtotal')::numeric < (v_rules ->> 'min_subtotal')::numeric then
+    raise exception 'below_minimum'
+      using detail = jsonb_build_object('min_subtotal', (v_rules ->> 'min_subtotal')::numeric)::text;
+  end if;
+
+  -- re-check usage limits under a row lock so two orders cannot both
+  -- take a promotion's last use
+  for v_discount in
+    select d from jsonb_array_elements(v_pricing -> 'discounts') d
+     where d ->> 'promotion_id' is not null
+  loop
+    select * into v_promo
+      from promotions
+     where id = (v_discount ->> 'promotion_id')::uuid
+       for update;
+    v_promo_error := promotion_error(v_promo, v_user, (v_pricing ->> 'subtotal')::numeric);
+    if v_promo_error is not null then
+      raise exception '%', v_promo_error;
+    end if;
+  end loop;
+
+  -- points that would only partly be used are refused rather than lost
+  if v_points > 0 and coalesce((
+    select (d ->> 'amount')::numeric
+      from jsonb_array_elements(v_pricing -> 'discounts') d
+     where d ? 'points'
+  ), 0) < floor(v_points::numeric / v_settings.loyalty_redeem_points) * v_settings.loyalty_redeem_value then
+    raise exception 'invalid_points';
+  end if;
+
+  -- the picker tip sits on top of the priced total. Anything above the
+  -- subtotal is taken to be a mistyped custom amount.
+  v_tip := round(coalesce(p_tip, 0), 2);
+  if v_tip < 0 or v_tip > (v_pricing ->> 'subtotal')::numeric then
+    raise exception 'invalid_tip';
+  end if;
+  if v_tip > 0 and not coalesce((
+    select s.tipping_enabled
+      from locations l
+      join store_settings s on s.store_id = l.store_id
+     where l.id = p_location_id
+  ), false) then
+    raise exception 'tipping_disabled';
+  end if;
+  v_pricing := v_pricing || jsonb_build_object(
+    'tip',   v_tip,
+    'total', (v_pricing ->> 'total')::numeric + v_tip
+  );
+
+  -- split tender: the balance pays first, the card the remainder. The
+  -- per-user lock keeps two checkouts from spending the same balance.
+  if p_use_balance then
+    select store_id into v_store_id from locations where id = p_location_id;
+    perform pg_advisory_xact_lock(hashtext('balance:' || v_user::text || v_store_id::text));
+    v_applied := greatest(least(user_balance(v_user, v_store_id), (v_pricing ->> 'total')::numeric), 0);
+  end if;
+  if (v_pricing ->> 'total')::numeric > v_applied and p_payment_id is null then
+    raise exception 'invalid_payment';
+  end if;
+
+  insert into orders (
+    user_id, location_id, total_amount, service_fee, tax, price_breakdown,
+    discount_amount, discount_lines, customer_note, estimated_total, tip_amount,
+    balance_applied, status, barcode, payment_id, pickup_time, pickup_minutes, slot_day, slot_time,
+    idempotency_key, created_at
+  ) values (
+    v_user, p_location_id, (v_pricing ->> 'total')::numeric,
+    (v_pricing ->> 'service_fee')::numeric, (v_pricing ->> 'tax')::numeric, v_pricing,
+    (v_pricing ->> 'discount')::numeric, v_pricing -> 'discounts',
+    left(nullif(trim(p_order_note), ''), 500), (v_pricing ->> 'total')::numeric, v_tip,
+    v_applied, 'Pending', gen_random_uuid()::text, p_payment_id, p_pickup_time,
+    (select slot_minutes from locations where id = p_location_id), p_slot_day, p_slot_time,
+    p_idempotency_key, now()
+  )
+  returning id into v_order_id;
+
+  update pickup_slot_reservations
+     set order_id = v_order_id, expires_at = null
+   where id = v_place_id;
+
+  if v_applied > 0 then
+    insert into balance_ledger (user_id, store_id, amount, kind, order_id)
+    values (v_user, v_store_id, -v_applied, 'order', v_order_id);
+  end if;
+
+  if v_points > 0 then
+    insert into loyalty_ledger (user_id, store_id, points, kind, order_id)
+    values (v_user, v_settings.store_id, -v_points, 'redeemed', v_order_id);
+  end if;
+
+  insert into order_items (
+    order_id, product_id, quantity, unit_price,
+    substitution_preference, preferred_substitute_id, note
+  )
+  select v_order_id, p.id, r.quantity, p.price,
+         coalesce(r.substitution, 'store_choice'),
+         case when r.substitution = 'specific' then alt.id end,
+         left(nullif(trim(r.note), ''), 200)
+    from jsonb_to_recordset(p_items)
+           as r(product_id uuid, quantity numeric, substitution text, substitute_id uuid, note text)
+    join products p on p.id = r.product_id
+    left join products alt
+      on alt.id = r.substitute_id and alt.location_id = p_location_id;
+
+  insert into promotion_redemptions (promotion_id, user_id, order_id, amount)
+  select (d ->> 'promotion_id')::uuid, v_user, v_order_id, (d ->> 'amount')::numeric
+    from jsonb_array_elements(v_pricing -> 'discounts') d
+   where d ->> 'promotion_id' is not null;
+
+  return v_order_id;
+end;
+$$;
+
+revoke execute on function public.place_order_for(uuid, uuid, uuid, uuid, timestamptz, integer, text, jsonb, text, text, numeric, boolean, integer, date)
+  from public, anon, authenticated;
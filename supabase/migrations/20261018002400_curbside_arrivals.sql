@@ -0,0 +1,135 @@
+-- Curbside check-in. On pickup day a customer can say they've arrived,
+-- with where they parked, what they're driving and optionally a photo.
+-- Staff see open arrivals as a queue, longest wait first, and mark
+-- each one when someone is on the way out with the order. An arrival
+-- leaves the queue when its order is completed or cancelled.
+
+create table if not exists public.order_arrivals (
+  id            uuid primary key default gen_random_uuid(),
+  order_id      uuid not null unique references public.orders (id) on delete cascade,
+  user_id       uuid not null references auth.users (id) on delete cascade,
+  location_id   uuid not null references public.locations (id) on delete cascade,
+  parking_spot  text not null,
+  vehicle       text,
+  photo_path    text, -- in the arrival-photos bucket
+  arrived_at    timestamptz not null default now(),
+  on_the_way_at timestamptz,
+  on_the_way_by uuid references auth.users (id) on delete set null
+);
+
+create index if not exists order_arrivals_location on public.order_arrivals (location_id, arrived_at);
+
+alter table public.order_arrivals enable row level security;
+
+-- no write policies: arrivals only change through the functions below
+create policy "order_arrivals_owner_select" on public.order_arrivals
+  for select using (auth.uid() = user_id);
+create policy "order_arrivals_employee_select" on public.order_arrivals
+  for select using (exists (select 1 from profiles where id = auth.uid() and role = 'employee'));
+
+-- photos live under the customer's own folder; staff can read them all
+insert into storage.buckets (id, name, public)
+values ('arrival-photos', 'arrival-photos', false)
+on conflict (id) do nothing;
+
+create policy "arrival_photos_owner_insert" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'arrival-photos' and (storage.foldername(name))[1] = auth.uid()::text);
+create policy "arrival_photos_owner_select" on storage.objects
+  for select to authenticated
+  using (bucket_id = 'arrival-photos' and (storage.foldername(name))[1] = auth.uid()::text);
+create policy "arrival_photos_employee_select" on storage.objects
+  for select to authenticated
+  using (bucket_id = 'arrival-photos'
+         and exists (select 1 from profiles where id = auth.uid() and role = 'employee'));
+
+-- Checks the signed-in customer in for their order, or updates where
+-- they are if they already checked in. Only on the order's pickup day,
+-- on the location's clock.
+create or replace function public.check_in_order(
+  p_order_id     uuid,
+  p_parking_spot text,
+  p_vehicle      text default null,
+  p_photo_path   text default null
+) returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user    uuid := auth.uid();
+  v_order   orders;
+  v_arrival order_arrivals;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select * into v_order from orders where id = p_order_id and user_id = v_user;
+  if not found then
+    raise exception 'order_not_found';
+  end if;
+  if v_order.status in ('Completed', 'Cancelled') then
+    raise exception 'order_closed';
+  end if;
+  if (v_order.pickup_time at time zone location_time_zone(v_order.location_id))::date
+       <> location_today(v_order.location_id) then
+    raise exception 'not_pickup_day';
+  end if;
+  if coalesce(trim(p_parking_spot), '') = '' then
+    raise exception 'spot_required';
+  end if;
+  if p_photo_path is not null and split_part(p_photo_path, '/', 1) <> v_user::text then
+    raise exception 'invalid_photo';
+  end if;
+
+  insert into order_arrivals (order_id, user_id, location_id, parking_spot, vehicle, photo_path)
+  values (
+    p_order_id, v_user, v_order.location_id, left(trim(p_parking_spot), 20),
+    left(nullif(trim(p_vehicle), ''), 120), p_photo_path
+  )
+  on conflict (order_id) do update
+     set parking_spot = excluded.parking_spot,
+         vehicle      = excluded.vehicle,
+         photo_path   = coalesce(excluded.photo_path, order_arrivals.photo_path)
+  returning * into v_arrival;
+
+  return v_arrival.arrived_at;
+end;
+$$;
+
+grant execute on function public.check_in_order(uuid, text, text, text) to authenticated;
+
+-- Staff: someone is bringing the order out. Lets the customer know.
+create or replace function public.mark_arrival_on_the_way(p_order_id uuid) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_arrival order_arrivals;
+begin
+  if not exists (select 1 from profiles where id = auth.uid() and role = 'employee') then
+    raise exception 'not_authorized';
+  end if;
+
+  update order_arrivals
+     set on_the_way_at = now(),
+         on_the_way_by = auth.uid()
+   where order_id = p_order_id
+     and on_the_way_at is null
+  returning * into v_arrival;
+
+  if found then
+    perform notify_user(
+      v_arrival.user_id,
+      'On the way out',
+      format('We''re bringing %s out to spot %s now.',
+             (select order_number from orders where id = p_order_id), v_arrival.parking_spot),
+      p_order_id
+    );
+  end if;
+end;
+$$;
+
+grant execute on function public.mark_arrival_on_the_way(uuid) to authenticated;
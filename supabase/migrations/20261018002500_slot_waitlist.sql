@@ -0,0 +1,405 @@
+-- Waitlist for full pickup slots. A customer can queue for a slot with
+-- no places left on a date. When a place frees up (an order is
+-- cancelled, a hold lapses or is let go, or staff raise the slot's
+-- capacity) the longest-waiting customer is given a hold on it for
+-- `waitlist_offer_interval()` and notified. If they don't check out in
+-- time the hold lapses and the place goes to the next in line.
+--
+-- Places are offered straight away from triggers where that's safe;
+-- a sweep every minute catches anything a trigger had to skip.
+
+create table if not exists public.pickup_slot_waitlist (
+  id             uuid primary key default gen_random_uuid(),
+  location_id    uuid not null references public.locations (id) on delete cascade,
+  slot_date      date not null,
+  slot_time      text not null, -- "HH:MM" as in available_hours
+  user_id        uuid not null references auth.users (id) on delete cascade,
+  created_at     timestamptz not null default now(),
+  offered_at     timestamptz,
+  -- the hold given when a place opened; the entry goes with it
+  reservation_id uuid references public.pickup_slot_reservations (id) on delete cascade,
+  unique (location_id, slot_date, slot_time, user_id),
+  check ((offered_at is null) = (reservation_id is null))
+);
+
+create index if not exists pickup_slot_waitlist_slot
+  on public.pickup_slot_waitlist (location_id, slot_date, slot_time, created_at)
+  where offered_at is null;
+
+alter table public.pickup_slot_waitlist enable row level security;
+
+-- no write policies: the waitlist only changes through the functions below
+create policy "pickup_slot_waitlist_owner_select" on public.pickup_slot_waitlist
+  for select using (auth.uid() = user_id);
+create policy "pickup_slot_waitlist_employee_select" on public.pickup_slot_waitlist
+  for select using (exists (select 1 from profiles where id = auth.uid() and role = 'employee'));
+
+create or replace function public.waitlist_offer_interval() returns interval
+language sql immutable as $$ select interval '30 minutes' $$;
+
+-- Like lock_pickup_slot, but gives up instead of waiting.
+create or replace function public.try_lock_pickup_slot(
+  p_location_id uuid,
+  p_slot_date   date,
+  p_slot_time   text
+) returns boolean
+language sql
+as $$
+  select pg_try_advisory_xact_lock(hashtext('slot:' || p_location_id::text || p_slot_date::text || p_slot_time));
+$$;
+
+-- Gives the slot's free places to its waitlist, oldest first: each
+-- customer gets a hold and a notification. Returns how many were
+-- offered. Skips the slot if someone else is taking a place in it; the
+-- sweep comes back to it.
+create or replace function public.offer_waitlisted_places(
+  p_location_id uuid,
+  p_slot_date   date,
+  p_slot_time   text
+) returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_slot    jsonb;
+  v_free    integer;
+  v_entry   pickup_slot_waitlist;
+  v_hold    pickup_slot_reservations;
+  v_zone    text := location_time_zone(p_location_id);
+  v_offered integer := 0;
+begin
+  v_slot := pickup_slot(p_location_id, p_slot_date, p_slot_time);
+  if v_slot is null or slot_starts_at(p_location_id, p_slot_date, p_slot_time) <= now() then
+    return 0;
+  end if;
+  if not try_lock_pickup_slot(p_location_id, p_slot_date, p_slot_time) then
+    return 0;
+  end if;
+
+  -- someone who got a place on their own no longer needs to wait
+  delete from pickup_slot_waitlist w
+   using pickup_slot_reservations r
+   where w.location_id = p_location_id
+     and w.slot_date = p_slot_date
+     and w.slot_time = p_slot_time
+     and w.offered_at is null
+     and r.user_id = w.user_id
+     and r.location_id = w.location_id
+     and r.slot_date = w.slot_date
+     and r.slot_time = w.slot_time
+     and (r.order_id is not null or r.expires_at > now());
+
+  v_free := case when v_slot ->> 'capacity' is not null
+                 then (v_slot ->> 'capacity')::integer
+                      - slot_places_taken(p_location_id, p_slot_date, p_slot_time)
+            end;
+
+  for v_entry in
+    select *
+      from pickup_slot_waitlist
+     where location_id = p_location_id
+       and slot_date = p_slot_date
+       and slot_time = p_slot_time
+       and offered_at is null
+     order by created_at
+     limit greatest(coalesce(v_free, 1000), 0)
+  loop
+    insert into pickup_slot_reservations (location_id, slot_date, slot_time, user_id, expires_at)
+    values (p_location_id, p_slot_date, p_slot_time, v_entry.user_id, now() + waitlist_offer_interval())
+    returning * into v_hold;
+
+    update pickup_slot_waitlist
+       set offered_at = now(),
+           reservation_id = v_hold.id
+     where id = v_entry.id;
+
+    perform notify_user(
+      v_entry.user_id,
+      'A pickup time opened up',
+      format('%s at %s is held for you until %s. Check out before then to keep it.',
+             to_char(p_slot_date, 'FMDay, Mon FMDD'),
+             to_char(p_slot_time::time, 'FMHH12:MI AM'),
+             to_char(v_hold.expires_at at time zone v_zone, 'FMHH12:MI AM'))
+    );
+    v_offered := v_offered + 1;
+  end loop;
+
+  return v_offered;
+end;
+$$;
+
+revoke execute on function public.offer_waitlisted_places(uuid, date, text) from public, anon, authenticated;
+
+-- Tidies the waitlist and offers free places in every slot that has
+-- customers waiting, or only those at `p_location_id`.
+create or replace function public.offer_waitlisted_slots(p_location_id uuid default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_slot    record;
+  v_offered integer := 0;
+begin
+  -- offers that were taken up or have lapsed
+  delete from pickup_slot_waitlist w
+   using pickup_slot_reservations r
+   where r.id = w.reservation_id
+     and (r.order_id is not null or r.expires_at <= now())
+     and (p_location_id is null or w.location_id = p_location_id);
+
+  -- slots that have started
+  delete from pickup_slot_waitlist
+   where (p_location_id is null or location_id = p_location_id)
+     and slot_date <= location_today(location_id)
+     and coalesce(slot_starts_at(location_id, slot_date, slot_time) <= now(), true);
+
+  for v_slot in
+    select distinct location_id, slot_date, slot_time
+      from pickup_slot_waitlist
+     where offered_at is null
+       and (p_location_id is null or location_id = p_location_id)
+  loop
+    v_offered := v_offered
+      + offer_waitlisted_places(v_slot.location_id, v_slot.slot_date, v_slot.slot_time);
+  end loop;
+
+  return v_offered;
+end;
+$$;
+
+revoke execute on function public.offer_waitlisted_slots(uuid) from public, anon, authenticated;
+
+-- A place is freed whenever a reservation goes: a cancelled order, a
+-- lapsed hold being cleared, or a customer choosing another time.
+create or replace function public.offer_freed_place()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform offer_waitlisted_places(old.location_id, old.slot_date, old.slot_time);
+  return null;
+end;
+$$;
+
+drop trigger if exists pickup_slot_reservations_offer_freed on public.pickup_slot_reservations;
+create trigger pickup_slot_reservations_offer_freed
+  after delete on public.pickup_slot_reservations
+  for each row execute function public.offer_freed_place();
+
+-- Changed hours or capacities, weekly or for a date, can open places.
+create or replace function public.offer_places_after_schedule_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform offer_waitlisted_slots(coalesce(new.location_id, old.location_id));
+  return null;
+end;
+$$;
+
+drop trigger if exists location_pickup_schedules_offer_places on public.location_pickup_schedules;
+create trigger location_pickup_schedules_offer_places
+  after insert or update on public.location_pickup_schedules
+  for each row execute function public.offer_places_after_schedule_change();
+
+drop trigger if exists location_pickup_overrides_offer_places on public.location_pickup_overrides;
+create trigger location_pickup_overrides_offer_places
+  after insert or update or delete on public.location_pickup_overrides
+  for each row execute function public.offer_places_after_schedule_change();
+
+-- Puts the signed-in customer on a full slot's waitlist. Returns their
+-- place in line.
+create or replace function public.join_pickup_waitlist(
+  p_location_id uuid,
+  p_slot_date   date,
+  p_slot_time   text
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user  uuid := auth.uid();
+  v_slot  jsonb;
+  v_entry pickup_slot_waitlist;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+  if p_slot_date is null
+     or p_slot_date < location_today(p_location_id)
+     or slot_starts_at(p_location_id, p_slot_date, p_slot_time) <= now() then
+    raise exception 'invalid_pickup_time';
+  end if;
+
+  v_slot := pickup_slot(p_location_id, p_slot_date, p_slot_time);
+  if v_slot is null then
+    raise exception 'slot_unavailable';
+  end if;
+
+  perform lock_pickup_slot(p_location_id, p_slot_date, p_slot_time);
+
+  if v_slot ->> 'capacity' is null
+     or slot_places_taken(p_location_id, p_slot_date, p_slot_time, v_user) < (v_slot ->> 'capacity')::integer then
+    raise exception 'slot_not_full';
+  end if;
+
+  insert into pickup_slot_waitlist (location_id, slot_date, slot_time, user_id)
+  values (p_location_id, p_slot_date, p_slot_time, v_user)
+  on conflict (location_id, slot_date, slot_time, user_id) do nothing;
+
+  select * into v_entry
+    from pickup_slot_waitlist
+   where location_id = p_location_id
+     and slot_date = p_slot_date
+     and slot_time = p_slot_time
+     and user_id = v_user;
+
+  return jsonb_build_object(
+    'position', (select count(*)
+                   from pickup_slot_waitlist
+                  where location_id = p_location_id
+                    and slot_date = p_slot_date
+                    and slot_time = p_slot_time
+                    and offered_at is null
+                    and created_at <= v_entry.created_at)
+  );
+end;
+$$;
+
+grant execute on function public.join_pickup_waitlist(uuid, date, text) to authenticated;
+
+-- Takes the signed-in customer off a slot's waitlist. A hold they were
+-- offered is let go, so it passes to the next in line.
+create or replace function public.leave_pickup_waitlist(
+  p_location_id uuid,
+  p_slot_date   date,
+  p_slot_time   text
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_entry pickup_slot_waitlist;
+begin
+  delete from pickup_slot_waitlist
+   where location_id = p_location_id
+     and slot_date = p_slot_date
+     and slot_time = p_slot_time
+     and user_id = auth.uid()
+  returning * into v_entry;
+
+  if v_entry.reservation_id is not null then
+    delete from pickup_slot_reservations
+     where id = v_entry.reservation_id
+       and order_id is null;
+  end if;
+end;
+$$;
+
+grant execute on function public.leave_pickup_waitlist(uuid, date, text) to authenticated;
+
+-- The signed-in customer's waitlist entries at a location on a date:
+-- their place in line while waiting, or when the hold they were
+-- offered lapses.
+create or replace function public.pickup_waitlist(
+  p_location_id uuid,
+  p_slot_date   date
+) returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'time',            w.slot_time,
+           'position',        case when w.offered_at is null then (
+                                select count(*)
+                                  from pickup_slot_waitlist o
+                                 where o.location_id = w.location_id
+                                   and o.slot_date = w.slot_date
+                                   and o.slot_time = w.slot_time
+                                   and o.offered_at is null
+                                   and o.created_at <= w.created_at)
+                              end,
+           'hold_expires_at', r.expires_at
+         ) order by w.slot_time), '[]'::jsonb)
+    from pickup_slot_waitlist w
+    left join pickup_slot_reservations r on r.id = w.reservation_id
+   where w.location_id = p_location_id
+     and w.slot_date = p_slot_date
+     and w.user_id = auth.uid()
+     and (w.offered_at is null or (r.order_id is null and r.expires_at > now()));
+$$;
+
+grant execute on function public.pickup_waitlist(uuid, date) to authenticated;
+
+-- Renewing a hold never shortens it, so choosing a time a customer was
+-- offered from the waitlist keeps the rest of their offer.
+create or replace function public.hold_pickup_slot(
+  p_location_id uuid,
+  p_slot_date   date,
+  p_slot_time   text
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_slot jsonb;
+  v_hold pickup_slot_reservations;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+  if p_slot_date is null or p_slot_date < location_today(p_location_id) then
+    raise exception 'invalid_pickup_time';
+  end if;
+
+  v_slot := pickup_slot(p_location_id, p_slot_date, p_slot_time);
+  if v_slot is null then
+    raise exception 'slot_unavailable';
+  end if;
+
+  perform lock_pickup_slot(p_location_id, p_slot_date, p_slot_time);
+
+  delete from pickup_slot_reservations
+   where user_id = v_user
+     and order_id is null
+     and (location_id, slot_date, slot_time) is distinct from (p_location_id, p_slot_date, p_slot_time);
+
+  if v_slot ->> 'capacity' is not null
+     and slot_places_taken(p_location_id, p_slot_date, p_slot_time, v_user) >= (v_slot ->> 'capacity')::integer then
+    raise exception 'slot_full';
+  end if;
+
+  update pickup_slot_reservations
+     set expires_at = greatest(expires_at, now() + slot_hold_interval())
+   where user_id = v_user
+     and order_id is null
+     and location_id = p_location_id
+     and slot_date = p_slot_date
+     and slot_time = p_slot_time
+  returning * into v_hold;
+
+  if not found then
+    insert into pickup_slot_reservations (location_id, slot_date, slot_time, user_id, expires_at)
+    values (p_location_id, p_slot_date, p_slot_time, v_user, now() + slot_hold_interval())
+    returning * into v_hold;
+  end if;
+
+  return jsonb_build_object('id', v_hold.id, 'expires_at', v_hold.expires_at);
+end;
+$$;
+
+-- lapsed offers pass to the next in line even when nothing else changes
+select cron.schedule('offer-waitlisted-slots', '* * * * *', 'select public.offer_waitlisted_slots()');